@@ -1,142 +1,448 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Employee, ClockType, StoredClockEvent } from './types';
-import { ADMIN_USER } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Employee, EmployeeSession, ClockType, ClockEvent, StoredClockEvent, PayRules, Holiday, TimeBankEntry, ScheduleRules, Leave, Manager, PunchLocation, PunchResult } from './types';
 import LoginScreen from './components/LoginScreen';
+import ManagerLoginScreen from './components/ManagerLoginScreen';
 import ClockScreen from './components/ClockScreen';
+import DeviceEnrollmentScreen from './components/DeviceEnrollmentScreen';
+import EmployeePortalLoginScreen from './components/EmployeePortalLoginScreen';
+import EmployeePortal from './components/EmployeePortal';
+import AdjustmentRequestForm from './components/AdjustmentRequestForm';
+import ReceiptVerificationScreen from './components/ReceiptVerificationScreen';
 import AdminDashboard from './components/AdminDashboard';
 import { supabase } from './lib/supabase';
+import { repositories } from './lib/repository';
+import { addDaysToKey, eventTimeZone, setTimeZone, startOfZonedDay, todayKey } from './lib/dateTime';
+import { measureClockDrift } from './lib/serverClock';
+import { EMPTY_PAY_RULES, resolvePayProfile } from './lib/payProfiles';
+import { buildTimeBankLedger, fetchTimeBankEntries } from './lib/timeBank';
+import { EMPTY_SCHEDULE_RULES, fetchScheduleRules, getScheduledShiftEnd } from './lib/schedules';
+import { fetchLeaves } from './lib/leaves';
+import { isPunchSequenceError } from './lib/punchSequence';
+import { isDuplicatePunchError } from './lib/duplicatePunches';
+import { DEFAULT_SETTINGS } from './lib/settings';
+import { onlyDigits } from './lib/documents';
+import { getDeviceToken, setDeviceToken } from './lib/kiosk';
+import { checkDevice, isDeviceUnauthorizedError } from './lib/devices';
+import { cacheGet, cacheSet, listQueuedPunches } from './lib/offlineStore';
+import type { QueuedPunch } from './lib/offlineStore';
+import { isNetworkError, queueOfflinePunch, syncQueuedPunches } from './lib/offline';
+import { attachPunchPhoto } from './lib/photoStorage';
+import { buildReceipt, RECEIPT_QUERY_PARAM } from './lib/receipts';
+import { suggestMissingPunch } from './lib/adjustmentRequests';
+import { closeOpenShift, getMaxShiftMs, setShiftPolicy } from './lib/shiftPolicy';
+import type { OpenShift } from './lib/shiftPolicy';
+import SyncIndicator from './components/SyncIndicator';
+import type { AppSettings } from './lib/settings';
+
+// Batidas guardadas no cache offline do quiosque (suficiente para a tela do funcionário e a checagem de pendências)
+const OFFLINE_CACHE_DAYS = 35;
+
+// Link do QR code do comprovante: abre a verificação pública em vez do quiosque
+const receiptHashToVerify = new URLSearchParams(window.location.search).get(RECEIPT_QUERY_PARAM);
+
+// Batida da fila offline exibida junto com as do banco até ser sincronizada
+const toPendingEvent = (punch: QueuedPunch): StoredClockEvent => ({
+  id: -punch.sequence,
+  employeeId: punch.employeeId,
+  employeeName: punch.employeeName,
+  type: punch.type as ClockType,
+  timestamp: punch.timestamp,
+  source: 'offline',
+  clientTimestamp: punch.clientTimestamp,
+  pendingSync: true,
+});
+
+const byTimestamp = (a: StoredClockEvent, b: StoredClockEvent) => a.timestamp.getTime() - b.timestamp.getTime();
+
+// Falha ao gravar o cache offline não deve interromper o app
+const saveToCache = (key: string, value: unknown) => {
+  cacheSet(key, value).catch(error => console.error("Erro ao gravar cache offline:", error));
+};
 
 const App: React.FC = () => {
   const [loggedInEmployee, setLoggedInEmployee] = useState<Employee | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [manager, setManager] = useState<Manager | null>(null);
+  const [showManagerLogin, setShowManagerLogin] = useState(false);
+  const [showPortalLogin, setShowPortalLogin] = useState(false);
+  const [portalEmployee, setPortalEmployee] = useState<Employee | null>(null);
+  // Solicitação de ajuste aberta pelo quiosque quando o funcionário tem batida pendente
+  // continueToClock: turno aberto declarado pelo próprio funcionário, que segue para o ponto depois de enviar
+  const [adjustmentRequestFor, setAdjustmentRequestFor] = useState<{ employee: Employee; lastEvent?: StoredClockEvent; continueToClock?: boolean } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const [employees, setEmployees] = useState<Employee[]>([]);
-  const [allEvents, setAllEvents] = useState<StoredClockEvent[]>([]);
+  const [allEvents, setAllEvents] = useState<StoredClockEvent[]>([]); // Só para o painel do gestor
+  // Batidas do funcionário identificado no quiosque ou na área do funcionário, lidas pela sessão do PIN
+  const [sessionEvents, setSessionEvents] = useState<StoredClockEvent[]>([]);
+  const sessionTokenRef = useRef<string | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [clockDriftMs, setClockDriftMs] = useState<number | null>(null);
+  const [payRules, setPayRules] = useState<PayRules>(EMPTY_PAY_RULES);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [timeBankEntries, setTimeBankEntries] = useState<TimeBankEntry[]>([]);
+  const [scheduleRules, setScheduleRules] = useState<ScheduleRules>(EMPTY_SCHEDULE_RULES);
+  const [leaves, setLeaves] = useState<Leave[]>([]);
+  const [queuedPunches, setQueuedPunches] = useState<QueuedPunch[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Só quiosques cadastrados registram batidas (lib/devices.ts)
+  // Sem as funções do Supabase (backend de demonstração) não há cadastro de dispositivos
+  const [isDeviceEnrolled, setIsDeviceEnrolled] = useState(() => !repositories.supportsServerFeatures || !!getDeviceToken());
+  const isSyncing = useRef(false);
+
+  // Função para buscar as configurações da instalação (fuso horário etc.)
+  const loadSettings = useCallback(async () => {
+    try {
+      const loaded = await repositories.settings.load();
+      setTimeZone(loaded.timeZone);
+      setShiftPolicy(loaded);
+      setSettings(loaded);
+      saveToCache('settings', loaded);
+    } catch (error) {
+      console.error("Erro ao carregar configurações:", error);
+      const cached = await cacheGet<AppSettings>('settings').catch(() => undefined);
+      setTimeZone(cached?.timeZone || DEFAULT_SETTINGS.timeZone);
+      setShiftPolicy({ ...DEFAULT_SETTINGS, ...cached });
+      if (cached) setSettings({ ...DEFAULT_SETTINGS, ...cached });
+    }
+  }, []);
 
-  // Função para buscar funcionários do Supabase
+  // Função para buscar funcionários (só o gestor lê o cadastro completo)
   const fetchEmployees = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('ponto_employees')
-        .select('*')
-        .order('id', { ascending: true });
-        
-      if (error) throw error;
-      setEmployees(data || []);
+      setEmployees(await repositories.employees.list());
     } catch (error) {
       console.error("Erro ao carregar funcionários:", error);
     }
   }, []);
 
-  // Função para buscar eventos do Supabase (com paginação para buscar mais de 1000 registros)
+  // Função para buscar todos os eventos (só o gestor lê ponto_events)
   const fetchEvents = useCallback(async () => {
     try {
-      let allFetchedData: any[] = [];
-      let page = 0;
-      const pageSize = 1000;
-      let hasMore = true;
-
-      while (hasMore) {
-        const { data, error } = await supabase
-          .from('ponto_events')
-          .select('*')
-          .order('timestamp', { ascending: true })
-          .range(page * pageSize, (page + 1) * pageSize - 1);
-          
-        if (error) throw error;
-        
-        if (data && data.length > 0) {
-          allFetchedData = [...allFetchedData, ...data];
-          if (data.length < pageSize) {
-            hasMore = false;
-          } else {
-            page++;
-          }
-        } else {
-          hasMore = false;
-        }
-      }
-      
-      const eventsWithDates = allFetchedData.map((event: any) => ({
-        id: event.id,
-        employeeId: event.employee_id,
-        employeeName: event.employee_name,
-        type: event.type,
-        timestamp: new Date(event.timestamp)
-      }));
-      setAllEvents(eventsWithDates);
+      setAllEvents(await repositories.events.list());
     } catch (error) {
       console.error("Erro ao carregar eventos:", error);
     }
   }, []);
 
+  // Cadastro e batidas do funcionário que digitou o PIN, pela sessão aberta no banco. Sem conexão, ou sem
+  // sessão na conferência offline do PIN, valem os últimos recebidos neste quiosque para ele (o cadastro
+  // guardado leva só o que a tela de ponto usa). null se o quiosque nunca recebeu os dados dele.
+  const openEmployeeSession = useCallback(async (employeeId: number, sessionToken: string | null): Promise<EmployeeSession | null> => {
+    let session: EmployeeSession | undefined;
+    if (sessionToken) {
+      try {
+        const [employee, events] = await Promise.all([
+          repositories.employees.getForSession(sessionToken),
+          repositories.events.listForSession(sessionToken),
+        ]);
+        session = { employee, events };
+        const cacheFrom = startOfZonedDay(addDaysToKey(todayKey(), -OFFLINE_CACHE_DAYS)).getTime();
+        const { id, name, phone, funcao, restWeekday } = employee;
+        saveToCache(`employee:${employeeId}`, { id, name, phone, funcao, restWeekday });
+        saveToCache(`events:${employeeId}`, events.filter(event => event.timestamp.getTime() >= cacheFrom));
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.error("Erro ao carregar dados do funcionário:", error);
+      }
+    }
+    if (!session) {
+      const employee = await cacheGet<Employee>(`employee:${employeeId}`).catch(() => undefined);
+      if (!employee) return null;
+      session = { employee, events: (await cacheGet<StoredClockEvent[]>(`events:${employeeId}`).catch(() => undefined)) || [] };
+    }
+    sessionTokenRef.current = sessionToken;
+    setSessionEvents(session.events);
+    return session;
+  }, []);
+
+  // Função para buscar os perfis de remuneração e suas atribuições
+  const loadPayRules = useCallback(async () => {
+    try {
+      setPayRules(await repositories.payRules.load());
+    } catch (error) {
+      console.error("Erro ao carregar perfis de remuneração:", error);
+    }
+  }, []);
+
+  // Função para buscar os feriados cadastrados (os nacionais são gerados em lib/holidays)
+  const loadHolidays = useCallback(async () => {
+    try {
+      setHolidays(await repositories.holidays.list());
+    } catch (error) {
+      console.error("Erro ao carregar feriados:", error);
+    }
+  }, []);
+
+  // Função para buscar os lançamentos manuais do banco de horas (banco de horas, escalas e afastamentos
+  // só existem no Supabase)
+  const loadTimeBankEntries = useCallback(async () => {
+    if (!repositories.supportsServerFeatures) return;
+    try {
+      setTimeBankEntries(await fetchTimeBankEntries());
+    } catch (error) {
+      console.error("Erro ao carregar banco de horas:", error);
+    }
+  }, []);
+
+  // Função para buscar as escalas de trabalho e suas atribuições
+  const loadScheduleRules = useCallback(async () => {
+    if (!repositories.supportsServerFeatures) return;
+    try {
+      setScheduleRules(await fetchScheduleRules());
+    } catch (error) {
+      console.error("Erro ao carregar escalas:", error);
+    }
+  }, []);
+
+  // Função para buscar férias, atestados, faltas e folgas registrados
+  const loadLeaves = useCallback(async () => {
+    if (!repositories.supportsServerFeatures) return;
+    try {
+      setLeaves(await fetchLeaves());
+    } catch (error) {
+      console.error("Erro ao carregar afastamentos:", error);
+    }
+  }, []);
+
+  // Restaura a sessão do gestor (login por e-mail e senha) ao abrir o app
+  const loadManager = useCallback(async (): Promise<Manager | null> => {
+    try {
+      const restored = await repositories.managers.current();
+      setManager(restored);
+      return restored;
+    } catch (error) {
+      console.error("Erro ao carregar sessão do gestor:", error);
+      return null;
+    }
+  }, []);
+
+  // Sessão do Supabase Auth encerrada ou expirada: volta ao quiosque
+  useEffect(() => {
+    if (!repositories.supportsServerFeatures) return;
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') setManager(null);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
   // Carrega os dados ao iniciar
   useEffect(() => {
     const loadData = async () => {
-      await Promise.all([fetchEmployees(), fetchEvents()]);
+      const [, restoredManager] = await Promise.all([loadSettings(), loadManager(), loadPayRules(), loadHolidays(), loadTimeBankEntries(), loadScheduleRules(), loadLeaves()]);
+      if (restoredManager) await Promise.all([fetchEmployees(), fetchEvents()]);
       setIsLoading(false);
     };
     loadData();
-  }, [fetchEmployees, fetchEvents]);
+  }, [loadSettings, loadManager, fetchEmployees, fetchEvents, loadPayRules, loadHolidays, loadTimeBankEntries, loadScheduleRules, loadLeaves]);
 
-  // Supabase Real-time para manter os dados atualizados sem o polling de 5 segundos que causava erro de cota
+  // Confere ao abrir se este quiosque continua autorizado (sem conexão, mantém o cadastro local)
   useEffect(() => {
-    if (isLoading) return;
+    if (!repositories.supportsServerFeatures) return;
+    checkDevice()
+      .then(setIsDeviceEnrolled)
+      .catch(error => console.error("Erro ao conferir cadastro do dispositivo:", error));
+  }, []);
 
-    const channel = supabase.channel('ponto_realtime')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'ponto_events' }, () => {
-        fetchEvents();
-      })
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'ponto_employees' }, () => {
-        fetchEmployees();
-      })
-      .subscribe();
+  // Mede a diferença entre o relógio do dispositivo e o do servidor (repetido a cada 5 minutos)
+  useEffect(() => {
+    if (!repositories.supportsServerFeatures) return;
+    const checkDrift = async () => {
+      try {
+        setClockDriftMs(await measureClockDrift());
+      } catch (error) {
+        console.error("Erro ao consultar horário do servidor:", error);
+      }
+    };
+    checkDrift();
+    const intervalId = setInterval(checkDrift, 5 * 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, []);
 
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueuedPunches(await listQueuedPunches());
+    } catch (error) {
+      console.error("Erro ao ler fila offline:", error);
+    }
+  }, []);
+
+  // Envia as batidas feitas sem conexão assim que possível
+  const syncQueue = useCallback(async () => {
+    if (isSyncing.current) return;
+    isSyncing.current = true;
+    try {
+      const summary = await syncQueuedPunches(getDeviceToken());
+      if (manager && summary.synced + summary.duplicates + summary.conflicts > 0) {
+        await fetchEvents();
+      }
+    } catch (error) {
+      console.error("Erro ao sincronizar batidas offline:", error);
+    } finally {
+      await refreshQueue();
+      isSyncing.current = false;
+    }
+  }, [manager, fetchEvents, refreshQueue]);
+
+  useEffect(() => {
+    if (!repositories.supportsServerFeatures) return;
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // navigator.onLine não detecta servidor inacessível, então também tentamos periodicamente
+    syncQueue();
+    const intervalId = setInterval(syncQueue, 60 * 1000);
     return () => {
-      supabase.removeChannel(channel);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(intervalId);
     };
-  }, [isLoading, fetchEvents, fetchEmployees]);
+  }, [syncQueue]);
+
+  // Alterações feitas em outros aparelhos (tempo real no Supabase)
+  useEffect(() => {
+    if (isLoading) return;
+
+    return repositories.subscribe(table => {
+      if (!manager) return;
+      if (table === 'employees') fetchEmployees();
+      else fetchEvents();
+    });
+  }, [isLoading, manager, fetchEvents, fetchEmployees]);
 
   const handleLogin = (employee: Employee) => {
-    if (employee.id === ADMIN_USER.id) {
-      setIsAdmin(true);
-    }
     setLoggedInEmployee(employee);
   };
 
+  const clearEmployeeSession = useCallback(() => {
+    sessionTokenRef.current = null;
+    setSessionEvents([]);
+  }, []);
+
   const handleLogout = () => {
     setLoggedInEmployee(null);
-    setIsAdmin(false);
+    clearEmployeeSession();
   };
 
-  const handleAddEvent = async (type: ClockType) => {
-    if (!loggedInEmployee) return;
+  const handlePortalLogin = async (employeeId: number, sessionToken: string) => {
+    const session = await openEmployeeSession(employeeId, sessionToken);
+    if (!session) throw new Error('Dados do funcionário indisponíveis');
+    setShowPortalLogin(false);
+    setPortalEmployee(session.employee);
+  };
 
+  const handlePortalLogout = useCallback(() => {
+    setPortalEmployee(null);
+    clearEmployeeSession();
+  }, [clearEmployeeSession]);
+
+  const handleRequestAdjustment = useCallback((employee: Employee, lastEvent?: StoredClockEvent, continueToClock?: boolean) => {
+    setAdjustmentRequestFor({ employee, lastEvent, continueToClock });
+  }, []);
+
+  const handleAdjustmentSubmitted = () => {
+    if (adjustmentRequestFor?.continueToClock) setLoggedInEmployee(adjustmentRequestFor.employee);
+    setAdjustmentRequestFor(null);
+  };
+
+  // Token revogado ou inexistente no banco: volta à tela de cadastro do quiosque
+  const handleDeviceUnauthorized = useCallback(() => {
+    setDeviceToken(null);
+    setIsDeviceEnrolled(false);
+    setLoggedInEmployee(null);
+    setShowPortalLogin(false);
+    setPortalEmployee(null);
+    setAdjustmentRequestFor(null);
+    clearEmployeeSession();
+  }, [clearEmployeeSession]);
+
+  // Política auto_close: Saída no fim da escala do dia da Entrada, calculada e gravada pelo banco.
+  // A escala local só evita a chamada quando não há como fechar. null se não houver escala ou não der para gravar
+  const handleCloseOpenShift = useCallback(async (employee: Employee, openShift: OpenShift): Promise<Date | null> => {
+    if (!repositories.supportsServerFeatures) return null;
+    const end = getScheduledShiftEnd(scheduleRules, employee.id, openShift.entry.timestamp, eventTimeZone(openShift.entry));
+    if (!end || end <= openShift.lastEvent.timestamp || end.getTime() > Date.now()
+      || end.getTime() > openShift.entry.timestamp.getTime() + getMaxShiftMs()) {
+      return null;
+    }
     try {
-      // Usar horário local do dispositivo (código original que funcionava perfeitamente com a lógica de fuso horário local)
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const day = String(now.getDate()).padStart(2, '0');
-      const hours = String(now.getHours()).padStart(2, '0');
-      const minutes = String(now.getMinutes()).padStart(2, '0');
-      const seconds = String(now.getSeconds()).padStart(2, '0');
-      const localTimestamp = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}.000Z`;
-
-      const { error } = await supabase.from('ponto_events').insert([{
-        employee_id: loggedInEmployee.id,
-        employee_name: loggedInEmployee.name,
-        type,
-        timestamp: localTimestamp,
-      }]);
+      const closedAt = await closeOpenShift(employee.id);
+      await openEmployeeSession(employee.id, sessionTokenRef.current);
+      return closedAt;
+    } catch (error) {
+      if (isDeviceUnauthorizedError(error)) handleDeviceUnauthorized();
+      console.error("Erro ao fechar turno aberto:", error);
+      return null;
+    }
+  }, [scheduleRules, openEmployeeSession, handleDeviceUnauthorized]);
+
+  // Login no quiosque: as batidas do funcionário vêm com as dele que ainda estão na fila offline
+  const handleOpenKioskSession = useCallback(async (employeeId: number, sessionToken: string | null): Promise<EmployeeSession | null> => {
+    const session = await openEmployeeSession(employeeId, sessionToken);
+    if (!session) return null;
+    const pending = queuedPunches.filter(punch => punch.employeeId === employeeId).map(toPendingEvent);
+    return { ...session, events: [...session.events, ...pending].sort(byTimestamp) };
+  }, [openEmployeeSession, queuedPunches]);
+
+  const handleManagerLogin = (signedInManager: Manager) => {
+    setShowManagerLogin(false);
+    setManager(signedInManager);
+    fetchEmployees();
+    fetchEvents();
+  };
 
-      if (error) throw error;
-      // Não é mais necessário chamar fetchEvents manualmente pois o Real-time cuidará disso, mas chamamos para ser imediato
-      await fetchEvents();
+  const handleManagerLogout = async () => {
+    try {
+      await repositories.managers.signOut();
     } catch (error) {
-      console.error("Erro ao adicionar evento:", error);
-      throw error;
+      console.error("Erro ao encerrar sessão:", error);
+    }
+    setManager(null);
+    setEmployees([]);
+    setAllEvents([]);
+  };
+
+  const handleAddEvent = async (type: ClockType, photo: Blob | null, location: PunchLocation | null, idempotencyKey: string): Promise<PunchResult> => {
+    if (!loggedInEmployee) throw new Error('Nenhum funcionário identificado');
+
+    try {
+      const punch = await repositories.events.registerPunch({
+        employee: loggedInEmployee,
+        type,
+        clientTimestamp: new Date(),
+        location,
+        idempotencyKey,
+        deviceToken: getDeviceToken(),
+        sessionToken: sessionTokenRef.current,
+      });
+
+      if (photo && repositories.supportsServerFeatures) {
+        // A batida já está gravada: uma falha no envio da foto não a desfaz
+        try {
+          await attachPunchPhoto(loggedInEmployee.id, photo, { eventId: punch.event.id });
+        } catch (photoError) {
+          console.error("Erro ao enviar foto da batida:", photoError);
+        }
+      }
+      setSessionEvents(current => [...current, punch.event]);
+      return { status: 'registered', receipt: buildReceipt(punch, loggedInEmployee, settings) };
+    } catch (error) {
+      if (isDeviceUnauthorizedError(error)) handleDeviceUnauthorized();
+      if (isDuplicatePunchError(error)) {
+        throw new Error(`${type} já registrada há menos de 1 minuto. Confira o último registro antes de tentar de novo.`);
+      }
+      if (!isNetworkError(error) || !repositories.supportsServerFeatures) {
+        console.error("Erro ao adicionar evento:", error);
+        throw error;
+      }
+      // Sem conexão: a batida fica na fila do quiosque com o horário do dispositivo
+      await queueOfflinePunch(loggedInEmployee, type, clockDriftMs, photo, location, idempotencyKey);
+      await refreshQueue();
+      return { status: 'queued' };
     }
   };
 
@@ -164,7 +470,7 @@ const App: React.FC = () => {
     }
   };
 
-  const handleAddManualEvent = async (details: { employeeId: number; type: ClockType; timestamp: Date; }): Promise<boolean> => {
+  const handleAddManualEvent = async (details: { employeeId: number; type: ClockType; timestamp: Date; reason: string; }): Promise<boolean> => {
     const employee = employees.find(e => e.id === details.employeeId);
     if (!employee) {
       console.error("Funcionário não encontrado para adicionar evento manual");
@@ -172,120 +478,101 @@ const App: React.FC = () => {
     }
 
     try {
-      // Converter horário local de Brasília para UTC mantendo os mesmos números
-      const localDate = details.timestamp;
-      const year = localDate.getFullYear();
-      const month = String(localDate.getMonth() + 1).padStart(2, '0');
-      const day = String(localDate.getDate()).padStart(2, '0');
-      const hours = String(localDate.getHours()).padStart(2, '0');
-      const minutes = String(localDate.getMinutes()).padStart(2, '0');
-      const seconds = String(localDate.getSeconds()).padStart(2, '0');
-      const utcTimestamp = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}.000Z`;
-
-      const { error } = await supabase.from('ponto_events').insert([{
-        employee_id: employee.id,
-        employee_name: employee.name,
-        type: details.type,
-        timestamp: utcTimestamp,
-      }]);
-
-      if (error) {
-        console.error('[handleAddManualEvent] Erro da API:', error);
-        return false;
-      }
-      
+      // details.timestamp já é o instante real (convertido do fuso da empresa no formulário)
+      await repositories.events.insertManual(employee.id, details.type, details.timestamp, details.reason);
       setTimeout(() => fetchEvents(), 500);
       return true;
-    } catch (error) {
+    } catch (error: any) {
       console.error("Erro ao adicionar evento manual:", error);
+      if (isPunchSequenceError(error)) alert(`Batida fora de sequência: ${error.message}`);
+      if (isDuplicatePunchError(error)) alert(`Batida duplicada: ${error.message}`);
       return false;
     }
   };
 
-  const handleDeleteEvent = async (eventId: number) => {
+  const handleAddManualBreak = async (details: { employeeId: number; start: Date; end: Date; reason: string; }): Promise<boolean> => {
     try {
-      const { error } = await supabase.from('ponto_events').delete().eq('id', eventId);
-      
-      if (error) {
-        alert(`Erro ao deletar: ${error.message || 'Erro desconhecido'}`);
-      } else {
-        await fetchEvents();
-      }
-    } catch (error) {
+      await repositories.events.insertManualBreak(details.employeeId, details.start, details.end, details.reason);
+      await fetchEvents();
+      return true;
+    } catch (error: any) {
+      console.error("Erro ao adicionar intervalo:", error);
+      if (isPunchSequenceError(error)) alert(`Intervalo fora de sequência: ${error.message}`);
+      return false;
+    }
+  };
+
+  // Exclusão lógica: o registro some dos relatórios mas permanece no banco com a justificativa
+  const handleDeleteEvent = async (eventId: number, reason: string) => {
+    try {
+      await repositories.events.remove(eventId, reason);
+      await fetchEvents();
+    } catch (error: any) {
       console.error("Erro ao deletar evento:", error);
-      alert("Erro de conexão ao tentar deletar o registro.");
+      alert(`Erro ao deletar: ${error.message || 'Erro desconhecido'}`);
     }
   };
 
+  // Falha no cadastro é repassada: o formulário mostra o erro e a importação conta a linha como falha
   const handleAddEmployee = async (newEmployee: Omit<Employee, 'id'>) => {
-    try {
-      const { error } = await supabase.from('ponto_employees').insert([{
-        name: newEmployee.name,
-        pin: newEmployee.pin,
-        phone: newEmployee.phone,
-        cpf: newEmployee.cpf || null,
-        funcao: newEmployee.funcao || null,
-        pix: newEmployee.pix || null
-      }]);
-
-      if (!error) {
-        await fetchEmployees();
-      } else {
-        console.error("Erro ao adicionar funcionário:", error);
+    const created = await repositories.employees.create(newEmployee);
+
+    if (newEmployee.pin) {
+      try {
+        await repositories.employees.setPin(created.id, newEmployee.pin);
+      } catch (pinError: any) {
+        alert(`Funcionário cadastrado, mas o PIN não foi definido: ${pinError.message || 'Erro desconhecido'}. Edite o cadastro para informar outro PIN.`);
+      }
+    }
+    if (newEmployee.pin && newEmployee.birthDate) {
+      try {
+        await repositories.employees.setBirthDate(created.id, newEmployee.birthDate);
+      } catch (birthDateError: any) {
+        alert(`Funcionário cadastrado, mas a data de nascimento não foi salva: ${birthDateError.message || 'Erro desconhecido'}`);
       }
-    } catch (error) {
-      console.error("Erro ao adicionar funcionário:", error);
     }
+    await fetchEmployees();
   };
 
   const handleDeleteEmployee = async (employeeId: number) => {
     try {
-      // Deletar funcionário (eventos são deletados via CASCADE no banco de dados)
-      const { error } = await supabase.from('ponto_employees').delete().eq('id', employeeId);
-
-      if (!error) {
-        await Promise.all([fetchEmployees(), fetchEvents()]);
-      } else {
-        console.error("Erro ao deletar funcionário:", error);
-      }
-    } catch (error) {
+      await repositories.employees.remove(employeeId);
+      await Promise.all([fetchEmployees(), fetchEvents()]);
+    } catch (error: any) {
       console.error("Erro ao deletar funcionário:", error);
+      alert(`Não foi possível excluir o funcionário: ${error.message || 'Erro desconhecido'}`);
     }
   };
 
   const handleUpdateEmployee = async (updatedEmployee: Employee) => {
-    try {
-      const { error } = await supabase.from('ponto_employees').update({
-        name: updatedEmployee.name,
-        pin: updatedEmployee.pin,
-        phone: updatedEmployee.phone,
-        cpf: updatedEmployee.cpf || null,
-        funcao: updatedEmployee.funcao || null,
-        pix: updatedEmployee.pix || null
-      }).eq('id', updatedEmployee.id);
-
-      if (!error) {
-        await fetchEmployees();
-      } else {
-        console.error("Erro ao atualizar funcionário:", error);
+    await repositories.employees.update(updatedEmployee);
+
+    if (updatedEmployee.pin) {
+      try {
+        await repositories.employees.setPin(updatedEmployee.id, updatedEmployee.pin);
+      } catch (pinError: any) {
+        alert(`Dados salvos, mas o PIN não foi alterado: ${pinError.message || 'Erro desconhecido'}`);
       }
-    } catch (error) {
-      console.error("Erro ao atualizar funcionário:", error);
     }
+    if (updatedEmployee.birthDate) {
+      try {
+        await repositories.employees.setBirthDate(updatedEmployee.id, updatedEmployee.birthDate);
+      } catch (birthDateError: any) {
+        alert(`Dados salvos, mas a data de nascimento não foi alterada: ${birthDateError.message || 'Erro desconhecido'}`);
+      }
+    }
+    await fetchEmployees();
   };
 
   const handleImportEmployees = async (employeesToImport: Omit<Employee, 'id'>[]): Promise<{ added: number, updated: number, errors: string[] }> => {
     const errors: string[] = [];
 
-    // Validar duplicatas no arquivo
-    const pinsInFile = employeesToImport.map(e => e.pin);
+    // Validar duplicatas no arquivo (PINs já usados no banco são recusados por set_employee_pin)
+    const pinsInFile = employeesToImport.map(e => e.pin).filter(Boolean);
     const uniquePinsInFile = new Set(pinsInFile);
     if (pinsInFile.length !== uniquePinsInFile.size) {
       errors.push("O arquivo CSV contém PINs duplicados.");
     }
-    if (employeesToImport.some(emp => emp.pin === ADMIN_USER.pin)) {
-      errors.push(`O PIN ${ADMIN_USER.pin} é reservado para o administrador.`);
-    }
     if (errors.length > 0) {
       return { added: 0, updated: 0, errors };
     }
@@ -293,58 +580,74 @@ const App: React.FC = () => {
     let addedCount = 0;
     let updatedCount = 0;
 
-    try {
-      for (const importedEmp of employeesToImport) {
-        const existingEmployee = employees.find(e => e.pin === importedEmp.pin);
+    for (const importedEmp of employeesToImport) {
+      // Os PINs não são mais conhecidos pelo app: o funcionário existente é reconhecido pelo CPF ou pelo nome
+      const importedCpf = onlyDigits(importedEmp.cpf);
+      const existingEmployee = employees.find(e => importedCpf
+        ? onlyDigits(e.cpf) === importedCpf
+        : e.name.trim().toLowerCase() === importedEmp.name.trim().toLowerCase());
 
+      // Uma linha recusada não interrompe as demais
+      try {
         if (existingEmployee) {
-          // Atualizar
           await handleUpdateEmployee({ ...existingEmployee, ...importedEmp });
           updatedCount++;
         } else {
-          // Adicionar
           await handleAddEmployee(importedEmp);
           addedCount++;
         }
+      } catch (error: any) {
+        console.error("Erro ao importar funcionário:", error);
+        errors.push(`${importedEmp.name}: ${error.message || 'Erro desconhecido'}`);
       }
+    }
 
-      await fetchEmployees();
-      return { added: addedCount, updated: updatedCount, errors };
-    } catch (error) {
-      errors.push("Falha ao importar funcionários.");
-      return { added: 0, updated: 0, errors };
+    await fetchEmployees();
+    return { added: addedCount, updated: updatedCount, errors };
+  };
+
+  const handleUpdateEvent = async (eventId: number, changes: ClockEvent, reason: string): Promise<boolean> => {
+    try {
+      await repositories.events.update(eventId, changes, reason);
+      await fetchEvents();
+      return true;
+    } catch (error: any) {
+      console.error("Erro ao atualizar evento:", error);
+      alert(`Erro ao atualizar evento: ${error.message || 'Erro desconhecido'}`);
+      return false;
     }
   };
 
-  const handleUpdateEvent = async (eventId: number, newTimestamp: Date) => {
+  const handleSaveSettings = async (changes: Partial<AppSettings>): Promise<boolean> => {
     try {
-      // Usar horário local do dispositivo (mesmo formato usado em outras funções)
-      const year = newTimestamp.getFullYear();
-      const month = String(newTimestamp.getMonth() + 1).padStart(2, '0');
-      const day = String(newTimestamp.getDate()).padStart(2, '0');
-      const hours = String(newTimestamp.getHours()).padStart(2, '0');
-      const minutes = String(newTimestamp.getMinutes()).padStart(2, '0');
-      const seconds = String(newTimestamp.getSeconds()).padStart(2, '0');
-      const localTimestamp = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}.000Z`;
-
-      const { error } = await supabase.from('ponto_events').update({ timestamp: localTimestamp }).eq('id', eventId);
-
-      if (!error) {
-        await fetchEvents();
-      } else {
-        console.error("Erro ao atualizar evento:", error);
-      }
+      await repositories.settings.save(changes);
+      await loadSettings();
+      return true;
     } catch (error) {
-      console.error("Erro ao atualizar evento:", error);
+      console.error("Erro ao salvar configurações:", error);
+      return false;
     }
   };
 
+  // Batidas do funcionário mais as que ainda estão na fila offline, para o quiosque mostrar o estado real
+  const kioskEvents = useMemo(() => {
+    if (queuedPunches.length === 0) return sessionEvents;
+    return [...sessionEvents, ...queuedPunches.map(toPendingEvent)].sort(byTimestamp);
+  }, [sessionEvents, queuedPunches]);
+
   const employeeEvents = useMemo(() =>
-    allEvents.filter(event => loggedInEmployee && event.employeeId === loggedInEmployee.id),
-    [allEvents, loggedInEmployee]
+    kioskEvents.filter(event => loggedInEmployee && event.employeeId === loggedInEmployee.id),
+    [kioskEvents, loggedInEmployee]
   );
 
-  const employeesWithAdmin = useMemo(() => [...employees, ADMIN_USER], [employees]);
+  // Saldo do banco de horas exibido ao funcionário após a batida (null se ele não usa banco de horas)
+  const timeBankBalanceMs = useMemo(() => {
+    if (!loggedInEmployee) return null;
+    const ledger = buildTimeBankLedger(loggedInEmployee, employeeEvents, timeBankEntries, payRules, holidays);
+    const usesTimeBank = resolvePayProfile(payRules, loggedInEmployee.id, loggedInEmployee.funcao, todayKey()).timeBankEnabled;
+    return usesTimeBank || ledger.movements.length > 0 ? ledger.balance : null;
+  }, [loggedInEmployee, employeeEvents, timeBankEntries, payRules, holidays]);
+
 
   return (
     <div className="app-container">
@@ -353,10 +656,13 @@ const App: React.FC = () => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
         </svg>
         <h1 className="app-title">Ponto Eletrônico</h1>
+        <SyncIndicator isOnline={isOnline} pendingCount={queuedPunches.length} />
       </header>
 
-      <main className="w-full max-w-lg mt-20" style={{ maxWidth: isAdmin && loggedInEmployee ? '56rem' : '28rem' }}>
-        {isLoading ? (
+      <main className="w-full max-w-lg mt-20" style={{ maxWidth: manager ? '56rem' : '28rem' }}>
+        {receiptHashToVerify ? (
+          <ReceiptVerificationScreen hash={receiptHashToVerify} />
+        ) : isLoading ? (
           <div className="flex flex-col items-center justify-center text-center py-8 space-y-4">
             <svg className="animate-spin text-gold" style={{width: '40px', height: '40px'}} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -365,9 +671,9 @@ const App: React.FC = () => {
             <h3 className="text-xl font-semibold">Carregando dados...</h3>
             <p className="text-muted">Aguarde um momento.</p>
           </div>
-        ) : isAdmin && loggedInEmployee ? (
+        ) : manager ? (
           <AdminDashboard
-            admin={loggedInEmployee}
+            manager={manager}
             allEvents={allEvents}
             employees={employees}
             onAddEmployee={handleAddEmployee}
@@ -376,12 +682,51 @@ const App: React.FC = () => {
             onImportEmployees={handleImportEmployees}
             onUpdateEvent={handleUpdateEvent}
             onAddManualEvent={handleAddManualEvent}
+            onAddManualBreak={handleAddManualBreak}
             onDeleteEvent={handleDeleteEvent}
             onDownloadBackup={handleDownloadBackup}
+            settings={settings}
+            payRules={payRules}
+            holidays={holidays}
+            timeBankEntries={timeBankEntries}
+            scheduleRules={scheduleRules}
+            leaves={leaves}
+            onSaveSettings={handleSaveSettings}
             onRefresh={async () => {
-              await Promise.all([fetchEmployees(), fetchEvents()]);
+              await Promise.all([fetchEmployees(), fetchEvents(), loadPayRules(), loadHolidays(), loadTimeBankEntries(), loadScheduleRules(), loadLeaves()]);
             }}
-            onLogout={handleLogout}
+            onLogout={handleManagerLogout}
+          />
+        ) : showManagerLogin ? (
+          <ManagerLoginScreen onLogin={handleManagerLogin} onCancel={() => setShowManagerLogin(false)} />
+        ) : portalEmployee ? (
+          <EmployeePortal
+            employee={portalEmployee}
+            events={kioskEvents}
+            payRules={payRules}
+            holidays={holidays}
+            timeBankEntries={timeBankEntries}
+            scheduleRules={scheduleRules}
+            leaves={leaves}
+            onLogout={handlePortalLogout}
+            onDeviceUnauthorized={handleDeviceUnauthorized}
+          />
+        ) : showPortalLogin ? (
+          <EmployeePortalLoginScreen
+            pinLength={settings.pinLength}
+            onLogin={handlePortalLogin}
+            onDeviceUnauthorized={handleDeviceUnauthorized}
+            onCancel={() => setShowPortalLogin(false)}
+          />
+        ) : adjustmentRequestFor ? (
+          <AdjustmentRequestForm
+            employee={adjustmentRequestFor.employee}
+            events={kioskEvents.filter(event => event.employeeId === adjustmentRequestFor.employee.id)}
+            origin="kiosk"
+            initial={suggestMissingPunch(adjustmentRequestFor.lastEvent, adjustmentRequestFor.continueToClock)}
+            onSubmitted={handleAdjustmentSubmitted}
+            onCancel={() => setAdjustmentRequestFor(null)}
+            onDeviceUnauthorized={handleDeviceUnauthorized}
           />
         ) : loggedInEmployee ? (
           <ClockScreen
@@ -389,9 +734,37 @@ const App: React.FC = () => {
             onLogout={handleLogout}
             events={employeeEvents}
             onAddEvent={handleAddEvent}
+            clockDriftMs={clockDriftMs}
+            clockDriftThresholdSeconds={settings.clockDriftThresholdSeconds}
+            timeBankBalanceMs={timeBankBalanceMs}
+            punchPhotoEnabled={settings.punchPhotoEnabled && repositories.supportsServerFeatures}
+            requestLocation={settings.geofenceMode !== 'off'}
           />
         ) : (
-          <LoginScreen onLogin={handleLogin} employees={employeesWithAdmin} events={allEvents} />
+          <>
+            {isDeviceEnrolled ? (
+              <LoginScreen
+                onLogin={handleLogin}
+                onDeviceUnauthorized={handleDeviceUnauthorized}
+                onRequestAdjustment={repositories.supportsServerFeatures ? handleRequestAdjustment : undefined}
+                onCloseOpenShift={handleCloseOpenShift}
+                onOpenSession={handleOpenKioskSession}
+                pinLength={settings.pinLength}
+                pinMaxAttempts={settings.pinMaxAttempts}
+                pinLockoutMinutes={settings.pinLockoutMinutes}
+              />
+            ) : (
+              <DeviceEnrollmentScreen onEnrolled={() => setIsDeviceEnrolled(true)} />
+            )}
+            {repositories.supportsServerFeatures && isDeviceEnrolled && (
+              <button onClick={() => setShowPortalLogin(true)} className="btn w-full mt-4 text-muted" style={{backgroundColor: 'transparent'}}>
+                Área do funcionário
+              </button>
+            )}
+            <button onClick={() => setShowManagerLogin(true)} className="btn w-full mt-4 text-muted" style={{backgroundColor: 'transparent'}}>
+              Acesso do gestor
+            </button>
+          </>
         )}
       </main>
     </div>
@@ -0,0 +1,148 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { db, sql } from '@vercel/postgres';
+
+// Regras comuns às rotas de api/, o backend Postgres do app (lib/restRepository.ts). Arquivos com _ no
+// início não viram rota na Vercel.
+// * Gestor: um único acesso, definido por PONTO_MANAGER_EMAIL e PONTO_MANAGER_PASSWORD. O login devolve um
+//   token assinado com PONTO_API_SECRET, enviado como "Authorization: Bearer" e válido por 12 horas.
+// * PIN: o banco guarda só o HMAC do PIN com PONTO_API_SECRET, nunca o devolve, e o PIN certo abre uma
+//   sessão curta do funcionário (employee_sessions), como verify_pin no Supabase.
+
+// Garantir que usa STORAGE_URL se POSTGRES_URL não existir
+if (!process.env.POSTGRES_URL && process.env.STORAGE_URL) {
+  process.env.POSTGRES_URL = process.env.STORAGE_URL;
+}
+
+const MANAGER_TOKEN_HOURS = 12;
+export const KIOSK_SESSION_MINUTES = 10;
+export const DUPLICATE_PUNCH_ERROR_CODE = 'PD001'; // O mesmo código de migrations/duplicate_punches.sql
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo';
+
+// Colunas das batidas no formato de StoredClockEvent
+export const EVENT_COLUMNS = `id, employee_id AS "employeeId", employee_name AS "employeeName", type, timestamp,
+  source, client_timestamp AS "clientTimestamp", edited_at AS "editedAt",
+  original_timestamp AS "originalTimestamp", time_zone AS "timeZone"`;
+
+export const EMPLOYEE_COLUMNS = 'id, name, phone, cpf, funcao, pix, rest_weekday AS "restWeekday"';
+
+export class HttpError extends Error {
+  constructor(status, message, code) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const setCors = (res, methods) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', methods);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+};
+
+export const sendError = (res, error) => {
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error('Error:', error);
+  return res.status(500).json({ error: error.message });
+};
+
+const hmac = (value) => {
+  if (!process.env.PONTO_API_SECRET) {
+    throw new HttpError(500, 'PONTO_API_SECRET não configurado no servidor');
+  }
+  return createHmac('sha256', process.env.PONTO_API_SECRET).update(value).digest('hex');
+};
+
+const sameText = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+// Sem sal por PIN: o HMAC com o segredo do servidor mantém o índice único de pin_hash
+export const hashPin = (pin) => hmac(`pin:${pin}`);
+export const hashSessionToken = (token) => hmac(`session:${token}`);
+export const newSessionToken = () => randomBytes(32).toString('hex');
+
+export const currentManager = () => ({
+  id: 1,
+  email: process.env.PONTO_MANAGER_EMAIL,
+  name: process.env.PONTO_MANAGER_NAME || process.env.PONTO_MANAGER_EMAIL,
+  role: 'owner',
+  active: true,
+});
+
+/** Token do gestor se e-mail e senha conferem com os do servidor; null caso contrário. */
+export const signInManager = (email, password) => {
+  const { PONTO_MANAGER_EMAIL, PONTO_MANAGER_PASSWORD } = process.env;
+  if (!PONTO_MANAGER_EMAIL || !PONTO_MANAGER_PASSWORD) {
+    throw new HttpError(500, 'PONTO_MANAGER_EMAIL e PONTO_MANAGER_PASSWORD não configurados no servidor');
+  }
+  const emailMatches = sameText(String(email || '').trim().toLowerCase(), PONTO_MANAGER_EMAIL.trim().toLowerCase());
+  const passwordMatches = sameText(password || '', PONTO_MANAGER_PASSWORD);
+  if (!emailMatches || !passwordMatches) return null;
+
+  const payload = Buffer.from(JSON.stringify({
+    email: PONTO_MANAGER_EMAIL,
+    exp: Date.now() + MANAGER_TOKEN_HOURS * 60 * 60 * 1000,
+  })).toString('base64url');
+  return `${payload}.${hmac(`manager:${payload}`)}`;
+};
+
+/** Gestor do token enviado em Authorization; null sem token ou com token inválido ou vencido. */
+export const managerFromRequest = (req) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !sameText(signature, hmac(`manager:${payload}`))) return null;
+
+  const { email, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (exp < Date.now() || email !== process.env.PONTO_MANAGER_EMAIL) return null;
+  return currentManager();
+};
+
+export const requireManager = (req) => {
+  const manager = managerFromRequest(req);
+  if (!manager) throw new HttpError(401, 'Sessão do gestor expirada. Entre novamente.');
+  return manager;
+};
+
+/** Autor das alterações administrativas na trilha de auditoria. */
+export const auditActor = (manager) => `${manager.name} <${manager.email}>`;
+
+export const requireReason = (reason) => {
+  if (!reason || !String(reason).trim()) throw new HttpError(400, 'Informe a justificativa da alteração');
+  return String(reason).trim();
+};
+
+/** Funcionário da sessão aberta pelo PIN; erro se a sessão não existir ou tiver vencido. */
+export const sessionEmployee = async (sessionToken) => {
+  const { rows } = await sql`
+    SELECT employee_id FROM employee_sessions
+    WHERE token_hash = ${hashSessionToken(sessionToken || '')} AND expires_at > NOW()
+  `;
+  if (rows.length === 0) throw new HttpError(401, 'Sessão do funcionário expirada. Digite o PIN novamente.');
+  return rows[0].employee_id;
+};
+
+/** Valor de uma configuração da tabela settings (chaves de lib/settings.ts). */
+export const readSetting = async (key, fallback) => {
+  const { rows } = await sql`SELECT value FROM settings WHERE key = ${key}`;
+  return rows[0]?.value ?? fallback;
+};
+
+/** Executa fn numa transação; fn recebe o cliente da conexão (client.sql, client.query). */
+export const withTransaction = async (fn) => {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
@@ -1,117 +1,84 @@
 import { sql } from '@vercel/postgres';
+import { EMPLOYEE_COLUMNS, HttpError, requireManager, sendError, sessionEmployee, setCors } from './_shared.js';
 
-// Garantir que usa STORAGE_URL se POSTGRES_URL não existir
-if (!process.env.POSTGRES_URL && process.env.STORAGE_URL) {
-  process.env.POSTGRES_URL = process.env.STORAGE_URL;
-}
-
+// Cadastro dos funcionários, só para o gestor. O PIN não passa por aqui (api/pin.js) e nunca é devolvido;
+// o quiosque lê só o cadastro do funcionário da sessão aberta pelo PIN (GET ?session=).
 export default async function handler(req, res) {
-  // Configurar CORS
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  setCors(res, 'GET, POST, PUT, DELETE');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
   try {
+    if (req.method === 'GET' && req.query.session) {
+      const employeeId = await sessionEmployee(req.query.session);
+      const { rows } = await sql.query(`SELECT ${EMPLOYEE_COLUMNS} FROM employees WHERE id = $1`, [employeeId]);
+      return res.status(200).json(rows[0]);
+    }
+
+    requireManager(req);
+
     if (req.method === 'GET') {
-      // Obter todos os funcionários
-      const { rows } = await sql`
-        SELECT id, name, pin, phone, cpf, funcao, pix 
-        FROM employees 
-        ORDER BY id ASC
-      `;
-      
+      const { rows } = await sql.query(`SELECT ${EMPLOYEE_COLUMNS} FROM employees ORDER BY id ASC`);
       return res.status(200).json(rows);
     }
 
     if (req.method === 'POST') {
-      // Adicionar novo funcionário
-      const { name, pin, phone, cpf, funcao, pix } = req.body;
-      
-      if (!name || !pin) {
-        return res.status(400).json({ error: 'Campos obrigatórios: name, pin' });
+      const { name, phone, cpf, funcao, pix, restWeekday } = req.body;
+      if (!name) {
+        return res.status(400).json({ error: 'Campo obrigatório: name' });
       }
 
-      // Verificar se PIN já existe
-      const { rows: existing } = await sql`
-        SELECT id FROM employees WHERE pin = ${pin}
-      `;
-
-      if (existing.length > 0) {
-        return res.status(400).json({ error: 'PIN já cadastrado' });
-      }
-
-      const { rows } = await sql`
-        INSERT INTO employees (name, pin, phone, cpf, funcao, pix)
-        VALUES (${name}, ${pin}, ${phone}, ${cpf || null}, ${funcao || null}, ${pix || null})
-        RETURNING id, name, pin, phone, cpf, funcao, pix
-      `;
-
+      const { rows } = await sql.query(
+        `INSERT INTO employees (name, phone, cpf, funcao, pix, rest_weekday)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING ${EMPLOYEE_COLUMNS}`,
+        [name, phone || '', cpf || null, funcao || null, pix || null, restWeekday ?? 0]
+      );
       return res.status(201).json({ success: true, employee: rows[0] });
     }
 
     if (req.method === 'PUT') {
-      // Atualizar funcionário existente
-      const { id, name, pin, phone, cpf, funcao, pix } = req.body;
-      
-      if (!id || !name || !pin) {
-        return res.status(400).json({ error: 'Campos obrigatórios: id, name, pin' });
-      }
-
-      // Verificar se PIN já existe em outro funcionário
-      const { rows: existing } = await sql`
-        SELECT id FROM employees WHERE pin = ${pin} AND id != ${id}
-      `;
-
-      if (existing.length > 0) {
-        return res.status(400).json({ error: 'PIN já cadastrado para outro funcionário' });
+      const { id, name, phone, cpf, funcao, pix, restWeekday } = req.body;
+      if (!id || !name) {
+        return res.status(400).json({ error: 'Campos obrigatórios: id, name' });
       }
 
       const { rows } = await sql`
-        UPDATE employees 
-        SET name = ${name}, pin = ${pin}, phone = ${phone}, 
-            cpf = ${cpf || null}, funcao = ${funcao || null}, pix = ${pix || null}
+        UPDATE employees
+        SET name = ${name}, phone = ${phone || ''}, cpf = ${cpf || null}, funcao = ${funcao || null},
+            pix = ${pix || null}, rest_weekday = ${restWeekday ?? 0}
         WHERE id = ${id}
-        RETURNING id, name, pin, phone, cpf, funcao, pix
+        RETURNING id
       `;
-
       if (rows.length === 0) {
         return res.status(404).json({ error: 'Funcionário não encontrado' });
       }
-
-      return res.status(200).json({ success: true, employee: rows[0] });
+      return res.status(200).json({ success: true });
     }
 
     if (req.method === 'DELETE') {
-      // Deletar funcionário
       const { id } = req.query;
-      
       if (!id) {
         return res.status(400).json({ error: 'ID é obrigatório' });
       }
 
-      // Deletar eventos associados (CASCADE já faz isso, mas vamos garantir)
-      await sql`DELETE FROM events WHERE employee_id = ${id}`;
-      
-      const { rows } = await sql`
-        DELETE FROM employees 
-        WHERE id = ${id}
-        RETURNING id
-      `;
+      // Registros de ponto são guardados mesmo depois de excluídos: o funcionário fica
+      const { rows: events } = await sql`SELECT 1 FROM events WHERE employee_id = ${id} LIMIT 1`;
+      if (events.length > 0) {
+        throw new HttpError(409, 'Funcionário com registros de ponto não pode ser excluído');
+      }
 
+      const { rows } = await sql`DELETE FROM employees WHERE id = ${id} RETURNING id`;
       if (rows.length === 0) {
         return res.status(404).json({ error: 'Funcionário não encontrado' });
       }
-
       return res.status(200).json({ success: true, deletedId: id });
     }
 
     return res.status(405).json({ error: 'Method not allowed' });
   } catch (error) {
-    console.error('Error:', error);
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
 }
@@ -1,146 +1,179 @@
 import { sql } from '@vercel/postgres';
-
-// Garantir que usa STORAGE_URL se POSTGRES_URL não existir
-if (!process.env.POSTGRES_URL && process.env.STORAGE_URL) {
-  process.env.POSTGRES_URL = process.env.STORAGE_URL;
-}
+import {
+  DEFAULT_TIME_ZONE, DUPLICATE_PUNCH_ERROR_CODE, EVENT_COLUMNS, HttpError, auditActor, readSetting,
+  requireManager, requireReason, sendError, sessionEmployee, setCors, withTransaction,
+} from './_shared.js';
+
+// Batidas de ponto. As regras ficam aqui, não no aparelho:
+// * a batida do quiosque (POST kind=punch) vale pela sessão aberta pelo PIN e leva o horário do servidor;
+//   o relógio do aparelho é guardado só como referência (client_timestamp), e a mesma chave de
+//   idempotência devolve a batida já gravada;
+// * a mesma batida repetida em menos de 1 minuto é recusada com o código PD001;
+// * inclusões, ajustes e exclusões do gestor exigem justificativa e vão para event_audit; a exclusão é
+//   lógica (deleted_at) e o ajuste guarda o horário original.
+
+const VALID_TYPES = ['Entrada', 'Início Intervalo', 'Fim Intervalo', 'Saída'];
+
+const requireType = (type) => {
+  if (!VALID_TYPES.includes(type)) throw new HttpError(400, `Tipo de batida inválido: ${type}`);
+  return type;
+};
+
+// Uma batida por vez para cada funcionário, até o fim da transação
+const lockEmployee = (client, employeeId) => client.sql`SELECT pg_advisory_xact_lock(${employeeId})`;
+
+const rejectDuplicate = async (client, employeeId, type, timestamp, ignoreId = null) => {
+  const { rows } = await client.sql`
+    SELECT 1 FROM events
+    WHERE employee_id = ${employeeId} AND type = ${type} AND deleted_at IS NULL
+      AND id IS DISTINCT FROM ${ignoreId}
+      AND timestamp BETWEEN ${timestamp}::timestamptz - INTERVAL '1 minute'
+                        AND ${timestamp}::timestamptz + INTERVAL '1 minute'
+  `;
+  if (rows.length > 0) {
+    throw new HttpError(409, `${type} já registrada há menos de 1 minuto`, DUPLICATE_PUNCH_ERROR_CODE);
+  }
+};
+
+const insertEvent = async (client, { employeeId, type, timestamp, source, clientTimestamp = null, idempotencyKey = null }) => {
+  const { rows: employees } = await client.sql`SELECT name FROM employees WHERE id = ${employeeId}`;
+  if (employees.length === 0) throw new HttpError(404, 'Funcionário não encontrado');
+  await rejectDuplicate(client, employeeId, type, timestamp);
+
+  // O fuso em vigor na gravação fica na batida, como em migrations/event_time_zone.sql
+  const timeZone = await readSetting('time_zone', DEFAULT_TIME_ZONE);
+  const { rows } = await client.query(
+    `INSERT INTO events (employee_id, employee_name, type, timestamp, source, client_timestamp, idempotency_key, time_zone)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING ${EVENT_COLUMNS}`,
+    [employeeId, employees[0].name, type, timestamp, source, clientTimestamp, idempotencyKey, timeZone]
+  );
+  return rows[0];
+};
+
+const audit = (client, eventId, action, actor, reason, oldValue, newValue) => client.sql`
+  INSERT INTO event_audit (event_id, action, actor, reason, old_value, new_value)
+  VALUES (${eventId}, ${action}, ${actor}, ${reason},
+          ${oldValue ? JSON.stringify(oldValue) : null}::jsonb, ${newValue ? JSON.stringify(newValue) : null}::jsonb)
+`;
+
+const auditValue = (event) => ({ type: event.type, timestamp: event.timestamp });
+
+const registerPunch = async ({ sessionToken, type, clientTimestamp, idempotencyKey }) => {
+  const employeeId = await sessionEmployee(sessionToken);
+  requireType(type);
+  if (!idempotencyKey) throw new HttpError(400, 'Campo obrigatório: idempotencyKey');
+
+  return withTransaction(async (client) => {
+    await lockEmployee(client, employeeId);
+    const { rows: repeated } = await client.query(
+      `SELECT ${EVENT_COLUMNS} FROM events WHERE idempotency_key = $1 AND employee_id = $2`,
+      [idempotencyKey, employeeId]
+    );
+    if (repeated.length > 0) return repeated[0];
+
+    const { rows: [{ now }] } = await client.sql`SELECT NOW() AS now`;
+    return insertEvent(client, {
+      employeeId, type, timestamp: now, source: 'kiosk', clientTimestamp: clientTimestamp || null, idempotencyKey,
+    });
+  });
+};
+
+const insertManual = (manager, { employeeId, type, timestamp, reason }) => withTransaction(async (client) => {
+  await lockEmployee(client, employeeId);
+  const event = await insertEvent(client, { employeeId, type: requireType(type), timestamp, source: 'manual' });
+  await audit(client, event.id, 'insert', auditActor(manager), requireReason(reason), null, auditValue(event));
+  return event;
+});
+
+const insertManualBreak = (manager, { employeeId, start, end, reason }) => withTransaction(async (client) => {
+  if (new Date(end) <= new Date(start)) throw new HttpError(400, 'O fim do intervalo deve ser depois do início');
+  const justification = requireReason(reason);
+  await lockEmployee(client, employeeId);
+  for (const [type, timestamp] of [['Início Intervalo', start], ['Fim Intervalo', end]]) {
+    const event = await insertEvent(client, { employeeId, type, timestamp, source: 'manual' });
+    await audit(client, event.id, 'insert', auditActor(manager), justification, null, auditValue(event));
+  }
+});
+
+const updateEvent = (manager, { id, type, timestamp, reason }) => withTransaction(async (client) => {
+  const justification = requireReason(reason);
+  const { rows: current } = await client.sql`SELECT * FROM events WHERE id = ${id} AND deleted_at IS NULL FOR UPDATE`;
+  if (current.length === 0) throw new HttpError(404, 'Evento não encontrado');
+
+  await rejectDuplicate(client, current[0].employee_id, requireType(type), timestamp, id);
+  const { rows } = await client.query(
+    `UPDATE events
+     SET type = $1, timestamp = $2, edited_at = NOW(), original_timestamp = COALESCE(original_timestamp, timestamp)
+     WHERE id = $3
+     RETURNING ${EVENT_COLUMNS}`,
+    [type, timestamp, id]
+  );
+  await audit(client, id, 'update', auditActor(manager), justification, auditValue(current[0]), auditValue(rows[0]));
+});
+
+const deleteEvent = (manager, { id, reason }) => withTransaction(async (client) => {
+  const justification = requireReason(reason);
+  const { rows } = await client.sql`
+    UPDATE events SET deleted_at = NOW()
+    WHERE id = ${id} AND deleted_at IS NULL
+    RETURNING type, timestamp
+  `;
+  if (rows.length === 0) throw new HttpError(404, 'Evento não encontrado');
+  await audit(client, id, 'delete', auditActor(manager), justification, auditValue(rows[0]), null);
+});
 
 export default async function handler(req, res) {
-  // Configurar CORS
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  setCors(res, 'GET, POST, PUT, DELETE');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
   try {
-    if (req.method === 'GET') {
-      // Obter todos os eventos
-      const { rows } = await sql`
-        SELECT id, employee_id as "employeeId", employee_name as "employeeName", type, timestamp
-        FROM events 
-        ORDER BY timestamp ASC
-      `;
-
+    if (req.method === 'GET' && req.query.session) {
+      // Quiosque: só as batidas do funcionário da sessão
+      const employeeId = await sessionEmployee(req.query.session);
+      const { rows } = await sql.query(
+        `SELECT ${EVENT_COLUMNS} FROM events WHERE employee_id = $1 AND deleted_at IS NULL ORDER BY timestamp ASC, id ASC`,
+        [employeeId]
+      );
       return res.status(200).json(rows);
     }
 
-    if (req.method === 'POST') {
-      // Adicionar novo evento
-      const { employeeId, employeeName, type, timestamp } = req.body;
-
-      if (!employeeId || !employeeName || !type || !timestamp) {
-        return res.status(400).json({ error: 'Campos obrigatórios: employeeId, employeeName, type, timestamp' });
-      }
+    if (req.method === 'POST' && req.body?.kind === 'punch') {
+      return res.status(201).json({ success: true, event: await registerPunch(req.body) });
+    }
 
-      // Verificar duplicatas (mesmo funcionário, mesmo tipo, mesmo timestamp exato)
-      const { rows: exactDuplicate } = await sql`
-        SELECT id FROM events 
-        WHERE employee_id = ${employeeId} 
-        AND type = ${type} 
-        AND timestamp = ${timestamp}
-      `;
+    const manager = requireManager(req);
 
-      if (exactDuplicate.length > 0) {
-        return res.status(400).json({ error: 'Evento duplicado' });
-      }
+    if (req.method === 'GET') {
+      const { rows } = await sql.query(
+        `SELECT ${EVENT_COLUMNS} FROM events WHERE deleted_at IS NULL ORDER BY timestamp ASC, id ASC`
+      );
+      return res.status(200).json(rows);
+    }
 
-      // Verificar batidas muito próximas (mesmo funcionário e tipo nos últimos 60 segundos)
-      // Ajustar o timestamp para garantir que comparamos corretamente
-      const { rows: nearDuplicate } = await sql`
-        SELECT id FROM events 
-        WHERE employee_id = ${employeeId} 
-        AND type = ${type} 
-        AND timestamp > CAST(${timestamp} AS TIMESTAMP) - INTERVAL '1 minute'
-        AND timestamp <= CAST(${timestamp} AS TIMESTAMP)
-      `;
-
-      if (nearDuplicate.length > 0) {
-        return res.status(400).json({ error: 'Você já registrou este tipo de batida há menos de 1 minuto.' });
+    if (req.method === 'POST') {
+      if (req.body.kind === 'break') {
+        await insertManualBreak(manager, req.body);
+        return res.status(201).json({ success: true });
       }
-
-      const { rows } = await sql`
-        INSERT INTO events (employee_id, employee_name, type, timestamp)
-        VALUES (${employeeId}, ${employeeName}, ${type}, ${timestamp})
-        RETURNING id, employee_id as "employeeId", employee_name as "employeeName", type, timestamp
-      `;
-
-      return res.status(201).json({ success: true, event: rows[0] });
+      return res.status(201).json({ success: true, event: await insertManual(manager, req.body) });
     }
 
     if (req.method === 'PUT') {
-      // Atualizar evento existente (editar timestamp e/ou type)
-      const { id, timestamp, type } = req.body;
-
-      if (!id) {
-        return res.status(400).json({ error: 'Campo obrigatório: id' });
-      }
-
-      // Construir query dinamicamente baseado nos campos fornecidos
-      let updateFields = [];
-      let values = [];
-
-      if (timestamp) {
-        updateFields.push('timestamp = $' + (values.length + 1));
-        values.push(timestamp);
-      }
-
-      if (type) {
-        updateFields.push('type = $' + (values.length + 1));
-        values.push(type);
-      }
-
-      if (updateFields.length === 0) {
-        return res.status(400).json({ error: 'Nenhum campo para atualizar' });
-      }
-
-      values.push(id); // ID é sempre o último parâmetro
-
-      const query = `
-        UPDATE events 
-        SET ${updateFields.join(', ')}
-        WHERE id = $${values.length}
-        RETURNING id, employee_id as "employeeId", employee_name as "employeeName", type, timestamp
-      `;
-
-      console.log('UPDATE Query:', query);
-      console.log('UPDATE Values:', values);
-
-      const { rows } = await sql.query(query, values);
-
-      if (rows.length === 0) {
-        return res.status(404).json({ error: 'Evento não encontrado' });
-      }
-
-      return res.status(200).json({ success: true, event: rows[0] });
+      await updateEvent(manager, req.body);
+      return res.status(200).json({ success: true });
     }
 
     if (req.method === 'DELETE') {
-      // Deletar evento
-      const { id } = req.query;
-
-      if (!id) {
-        return res.status(400).json({ error: 'ID é obrigatório' });
-      }
-
-      const { rows } = await sql`
-        DELETE FROM events 
-        WHERE id = ${id}
-        RETURNING id
-      `;
-
-      if (rows.length === 0) {
-        return res.status(404).json({ error: 'Evento não encontrado' });
-      }
-
-      return res.status(200).json({ success: true, deletedId: id });
+      await deleteEvent(manager, req.body || {});
+      return res.status(200).json({ success: true });
     }
 
     return res.status(405).json({ error: 'Method not allowed' });
   } catch (error) {
-    console.error('Error:', error);
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
 }
@@ -0,0 +1,42 @@
+import { sql } from '@vercel/postgres';
+import { requireManager, sendError, setCors } from './_shared.js';
+
+// Feriados cadastrados pelo gestor (os nacionais são gerados pelo app em lib/holidays.ts)
+export default async function handler(req, res) {
+  setCors(res, 'GET, POST, DELETE');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const { rows } = await sql`SELECT id, to_char(date, 'YYYY-MM-DD') AS date, name, scope FROM holidays ORDER BY date ASC`;
+      return res.status(200).json(rows);
+    }
+
+    requireManager(req);
+
+    if (req.method === 'POST') {
+      const { date, name, scope } = req.body || {};
+      if (!date || !name || !scope) {
+        return res.status(400).json({ error: 'Campos obrigatórios: date, name, scope' });
+      }
+      await sql`INSERT INTO holidays (date, name, scope) VALUES (${date}, ${name}, ${scope})`;
+      return res.status(201).json({ success: true });
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+      if (!id) {
+        return res.status(400).json({ error: 'ID é obrigatório' });
+      }
+      await sql`DELETE FROM holidays WHERE id = ${id}`;
+      return res.status(200).json({ success: true, deletedId: id });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
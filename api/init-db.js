@@ -1,72 +1,46 @@
+import { readFile } from 'node:fs/promises';
 import { sql } from '@vercel/postgres';
+import { hashPin, requireManager, sendError, setCors, withTransaction } from './_shared.js';
 
-// Garantir que usa STORAGE_URL se POSTGRES_URL não existir
-if (!process.env.POSTGRES_URL && process.env.STORAGE_URL) {
-  process.env.POSTGRES_URL = process.env.STORAGE_URL;
-}
-
+// Cria ou atualiza o banco com schema.sql (incluído na função por vercel.json) e troca os PINs em texto
+// das instalações antigas pelo hash. Só o gestor executa; é seguro executar mais de uma vez.
 export default async function handler(req, res) {
-  // Apenas permitir GET para inicialização
-  if (req.method !== 'GET') {
+  setCors(res, 'POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    // Criar tabela de funcionários
-    await sql`
-      CREATE TABLE IF NOT EXISTS employees (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        pin VARCHAR(4) NOT NULL UNIQUE,
-        phone VARCHAR(20) NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
+    requireManager(req);
+    const schema = await readFile(new URL('../schema.sql', import.meta.url), 'utf8');
+    await withTransaction(client => client.query(schema));
 
-    // Criar tabela de eventos
-    await sql`
-      CREATE TABLE IF NOT EXISTS events (
-        id SERIAL PRIMARY KEY,
-        employee_id INTEGER NOT NULL,
-        employee_name VARCHAR(255) NOT NULL,
-        type VARCHAR(50) NOT NULL,
-        timestamp TIMESTAMP NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
+    const { rows: legacyPin } = await sql`
+      SELECT 1 FROM information_schema.columns WHERE table_name = 'employees' AND column_name = 'pin'
     `;
-
-    // Criar índices
-    await sql`CREATE INDEX IF NOT EXISTS idx_events_employee_id ON events(employee_id)`;
-    await sql`CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp)`;
-    await sql`CREATE INDEX IF NOT EXISTS idx_events_type ON events(type)`;
-
-    // Inserir funcionários padrão (se não existirem)
-    const employees = [
-      { name: 'Ana Silva', pin: '1234', phone: '11987654321' },
-      { name: 'Bruno Costa', pin: '5678', phone: '21987654321' },
-      { name: 'Carla Dias', pin: '4321', phone: '31987654321' },
-      { name: 'Daniel Alves', pin: '8765', phone: '41987654321' }
-    ];
-
-    for (const emp of employees) {
-      try {
-        await sql`
-          INSERT INTO employees (name, pin, phone)
-          VALUES (${emp.name}, ${emp.pin}, ${emp.phone})
-          ON CONFLICT (pin) DO NOTHING
-        `;
-      } catch (error) {
-        // Ignorar erros de duplicata
-        console.log(`Funcionário ${emp.name} já existe`);
-      }
+    let pinsMigrated = 0;
+    if (legacyPin.length > 0) {
+      await withTransaction(async (client) => {
+        const { rows } = await client.sql`SELECT id, pin FROM employees WHERE pin_hash IS NULL AND pin IS NOT NULL`;
+        for (const { id, pin } of rows) {
+          await client.sql`UPDATE employees SET pin_hash = ${hashPin(pin)} WHERE id = ${id}`;
+        }
+        await client.sql`ALTER TABLE employees DROP COLUMN pin`;
+        pinsMigrated = rows.length;
+      });
     }
 
-    return res.status(200).json({ 
-      success: true, 
-      message: 'Banco de dados inicializado com sucesso!' 
+    return res.status(200).json({
+      success: true,
+      pinsMigrated,
+      message: 'Banco de dados inicializado com sucesso!'
     });
   } catch (error) {
-    console.error('Error initializing database:', error);
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
 }
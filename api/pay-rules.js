@@ -0,0 +1,87 @@
+import { sql } from '@vercel/postgres';
+import { HttpError, requireManager, sendError, setCors } from './_shared.js';
+
+// Perfis de remuneração e atribuições (tabelas pay_profiles/pay_assignments de schema.sql). As linhas vão e
+// voltam no formato das colunas; lib/payProfiles.ts converte. O banco impede mudar os valores de um perfil
+// já atribuído, que só muda por nova versão (POST kind=version).
+
+const PROFILE_FIELDS = [
+  'name', 'pay_type', 'hourly_rate', 'monthly_salary', 'monthly_hours', 'daily_journey_minutes',
+  'overtime_multiplier', 'night_premium_percent', 'holiday_multiplier', 'time_bank_enabled', 'time_bank_expiry_months',
+];
+
+const profileValues = (profile) => PROFILE_FIELDS.map(field => profile[field]);
+
+// Erros das regras do banco (RAISE EXCEPTION) voltam como erro do pedido
+const asRequestError = (error) => error.code === 'P0001' ? new HttpError(400, error.message) : error;
+
+export default async function handler(req, res) {
+  setCors(res, 'GET, POST, PUT, DELETE');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const [profiles, assignments] = await Promise.all([
+        sql`SELECT * FROM pay_profiles ORDER BY name ASC`,
+        sql`SELECT id, profile_id, employee_id, funcao, to_char(effective_from, 'YYYY-MM-DD') AS effective_from
+            FROM pay_assignments ORDER BY effective_from ASC`,
+      ]);
+      return res.status(200).json({ profiles: profiles.rows, assignments: assignments.rows });
+    }
+
+    requireManager(req);
+    const body = req.body || {};
+
+    if (req.method === 'POST' && body.kind === 'profile') {
+      await sql.query(
+        `INSERT INTO pay_profiles (${PROFILE_FIELDS.join(', ')})
+         VALUES (${PROFILE_FIELDS.map((_, index) => `$${index + 1}`).join(', ')})`,
+        profileValues(body.profile)
+      );
+      return res.status(201).json({ success: true });
+    }
+
+    if (req.method === 'POST' && body.kind === 'version') {
+      await sql`SELECT save_pay_profile_version(${body.profileId}, ${JSON.stringify(body.profile)}::jsonb, ${body.effectiveFrom})`
+        .catch(error => { throw asRequestError(error); });
+      return res.status(201).json({ success: true });
+    }
+
+    if (req.method === 'POST' && body.kind === 'assignment') {
+      const { profile_id, employee_id, funcao, effective_from } = body.assignment;
+      await sql`
+        INSERT INTO pay_assignments (profile_id, employee_id, funcao, effective_from)
+        VALUES (${profile_id}, ${employee_id}, ${funcao}, ${effective_from})
+      `;
+      return res.status(201).json({ success: true });
+    }
+
+    if (req.method === 'PUT') {
+      await sql.query(
+        `UPDATE pay_profiles SET ${PROFILE_FIELDS.map((field, index) => `${field} = $${index + 1}`).join(', ')}
+         WHERE id = $${PROFILE_FIELDS.length + 1}`,
+        [...profileValues(body.profile), body.id]
+      ).catch(error => { throw asRequestError(error); });
+      return res.status(200).json({ success: true });
+    }
+
+    if (req.method === 'DELETE') {
+      const { profileId, assignmentId } = req.query;
+      if (profileId) {
+        await sql`DELETE FROM pay_profiles WHERE id = ${profileId}`.catch(error => { throw asRequestError(error); });
+      } else if (assignmentId) {
+        await sql`DELETE FROM pay_assignments WHERE id = ${assignmentId}`;
+      } else {
+        return res.status(400).json({ error: 'Informe profileId ou assignmentId' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
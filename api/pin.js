@@ -0,0 +1,91 @@
+import { sql } from '@vercel/postgres';
+import {
+  HttpError, KIOSK_SESSION_MINUTES, hashPin, hashSessionToken, newSessionToken, readSetting, requireManager,
+  sendError, setCors,
+} from './_shared.js';
+
+// PIN dos funcionários. POST confere o PIN digitado no quiosque e, se estiver certo, abre a sessão do
+// funcionário; PUT (gestor) cadastra ou troca o PIN. Depois de pin_max_attempts erros seguidos o teclado
+// fica bloqueado por pin_lockout_minutes, e cada novo erro depois do bloqueio bloqueia de novo.
+
+// Erros seguidos desde o último acerto, nas últimas 24 horas
+const countFailures = async () => {
+  const { rows } = await sql`
+    SELECT count(*)::int AS failures, max(attempted_at) AS last_failure
+    FROM pin_attempts
+    WHERE NOT success
+      AND attempted_at > NOW() - INTERVAL '24 hours'
+      AND id > COALESCE((SELECT max(id) FROM pin_attempts WHERE success), 0)
+  `;
+  return rows[0];
+};
+
+const lockoutSecondsLeft = (lastFailure, lockoutMinutes) =>
+  Math.ceil((new Date(lastFailure).getTime() + lockoutMinutes * 60 * 1000 - Date.now()) / 1000);
+
+export default async function handler(req, res) {
+  setCors(res, 'POST, PUT');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { pin } = req.body || {};
+      const maxAttempts = Number(await readSetting('pin_max_attempts', 5));
+      const lockoutMinutes = Number(await readSetting('pin_lockout_minutes', 15));
+
+      const before = await countFailures();
+      if (before.failures >= maxAttempts && lockoutSecondsLeft(before.last_failure, lockoutMinutes) > 0) {
+        return res.status(200).json({
+          status: 'locked',
+          retryAfterSeconds: lockoutSecondsLeft(before.last_failure, lockoutMinutes),
+        });
+      }
+
+      const { rows } = await sql`SELECT id FROM employees WHERE pin_hash = ${hashPin(String(pin || ''))}`;
+      const employeeId = rows[0]?.id ?? null;
+      await sql`INSERT INTO pin_attempts (employee_id, success) VALUES (${employeeId}, ${employeeId !== null})`;
+
+      if (employeeId === null) {
+        const after = await countFailures();
+        if (after.failures >= maxAttempts) {
+          return res.status(200).json({ status: 'locked', retryAfterSeconds: lockoutMinutes * 60 });
+        }
+        return res.status(200).json({ status: 'invalid', remaining: maxAttempts - after.failures });
+      }
+
+      const sessionToken = newSessionToken();
+      await sql`DELETE FROM employee_sessions WHERE expires_at < NOW()`;
+      await sql`
+        INSERT INTO employee_sessions (token_hash, employee_id, expires_at)
+        VALUES (${hashSessionToken(sessionToken)}, ${employeeId}, NOW() + make_interval(mins => ${KIOSK_SESSION_MINUTES}))
+      `;
+      return res.status(200).json({ status: 'ok', employeeId, sessionToken });
+    }
+
+    if (req.method === 'PUT') {
+      requireManager(req);
+      const { employeeId, pin } = req.body || {};
+      if (!/^\d{4,8}$/.test(String(pin || ''))) {
+        throw new HttpError(400, 'O PIN deve ter de 4 a 8 dígitos');
+      }
+
+      try {
+        const { rows } = await sql`UPDATE employees SET pin_hash = ${hashPin(pin)} WHERE id = ${employeeId} RETURNING id`;
+        if (rows.length === 0) {
+          return res.status(404).json({ error: 'Funcionário não encontrado' });
+        }
+      } catch (error) {
+        if (error.code === '23505') throw new HttpError(409, 'PIN já cadastrado para outro funcionário');
+        throw error;
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
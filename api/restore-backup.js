@@ -1,15 +1,9 @@
-import { sql } from '@vercel/postgres';
-
-// Garantir que usa STORAGE_URL se POSTGRES_URL não existir
-if (!process.env.POSTGRES_URL && process.env.STORAGE_URL) {
-  process.env.POSTGRES_URL = process.env.STORAGE_URL;
-}
+import { DEFAULT_TIME_ZONE, readSetting, requireManager, sendError, setCors, withTransaction } from './_shared.js';
 
+// Restaura um backup do painel (App.handleDownloadBackup) por cima dos dados atuais: funcionários e batidas
+// do arquivo são gravados pelo id, nada é apagado. PINs em texto de backups antigos são ignorados.
 export default async function handler(req, res) {
-  // Configurar CORS
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  setCors(res, 'POST');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -20,7 +14,8 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { employees, events } = req.body;
+    requireManager(req);
+    const { employees, events } = req.body || {};
 
     if (!employees || !Array.isArray(employees)) {
       return res.status(400).json({ error: 'employees deve ser um array' });
@@ -30,119 +25,57 @@ export default async function handler(req, res) {
       return res.status(400).json({ error: 'events deve ser um array' });
     }
 
-    console.log(`[restore-backup] Iniciando restauração: ${employees.length} funcionários, ${events.length} eventos`);
+    const timeZone = await readSetting('time_zone', DEFAULT_TIME_ZONE);
 
-    // Limpar dados existentes
-    console.log('[restore-backup] Limpando dados existentes...');
-    await sql`DELETE FROM events`;
-    await sql`DELETE FROM employees`;
-    console.log('[restore-backup] Dados antigos removidos');
-
-    // Importar funcionários em lote
-    console.log(`[restore-backup] Importando ${employees.length} funcionários...`);
-    
-    for (const emp of employees) {
-      try {
-        await sql`
-          INSERT INTO employees (id, name, phone, pin, cpf, funcao, pix)
-          VALUES (
-            ${emp.id}, 
-            ${emp.name}, 
-            ${emp.phone || null}, 
-            ${emp.pin}, 
-            ${emp.cpf || null}, 
-            ${emp.funcao || null}, 
-            ${emp.pix || null}
-          )
+    await withTransaction(async (client) => {
+      for (const emp of employees) {
+        await client.sql`
+          INSERT INTO employees (id, name, phone, cpf, funcao, pix, rest_weekday)
+          VALUES (${emp.id}, ${emp.name}, ${emp.phone || ''}, ${emp.cpf || null}, ${emp.funcao || null},
+                  ${emp.pix || null}, ${emp.restWeekday ?? 0})
           ON CONFLICT (id) DO UPDATE SET
             name = EXCLUDED.name,
             phone = EXCLUDED.phone,
-            pin = EXCLUDED.pin,
             cpf = EXCLUDED.cpf,
             funcao = EXCLUDED.funcao,
-            pix = EXCLUDED.pix
+            pix = EXCLUDED.pix,
+            rest_weekday = EXCLUDED.rest_weekday
         `;
-      } catch (error) {
-        console.error(`[restore-backup] Erro ao importar funcionário ${emp.name}:`, error.message);
-      }
-    }
-    
-    const employeesImported = employees.length;
-    console.log(`[restore-backup] ${employeesImported} funcionários importados`);
-
-    // Importar eventos em lotes de 50 para melhor performance
-    console.log(`[restore-backup] Importando ${events.length} eventos em lotes...`);
-    let eventsImported = 0;
-    const batchSize = 50;
-    
-    for (let i = 0; i < events.length; i += batchSize) {
-      const batch = events.slice(i, i + batchSize);
-      
-      for (const evt of batch) {
-        try {
-          // Validar dados do evento
-          if (!evt.id || !evt.employeeId || !evt.employeeName || !evt.type || !evt.timestamp) {
-            console.error(`[restore-backup] Evento inválido:`, evt);
-            continue;
-          }
-
-          await sql`
-            INSERT INTO events (id, employee_id, employee_name, type, timestamp)
-            VALUES (
-              ${evt.id}, 
-              ${evt.employeeId}, 
-              ${evt.employeeName}, 
-              ${evt.type}, 
-              ${evt.timestamp}
-            )
-            ON CONFLICT (id) DO UPDATE SET
-              employee_id = EXCLUDED.employee_id,
-              employee_name = EXCLUDED.employee_name,
-              type = EXCLUDED.type,
-              timestamp = EXCLUDED.timestamp
-          `;
-          eventsImported++;
-        } catch (error) {
-          console.error(`[restore-backup] Erro ao importar evento ${evt.id}:`, error.message);
-        }
       }
-      
-      // Log de progresso
-      console.log(`[restore-backup] ${eventsImported}/${events.length} eventos importados...`);
-    }
-    
-    console.log(`[restore-backup] ${eventsImported} eventos importados`);
 
-    // Resetar sequências de ID para evitar conflitos futuros
-    try {
-      // Encontrar o maior ID de employees e ajustar a sequência
-      const { rows: maxEmpRows } = await sql`SELECT MAX(id) as max_id FROM employees`;
-      const maxEmpId = maxEmpRows[0]?.max_id || 0;
-      if (maxEmpId > 0) {
-        await sql`SELECT setval('employees_id_seq', ${maxEmpId + 1}, false)`;
-        console.log(`[restore-backup] Sequência employees_id_seq ajustada para ${maxEmpId + 1}`);
+      // Batidas excluídas continuam excluídas: o backup só traz as ativas
+      for (const evt of events) {
+        await client.sql`
+          INSERT INTO events (id, employee_id, employee_name, type, timestamp, source, client_timestamp,
+                              edited_at, original_timestamp, time_zone)
+          VALUES (${evt.id}, ${evt.employeeId}, ${evt.employeeName}, ${evt.type}, ${evt.timestamp},
+                  ${evt.source || null}, ${evt.clientTimestamp || null}, ${evt.editedAt || null},
+                  ${evt.originalTimestamp || null}, ${evt.timeZone || timeZone})
+          ON CONFLICT (id) DO UPDATE SET
+            employee_id = EXCLUDED.employee_id,
+            employee_name = EXCLUDED.employee_name,
+            type = EXCLUDED.type,
+            timestamp = EXCLUDED.timestamp,
+            source = EXCLUDED.source,
+            client_timestamp = EXCLUDED.client_timestamp,
+            edited_at = EXCLUDED.edited_at,
+            original_timestamp = EXCLUDED.original_timestamp
+          WHERE events.deleted_at IS NULL
+        `;
       }
-    } catch (error) {
-      console.error('[restore-backup] Erro ao ajustar sequências:', error.message);
-      // Não é crítico, continuar
-    }
 
-    console.log('[restore-backup] Restauração concluída com sucesso!');
+      // Os próximos ids continuam depois dos restaurados
+      await client.sql`SELECT setval('employees_id_seq', GREATEST((SELECT MAX(id) FROM employees), 1))`;
+      await client.sql`SELECT setval('events_id_seq', GREATEST((SELECT MAX(id) FROM events), 1))`;
+    });
 
     return res.status(200).json({
       success: true,
-      employeesCount: employeesImported,
-      eventsCount: eventsImported,
+      employeesCount: employees.length,
+      eventsCount: events.length,
       message: 'Backup restaurado com sucesso'
     });
-
   } catch (error) {
-    console.error('[restore-backup] Erro geral:', error);
-    console.error('[restore-backup] Stack:', error.stack);
-    return res.status(500).json({ 
-      error: error.message,
-      details: error.stack,
-      type: error.name
-    });
+    return sendError(res, error);
   }
 }
@@ -0,0 +1,29 @@
+import { HttpError, managerFromRequest, currentManager, sendError, setCors, signInManager } from './_shared.js';
+
+// Login do gestor: POST com e-mail e senha devolve o token; GET devolve o gestor do token enviado
+export default async function handler(req, res) {
+  setCors(res, 'GET, POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ manager: managerFromRequest(req) });
+    }
+
+    if (req.method === 'POST') {
+      const { email, password } = req.body || {};
+      const token = signInManager(email, password);
+      if (!token) {
+        throw new HttpError(401, 'E-mail ou senha inválidos');
+      }
+      return res.status(200).json({ token, manager: currentManager() });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
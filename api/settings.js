@@ -0,0 +1,40 @@
+import { sql } from '@vercel/postgres';
+import { requireManager, sendError, setCors } from './_shared.js';
+
+// Configurações (chave/valor JSON, as mesmas chaves de ponto_settings em lib/settings.ts). O quiosque lê
+// sem login; só o gestor grava.
+export default async function handler(req, res) {
+  setCors(res, 'GET, PUT');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const { rows } = await sql`SELECT key, value FROM settings`;
+      return res.status(200).json(rows);
+    }
+
+    if (req.method === 'PUT') {
+      requireManager(req);
+      const { rows } = req.body || {};
+      if (!Array.isArray(rows)) {
+        return res.status(400).json({ error: 'rows deve ser um array' });
+      }
+
+      for (const { key, value } of rows) {
+        await sql`
+          INSERT INTO settings (key, value, updated_at)
+          VALUES (${key}, ${JSON.stringify(value)}::jsonb, NOW())
+          ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = EXCLUDED.updated_at
+        `;
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
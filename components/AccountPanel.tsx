@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import type { Manager } from '../types';
+import { changePassword, ROLE_LABELS } from '../lib/auth';
+
+interface AccountPanelProps {
+    manager: Manager;
+}
+
+const AccountPanel: React.FC<AccountPanelProps> = ({ manager }) => {
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleChangePassword = async () => {
+        if (password.length < 8) {
+            alert('A senha deve ter ao menos 8 caracteres');
+            return;
+        }
+        if (password !== confirmPassword) {
+            alert('A confirmação não confere com a nova senha');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await changePassword(password);
+            setPassword('');
+            setConfirmPassword('');
+            alert('Senha alterada com sucesso!');
+        } catch (error: any) {
+            alert(`Erro ao alterar senha: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="glass-panel space-y-4">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Minha Conta</h3>
+            <p className="text-gray-300">{manager.email} · {ROLE_LABELS[manager.role]}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="account-password" className="block font-semibold text-muted mb-2">Nova Senha</label>
+                    <input id="account-password" type="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="account-password-confirm" className="block font-semibold text-muted mb-2">Confirmar Nova Senha</label>
+                    <input id="account-password-confirm" type="password" autoComplete="new-password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className="input" />
+                </div>
+            </div>
+            <button onClick={handleChangePassword} disabled={isSaving || !password} className="btn btn-outline w-full">
+                {isSaving ? 'Salvando...' : 'Alterar Senha'}
+            </button>
+        </div>
+    );
+};
+
+export default AccountPanel;
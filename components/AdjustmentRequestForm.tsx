@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import type { AdjustmentRequestKind, Employee, StoredClockEvent } from '../types';
+import { ClockType } from '../types';
+import { addDaysToKey, eventDateKey, eventTimeZone, formatDateTime, todayKey, toDateKey, toTimeKey, zonedTimeToInstant } from '../lib/dateTime';
+import { ADJUSTMENT_KIND_LABELS, submitAdjustmentRequest } from '../lib/adjustmentRequests';
+import { isDeviceUnauthorizedError } from '../lib/devices';
+
+interface AdjustmentRequestFormProps {
+    employee: Employee;
+    events: StoredClockEvent[]; // Batidas do funcionário
+    origin: 'kiosk' | 'portal';
+    initial?: { type: ClockType; dateKey: string }; // Sugestão para a batida esquecida
+    onSubmitted: () => void;
+    onCancel: () => void;
+    onDeviceUnauthorized: () => void;
+}
+
+// Batidas que podem ter o horário corrigido pelo funcionário
+const CORRECTABLE_DAYS = 35;
+
+const AdjustmentRequestForm: React.FC<AdjustmentRequestFormProps> = ({ employee, events, origin, initial, onSubmitted, onCancel, onDeviceUnauthorized }) => {
+    const [kind, setKind] = useState<AdjustmentRequestKind>('missing');
+    const [eventId, setEventId] = useState<number | null>(null);
+    const [type, setType] = useState<ClockType>(initial?.type ?? ClockType.Saida);
+    const [date, setDate] = useState(initial?.dateKey ?? todayKey());
+    const [time, setTime] = useState('');
+    const [reason, setReason] = useState('');
+    const [attachment, setAttachment] = useState<File | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    const recentEvents = useMemo(() => {
+        const since = addDaysToKey(todayKey(), -CORRECTABLE_DAYS);
+        return events
+            .filter(event => event.id > 0 && eventDateKey(event) >= since)
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    }, [events]);
+
+    const handleSelectEvent = (value: string) => {
+        const event = recentEvents.find(e => e.id === parseInt(value));
+        setEventId(event?.id ?? null);
+        if (event) {
+            setType(event.type);
+            setDate(toDateKey(event.timestamp, eventTimeZone(event)));
+            setTime(toTimeKey(event.timestamp, eventTimeZone(event)));
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (kind === 'wrong_time' && eventId === null) {
+            setError('Selecione a batida a corrigir');
+            return;
+        }
+        if (!date || !time) {
+            setError('Informe a data e o horário corretos');
+            return;
+        }
+        if (!reason.trim()) {
+            setError('Informe o motivo');
+            return;
+        }
+        // A correção de horário vale no fuso em que a batida foi gravada
+        const correctedEvent = kind === 'wrong_time' ? recentEvents.find(e => e.id === eventId) : undefined;
+        const requestedTimestamp = zonedTimeToInstant(date, time, correctedEvent ? eventTimeZone(correctedEvent) : undefined);
+        if (requestedTimestamp.getTime() > Date.now()) {
+            setError('O horário não pode estar no futuro');
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const requestId = await submitAdjustmentRequest({
+                employeeId: employee.id,
+                kind,
+                eventId: kind === 'wrong_time' ? eventId : null,
+                type,
+                requestedTimestamp,
+                reason: reason.trim(),
+                origin,
+            }, attachment);
+            alert(`Solicitação nº ${requestId} enviada. Ela será analisada pelo gestor.`);
+            onSubmitted();
+        } catch (err: any) {
+            if (isDeviceUnauthorizedError(err)) {
+                onDeviceUnauthorized();
+                return;
+            }
+            console.error('Erro ao enviar solicitação de ajuste:', err);
+            setError(err.message || 'Erro ao enviar a solicitação. Verifique a conexão.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="glass-panel max-w-md mx-auto animate-fade-in flex flex-col space-y-4">
+            <div>
+                <h3 className="text-xl font-semibold text-center">Solicitar Ajuste de Ponto</h3>
+                <p className="text-sm text-gray-400 text-center">{employee.name}</p>
+            </div>
+
+            <div>
+                <label htmlFor="adjustment-kind" className="block font-semibold text-muted mb-2">Solicitação</label>
+                <select id="adjustment-kind" value={kind} onChange={(e) => setKind(e.target.value as AdjustmentRequestKind)} className="input">
+                    <option value="missing">{ADJUSTMENT_KIND_LABELS.missing}</option>
+                    <option value="wrong_time">{ADJUSTMENT_KIND_LABELS.wrong_time}</option>
+                </select>
+            </div>
+
+            {kind === 'wrong_time' && (
+                <div>
+                    <label htmlFor="adjustment-event" className="block font-semibold text-muted mb-2">Batida a corrigir</label>
+                    <select id="adjustment-event" value={eventId ?? ''} onChange={(e) => handleSelectEvent(e.target.value)} className="input">
+                        <option value="">Selecione...</option>
+                        {recentEvents.map(event => (
+                            <option key={event.id} value={event.id}>{event.type} · {formatDateTime(event.timestamp, eventTimeZone(event))}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            <div>
+                <label htmlFor="adjustment-type" className="block font-semibold text-muted mb-2">Marcação</label>
+                <select id="adjustment-type" value={type} onChange={(e) => setType(e.target.value as ClockType)} className="input">
+                    {Object.values(ClockType).map(clockType => (
+                        <option key={clockType} value={clockType}>{clockType}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="adjustment-date" className="block font-semibold text-muted mb-2">Data</label>
+                    <input id="adjustment-date" type="date" max={todayKey()} value={date} onChange={(e) => setDate(e.target.value)} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="adjustment-time" className="block font-semibold text-muted mb-2">Horário correto</label>
+                    <input id="adjustment-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} className="input" />
+                </div>
+            </div>
+            <div>
+                <label htmlFor="adjustment-reason" className="block font-semibold text-muted mb-2">Motivo</label>
+                <input
+                    id="adjustment-reason"
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Ex: esqueci de registrar a saída"
+                    className="input"
+                />
+            </div>
+            <div>
+                <label htmlFor="adjustment-attachment" className="block font-semibold text-muted mb-2">Anexo (opcional)</label>
+                <input id="adjustment-attachment" type="file" accept="image/*,application/pdf" onChange={(e) => setAttachment(e.target.files?.[0] || null)} className="input" />
+            </div>
+
+            {error && <p className="text-center text-sm" style={{color: 'var(--color-red)'}}>{error}</p>}
+
+            <button type="submit" disabled={isSubmitting} className="btn btn-primary w-full">
+                {isSubmitting ? 'Enviando...' : 'Enviar Solicitação'}
+            </button>
+            <button type="button" onClick={onCancel} className="btn w-full" style={{backgroundColor: 'rgba(255,255,255,0.05)'}}>
+                Cancelar
+            </button>
+        </form>
+    );
+};
+
+export default AdjustmentRequestForm;
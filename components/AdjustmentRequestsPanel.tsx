@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AdjustmentRequest, Employee, StoredClockEvent } from '../types';
+import {
+    ADJUSTMENT_KIND_LABELS,
+    ADJUSTMENT_STATUS_LABELS,
+    approveAdjustmentRequest,
+    fetchAdjustmentRequests,
+    getAdjustmentAttachmentUrl,
+    rejectAdjustmentRequest,
+} from '../lib/adjustmentRequests';
+import { eventTimeZone, formatDateTime } from '../lib/dateTime';
+
+interface AdjustmentRequestsPanelProps {
+    employees: Employee[];
+    events: StoredClockEvent[]; // Para mostrar o horário atual das batidas a corrigir
+    onDecided: () => Promise<void>; // Recarrega as batidas depois de uma aprovação
+    // Abre o modal de confirmação do painel pedindo a justificativa
+    requestConfirmation: (title: string, message: string, onConfirm: (reason: string) => void, requireReason?: boolean) => void;
+}
+
+const ORIGIN_LABELS: Record<AdjustmentRequest['origin'], string> = {
+    kiosk: 'quiosque',
+    portal: 'área do funcionário',
+};
+
+const AdjustmentRequestsPanel: React.FC<AdjustmentRequestsPanelProps> = ({ employees, events, onDecided, requestConfirmation }) => {
+    const [requests, setRequests] = useState<AdjustmentRequest[]>([]);
+    const [showDecided, setShowDecided] = useState(false);
+
+    const loadRequests = useCallback(async () => {
+        try {
+            setRequests(await fetchAdjustmentRequests());
+        } catch (error) {
+            console.error('Erro ao carregar solicitações de ajuste:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadRequests();
+    }, [loadRequests]);
+
+    const employeeName = (employeeId: number) => employees.find(emp => emp.id === employeeId)?.name || `Funcionário ${employeeId}`;
+
+    const describe = (request: AdjustmentRequest): string => {
+        const requested = `${request.type} em ${formatDateTime(request.requestedTimestamp)}`;
+        if (request.kind === 'missing') return `Incluir ${requested}`;
+        const current = events.find(event => event.id === request.eventId);
+        return current
+            ? `Alterar ${current.type} de ${formatDateTime(current.timestamp, eventTimeZone(current))} para ${requested}`
+            : `Alterar batida nº ${request.eventId} para ${requested}`;
+    };
+
+    const handleApprove = (request: AdjustmentRequest) => {
+        requestConfirmation(
+            'Aprovar Solicitação de Ajuste',
+            `${employeeName(request.employeeId)}: ${describe(request)}. A batida será gravada com a solicitação como justificativa.`,
+            async (note) => {
+                try {
+                    await approveAdjustmentRequest(request.id, note);
+                    await Promise.all([loadRequests(), onDecided()]);
+                } catch (error: any) {
+                    alert(`Erro ao aprovar solicitação: ${error.message || 'Erro desconhecido'}`);
+                }
+            }
+        );
+    };
+
+    const handleReject = (request: AdjustmentRequest) => {
+        requestConfirmation(
+            'Recusar Solicitação de Ajuste',
+            `${employeeName(request.employeeId)}: ${describe(request)}. O funcionário verá a justificativa na área do funcionário.`,
+            async (note) => {
+                try {
+                    await rejectAdjustmentRequest(request.id, note);
+                    await loadRequests();
+                } catch (error: any) {
+                    alert(`Erro ao recusar solicitação: ${error.message || 'Erro desconhecido'}`);
+                }
+            },
+            true
+        );
+    };
+
+    const openAttachment = async (attachmentPath: string) => {
+        try {
+            window.open(await getAdjustmentAttachmentUrl(attachmentPath), '_blank');
+        } catch (error: any) {
+            alert(`Erro ao abrir anexo: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const pendingCount = requests.filter(request => request.status === 'pending').length;
+    const visibleRequests = showDecided ? requests : requests.filter(request => request.status === 'pending');
+
+    if (requests.length === 0) return null;
+
+    return (
+        <div className="glass-panel space-y-4">
+            <div className="flex justify-between items-center border-b border-gray-600 pb-2">
+                <h3 className="text-xl font-semibold">Solicitações de Ajuste ({pendingCount})</h3>
+                <label className="flex items-center gap-2 text-sm text-muted">
+                    <input type="checkbox" checked={showDecided} onChange={(e) => setShowDecided(e.target.checked)} />
+                    Mostrar decididas (30 dias)
+                </label>
+            </div>
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+                {visibleRequests.length === 0 && (
+                    <p className="text-muted text-center py-4 text-sm" style={{fontStyle: 'italic'}}>Nenhuma solicitação pendente.</p>
+                )}
+                {visibleRequests.map(request => (
+                    <div key={request.id} className="flex justify-between items-center bg-stone-800 p-3 rounded gap-2">
+                        <div>
+                            <p className="font-semibold">
+                                {employeeName(request.employeeId)} · {ADJUSTMENT_KIND_LABELS[request.kind]}
+                                {request.status !== 'pending' && ` · ${ADJUSTMENT_STATUS_LABELS[request.status]}`}
+                            </p>
+                            <p className="text-sm">{describe(request)}</p>
+                            <p className="text-sm text-gray-400">
+                                Nº {request.id} · {formatDateTime(request.createdAt)} pelo {ORIGIN_LABELS[request.origin]} · Motivo: {request.reason}
+                            </p>
+                            {request.decidedAt && (
+                                <p className="text-sm text-gray-400">
+                                    {ADJUSTMENT_STATUS_LABELS[request.status]} por {request.decidedBy} em {formatDateTime(request.decidedAt)}
+                                    {request.decisionNote && ` · ${request.decisionNote}`}
+                                </p>
+                            )}
+                            {request.attachmentPath && (
+                                <button onClick={() => openAttachment(request.attachmentPath!)} className="text-sm underline text-gold">
+                                    Ver anexo
+                                </button>
+                            )}
+                        </div>
+                        {request.status === 'pending' && (
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <button onClick={() => handleApprove(request)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                    Aprovar
+                                </button>
+                                <button onClick={() => handleReject(request)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                    Recusar
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default AdjustmentRequestsPanel;
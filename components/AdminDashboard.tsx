@@ -2,205 +2,68 @@
 // Removidas todas as funcionalidades de backup/restore que não são mais necessárias com Vercel KV
 
 import React, { useState, useMemo, useRef } from 'react';
-import type { Employee, StoredClockEvent, AppState } from '../types';
+import type { Employee, ClockEvent, StoredClockEvent, AppState, PayRules, Holiday, TimeBankEntry, ScheduleRules, Leave, Manager, Permission } from '../types';
 import { ClockType } from '../types';
-import { PIN_LENGTH } from '../constants';
 import { LogoutIcon, EditIcon, DownloadIcon, DeleteIcon, UploadIcon } from './Icons';
-import { supabase } from '../lib/supabase';
-// Funções para formatar data/hora
-// O banco converte timestamps com offset para UTC, então usamos getUTC* para exibir
-const formatBrasiliaDateTime = (timestamp: string | Date): string => {
-    const date = new Date(timestamp);
-    const day = String(date.getUTCDate()).padStart(2, '0');
-    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-    const year = date.getUTCFullYear();
-    const hours = String(date.getUTCHours()).padStart(2, '0');
-    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
-    const seconds = String(date.getUTCSeconds()).padStart(2, '0');
-
-    return `${day}/${month}/${year}, ${hours}:${minutes}:${seconds}`;
-};
-
-const formatBrasiliaDate = (timestamp: string | Date): string => {
-    const date = new Date(timestamp);
-    const day = String(date.getUTCDate()).padStart(2, '0');
-    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-    const year = date.getUTCFullYear();
-
-    return `${day}/${month}/${year}`;
-};
-
-const formatBrasiliaTime = (timestamp: string | Date): string => {
-    const date = new Date(timestamp);
-    const hours = String(date.getUTCHours()).padStart(2, '0');
-    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
-    const seconds = String(date.getUTCSeconds()).padStart(2, '0');
-
-    return `${hours}:${minutes}:${seconds}`;
-};
+import { repositories } from '../lib/repository';
+import { eventDateKey, eventTimeZone, formatDate, formatDateKey, formatDateTime, todayKey, startOfMonthKey, toDateKey, toTimeKey, zonedTimeToInstant, startOfZonedDay, endOfZonedDay, WEEKDAY_LABELS } from '../lib/dateTime';
+import type { AppSettings } from '../lib/settings';
+import { groupEventsByShifts, calculateShiftDetails, formatMilliseconds, formatCurrency } from '../lib/workCalculation';
+import { checkScheduleCompliance, COMPLIANCE_ISSUE_LABELS } from '../lib/schedules';
+import { calculateLeaveDays } from '../lib/leaves';
+import { fetchAfdRecords, generateAfd, getAfdFileName, validateAfd } from '../lib/afd';
+import { generateAej, getAejAdjustedEventIds, getAejFileName, validateAejFile, validateAejInput } from '../lib/aej';
+import { fetchLatestReasons } from '../lib/eventAudit';
+import { isValidCpf } from '../lib/documents';
+import { hasPermission, ROLE_LABELS } from '../lib/auth';
+import { photoStorage } from '../lib/photoStorage';
+import { describePunchLocation } from '../lib/sites';
+import { buildTimesheet, printTimesheets } from '../lib/timesheet';
+import SettingsPanel from './SettingsPanel';
+import PayProfilesPanel from './PayProfilesPanel';
+import HolidaysPanel from './HolidaysPanel';
+import TimeBankPanel from './TimeBankPanel';
+import SchedulesPanel from './SchedulesPanel';
+import LeavesPanel from './LeavesPanel';
+import EventHistoryModal from './EventHistoryModal';
+import DayAuditModal from './DayAuditModal';
+import ManagersPanel from './ManagersPanel';
+import AccountPanel from './AccountPanel';
+import SecurityAlertsPanel from './SecurityAlertsPanel';
+import OfflineConflictsPanel from './OfflineConflictsPanel';
+import AdjustmentRequestsPanel from './AdjustmentRequestsPanel';
+import { findOpenShift, getShiftPolicy } from '../lib/shiftPolicy';
+import SequenceValidationPanel from './SequenceValidationPanel';
+import DuplicatePunchesPanel from './DuplicatePunchesPanel';
+import SitesPanel from './SitesPanel';
+import DevicesPanel from './DevicesPanel';
 
 interface AdminDashboardProps {
-    admin: Employee;
+    manager: Manager;
     allEvents: StoredClockEvent[];
     employees: Employee[];
-    onAddEmployee: (employee: Omit<Employee, 'id'>) => void;
+    onAddEmployee: (employee: Omit<Employee, 'id'>) => Promise<void>;
     onDeleteEmployee: (id: number) => void;
-    onUpdateEmployee: (employee: Employee) => void;
+    onUpdateEmployee: (employee: Employee) => Promise<void>;
     onImportEmployees: (employees: Omit<Employee, 'id'>[]) => Promise<{ added: number, updated: number, errors: string[] }>;
     onLogout: () => void;
-    onUpdateEvent: (eventId: number, newTimestamp: Date) => void;
-    onAddManualEvent: (details: { employeeId: number; type: ClockType; timestamp: Date; }) => Promise<boolean>;
-    onDeleteEvent: (eventId: number) => void;
+    onUpdateEvent: (eventId: number, changes: ClockEvent, reason: string) => Promise<boolean>;
+    onAddManualEvent: (details: { employeeId: number; type: ClockType; timestamp: Date; reason: string; }) => Promise<boolean>;
+    onAddManualBreak: (details: { employeeId: number; start: Date; end: Date; reason: string; }) => Promise<boolean>;
+    onDeleteEvent: (eventId: number, reason: string) => void;
     onDownloadBackup: () => void;
     onRefresh: () => Promise<void>;
+    settings: AppSettings;
+    payRules: PayRules;
+    holidays: Holiday[];
+    timeBankEntries: TimeBankEntry[];
+    scheduleRules: ScheduleRules;
+    leaves: Leave[];
+    onSaveSettings: (changes: Partial<AppSettings>) => Promise<boolean>;
 }
 
-const API_BASE_URL = import.meta.env.PROD ? '' : 'http://localhost:3000';
-const NORMAL_WORK_MILLISECONDS = 8 * 60 * 60 * 1000;
-const NORMAL_HOUR_RATE = 8.15;
-const EXTRA_HOUR_RATE = 16.30;
-
-interface WorkDetails {
-    total: number;
-    normal: number;
-    extra: number;
-    payment: {
-        normal: number;
-        extra: number;
-        total: number;
-    };
-    status: 'complete' | 'incomplete' | 'error' | 'no_entry';
-}
-
-/**
- * Agrupa eventos por turnos de trabalho.
- * Um turno começa com uma Entrada e termina com uma Saída.
- * Pode conter múltiplos intervalos e atravessar a meia-noite.
- */
-const groupEventsByShifts = (events: StoredClockEvent[]): StoredClockEvent[][] => {
-    // Ordenar eventos por timestamp
-    const sorted = [...events].sort((a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    const shifts: StoredClockEvent[][] = [];
-    let currentShift: StoredClockEvent[] = [];
-    let shiftStarted = false;
-
-    for (const event of sorted) {
-        if (event.type === ClockType.Entrada) {
-            // Se já tínhamos um turno aberto, fechamos ele como incompleto
-            if (shiftStarted && currentShift.length > 0) {
-                shifts.push(currentShift);
-            }
-            // Início de um novo turno
-            currentShift = [event];
-            shiftStarted = true;
-        } else if (shiftStarted) {
-            // Verifica se o evento não está muito distante da Entrada (ex: > 20 horas)
-            const entradaTime = new Date(currentShift[0].timestamp).getTime();
-            const eventTime = new Date(event.timestamp).getTime();
-            
-            if (eventTime - entradaTime > 20 * 60 * 60 * 1000) {
-                // Muito distante. Fecha o turno atual incompleto e ignora este evento órfão.
-                shifts.push(currentShift);
-                currentShift = [];
-                shiftStarted = false;
-            } else {
-                // Adicionar evento ao turno atual
-                currentShift.push(event);
-
-                if (event.type === ClockType.Saida) {
-                    // Fim do turno
-                    shifts.push(currentShift);
-                    currentShift = [];
-                    shiftStarted = false;
-                }
-            }
-        }
-    }
-
-    // Se houver um turno incompleto (sem saída), adicionar também
-    if (currentShift.length > 0) {
-        shifts.push(currentShift);
-    }
-
-    return shifts;
-};
-
-const formatMilliseconds = (totalMillis: number): string => {
-    if (totalMillis < 0) return "Erro";
-    const hours = Math.floor(totalMillis / (1000 * 60 * 60));
-    const minutes = Math.floor((totalMillis % (1000 * 60 * 60)) / (1000 * 60));
-    const pad = (num: number) => num.toString().padStart(2, '0');
-    return `${pad(hours)}h ${pad(minutes)}m`;
-};
-
-const formatCurrency = (value: number): string => {
-    return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
-};
-
-const calculateWorkDetails = (dailyEvents: StoredClockEvent[]): WorkDetails => {
-    const defaultPayment = { payment: { normal: 0, extra: 0, total: 0 } };
-    const sortedEvents = [...dailyEvents].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-
-    let totalMillis = 0;
-    let lastTime: number | null = null;
-    let isWorking = false;
-
-    for (const event of sortedEvents) {
-        const currentTime = new Date(event.timestamp).getTime();
-        if (isWorking && lastTime) {
-            totalMillis += currentTime - lastTime;
-        }
-        switch (event.type) {
-            case ClockType.Entrada:
-            case ClockType.FimIntervalo:
-                isWorking = true;
-                break;
-            case ClockType.Saida:
-            case ClockType.InicioIntervalo:
-                isWorking = false;
-                break;
-        }
-        lastTime = currentTime;
-    }
-
-    const hasEntry = sortedEvents.some(e => e.type === ClockType.Entrada);
-    if (!hasEntry) return { total: 0, normal: 0, extra: 0, status: 'no_entry', ...defaultPayment };
-
-    const hasExit = sortedEvents.some(e => e.type === ClockType.Saida);
-    if (isWorking || !hasExit) {
-        return { total: 0, normal: 0, extra: 0, status: 'incomplete', ...defaultPayment };
-    }
-
-    if (totalMillis < 0) return { total: 0, normal: 0, extra: 0, status: 'error', ...defaultPayment };
-
-    const normal = Math.min(totalMillis, NORMAL_WORK_MILLISECONDS);
-    const extra = Math.max(0, totalMillis - NORMAL_WORK_MILLISECONDS);
-
-    const normalHours = normal / (1000 * 60 * 60);
-    const extraHours = extra / (1000 * 60 * 60);
-
-    const normalPayment = normalHours * NORMAL_HOUR_RATE;
-    const extraPayment = extraHours * EXTRA_HOUR_RATE;
-    const totalPayment = normalPayment + extraPayment;
-
-    return {
-        total: totalMillis,
-        normal,
-        extra,
-        payment: {
-            normal: normalPayment,
-            extra: extraPayment,
-            total: totalPayment
-        },
-        status: 'complete'
-    };
-};
-
 const AdminDashboard: React.FC<AdminDashboardProps> = ({
-    admin,
+    manager,
     allEvents,
     employees,
     onAddEmployee,
@@ -210,33 +73,52 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     onLogout,
     onUpdateEvent,
     onAddManualEvent,
+    onAddManualBreak,
     onDeleteEvent,
     onDownloadBackup,
-    onRefresh
+    onRefresh,
+    settings,
+    payRules,
+    holidays,
+    timeBankEntries,
+    scheduleRules,
+    leaves,
+    onSaveSettings
 }) => {
+    // As mesmas permissões são conferidas pelo banco (RLS); aqui só escondemos o que o papel não pode usar
+    const can = (permission: Permission) => hasPermission(manager, permission);
+    // Alertas, conflitos offline, solicitações de ajuste, validações, AFD/AEJ, histórico de auditoria,
+    // afastamentos, escalas, banco de horas, locais, dispositivos, gestores e conta só existem no Supabase
+    const serverFeatures = repositories.supportsServerFeatures;
+    // Autor gravado nas resoluções de alertas e conflitos
+    const actor = `${manager.name} <${manager.email}>`;
+
     const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('all');
 
-    const [startDate, setStartDate] = useState<string>(() => {
-        const now = new Date();
-        const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-        return firstDay.toISOString().split('T')[0];
-    });
+    // Datas do filtro são dias de calendário no fuso da empresa
+    const [startDate, setStartDate] = useState<string>(() => startOfMonthKey(todayKey()));
 
-    const [endDate, setEndDate] = useState<string>(() => {
-        const now = new Date();
-        return now.toISOString().split('T')[0];
-    });
+    const [endDate, setEndDate] = useState<string>(() => todayKey());
 
-    const [newEmployee, setNewEmployee] = useState({ name: '', pin: '', phone: '', cpf: '', funcao: '', pix: '' });
+    const [newEmployee, setNewEmployee] = useState({ name: '', pin: '', birthDate: '', phone: '', cpf: '', funcao: '', pix: '', restWeekday: 0 });
     const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
     const [restoreMessage, setRestoreMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
     const jsonBackupInputRef = useRef<HTMLInputElement>(null);
     const [showAddBreakModal, setShowAddBreakModal] = useState<{ employeeId: number, employeeName: string, date: Date } | null>(null);
     const [editingEvent, setEditingEvent] = useState<StoredClockEvent | null>(null);
-    const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; title: string, message: string, onConfirm: () => void } | null>(null);
-
-    const openConfirmModal = (title: string, message: string, onConfirm: () => void) => {
-        setConfirmModal({ isOpen: true, title, message, onConfirm });
+    const [historyEvent, setHistoryEvent] = useState<StoredClockEvent | null>(null);
+    const [auditDay, setAuditDay] = useState<{ employeeId: number; employeeName: string; dateKey: string } | null>(null);
+    const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+    const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; title: string, message: string, onConfirm: (reason: string) => void, requireReason?: boolean } | null>(null);
+    const [confirmReason, setConfirmReason] = useState('');
+    const [isExportingAfd, setIsExportingAfd] = useState(false);
+    const [isExportingAej, setIsExportingAej] = useState(false);
+    const aejFileInputRef = useRef<HTMLInputElement>(null);
+
+    // requireReason: pede justificativa (gravada na auditoria) antes de confirmar
+    const openConfirmModal = (title: string, message: string, onConfirm: (reason: string) => void, requireReason = false) => {
+        setConfirmReason('');
+        setConfirmModal({ isOpen: true, title, message, onConfirm, requireReason });
     };
 
     const closeConfirmModal = () => {
@@ -248,7 +130,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         return localStorage.getItem('manualEmployeeId') || '';
     });
     const [manualDate, setManualDate] = useState<string>(() => {
-        return localStorage.getItem('manualDate') || new Date().toISOString().split('T')[0];
+        return localStorage.getItem('manualDate') || todayKey();
     });
     const [manualTime, setManualTime] = useState<string>(() => {
         const saved = localStorage.getItem('manualTime') || '09:00:00';
@@ -258,6 +140,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         const saved = localStorage.getItem('manualType');
         return (saved as ClockType) || ClockType.Entrada;
     });
+    const [manualReason, setManualReason] = useState('');
 
     // Sincronizar estados com localStorage
     React.useEffect(() => {
@@ -281,31 +164,50 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         return [...employees].sort((a, b) => a.name.localeCompare(b.name));
     }, [employees]);
 
-    const handleAddEmployee = () => {
+    const handleAddEmployee = async () => {
         if (!newEmployee.name || !newEmployee.pin) {
             alert('Preencha os campos obrigatórios: Nome e PIN');
             return;
         }
-        if (newEmployee.pin.length !== PIN_LENGTH) {
-            alert(`O PIN deve ter ${PIN_LENGTH} dígitos`);
+        if (newEmployee.pin.length !== settings.pinLength) {
+            alert(`O PIN deve ter ${settings.pinLength} dígitos`);
             return;
         }
-        onAddEmployee(newEmployee);
-        setNewEmployee({ name: '', pin: '', phone: '', cpf: '', funcao: '', pix: '' });
+        if (newEmployee.cpf && !isValidCpf(newEmployee.cpf)) {
+            alert('CPF inválido');
+            return;
+        }
+        try {
+            await onAddEmployee(newEmployee);
+            setNewEmployee({ name: '', pin: '', birthDate: '', phone: '', cpf: '', funcao: '', pix: '', restWeekday: 0 });
+        } catch (error: any) {
+            console.error('Erro ao adicionar funcionário:', error);
+            alert(`Erro ao cadastrar funcionário: ${error.message || 'Erro desconhecido'}`);
+        }
     };
 
-    const handleUpdateEmployee = () => {
+    const handleUpdateEmployee = async () => {
         if (!editingEmployee) return;
-        if (!editingEmployee.name || !editingEmployee.pin) {
-            alert('Preencha todos os campos');
+        if (!editingEmployee.name) {
+            alert('Preencha o nome');
+            return;
+        }
+        // PIN em branco mantém o atual
+        if (editingEmployee.pin && editingEmployee.pin.length !== settings.pinLength) {
+            alert(`O PIN deve ter ${settings.pinLength} dígitos`);
             return;
         }
-        if (editingEmployee.pin.length !== PIN_LENGTH) {
-            alert(`O PIN deve ter ${PIN_LENGTH} dígitos`);
+        if (editingEmployee.cpf && !isValidCpf(editingEmployee.cpf)) {
+            alert('CPF inválido');
             return;
         }
-        onUpdateEmployee(editingEmployee);
-        setEditingEmployee(null);
+        try {
+            await onUpdateEmployee(editingEmployee);
+            setEditingEmployee(null);
+        } catch (error: any) {
+            console.error('Erro ao atualizar funcionário:', error);
+            alert(`Erro ao salvar funcionário: ${error.message || 'Erro desconhecido'}`);
+        }
     };
 
     const handleRestoreBackup = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -334,11 +236,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
                         showMessage('🔄 Restaurando backup... Aguarde.', 'success');
 
-                        // Restaurar via Supabase
-                        const { error: empError } = await supabase.from('ponto_employees').upsert(backupData.employees);
-                        const { error: evError } = await supabase.from('ponto_events').upsert(backupData.events);
-
-                        if (empError || evError) {
+                        try {
+                            await repositories.restoreBackup(backupData);
+                        } catch (restoreError) {
+                            console.error('Erro ao restaurar backup:', restoreError);
                             throw new Error('Erro ao salvar no banco de dados');
                         }
 
@@ -372,30 +273,19 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
             alert('Selecione um funcionário');
             return;
         }
+        if (!manualReason.trim()) {
+            alert('Informe a justificativa do lançamento manual');
+            return;
+        }
 
-        // Criar Date em UTC e ajustar para Brasília (GMT-3)
-        const [year, month, day] = manualDate.split('-');
-        const [hours, minutes, secondsStr] = manualTime.split(':');
-        const seconds = secondsStr ? parseInt(secondsStr) : 0;
-
-        // Criar data em UTC com os valores inseridos
-        const dateTime = new Date(Date.UTC(
-            parseInt(year),
-            parseInt(month) - 1, // Mês é 0-indexed
-            parseInt(day),
-            parseInt(hours),
-            parseInt(minutes),
-            seconds, // segundos
-            0  // milissegundos
-        ));
-
-        // Adicionar 3 horas para compensar GMT-3 → UTC
-        dateTime.setUTCHours(dateTime.getUTCHours() + 3);
+        // Data e horário digitados são horário de parede no fuso da empresa
+        const dateTime = zonedTimeToInstant(manualDate, manualTime);
 
         const success = await onAddManualEvent({
             employeeId: parseInt(manualEmployeeId),
             type: manualType,
-            timestamp: dateTime
+            timestamp: dateTime,
+            reason: manualReason.trim()
         });
 
         if (success) {
@@ -435,10 +325,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         }
     };
 
+    const calculateShift = (shiftEvents: StoredClockEvent[]) =>
+        calculateShiftDetails(shiftEvents, employees.find(e => e.id === shiftEvents[0]?.employeeId), payRules, holidays);
+
     const filteredEvents = useMemo(() => {
-        // Criar timestamps UTC explícitos para evitar problemas de fuso horário
-        const start = new Date(`${startDate}T00:00:00.000Z`);
-        const end = new Date(`${endDate}T23:59:59.999Z`);
+        // Limites do período convertidos do fuso da empresa para instantes reais
+        const start = startOfZonedDay(startDate);
+        const end = endOfZonedDay(endDate);
 
         return allEvents.filter(event => {
             const eventDate = new Date(event.timestamp);
@@ -448,6 +341,36 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         });
     }, [allEvents, startDate, endDate, selectedEmployeeId]);
 
+    // Fotos das batidas do período (endereços temporários, renovados a cada mudança do filtro)
+    React.useEffect(() => {
+        const paths = filteredEvents.map(event => event.photoPath).filter((path): path is string => !!path);
+        let cancelled = false;
+        photoStorage.getUrls(paths)
+            .then(urls => { if (!cancelled) setPhotoUrls(urls); })
+            .catch(error => console.error('Erro ao carregar fotos das batidas:', error));
+        return () => { cancelled = true; };
+    }, [filteredEvents]);
+
+    const outsideGeofenceCount = useMemo(() => filteredEvents.filter(event => event.outsideGeofence).length, [filteredEvents]);
+
+    const auditDayEvents = useMemo(() => (
+        auditDay
+            ? filteredEvents
+                .filter(event => event.employeeId === auditDay.employeeId && eventDateKey(event) === auditDay.dateKey)
+                .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+            : []
+    ), [auditDay, filteredEvents]);
+
+    const selectedEmployees = useMemo(() => (
+        selectedEmployeeId === 'all' ? employees : employees.filter(e => e.id === parseInt(selectedEmployeeId))
+    ), [employees, selectedEmployeeId]);
+
+    // Dias de afastamento sem batida no período (férias, atestados, faltas, folgas)
+    const leaveDays = useMemo(() => (
+        selectedEmployees.flatMap(employee =>
+            calculateLeaveDays(employee, leaves, allEvents, payRules, scheduleRules, holidays, startDate, endDate))
+    ), [selectedEmployees, leaves, allEvents, payRules, scheduleRules, holidays, startDate, endDate]);
+
     const periodSummary = useMemo(() => {
         console.log('[DEBUG] Calculando periodSummary');
         console.log('[DEBUG] filteredEvents:', filteredEvents);
@@ -465,6 +388,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
         let totalNormal = 0;
         let totalExtra = 0;
+        let totalNight = 0;
+        let totalNightPremium = 0;
+        let totalHoliday = 0;
         let totalPayment = 0;
 
         // Para cada funcionário, agrupar por turnos seguros e calcular
@@ -474,30 +400,132 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
             // Calcular total para cada turno deste funcionário
             shifts.forEach(shiftEvents => {
-                const details = calculateWorkDetails(shiftEvents);
+                const details = calculateShift(shiftEvents);
                 if (details.status === 'complete') {
                     totalNormal += details.normal;
                     totalExtra += details.extra;
+                    totalNight += details.nightReduced;
+                    totalNightPremium += details.payment.nightPremium;
+                    totalHoliday += details.holiday;
                     totalPayment += details.payment.total;
                 }
             });
         });
 
+        // Horas abonadas contam como normais; faltas injustificadas descontam do mensalista
+        leaveDays.forEach(leaveDay => {
+            totalNormal += leaveDay.abonado;
+            totalPayment += leaveDay.payment;
+        });
+
         return {
             normalHours: formatMilliseconds(totalNormal),
             extraHours: formatMilliseconds(totalExtra),
-            totalHours: formatMilliseconds(totalNormal + totalExtra),
+            totalHours: formatMilliseconds(totalNormal + totalExtra + totalHoliday),
+            holidayHours: formatMilliseconds(totalHoliday),
+            nightHours: formatMilliseconds(totalNight),
+            nightPremium: formatCurrency(totalNightPremium),
             payment: formatCurrency(totalPayment)
         };
-    }, [filteredEvents]);
+    }, [filteredEvents, employees, payRules, holidays, leaveDays]);
+
+    // Atrasos, saídas antecipadas, intervalos e faltas em relação à escala, no período filtrado
+    const complianceIssues = useMemo(() => (
+        selectedEmployees
+            .flatMap(employee => checkScheduleCompliance(employee, allEvents, scheduleRules, holidays, leaves, startDate, endDate))
+            .sort((a, b) => a.date.localeCompare(b.date))
+    ), [allEvents, selectedEmployees, scheduleRules, holidays, leaves, startDate, endDate]);
+
+    // Turnos que passaram da duração máxima sem Saída (política de turno aberto)
+    const openShifts = useMemo(() => (
+        selectedEmployees.flatMap(employee => {
+            const openShift = findOpenShift(allEvents.filter(event => event.employeeId === employee.id));
+            return openShift ? [{ employee, ...openShift }] : [];
+        })
+    ), [allEvents, selectedEmployees, settings.maxShiftHours]);
+
+    const downloadTextFile = (content: string, fileName: string) => {
+        const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.download = fileName;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
 
-    const handlePrintReport = () => {
-        if (filteredEvents.length === 0) {
-            alert('Nenhum registro para imprimir');
-            return;
+    // AFD do REP: todas as marcações de quiosque do período, independente do filtro de funcionário
+    const handleExportAfd = async () => {
+        setIsExportingAfd(true);
+        try {
+            const records = await fetchAfdRecords(startDate, endDate);
+            const validation = validateAfd(settings, employees, records);
+            if (validation.errors.length > 0 || validation.missingCpf.length > 0) {
+                const problems = [
+                    ...validation.errors,
+                    ...(validation.missingCpf.length > 0
+                        ? [`Funcionários sem CPF válido: ${validation.missingCpf.map(emp => emp.name).join(', ')}`]
+                        : []),
+                ];
+                alert(`Não foi possível gerar o AFD:\n\n- ${problems.join('\n- ')}`);
+                return;
+            }
+
+            downloadTextFile(await generateAfd(settings, employees, records, startDate, endDate), getAfdFileName(settings));
+        } catch (error: any) {
+            console.error('Erro ao gerar AFD:', error);
+            alert(`Erro ao gerar AFD: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setIsExportingAfd(false);
+        }
+    };
+
+    // AEJ: jornadas tratadas do período e dos funcionários do filtro atual
+    const handleExportAej = async () => {
+        setIsExportingAej(true);
+        try {
+            const eventIds = getAejAdjustedEventIds(allEvents, selectedEmployees, startDate, endDate);
+            const input = {
+                settings,
+                employees: selectedEmployees,
+                events: allEvents,
+                payRules,
+                scheduleRules,
+                holidays,
+                leaves,
+                timeBankEntries,
+                reasons: await fetchLatestReasons(eventIds),
+                fromKey: startDate,
+                toKey: endDate,
+            };
+            const problems = validateAejInput(input);
+            if (problems.length > 0) {
+                alert(`Não foi possível gerar o AEJ:\n\n- ${problems.join('\n- ')}`);
+                return;
+            }
+            downloadTextFile(generateAej(input), getAejFileName(settings, startDate, endDate));
+        } catch (error: any) {
+            console.error('Erro ao gerar AEJ:', error);
+            alert(`Erro ao gerar AEJ: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setIsExportingAej(false);
         }
+    };
 
-        // Agrupar eventos por funcionário
+    const handleValidateAejFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const problems = validateAejFile(await file.text());
+        alert(problems.length === 0
+            ? `${file.name}: estrutura do AEJ válida.`
+            : `${file.name}: ${problems.length} problema(s) encontrado(s):\n\n- ${problems.slice(0, 30).join('\n- ')}${problems.length > 30 ? '\n...' : ''}`);
+        if (aejFileInputRef.current) aejFileInputRef.current.value = '';
+    };
+
+    const handlePrintReport = () => {
+        // Agrupar eventos por funcionário (incluindo quem só tem afastamentos no período)
         const employeeGroups: Record<number, StoredClockEvent[]> = {};
         filteredEvents.forEach(event => {
             if (!employeeGroups[event.employeeId]) {
@@ -505,174 +533,38 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
             }
             employeeGroups[event.employeeId].push(event);
         });
-
-        // Ordenar funcionários por nome
-        const sortedEmployees = Object.entries(employeeGroups).sort((a, b) => {
-            return a[1][0].employeeName.localeCompare(b[1][0].employeeName);
+        leaveDays.forEach(leaveDay => {
+            if (!employeeGroups[leaveDay.employeeId]) employeeGroups[leaveDay.employeeId] = [];
         });
 
-        const printWindow = window.open('', '_blank');
-        if (!printWindow) return;
-
-        const htmlContent = `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <title>Espelho de Ponto - ${startDate} a ${endDate}</title>
-                <style>
-                    body { font-family: sans-serif; padding: 20px; color: #333; }
-                    .page-break { page-break-after: always; }
-                    .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #333; padding-bottom: 10px; }
-                    .employee-info { margin-bottom: 20px; }
-                    table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
-                    th, td { border: 1px solid #ccc; padding: 8px; text-align: center; font-size: 12px; }
-                    th { background-color: #f2f2f2; }
-                    .subtotal-row { font-weight: bold; background-color: #f9f9f9; }
-                    .legal-declaration { margin-top: 40px; border-top: 1px solid #333; padding-top: 20px; }
-                    .signature-block { margin-top: 50px; display: flex; justify-content: space-between; }
-                    .signature-line { border-top: 1px solid #333; width: 300px; text-align: center; padding-top: 5px; }
-                    @media print {
-                        .no-print { display: none; }
-                        body { padding: 0; }
-                    }
-                </style>
-            </head>
-            <body>
-                <div class="no-print" style="background: #fdf6e3; padding: 10px; margin-bottom: 20px; text-align: center; border: 1px solid #eee;">
-                    <button onclick="window.print()" style="padding: 10px 20px; background: #22c55e; color: white; border: none; borderRadius: 5px; cursor: pointer; fontWeight: bold;">IMPRIMIR RELATÓRIO</button>
-                    <p style="font-size: 12px; margin-top: 5px;">Dica: Selecione "Salvar como PDF" no destino da impressão.</p>
-                </div>
-
-                ${sortedEmployees.map(([employeeId, empEvents]) => {
-            const employee = employees.find(e => e.id === parseInt(employeeId));
-            const funcao = employee?.funcao || '';
-            const employeeName = empEvents[0].employeeName;
+        if (Object.keys(employeeGroups).length === 0) {
+            alert('Nenhum registro para imprimir');
+            return;
+        }
 
-            // Agrupar eventos por turno de forma segura e anexar ao dia da Entrada
-            const shifts = groupEventsByShifts(empEvents);
-            const shiftsByDate: Record<string, StoredClockEvent[][]> = {};
-            
-            shifts.forEach(shiftEvents => {
-                if (shiftEvents.length === 0) return;
-                // O dia do turno é definido pela primeira batida (Entrada)
-                const eventDate = new Date(shiftEvents[0].timestamp);
-                const dateKey = `${String(eventDate.getUTCFullYear())}-${String(eventDate.getUTCMonth() + 1).padStart(2, '0')}-${String(eventDate.getUTCDate()).padStart(2, '0')}`;
-                
-                if (!shiftsByDate[dateKey]) shiftsByDate[dateKey] = [];
-                shiftsByDate[dateKey].push(shiftEvents);
-            });
+        const nameOf = (employeeId: string, empEvents: StoredClockEvent[]) =>
+            employees.find(e => e.id === parseInt(employeeId))?.name || empEvents[0]?.employeeName || '';
 
-            const sortedDates = Object.keys(shiftsByDate).sort();
-            let employeeTotalNormalMs = 0;
-            let employeeTotalExtraMs = 0;
-            let employeeTotalPayment = 0;
-
-            const tableRows = sortedDates.map(dateKey => {
-                const dayShifts = shiftsByDate[dateKey];
-                let dayNormalMs = 0;
-                let dayExtraMs = 0;
-                let dayPayment = 0;
-
-                let entrada = '', inicioIntervalo = '', fimIntervalo = '', saida = '';
-                
-                // Extrair horários dos turnos deste dia
-                dayShifts.forEach(shiftEvents => {
-                    shiftEvents.forEach(event => {
-                        const time = formatBrasiliaTime(event.timestamp);
-                        if (event.type === 'Entrada') entrada = time;
-                        if (event.type === 'Início Intervalo') inicioIntervalo = time;
-                        if (event.type === 'Fim Intervalo') fimIntervalo = time;
-                        if (event.type === 'Saída') saida = time;
-                    });
-
-                    const details = calculateWorkDetails(shiftEvents);
-                    if (details.status === 'complete') {
-                        dayNormalMs += details.normal;
-                        dayExtraMs += details.extra;
-                        dayPayment += details.payment.total;
-                    }
-                });
-
-                employeeTotalNormalMs += dayNormalMs;
-                employeeTotalExtraMs += dayExtraMs;
-                employeeTotalPayment += dayPayment;
-
-                const [year, month, day] = dateKey.split('-');
-                return `
-                            <tr>
-                                <td>${day}/${month}/${year}</td>
-                                <td>${entrada}</td>
-                                <td>${inicioIntervalo}</td>
-                                <td>${fimIntervalo}</td>
-                                <td>${saida}</td>
-                                <td>${formatMilliseconds(dayNormalMs)}</td>
-                                <td>${formatMilliseconds(dayExtraMs)}</td>
-                                <td>${formatMilliseconds(dayNormalMs + dayExtraMs)}</td>
-                                <td>${formatCurrency(dayPayment)}</td>
-                            </tr>
-                        `;
-            }).join('');
-
-            return `
-                        <div class="page">
-                            <div class="header">
-                                <h2>ESPELHO DE PONTO ELETRÔNICO</h2>
-                                <p>Período: ${startDate.split('-').reverse().join('/')} a ${endDate.split('-').reverse().join('/')}</p>
-                            </div>
-                            
-                            <div class="employee-info">
-                                <p><strong>Funcionário:</strong> ${employeeName}</p>
-                                <p><strong>CPF:</strong> ${employee?.cpf || '---'} | <strong>Função:</strong> ${funcao}</p>
-                            </div>
+        // Ordenar funcionários por nome
+        const sortedEmployees = Object.entries(employeeGroups).sort((a, b) => {
+            return nameOf(a[0], a[1]).localeCompare(nameOf(b[0], b[1]));
+        });
 
-                            <table>
-                                <thead>
-                                    <tr>
-                                        <th>Data</th>
-                                        <th>Entrada</th>
-                                        <th>Início Intervalo</th>
-                                        <th>Fim Intervalo</th>
-                                        <th>Saída</th>
-                                        <th>H. Normais</th>
-                                        <th>H. Extras</th>
-                                        <th>Total Horas</th>
-                                        <th>Valor Dia</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    ${tableRows}
-                                    <tr class="subtotal-row">
-                                        <td colspan="5">SUBTOTAL</td>
-                                        <td>${formatMilliseconds(employeeTotalNormalMs)}</td>
-                                        <td>${formatMilliseconds(employeeTotalExtraMs)}</td>
-                                        <td>${formatMilliseconds(employeeTotalNormalMs + employeeTotalExtraMs)}</td>
-                                        <td>${formatCurrency(employeeTotalPayment)}</td>
-                                    </tr>
-                                </tbody>
-                            </table>
-
-                            <div class="legal-declaration">
-                                <p><strong>DECLARAÇÃO:</strong> Declaro para os devidos fins que os registros de horários acima discriminados correspondem à fiel realidade da jornada de trabalho desempenhada no período acima citado, nada tendo a reivindicar ou invalidar.</p>
-                                
-                                <div class="signature-block">
-                                    <div class="signature-line">
-                                        Assinatura do Funcionário
-                                    </div>
-                                    <div class="signature-line" style="width: 200px;">
-                                        Data: ____/____/________
-                                    </div>
-                                </div>
-                            </div>
-                        </div>
-                        <div class="page-break"></div>
-                    `;
-        }).join('')}
-            </body>
-            </html>
-        `;
-
-        printWindow.document.write(htmlContent);
-        printWindow.document.close();
+        const timesheets = sortedEmployees.map(([employeeId, empEvents]) => buildTimesheet({
+            employee: employees.find(e => e.id === parseInt(employeeId)),
+            employeeName: nameOf(employeeId, empEvents),
+            events: empEvents,
+            allEvents,
+            leaves,
+            leaveDays,
+            complianceIssues,
+            payRules,
+            holidays,
+            timeBankEntries,
+            startDate,
+            endDate,
+        }));
+        printTimesheets(timesheets, startDate, endDate);
     };
 
     const AddBreakModal = () => {
@@ -681,24 +573,25 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         const { employeeId, employeeName, date } = showAddBreakModal;
         const [breakStart, setBreakStart] = useState('12:00');
         const [breakEnd, setBreakEnd] = useState('13:00');
+        const [breakReason, setBreakReason] = useState('');
 
         const handleAddBreak = async () => {
-            const startDateTime = new Date(`${date.toISOString().split('T')[0]}T${breakStart}`);
-            const endDateTime = new Date(`${date.toISOString().split('T')[0]}T${breakEnd}`);
-
-            const success1 = await onAddManualEvent({
-                employeeId,
-                type: ClockType.InicioIntervalo,
-                timestamp: startDateTime
-            });
+            if (!breakReason.trim()) {
+                alert('Informe a justificativa');
+                return;
+            }
+            const dateKey = toDateKey(date);
+            const startDateTime = zonedTimeToInstant(dateKey, breakStart);
+            const endDateTime = zonedTimeToInstant(dateKey, breakEnd);
 
-            const success2 = await onAddManualEvent({
+            const success = await onAddManualBreak({
                 employeeId,
-                type: ClockType.FimIntervalo,
-                timestamp: endDateTime
+                start: startDateTime,
+                end: endDateTime,
+                reason: breakReason.trim()
             });
 
-            if (success1 && success2) {
+            if (success) {
                 alert('Intervalo adicionado com sucesso!');
                 setShowAddBreakModal(null);
             } else {
@@ -712,7 +605,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     <h3 className="text-xl font-bold text-amber-400">Adicionar Intervalo</h3>
                     <p className="text-gray-300">
                         Funcionário: <strong>{employeeName}</strong><br />
-                        Data: <strong>{formatBrasiliaDate(date)}</strong>
+                        Data: <strong>{formatDate(date)}</strong>
                     </p>
                     <div className="space-y-2">
                         <label className="block font-semibold text-muted mb-2">Início do Intervalo</label>
@@ -732,6 +625,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             className="input"
                         />
                     </div>
+                    <div className="space-y-2">
+                        <label className="block font-semibold text-muted mb-2">Justificativa</label>
+                        <input
+                            type="text"
+                            value={breakReason}
+                            onChange={(e) => setBreakReason(e.target.value)}
+                            className="input"
+                        />
+                    </div>
                     <div className="flex gap-2 pt-2">
                         <button
                             onClick={() => setShowAddBreakModal(null)}
@@ -754,37 +656,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     const EditEventModal = () => {
         if (!editingEvent) return null;
 
-        const eventDate = new Date(editingEvent.timestamp);
-        // Usar getUTC* já que o banco armazena em UTC
-        const localYear = eventDate.getUTCFullYear();
-        const localMonth = String(eventDate.getUTCMonth() + 1).padStart(2, '0');
-        const localDay = String(eventDate.getUTCDate()).padStart(2, '0');
-        const [editDate, setEditDate] = useState(`${localYear}-${localMonth}-${localDay}`);
-        const [editTime, setEditTime] = useState(`${String(eventDate.getUTCHours()).padStart(2, '0')}:${String(eventDate.getUTCMinutes()).padStart(2, '0')}:${String(eventDate.getUTCSeconds()).padStart(2, '0')}`);
+        // Exibir e gravar data/hora no fuso em que a batida foi gravada
+        const timeZone = eventTimeZone(editingEvent);
+        const [editDate, setEditDate] = useState(toDateKey(editingEvent.timestamp, timeZone));
+        const [editTime, setEditTime] = useState(toTimeKey(editingEvent.timestamp, timeZone));
         const [editType, setEditType] = useState(editingEvent.type);
+        const [editReason, setEditReason] = useState('');
 
         const handleSaveEdit = async () => {
-            const [hours, minutes, secondsStr] = editTime.split(':');
-            const seconds = secondsStr ? secondsStr.padStart(2, '0') : '00';
-            const newTimestamp = `${editDate}T${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}:${seconds}.000Z`;
-
-            try {
-                const { error } = await supabase.from('ponto_events').update({
-                    type: editType,
-                    timestamp: newTimestamp
-                }).eq('id', editingEvent.id);
-
-                if (!error) {
-                    alert('Evento atualizado com sucesso!');
-                    setEditingEvent(null);
-                    onRefresh();
-                } else {
-                    console.error('Erro do Supabase:', error);
-                    alert(`Erro ao atualizar evento: ${error.message || 'Erro desconhecido'}`);
-                }
-            } catch (error: any) {
-                console.error('Erro ao atualizar evento:', error);
-                alert(`Erro ao atualizar evento: ${error.message}`);
+            if (!editReason.trim()) {
+                alert('Informe a justificativa da alteração');
+                return;
+            }
+
+            const success = await onUpdateEvent(editingEvent.id, {
+                type: editType,
+                timestamp: zonedTimeToInstant(editDate, editTime, timeZone)
+            }, editReason.trim());
+
+            if (success) {
+                alert('Evento atualizado com sucesso!');
+                setEditingEvent(null);
             }
         };
 
@@ -838,6 +730,17 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 <option value={ClockType.Saida}>Saída</option>
                             </select>
                         </div>
+
+                        <div>
+                            <label className="block font-semibold text-muted mb-2">Justificativa</label>
+                            <input
+                                type="text"
+                                value={editReason}
+                                onChange={(e) => setEditReason(e.target.value)}
+                                placeholder="Obrigatória. Fica registrada no histórico"
+                                className="input"
+                            />
+                        </div>
                     </div>
 
                     <div className="flex gap-2 pt-4">
@@ -863,13 +766,56 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         <div className="space-y-6 pb-8">
             {showAddBreakModal && <AddBreakModal />}
             {editingEvent && <EditEventModal />}
+            {auditDay && (
+                <DayAuditModal
+                    employeeName={auditDay.employeeName}
+                    dateKey={auditDay.dateKey}
+                    events={auditDayEvents}
+                    photoUrls={photoUrls}
+                    onShowHistory={serverFeatures ? setHistoryEvent : undefined}
+                    onClose={() => setAuditDay(null)}
+                />
+            )}
+            {historyEvent && (
+                <EventHistoryModal
+                    event={historyEvent}
+                    photoUrl={historyEvent.photoPath ? photoUrls[historyEvent.photoPath] : undefined}
+                    onClose={() => setHistoryEvent(null)}
+                />
+            )}
 
             <div className="text-center space-y-2 mb-6">
-                <h2 className="text-3xl font-bold text-gold" style={{textTransform: 'uppercase'}}>{admin.name}</h2>
-                <p className="text-muted">Painel Administrativo</p>
+                <h2 className="text-3xl font-bold text-gold" style={{textTransform: 'uppercase'}}>{manager.name}</h2>
+                <p className="text-muted">Painel Administrativo · {ROLE_LABELS[manager.role]}</p>
             </div>
 
+            {/* Alertas de Segurança (bloqueios do teclado de PIN) */}
+            {serverFeatures && can('view_reports') && (
+                <SecurityAlertsPanel actor={actor} canManage={can('manage_employees')} />
+            )}
+
+            {/* Batidas offline recusadas na sincronização */}
+            {serverFeatures && can('view_reports') && (
+                <OfflineConflictsPanel
+                    actor={actor}
+                    canEdit={can('edit_events')}
+                    onAddManualEvent={onAddManualEvent}
+                    requestConfirmation={openConfirmModal}
+                />
+            )}
+
+            {/* Solicitações de ajuste enviadas pelos funcionários */}
+            {serverFeatures && can('approve_adjustments') && (
+                <AdjustmentRequestsPanel
+                    employees={employees}
+                    events={allEvents}
+                    onDecided={onRefresh}
+                    requestConfirmation={openConfirmModal}
+                />
+            )}
+
             {/* Gerenciamento de Funcionários */}
+            {can('manage_employees') && (
             <div className="glass-panel space-y-6">
                 <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Gerenciamento de Funcionários</h3>
 
@@ -899,12 +845,23 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                         <input
                             id="pin"
                             type="password"
-                            maxLength={PIN_LENGTH}
+                            maxLength={settings.pinLength}
                             value={newEmployee.pin}
                             onChange={(e) => setNewEmployee({ ...newEmployee, pin: e.target.value })}
                             className="input"
                         />
                     </div>
+                    <div>
+                        <label htmlFor="birth-date" className="block font-semibold text-muted mb-2">Data de Nascimento</label>
+                        <input
+                            id="birth-date"
+                            type="date"
+                            value={newEmployee.birthDate}
+                            onChange={(e) => setNewEmployee({ ...newEmployee, birthDate: e.target.value })}
+                            title="Confirma o acesso à área do funcionário, junto com o PIN"
+                            className="input"
+                        />
+                    </div>
                     <div>
                         <label htmlFor="cpf" className="block font-semibold text-muted mb-2">CPF</label>
                         <input
@@ -938,6 +895,19 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             className="input"
                         />
                     </div>
+                    <div>
+                        <label htmlFor="restWeekday" className="block font-semibold text-muted mb-2">Descanso Semanal</label>
+                        <select
+                            id="restWeekday"
+                            value={newEmployee.restWeekday}
+                            onChange={(e) => setNewEmployee({ ...newEmployee, restWeekday: parseInt(e.target.value) })}
+                            className="input"
+                        >
+                            {WEEKDAY_LABELS.map((label, index) => (
+                                <option key={index} value={index}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
                 </div>
 
                 <button
@@ -956,7 +926,6 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             <div key={emp.id} className="flex justify-between items-center bg-stone-800 p-3 rounded">
                                 <div>
                                     <p className="font-semibold">{emp.name}</p>
-                                    <p className="text-sm text-gray-400">PIN: {emp.pin}</p>
                                     {emp.funcao && <p className="text-sm text-gray-400">Função: {emp.funcao}</p>}
                                     {emp.cpf && <p className="text-sm text-gray-400">CPF: {emp.cpf}</p>}
                                 </div>
@@ -973,7 +942,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                         onClick={() => {
                                             openConfirmModal(
                                                 'Excluir Funcionário',
-                                                `Deseja realmente excluir o funcionário ${emp.name}? Todos os seus registros também serão apagados.`,
+                                                `Deseja realmente excluir o funcionário ${emp.name}? Só é possível excluir funcionários sem registros de ponto.`,
                                                 () => onDeleteEmployee(emp.id)
                                             );
                                         }}
@@ -1017,9 +986,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 <label className="block font-semibold text-muted mb-2">PIN</label>
                                 <input
                                     type="password"
-                                    maxLength={PIN_LENGTH}
-                                    value={editingEmployee.pin}
+                                    maxLength={settings.pinLength}
+                                    value={editingEmployee.pin || ''}
                                     onChange={(e) => setEditingEmployee({ ...editingEmployee, pin: e.target.value })}
+                                    placeholder="Deixe em branco para manter o atual"
+                                    className="input"
+                                />
+                            </div>
+                            <div>
+                                <label className="block font-semibold text-muted mb-2">Data de Nascimento</label>
+                                <input
+                                    type="date"
+                                    value={editingEmployee.birthDate || ''}
+                                    onChange={(e) => setEditingEmployee({ ...editingEmployee, birthDate: e.target.value })}
+                                    title="Em branco mantém a data atual. Confirma o acesso à área do funcionário, junto com o PIN"
                                     className="input"
                                 />
                             </div>
@@ -1053,6 +1033,18 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                     className="input"
                                 />
                             </div>
+                            <div>
+                                <label className="block font-semibold text-muted mb-2">Descanso Semanal</label>
+                                <select
+                                    value={editingEmployee.restWeekday ?? 0}
+                                    onChange={(e) => setEditingEmployee({ ...editingEmployee, restWeekday: parseInt(e.target.value) })}
+                                    className="input"
+                                >
+                                    {WEEKDAY_LABELS.map((label, index) => (
+                                        <option key={index} value={index}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
                             <div className="flex gap-2">
                                 <button
                                     onClick={() => setEditingEmployee(null)}
@@ -1071,8 +1063,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     </div>
                 )}
             </div>
+            )}
 
             {/* Lançamento Manual de Batida */}
+            {can('edit_events') && (
             <div className="bg-emerald-800/50 rounded-lg p-6 space-y-4">
                 <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Lançamento Manual de Batida</h3>
 
@@ -1128,6 +1122,18 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     </div>
                 </div>
 
+                <div>
+                    <label htmlFor="manual-reason" className="block font-semibold text-muted mb-2">Justificativa</label>
+                    <input
+                        id="manual-reason"
+                        type="text"
+                        value={manualReason}
+                        onChange={(e) => setManualReason(e.target.value)}
+                        placeholder="Obrigatória. Ex: esqueceu de bater a saída"
+                        className="input"
+                    />
+                </div>
+
                 <button
                     onClick={handleLaunchManualEvent}
                     className="btn btn-primary w-full"
@@ -1135,6 +1141,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     Lançar Batida
                 </button>
             </div>
+            )}
 
             {/* Relatório de Pontos */}
             <div className="bg-emerald-800/50 rounded-lg p-6 space-y-4">
@@ -1193,12 +1200,79 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             <p className="text-xl font-bold text-amber-500">{periodSummary.totalHours}</p>
                         </div>
                     </div>
+                    <div className="grid grid-cols-3 gap-4 text-center mt-4">
+                        <div>
+                            <p className="text-sm text-gray-400">Domingos/Feriados (100%)</p>
+                            <p className="text-xl font-bold text-green-400">{periodSummary.holidayHours}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-400">Horas Noturnas (reduzidas)</p>
+                            <p className="text-xl font-bold text-white">{periodSummary.nightHours}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-400">Adicional Noturno</p>
+                            <p className="text-xl font-bold text-green-400">{periodSummary.nightPremium}</p>
+                        </div>
+                    </div>
                     <div className="mt-4 pt-4 border-t border-gray-700 text-center">
                         <p className="text-sm text-gray-400">Valor a Pagar (Período)</p>
                         <p className="text-2xl font-bold text-green-400">{periodSummary.payment}</p>
                     </div>
                 </div>
 
+                {complianceIssues.length > 0 && (
+                    <div className="bg-stone-800 rounded-lg p-4">
+                        <h4 className="text-lg font-semibold text-amber-400 mb-4">Ocorrências da Escala ({complianceIssues.length})</h4>
+                        <p className="text-sm text-gray-400 mb-2">Variações de até 5 min por marcação e 10 min no dia são toleradas (CLT, art. 58, § 1º).</p>
+                        <ul className="space-y-2 max-h-60 overflow-y-auto">
+                            {complianceIssues.map((issue, index) => (
+                                <li key={index} className="list-item">
+                                    <span className="text-sm">
+                                        <strong>{formatDateKey(issue.date)}</strong> · {employees.find(e => e.id === issue.employeeId)?.name} · {issue.description}
+                                    </span>
+                                    <span className="text-sm font-bold" style={{color: 'var(--color-red)'}}>{COMPLIANCE_ISSUE_LABELS[issue.kind]} {issue.minutes} min</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {openShifts.length > 0 && (
+                    <div className="bg-stone-800 rounded-lg p-4">
+                        <h4 className="text-lg font-semibold text-amber-400 mb-4">Turnos Abertos ({openShifts.length})</h4>
+                        <p className="text-sm text-gray-400 mb-2">
+                            Sem Saída há mais de {getShiftPolicy().maxShiftHours} h. Não entram nos totais até serem regularizados.
+                        </p>
+                        <ul className="space-y-2 max-h-60 overflow-y-auto">
+                            {openShifts.map(({ employee, entry, lastEvent }) => (
+                                <li key={employee.id} className="list-item">
+                                    <span className="text-sm">
+                                        <strong>{employee.name}</strong> · Entrada em {formatDateTime(entry.timestamp, eventTimeZone(entry))}
+                                    </span>
+                                    <span className="text-sm font-bold" style={{color: 'var(--color-red)'}}>Última batida: {lastEvent.type} {formatDateTime(lastEvent.timestamp, eventTimeZone(lastEvent))}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {serverFeatures && (
+                    <SequenceValidationPanel
+                        startDate={startDate}
+                        endDate={endDate}
+                        employeeId={selectedEmployeeId === 'all' ? undefined : parseInt(selectedEmployeeId)}
+                    />
+                )}
+
+                {serverFeatures && can('edit_events') && (
+                    <DuplicatePunchesPanel
+                        startDate={startDate}
+                        endDate={endDate}
+                        onMerged={onRefresh}
+                        requestConfirmation={openConfirmModal}
+                    />
+                )}
+
                 <button
                     onClick={handlePrintReport}
                     className="btn btn-outline w-full"
@@ -1210,6 +1284,53 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     Imprimir Espelho de Ponto
                 </button>
 
+                {serverFeatures && can('export_files') && (
+                <>
+                <button
+                    onClick={handleExportAfd}
+                    disabled={isExportingAfd}
+                    className="btn btn-outline w-full"
+                    style={{borderColor: 'rgba(255,255,255,0.2)'}}
+                >
+                    <DownloadIcon />
+                    {isExportingAfd ? 'Gerando AFD...' : 'Exportar AFD (Portaria 671)'}
+                </button>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <button
+                        onClick={handleExportAej}
+                        disabled={isExportingAej}
+                        className="btn btn-outline w-full"
+                        style={{borderColor: 'rgba(255,255,255,0.2)'}}
+                    >
+                        <DownloadIcon />
+                        {isExportingAej ? 'Gerando AEJ...' : 'Exportar AEJ (período e filtro atuais)'}
+                    </button>
+                    <button
+                        onClick={() => aejFileInputRef.current?.click()}
+                        className="btn btn-outline w-full"
+                        style={{borderColor: 'rgba(255,255,255,0.2)'}}
+                    >
+                        <UploadIcon />
+                        Validar Arquivo AEJ
+                    </button>
+                    <input
+                        ref={aejFileInputRef}
+                        type="file"
+                        accept=".txt,text/plain"
+                        onChange={handleValidateAejFile}
+                        style={{display: 'none'}}
+                    />
+                </div>
+                </>
+                )}
+
+                {outsideGeofenceCount > 0 && (
+                    <p className="text-sm" style={{color: 'var(--color-red)'}}>
+                        {outsideGeofenceCount} batida(s) fora dos locais permitidos no período. A distância até o local mais próximo aparece em cada registro.
+                    </p>
+                )}
+
                 {filteredEvents.length === 0 ? (
                     <p className="text-center text-gray-400 py-4">Nenhum registro encontrado para o período e filtro selecionados.</p>
                 ) : (
@@ -1220,6 +1341,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                     <th className="p-2 text-left">Data/Hora</th>
                                     <th className="p-2 text-left">Funcionário</th>
                                     <th className="p-2 text-left">Tipo</th>
+                                    <th className="p-2 text-center">Foto</th>
                                     <th className="p-2 text-center">Ações</th>
                                 </tr>
                             </thead>
@@ -1227,12 +1349,52 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 {filteredEvents.map(event => (
                                     <tr key={event.id} className="border-b border-gray-700">
                                         <td className="p-2">
-                                            {formatBrasiliaDateTime(event.timestamp)}
+                                            {formatDateTime(event.timestamp, eventTimeZone(event))}
                                         </td>
                                         <td className="p-2">{event.employeeName}</td>
-                                        <td className="p-2">{event.type}</td>
+                                        <td className="p-2">
+                                            {event.type}
+                                            {event.source === 'manual' && <span className="text-xs text-amber-400 ml-2" title="Lançado manualmente pelo administrador">Manual</span>}
+                                            {event.source === 'offline' && <span className="text-xs text-amber-400 ml-2" title="Registrada sem conexão, com o horário do dispositivo, e sincronizada depois">Offline</span>}
+                                            {event.editedAt && <span className="text-xs text-amber-400 ml-2" title="Horário ou tipo alterado pelo administrador">Alterado</span>}
+                                            {event.outsideGeofence && <span className="text-xs ml-2" style={{color: 'var(--color-red)'}} title="Registrada fora dos locais permitidos">Fora da área</span>}
+                                            {describePunchLocation(event) && <p className="text-xs text-gray-400">{describePunchLocation(event)}</p>}
+                                        </td>
+                                        <td className="p-2 text-center">
+                                            {event.photoPath && photoUrls[event.photoPath] ? (
+                                                <button onClick={() => setHistoryEvent(event)} title="Ver foto da batida">
+                                                    <img src={photoUrls[event.photoPath]} alt={`Foto da batida de ${event.employeeName}`} className="rounded" style={{width: '40px', height: '30px', objectFit: 'cover'}} />
+                                                </button>
+                                            ) : (
+                                                <span className="text-gray-400">---</span>
+                                            )}
+                                        </td>
                                         <td className="p-2 text-center">
                                             <div className="flex gap-2 justify-center">
+                                                <button
+                                                    onClick={() => setAuditDay({ employeeId: event.employeeId, employeeName: event.employeeName, dateKey: eventDateKey(event) })}
+                                                    className="btn btn-outline p-2"
+                                                    style={{borderColor: 'rgba(255,255,255,0.1)'}}
+                                                    title="Auditoria do dia (batidas e fotos)"
+                                                >
+                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                                        <path fillRule="evenodd" d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z" clipRule="evenodd" />
+                                                    </svg>
+                                                </button>
+                                                {serverFeatures && (
+                                                <button
+                                                    onClick={() => setHistoryEvent(event)}
+                                                    className="btn btn-outline p-2"
+                                                    style={{borderColor: 'rgba(255,255,255,0.1)'}}
+                                                    title="Histórico de alterações"
+                                                >
+                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+                                                    </svg>
+                                                </button>
+                                                )}
+                                                {can('edit_events') && (
+                                                <>
                                                 <button
                                                     onClick={() => setEditingEvent(event)}
                                                     className="btn btn-outline p-2"
@@ -1249,8 +1411,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                                         e.stopPropagation();
                                                         openConfirmModal(
                                                             'Confirmar Exclusão',
-                                                            'Deseja realmente deletar este registro de ponto? Esta ação não pode ser desfeita.',
-                                                            () => onDeleteEvent(event.id)
+                                                            'O registro deixará de aparecer nos relatórios, mas continuará guardado com a justificativa no histórico.',
+                                                            (reason) => onDeleteEvent(event.id, reason),
+                                                            true
                                                         );
                                                     }}
                                                     className="btn btn-outline p-2"
@@ -1261,6 +1424,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                                 >
                                                     <DeleteIcon className="h-4 w-4" />
                                                 </button>
+                                                </>
+                                                )}
                                             </div>
                                         </td>
                                     </tr>
@@ -1282,6 +1447,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             <h3 className="text-xl font-bold text-white mb-2">{confirmModal.title}</h3>
                             <p className="text-gray-400">{confirmModal.message}</p>
                         </div>
+                        {confirmModal.requireReason && (
+                            <textarea
+                                value={confirmReason}
+                                onChange={(e) => setConfirmReason(e.target.value)}
+                                placeholder="Justificativa (obrigatória)"
+                                className="input"
+                                rows={3}
+                            />
+                        )}
                         <div className="flex gap-3 pt-2">
                             <button
                                 onClick={closeConfirmModal}
@@ -1291,7 +1465,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             </button>
                             <button
                                 onClick={() => {
-                                    confirmModal.onConfirm();
+                                    if (confirmModal.requireReason && !confirmReason.trim()) {
+                                        alert('Informe a justificativa');
+                                        return;
+                                    }
+                                    confirmModal.onConfirm(confirmReason.trim());
                                     closeConfirmModal();
                                 }}
                                 className="btn flex-1"
@@ -1304,6 +1482,43 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 </div>
             )}
 
+            {/* Perfis de Remuneração */}
+            {can('manage_settings') && <PayProfilesPanel payRules={payRules} employees={sortedEmployees} onRefresh={onRefresh} />}
+
+            {/* Afastamentos e Ausências */}
+            {serverFeatures && can('manage_leaves') && <LeavesPanel leaves={leaves} employees={sortedEmployees} onRefresh={onRefresh} />}
+
+            {/* Escalas de Trabalho */}
+            {serverFeatures && can('manage_settings') && <SchedulesPanel scheduleRules={scheduleRules} employees={sortedEmployees} onRefresh={onRefresh} />}
+
+            {/* Banco de Horas */}
+            {serverFeatures && can('manage_leaves') && (
+            <TimeBankPanel
+                employees={sortedEmployees}
+                allEvents={allEvents}
+                timeBankEntries={timeBankEntries}
+                payRules={payRules}
+                holidays={holidays}
+                onRefresh={onRefresh}
+            />
+            )}
+
+            {/* Calendário de Feriados */}
+            {can('manage_settings') && <HolidaysPanel holidays={holidays} onRefresh={onRefresh} />}
+            {serverFeatures && can('manage_settings') && <SitesPanel />}
+
+            {/* Dispositivos autorizados */}
+            {serverFeatures && can('manage_settings') && <DevicesPanel actor={actor} employees={sortedEmployees} />}
+
+            {/* Configurações */}
+            {can('manage_settings') && <SettingsPanel settings={settings} onSave={onSaveSettings} />}
+
+            {/* Gestores e Permissões */}
+            {serverFeatures && can('manage_managers') && <ManagersPanel currentManager={manager} />}
+
+            {/* Minha Conta */}
+            {serverFeatures && <AccountPanel manager={manager} />}
+
             {/* Botão de Sair */}
             <button
                 onClick={onLogout}
@@ -1322,7 +1537,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 // Comparação customizada para evitar re-renders desnecessários
 const arePropsEqual = (prevProps: AdminDashboardProps, nextProps: AdminDashboardProps) => {
     // Compara employees por referência (se for o mesmo array, não re-renderiza)
+    if (prevProps.manager !== nextProps.manager) return false;
     if (prevProps.employees !== nextProps.employees) return false;
+    if (prevProps.settings !== nextProps.settings) return false;
+    if (prevProps.payRules !== nextProps.payRules) return false;
+    if (prevProps.holidays !== nextProps.holidays) return false;
+    if (prevProps.timeBankEntries !== nextProps.timeBankEntries) return false;
+    if (prevProps.scheduleRules !== nextProps.scheduleRules) return false;
+    if (prevProps.leaves !== nextProps.leaves) return false;
 
     // Compara allEvents pelo ID do último evento
     const prevLastId = prevProps.allEvents.length > 0 ? prevProps.allEvents[prevProps.allEvents.length - 1].id : null;
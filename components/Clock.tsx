@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
+import { getTimeZone } from '../lib/dateTime';
 
 const Clock: React.FC = () => {
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -11,6 +12,7 @@ const Clock: React.FC = () => {
 
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('pt-BR', {
+      timeZone: getTimeZone(),
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -19,7 +21,7 @@ const Clock: React.FC = () => {
   };
 
   const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('pt-BR');
+    return date.toLocaleTimeString('pt-BR', { timeZone: getTimeZone() });
   };
 
   return (
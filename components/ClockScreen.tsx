@@ -1,45 +1,111 @@
 
-import React, { useMemo, useState } from 'react';
-import type { Employee, StoredClockEvent } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import type { Employee, PunchLocation, PunchReceipt, PunchResult, StoredClockEvent } from '../types';
 import { ClockType } from '../types';
 import Clock from './Clock';
 import { ClockInIcon, CoffeeIcon, LogoutIcon, PlayIcon, StopIcon } from './Icons';
-
-// Função para formatar hora
-// O banco converte timestamps com offset para UTC, então usamos getUTC* para exibir
-const formatBrasiliaTime = (timestamp: string | Date): string => {
-    const date = new Date(timestamp);
-    const hours = String(date.getUTCHours()).padStart(2, '0');
-    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
-    const seconds = String(date.getUTCSeconds()).padStart(2, '0');
-    return `${hours}:${minutes}:${seconds}`;
-};
+import { eventTimeZone, formatTime, isSameZonedDay } from '../lib/dateTime';
+import { describeClockDrift } from '../lib/serverClock';
+import { formatBalance } from '../lib/timeBank';
+import { captureFrame, startCamera, stopCamera } from '../lib/camera';
+import { getCurrentLocation } from '../lib/sites';
+import { allowedNextTypes } from '../lib/punchSequence';
+import { newIdempotencyKey } from '../lib/duplicatePunches';
+import { downloadReceiptFile, generateEscPos, generateReceiptPdf, getVerificationUrl, printReceipt, receiptLines } from '../lib/receipts';
 
 interface ClockScreenProps {
     employee: Employee;
     onLogout: () => void;
     events: StoredClockEvent[];
-    onAddEvent: (type: ClockType) => Promise<void>;
+    onAddEvent: (type: ClockType, photo: Blob | null, location: PunchLocation | null, idempotencyKey: string) => Promise<PunchResult>;
+    clockDriftMs: number | null;
+    clockDriftThresholdSeconds: number;
+    timeBankBalanceMs: number | null;
+    punchPhotoEnabled: boolean; // Tira uma foto pela câmera no momento da batida
+    requestLocation: boolean; // Envia a localização do aparelho para a cerca virtual
 }
 
-const ClockScreen: React.FC<ClockScreenProps> = ({ employee, onLogout, events, onAddEvent }) => {
+const ClockScreen: React.FC<ClockScreenProps> = ({ employee, onLogout, events, onAddEvent, clockDriftMs, clockDriftThresholdSeconds, timeBankBalanceMs, punchPhotoEnabled, requestLocation }) => {
     const [isSuccess, setIsSuccess] = useState(false);
     const [successMessage, setSuccessMessage] = useState('');
     const [processingType, setProcessingType] = useState<ClockType | null>(null);
+    const [receipt, setReceipt] = useState<PunchReceipt | null>(null);
+    const [receiptQrUrl, setReceiptQrUrl] = useState('');
+    const [cameraStatus, setCameraStatus] = useState<'starting' | 'ready' | 'unavailable'>('starting');
+    const videoRef = useRef<HTMLVideoElement>(null);
+    // A localização começa a ser obtida ao abrir a tela, para não atrasar a batida
+    const locationRef = useRef<Promise<PunchLocation | null> | null>(null);
+    // Uma chave por tipo de batida enquanto a tela está aberta: uma nova tentativa depois de erro reaproveita a
+    // chave, e o servidor devolve a batida se a primeira tentativa chegou a ser gravada
+    const idempotencyKeysRef = useRef<Partial<Record<ClockType, string>>>({});
+    // Saída automática depois da batida; cancelada ao concluir ou sair da tela para não deslogar o próximo funcionário
+    const logoutTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => () => {
+        if (logoutTimerRef.current) clearTimeout(logoutTimerRef.current);
+    }, []);
+
+    const handleFinish = () => {
+        if (logoutTimerRef.current) clearTimeout(logoutTimerRef.current);
+        logoutTimerRef.current = null;
+        onLogout();
+    };
+
+    useEffect(() => {
+        locationRef.current = requestLocation ? getCurrentLocation() : null;
+    }, [requestLocation]);
+
+    useEffect(() => {
+        if (!punchPhotoEnabled) return;
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+        startCamera()
+            .then(started => {
+                stream = started;
+                if (cancelled) return stopCamera(started);
+                if (videoRef.current) videoRef.current.srcObject = started;
+                setCameraStatus('ready');
+            })
+            .catch(error => {
+                console.warn('Câmera indisponível; a batida seguirá sem foto:', error);
+                if (!cancelled) setCameraStatus('unavailable');
+            });
+        return () => {
+            cancelled = true;
+            stopCamera(stream);
+        };
+    }, [punchPhotoEnabled]);
 
     const lastEvent = events.length > 0 ? events[events.length - 1] : null;
 
+    const hasClockDrift = clockDriftMs !== null && Math.abs(clockDriftMs) > clockDriftThresholdSeconds * 1000;
+
     const handleClockEvent = async (type: ClockType) => {
         if (isSuccess || processingType) return;
 
         setProcessingType(type);
         try {
-            await onAddEvent(type);
-            setSuccessMessage(`Registro de "${type}" realizado com sucesso!`);
+            const photo = cameraStatus === 'ready' && videoRef.current ? await captureFrame(videoRef.current).catch(() => null) : null;
+            const location = locationRef.current ? await locationRef.current : null;
+            const idempotencyKey = idempotencyKeysRef.current[type] ??= newIdempotencyKey();
+            const result = await onAddEvent(type, photo, location, idempotencyKey);
+            setSuccessMessage(result.status === 'queued'
+                ? `Registro de "${type}" salvo neste aparelho. Será enviado quando a conexão voltar; o comprovante fica disponível depois da sincronização.`
+                : `Registro de "${type}" realizado com sucesso!`);
+            const punchReceipt = result.status === 'registered' ? result.receipt : null;
+            if (punchReceipt) {
+                setReceipt(punchReceipt);
+                QRCode.toDataURL(getVerificationUrl(punchReceipt.hash), { margin: 1, width: 160, errorCorrectionLevel: 'M' })
+                    .then(setReceiptQrUrl)
+                    .catch(qrError => console.error('Erro ao gerar QR code do comprovante:', qrError));
+            }
             setIsSuccess(true);
-            setTimeout(() => {
+            // Mais tempo na tela quando há comprovante para imprimir ou saldo do banco de horas para ler
+            logoutTimerRef.current = setTimeout(() => {
+                logoutTimerRef.current = null;
                 onLogout();
-            }, 2000);
+            }, punchReceipt ? 20000 : timeBankBalanceMs !== null ? 4000 : 2000);
         } catch (error: any) {
             console.error("Erro ao registrar ponto:", error);
             // Se o erro vier da API como string ou objeto com mensagem
@@ -48,29 +114,11 @@ const ClockScreen: React.FC<ClockScreenProps> = ({ employee, onLogout, events, o
         }
     };
 
+    // Mesmas regras de sequência do banco; depois da Saída do dia, o quiosque não oferece nova Entrada
     const enabledActions = useMemo(() => {
-        if (!events || events.length === 0) return [ClockType.Entrada];
-
-        const todayEvents = events
-            .filter(e => new Date(e.timestamp).toDateString() === new Date().toDateString())
-            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-        if (todayEvents.length === 0) return [ClockType.Entrada];
-
-        const lastTodayEvent = todayEvents[todayEvents.length - 1];
-
-        switch (lastTodayEvent.type) {
-            case ClockType.Entrada:
-                return [ClockType.InicioIntervalo, ClockType.Saida];
-            case ClockType.InicioIntervalo:
-                return [ClockType.FimIntervalo];
-            case ClockType.FimIntervalo:
-                return [ClockType.InicioIntervalo, ClockType.Saida];
-            case ClockType.Saida:
-                return []; // No actions after clocking out for the day
-            default:
-                return [];
-        }
+        const lastEvent = [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()).pop();
+        if (lastEvent?.type === ClockType.Saida && isSameZonedDay(lastEvent.timestamp, new Date())) return [];
+        return allowedNextTypes(events);
     }, [events]);
 
     const getButtonClass = (type: ClockType) => {
@@ -88,7 +136,7 @@ const ClockScreen: React.FC<ClockScreenProps> = ({ employee, onLogout, events, o
 
     const todayEvents = useMemo(() => {
         return [...events]
-            .filter(e => new Date(e.timestamp).toDateString() === new Date().toDateString())
+            .filter(e => isSameZonedDay(e.timestamp, new Date()))
             .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()); // Ordem crescente (mais antigo primeiro)
     }, [events]);
 
@@ -111,13 +159,51 @@ const ClockScreen: React.FC<ClockScreenProps> = ({ employee, onLogout, events, o
             
             <Clock />
 
+            {punchPhotoEnabled && !isSuccess && (
+                <div className="flex flex-col items-center">
+                    <video ref={videoRef} autoPlay playsInline muted className="rounded" style={{width: '160px', height: '120px', objectFit: 'cover', backgroundColor: 'rgba(255,255,255,0.05)', transform: 'scaleX(-1)'}} />
+                    <p className="text-muted text-xs mt-1">{cameraStatus === 'unavailable' ? 'Câmera indisponível: o ponto será registrado sem foto.' : 'Uma foto será tirada ao registrar o ponto.'}</p>
+                </div>
+            )}
+
+            {hasClockDrift && (
+                <div className="text-center text-sm font-semibold" style={{color: 'var(--color-red)', border: '1px solid rgba(220,38,38,0.3)', borderRadius: '0.5rem', padding: '0.75rem'}}>
+                    ⚠️ O relógio deste dispositivo está {describeClockDrift(clockDriftMs!)} em relação ao servidor.
+                    O ponto será registrado no horário do servidor.
+                </div>
+            )}
+
             {isSuccess ? (
                 <div className="flex flex-col items-center justify-center text-center py-8 space-y-4 animate-fade-in">
                     <svg xmlns="http://www.w3.org/2000/svg" style={{width: '64px', height: '64px', color: 'var(--color-emerald)'}} fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
                     <h3 className="text-xl font-semibold">{successMessage}</h3>
-                    <p className="text-muted">Redirecionando...</p>
+                    {timeBankBalanceMs !== null && (
+                        <p className="text-lg">
+                            Saldo do banco de horas:{' '}
+                            <span className="font-mono font-bold" style={{color: timeBankBalanceMs < 0 ? 'var(--color-red)' : 'var(--color-emerald)'}}>{formatBalance(timeBankBalanceMs)}</span>
+                        </p>
+                    )}
+                    {receipt && (
+                        <div className="bg-stone-800 p-4 rounded w-full space-y-3">
+                            <p className="font-semibold">Comprovante de Registro de Ponto</p>
+                            {receiptQrUrl && <img src={receiptQrUrl} alt="QR code de verificação do comprovante" className="mx-auto" style={{width: '160px', height: '160px'}} />}
+                            <div className="text-xs text-left font-mono text-gray-400 break-all">
+                                {receiptLines(receipt).map((line, index) => <p key={index}>{line}</p>)}
+                            </div>
+                            <div className="grid grid-cols-3 gap-2">
+                                <button onClick={() => printReceipt(receipt)} className="btn btn-outline text-sm py-1 px-3">Imprimir</button>
+                                <button onClick={() => downloadReceiptFile(generateReceiptPdf(receipt), `comprovante-${receipt.nsr}.pdf`)} className="btn btn-outline text-sm py-1 px-3">PDF</button>
+                                <button onClick={() => downloadReceiptFile(generateEscPos(receipt), `comprovante-${receipt.nsr}.bin`)} className="btn btn-outline text-sm py-1 px-3" title="Arquivo de comandos para impressora térmica">ESC/POS</button>
+                            </div>
+                        </div>
+                    )}
+                    {receipt ? (
+                        <button onClick={handleFinish} className="btn btn-primary w-full">Concluir</button>
+                    ) : (
+                        <p className="text-muted">Redirecionando...</p>
+                    )}
                 </div>
             ) : (
                 <div className="flex flex-col space-y-6">
@@ -146,8 +232,11 @@ const ClockScreen: React.FC<ClockScreenProps> = ({ employee, onLogout, events, o
                             <ul className="flex flex-col space-y-2 pr-2" style={{maxHeight: '10rem', overflowY: 'auto'}}>
                                 {todayEvents.map((event, index) => (
                                     <li key={index} className="list-item">
-                                        <span className="font-semibold text-sm" style={{color: '#d1d5db'}}>{event.type}</span>
-                                        <span className="font-mono text-gold text-sm font-bold">{formatBrasiliaTime(event.timestamp)}</span>
+                                        <span className="font-semibold text-sm" style={{color: '#d1d5db'}}>
+                                            {event.type}
+                                            {event.pendingSync && <span className="text-xs text-amber-400 ml-2" title="Aguardando conexão para ser enviada">pendente</span>}
+                                        </span>
+                                        <span className="font-mono text-gold text-sm font-bold">{formatTime(event.timestamp, eventTimeZone(event))}</span>
                                     </li>
                                 ))}
                             </ul>
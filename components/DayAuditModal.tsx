@@ -0,0 +1,66 @@
+import React from 'react';
+import type { StoredClockEvent } from '../types';
+import { eventTimeZone, formatDateKey, formatDateTime, formatTime } from '../lib/dateTime';
+import { describePunchLocation } from '../lib/sites';
+
+interface DayAuditModalProps {
+    employeeName: string;
+    dateKey: string;
+    events: StoredClockEvent[]; // Batidas do funcionário no dia, em ordem
+    photoUrls: Record<string, string>; // Endereço de exibição de cada photoPath
+    onShowHistory?: (event: StoredClockEvent) => void; // Sem ele (backends sem auditoria no banco) o botão some
+    onClose: () => void;
+}
+
+// Auditoria de um dia: todas as batidas do funcionário com a foto tirada no quiosque, para conferir a identidade
+const DayAuditModal: React.FC<DayAuditModalProps> = ({ employeeName, dateKey, events, photoUrls, onShowHistory, onClose }) => (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+        <div className="glass-panel space-y-4 max-w-2xl w-full">
+            <h3 className="text-xl font-bold text-amber-400">Auditoria do Dia</h3>
+            <p className="text-gray-300">{employeeName} · {formatDateKey(dateKey)}</p>
+
+            {events.length === 0 ? (
+                <p className="text-muted text-center py-4 text-sm" style={{fontStyle: 'italic'}}>Nenhuma batida neste dia.</p>
+            ) : (
+                <ul className="space-y-2 max-h-96 overflow-y-auto">
+                    {events.map(event => {
+                        const photoUrl = event.photoPath ? photoUrls[event.photoPath] : undefined;
+                        return (
+                            <li key={event.id} className="flex items-center gap-4 bg-stone-800 p-3 rounded">
+                                {photoUrl ? (
+                                    <img src={photoUrl} alt={`Foto da batida de ${event.employeeName}`} className="rounded" style={{width: '120px', height: '90px', objectFit: 'cover'}} />
+                                ) : (
+                                    <div className="rounded flex items-center justify-center text-xs text-gray-400 text-center" style={{width: '120px', height: '90px', border: '1px dashed rgba(255,255,255,0.2)'}}>
+                                        {event.photoPath ? 'Foto indisponível' : 'Sem foto'}
+                                    </div>
+                                )}
+                                <div className="flex-1">
+                                    <p className="font-semibold">{event.type} · {formatTime(event.timestamp, eventTimeZone(event))}</p>
+                                    <p className="text-sm text-gray-400">
+                                        {event.source === 'manual' ? 'Lançamento manual' : event.source === 'offline' ? 'Quiosque sem conexão' : 'Quiosque'}
+                                        {event.clientTimestamp && ` · relógio do dispositivo: ${formatDateTime(event.clientTimestamp)}`}
+                                        {event.editedAt && ' · alterado pelo administrador'}
+                                    </p>
+                                    {describePunchLocation(event) && (
+                                        <p className="text-sm" style={{color: event.outsideGeofence ? 'var(--color-red)' : undefined}}>
+                                            {event.outsideGeofence ? 'Fora da área: ' : ''}{describePunchLocation(event)}
+                                        </p>
+                                    )}
+                                </div>
+                                {onShowHistory && (
+                                    <button onClick={() => onShowHistory(event)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                        Histórico
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <button onClick={onClose} className="btn btn-outline w-full">Fechar</button>
+        </div>
+    </div>
+);
+
+export default DayAuditModal;
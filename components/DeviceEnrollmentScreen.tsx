@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { enrollDevice } from '../lib/devices';
+
+interface DeviceEnrollmentScreenProps {
+    onEnrolled: () => void;
+}
+
+// Quiosque ainda não cadastrado (ou revogado): pede o código gerado pelo gestor em "Dispositivos"
+const DeviceEnrollmentScreen: React.FC<DeviceEnrollmentScreenProps> = ({ onEnrolled }) => {
+    const [code, setCode] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim()) return;
+        setIsSubmitting(true);
+        setError('');
+        try {
+            const name = await enrollDevice(code);
+            alert(`Aparelho cadastrado como "${name}".`);
+            onEnrolled();
+        } catch (err: any) {
+            setError(err.message || 'Erro desconhecido');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="glass-panel max-w-md mx-auto animate-fade-in flex flex-col space-y-4">
+            <h3 className="text-xl font-semibold text-center">Cadastro do Quiosque</h3>
+            <p className="text-sm text-gray-400 text-center">
+                Este aparelho ainda não está autorizado a registrar o ponto. Peça ao gestor um código de cadastro,
+                gerado no painel em "Dispositivos", e digite-o abaixo.
+            </p>
+            <div>
+                <label htmlFor="device-enrollment-code" className="block font-semibold text-muted mb-2">Código de Cadastro</label>
+                <input
+                    id="device-enrollment-code"
+                    type="text"
+                    autoComplete="off"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.toUpperCase())}
+                    placeholder="Ex: K7M2-QX9P"
+                    className="input font-mono text-center"
+                />
+            </div>
+
+            {error && <p className="text-center text-sm" style={{color: 'var(--color-red)'}}>{error}</p>}
+
+            <button type="submit" disabled={isSubmitting || !code.trim()} className="btn btn-primary w-full">
+                {isSubmitting ? 'Aguarde...' : 'Cadastrar Aparelho'}
+            </button>
+        </form>
+    );
+};
+
+export default DeviceEnrollmentScreen;
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Device, Employee, Site } from '../types';
+import { createEnrollmentCode, fetchDevices, revokeDevice, updateDevice } from '../lib/devices';
+import { fetchSites } from '../lib/sites';
+import { formatDateTime } from '../lib/dateTime';
+
+interface DevicesPanelProps {
+    actor: string;
+    employees: Employee[];
+}
+
+interface DeviceDraft {
+    name: string;
+    allowedEmployeeIds: number[] | null;
+    allowedSiteIds: number[] | null;
+}
+
+// Alterna um id numa lista de restrição; null significa "todos"
+const toggleId = (ids: number[] | null, id: number): number[] =>
+    ids?.includes(id) ? ids.filter(existing => existing !== id) : [...(ids || []), id];
+
+const DevicesPanel: React.FC<DevicesPanelProps> = ({ actor, employees }) => {
+    const [devices, setDevices] = useState<Device[]>([]);
+    const [sites, setSites] = useState<Site[]>([]);
+    const [newDeviceName, setNewDeviceName] = useState('');
+    const [enrollment, setEnrollment] = useState<{ name: string; code: string } | null>(null);
+    const [editing, setEditing] = useState<{ id: number; draft: DeviceDraft } | null>(null);
+    const [showRevoked, setShowRevoked] = useState(false);
+
+    const loadDevices = useCallback(async () => {
+        try {
+            const [loadedDevices, loadedSites] = await Promise.all([fetchDevices(), fetchSites()]);
+            setDevices(loadedDevices);
+            setSites(loadedSites);
+        } catch (error) {
+            console.error('Erro ao carregar dispositivos:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadDevices();
+    }, [loadDevices]);
+
+    const handleCreateCode = async () => {
+        if (!newDeviceName.trim()) {
+            alert('Informe um nome para o dispositivo (ex: Quiosque da Recepção)');
+            return;
+        }
+        try {
+            const code = await createEnrollmentCode(newDeviceName.trim(), actor);
+            setEnrollment({ name: newDeviceName.trim(), code: `${code.slice(0, 4)}-${code.slice(4)}` });
+            setNewDeviceName('');
+        } catch (error: any) {
+            alert(`Erro ao gerar código: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        const { draft } = editing;
+        if (!draft.name.trim()) {
+            alert('Informe o nome do dispositivo');
+            return;
+        }
+        if (draft.allowedEmployeeIds?.length === 0) {
+            alert('Selecione ao menos um funcionário ou marque "Todos os funcionários"');
+            return;
+        }
+        if (draft.allowedSiteIds?.length === 0) {
+            alert('Selecione ao menos um local ou marque "Todos os locais"');
+            return;
+        }
+        try {
+            await updateDevice(editing.id, { ...draft, name: draft.name.trim() });
+            setEditing(null);
+            await loadDevices();
+        } catch (error: any) {
+            alert(`Erro ao salvar dispositivo: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleRevoke = async (device: Device) => {
+        if (!confirm(`Revogar "${device.name}"? O aparelho deixará de registrar batidas e precisará de um novo cadastro.`)) return;
+        try {
+            await revokeDevice(device.id, actor);
+            await loadDevices();
+        } catch (error: any) {
+            alert(`Erro ao revogar dispositivo: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const describeRules = (device: Device): string => {
+        const employeeRule = device.allowedEmployeeIds
+            ? `${device.allowedEmployeeIds.length} funcionário(s)`
+            : 'todos os funcionários';
+        const siteRule = device.allowedSiteIds
+            ? sites.filter(site => device.allowedSiteIds!.includes(site.id)).map(site => site.name).join(', ') || 'nenhum local'
+            : 'todos os locais';
+        return `${employeeRule} · ${siteRule}`;
+    };
+
+    const visibleDevices = devices.filter(device => showRevoked || !device.revokedAt);
+
+    return (
+        <div className="glass-panel space-y-6">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Dispositivos</h3>
+            <p className="text-sm text-gray-400">
+                Só aparelhos cadastrados registram batidas. Gere um código, abra o app no aparelho e digite o código na
+                tela de cadastro. O código vale por 15 minutos e para um único aparelho.
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                    type="text"
+                    value={newDeviceName}
+                    onChange={(e) => setNewDeviceName(e.target.value)}
+                    placeholder="Nome do dispositivo (ex: Quiosque da Recepção)"
+                    className="input flex-1"
+                    aria-label="Nome do dispositivo"
+                />
+                <button onClick={handleCreateCode} className="btn btn-primary">Gerar Código de Cadastro</button>
+            </div>
+            {enrollment && (
+                <div className="bg-stone-800 p-4 rounded text-center space-y-1">
+                    <p className="text-sm text-gray-400">Código para "{enrollment.name}"</p>
+                    <p className="text-3xl font-mono font-bold text-gold">{enrollment.code}</p>
+                    <p className="text-xs text-gray-400">Não será exibido novamente.</p>
+                </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={showRevoked} onChange={(e) => setShowRevoked(e.target.checked)} />
+                <span>Mostrar dispositivos revogados</span>
+            </label>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+                {visibleDevices.map(device => (
+                    <div key={device.id} className="bg-stone-800 p-3 rounded space-y-3">
+                        <div className="flex justify-between items-center gap-2">
+                            <div>
+                                <p className="font-semibold">{device.name}{device.revokedAt && ' · revogado'}</p>
+                                <p className="text-sm text-gray-400">
+                                    {device.revokedAt
+                                        ? `Revogado em ${formatDateTime(device.revokedAt)} por ${device.revokedBy || 'desconhecido'}`
+                                        : `${describeRules(device)} · último uso: ${device.lastSeenAt ? formatDateTime(device.lastSeenAt) : 'nunca'}`}
+                                </p>
+                            </div>
+                            {!device.revokedAt && (
+                                <div className="flex gap-2 items-center">
+                                    <button
+                                        onClick={() => setEditing(editing?.id === device.id ? null : {
+                                            id: device.id,
+                                            draft: { name: device.name, allowedEmployeeIds: device.allowedEmployeeIds, allowedSiteIds: device.allowedSiteIds },
+                                        })}
+                                        className="btn btn-outline text-sm py-1 px-3"
+                                        style={{borderColor: 'rgba(255,255,255,0.2)'}}
+                                    >
+                                        {editing?.id === device.id ? 'Fechar' : 'Editar'}
+                                    </button>
+                                    <button onClick={() => handleRevoke(device)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                        Revogar
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+
+                        {editing?.id === device.id && (
+                            <div className="space-y-3">
+                                <div>
+                                    <label htmlFor={`device-name-${device.id}`} className="block font-semibold text-muted mb-2">Nome</label>
+                                    <input
+                                        id={`device-name-${device.id}`}
+                                        type="text"
+                                        value={editing.draft.name}
+                                        onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, name: e.target.value } })}
+                                        className="input"
+                                    />
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div className="space-y-1">
+                                        <label className="flex items-center gap-2 font-semibold">
+                                            <input
+                                                type="checkbox"
+                                                checked={editing.draft.allowedEmployeeIds === null}
+                                                onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, allowedEmployeeIds: e.target.checked ? null : [] } })}
+                                            />
+                                            <span>Todos os funcionários</span>
+                                        </label>
+                                        {editing.draft.allowedEmployeeIds !== null && employees.map(employee => (
+                                            <label key={employee.id} className="flex items-center gap-2 text-sm">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={editing.draft.allowedEmployeeIds!.includes(employee.id)}
+                                                    onChange={() => setEditing({ ...editing, draft: { ...editing.draft, allowedEmployeeIds: toggleId(editing.draft.allowedEmployeeIds, employee.id) } })}
+                                                />
+                                                <span>{employee.name}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <div className="space-y-1">
+                                        <label className="flex items-center gap-2 font-semibold">
+                                            <input
+                                                type="checkbox"
+                                                checked={editing.draft.allowedSiteIds === null}
+                                                onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, allowedSiteIds: e.target.checked ? null : [] } })}
+                                            />
+                                            <span>Todos os locais</span>
+                                        </label>
+                                        {editing.draft.allowedSiteIds !== null && sites.map(site => (
+                                            <label key={site.id} className="flex items-center gap-2 text-sm">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={editing.draft.allowedSiteIds!.includes(site.id)}
+                                                    onChange={() => setEditing({ ...editing, draft: { ...editing.draft, allowedSiteIds: toggleId(editing.draft.allowedSiteIds, site.id) } })}
+                                                />
+                                                <span>{site.name}{!site.active && ' (inativo)'}</span>
+                                            </label>
+                                        ))}
+                                        <p className="text-xs text-gray-400">Locais usados pela cerca virtual nas batidas deste aparelho.</p>
+                                    </div>
+                                </div>
+                                <button onClick={handleSave} className="btn btn-primary w-full">Salvar Dispositivo</button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default DevicesPanel;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { endOfZonedDay, formatDateKey, formatDateTime, startOfZonedDay } from '../lib/dateTime';
+import { findDuplicatePunches, mergeDuplicatePunches } from '../lib/duplicatePunches';
+import type { DuplicatePunch } from '../lib/duplicatePunches';
+
+interface DuplicatePunchesPanelProps {
+    startDate: string; // YYYY-MM-DD
+    endDate: string;
+    onMerged: () => Promise<void>; // Recarrega as batidas depois da mesclagem
+    requestConfirmation: (title: string, message: string, onConfirm: (reason: string) => void, requireReason?: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+    kiosk: 'quiosque',
+    offline: 'offline',
+    manual: 'manual',
+};
+
+const sourceLabel = (source: string) => SOURCE_LABELS[source] || source;
+
+// Ferramenta de limpeza: mostra as batidas repetidas (mesmo funcionário e tipo a até 1 minuto) gravadas antes da
+// proteção do banco e, depois de confirmada a prévia, exclui as cópias mantendo uma batida de cada grupo
+const DuplicatePunchesPanel: React.FC<DuplicatePunchesPanelProps> = ({ startDate, endDate, onMerged, requestConfirmation }) => {
+    const [duplicates, setDuplicates] = useState<DuplicatePunch[] | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+
+    // A prévia vale só para o período em que foi gerada
+    useEffect(() => {
+        setDuplicates(null);
+    }, [startDate, endDate]);
+
+    const handleSearch = async () => {
+        setIsSearching(true);
+        try {
+            setDuplicates(await findDuplicatePunches(startOfZonedDay(startDate), endOfZonedDay(endDate)));
+        } catch (error: any) {
+            alert(`Erro ao procurar batidas duplicadas: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    const handleMerge = () => {
+        if (!duplicates || duplicates.length === 0) return;
+        requestConfirmation(
+            'Mesclar Batidas Duplicadas',
+            `${duplicates.length} batida(s) duplicada(s) serão excluídas (exclusão lógica, registrada na auditoria). ` +
+            'Fica a batida indicada em cada linha, que recebe a foto da duplicada quando não tiver a sua.',
+            async () => {
+                try {
+                    const merged = await mergeDuplicatePunches(duplicates.map(duplicate => duplicate.duplicateId));
+                    await onMerged();
+                    setDuplicates(await findDuplicatePunches(startOfZonedDay(startDate), endOfZonedDay(endDate)));
+                    alert(`${merged} batida(s) duplicada(s) mesclada(s).`);
+                } catch (error: any) {
+                    alert(`Erro ao mesclar batidas duplicadas: ${error.message || 'Erro desconhecido'}`);
+                }
+            }
+        );
+    };
+
+    return (
+        <div className="bg-stone-800 rounded-lg p-4 space-y-2">
+            <div className="flex justify-between items-center gap-2">
+                <h4 className="text-lg font-semibold text-amber-400">
+                    Batidas Duplicadas{duplicates !== null && ` (${duplicates.length})`}
+                </h4>
+                <div className="flex gap-2">
+                    <button onClick={handleSearch} disabled={isSearching} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                        {isSearching ? 'Procurando...' : 'Procurar'}
+                    </button>
+                    {duplicates !== null && duplicates.length > 0 && (
+                        <button onClick={handleMerge} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                            Mesclar
+                        </button>
+                    )}
+                </div>
+            </div>
+            {duplicates === null ? (
+                <p className="text-sm text-gray-400">
+                    Procura de {formatDateKey(startDate)} a {formatDateKey(endDate)} batidas do mesmo tipo repetidas em menos
+                    de 1 minuto. Nada é alterado antes de confirmar a mesclagem.
+                </p>
+            ) : duplicates.length === 0 ? (
+                <p className="text-sm" style={{color: 'var(--color-emerald)'}}>Nenhuma batida duplicada no período.</p>
+            ) : (
+                <ul className="space-y-2 max-h-60 overflow-y-auto">
+                    {duplicates.map(duplicate => (
+                        <li key={duplicate.duplicateId} className="list-item">
+                            <span className="text-sm">
+                                <strong>{formatDateTime(duplicate.duplicateTimestamp)}</strong> · {duplicate.employeeName} · {duplicate.type}
+                                {' '}(nº {duplicate.duplicateId}, {sourceLabel(duplicate.duplicateSource)})
+                            </span>
+                            <span className="text-sm text-gray-400">
+                                Fica a nº {duplicate.keptId} de {formatDateTime(duplicate.keptTimestamp)} ({sourceLabel(duplicate.keptSource)})
+                                {duplicate.movesPhoto && ' · recebe a foto'}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default DuplicatePunchesPanel;
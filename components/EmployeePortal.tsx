@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { AdjustmentRequest, Employee, Holiday, Leave, PayRules, ScheduleRules, StoredClockEvent, TimeBankEntry } from '../types';
+import { ClockType } from '../types';
+import { addDaysToKey, addMonthsToKey, endOfZonedDay, formatDateKey, formatDateTime, startOfMonthKey, startOfZonedDay, todayKey, WEEKDAY_LABELS, weekdayOfKey } from '../lib/dateTime';
+import { formatMilliseconds } from '../lib/workCalculation';
+import { formatBalance } from '../lib/timeBank';
+import { checkScheduleCompliance } from '../lib/schedules';
+import { calculateLeaveDays } from '../lib/leaves';
+import { buildTimesheet, printTimesheets } from '../lib/timesheet';
+import { ADJUSTMENT_KIND_LABELS, ADJUSTMENT_STATUS_LABELS, fetchEmployeeAdjustmentRequests } from '../lib/adjustmentRequests';
+import { isDeviceUnauthorizedError } from '../lib/devices';
+import AdjustmentRequestForm from './AdjustmentRequestForm';
+import { LogoutIcon } from './Icons';
+
+interface EmployeePortalProps {
+    employee: Employee;
+    events: StoredClockEvent[];
+    payRules: PayRules;
+    holidays: Holiday[];
+    timeBankEntries: TimeBankEntry[];
+    scheduleRules: ScheduleRules;
+    leaves: Leave[];
+    onLogout: () => void;
+    onDeviceUnauthorized: () => void;
+}
+
+// Meses disponíveis para consulta, do atual para trás
+const PORTAL_MONTHS = 12;
+// O quiosque é compartilhado: a área fecha sozinha depois de um tempo sem uso
+const PORTAL_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+const STATUS_COLORS: Record<AdjustmentRequest['status'], string> = {
+    pending: 'var(--color-yellow)',
+    approved: 'var(--color-emerald)',
+    rejected: 'var(--color-red)',
+};
+
+const monthLabel = (monthKey: string): string => {
+    const [year, month] = monthKey.split('-').map(n => parseInt(n));
+    const name = new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('pt-BR', { month: 'long', timeZone: 'UTC' });
+    return `${name.charAt(0).toUpperCase()}${name.slice(1)} de ${year}`;
+};
+
+const EmployeePortal: React.FC<EmployeePortalProps> = ({ employee, events, payRules, holidays, timeBankEntries, scheduleRules, leaves, onLogout, onDeviceUnauthorized }) => {
+    const [monthKey, setMonthKey] = useState(() => startOfMonthKey(todayKey()));
+    const [lastActivity, setLastActivity] = useState(() => Date.now());
+    const [showRequestForm, setShowRequestForm] = useState(false);
+    const [requests, setRequests] = useState<AdjustmentRequest[]>([]);
+
+    const loadRequests = useCallback(async () => {
+        try {
+            setRequests(await fetchEmployeeAdjustmentRequests(employee.id));
+        } catch (error) {
+            if (isDeviceUnauthorizedError(error)) {
+                onDeviceUnauthorized();
+                return;
+            }
+            console.error('Erro ao carregar solicitações de ajuste:', error);
+        }
+    }, [employee.id, onDeviceUnauthorized]);
+
+    useEffect(() => {
+        loadRequests();
+    }, [loadRequests]);
+
+    useEffect(() => {
+        const timeoutId = setTimeout(onLogout, PORTAL_IDLE_TIMEOUT_MS - (Date.now() - lastActivity));
+        return () => clearTimeout(timeoutId);
+    }, [lastActivity, onLogout]);
+
+    const monthOptions = useMemo(() => {
+        const current = startOfMonthKey(todayKey());
+        return Array.from({ length: PORTAL_MONTHS }, (_, index) => addMonthsToKey(current, -index));
+    }, []);
+
+    const employeeEvents = useMemo(() => events.filter(event => event.employeeId === employee.id), [events, employee.id]);
+
+    // Mês fechado até o último dia; mês corrente até hoje
+    const startDate = monthKey;
+    const endDate = useMemo(() => {
+        const lastDay = addDaysToKey(addMonthsToKey(monthKey, 1), -1);
+        const today = todayKey();
+        return lastDay < today ? lastDay : today;
+    }, [monthKey]);
+
+    const timesheet = useMemo(() => {
+        const start = startOfZonedDay(startDate);
+        const end = endOfZonedDay(endDate);
+        return buildTimesheet({
+            employee,
+            employeeName: employee.name,
+            events: employeeEvents.filter(event => event.timestamp >= start && event.timestamp <= end),
+            allEvents: employeeEvents,
+            leaves,
+            leaveDays: calculateLeaveDays(employee, leaves, employeeEvents, payRules, scheduleRules, holidays, startDate, endDate),
+            complianceIssues: checkScheduleCompliance(employee, employeeEvents, scheduleRules, holidays, leaves, startDate, endDate),
+            payRules,
+            holidays,
+            timeBankEntries,
+            startDate,
+            endDate,
+        });
+    }, [employee, employeeEvents, leaves, payRules, scheduleRules, holidays, timeBankEntries, startDate, endDate]);
+
+    const { totals } = timesheet;
+    // Dias sem batida só aparecem se tiverem algo a mostrar (afastamento, feriado, falta)
+    const visibleDays = timesheet.days.filter(day => day.hasShifts || day.label || day.issues).reverse();
+
+    if (showRequestForm) {
+        return (
+            <div onPointerDown={() => setLastActivity(Date.now())}>
+                <AdjustmentRequestForm
+                    employee={employee}
+                    events={employeeEvents}
+                    origin="portal"
+                    onSubmitted={() => {
+                        setShowRequestForm(false);
+                        loadRequests();
+                    }}
+                    onCancel={() => setShowRequestForm(false)}
+                    onDeviceUnauthorized={onDeviceUnauthorized}
+                />
+            </div>
+        );
+    }
+
+    return (
+        <div className="glass-panel animate-fade-in space-y-6" onPointerDown={() => setLastActivity(Date.now())}>
+            <div className="flex justify-between items-center border-b border-gray-600 pb-2">
+                <div>
+                    <h3 className="text-xl font-semibold">Área do Funcionário</h3>
+                    <p className="text-sm text-gray-400">{employee.name}</p>
+                </div>
+                <button onClick={onLogout} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                    <LogoutIcon />
+                    Sair
+                </button>
+            </div>
+
+            <div>
+                <label htmlFor="portal-month" className="block font-semibold text-muted mb-2">Mês</label>
+                <select id="portal-month" value={monthKey} onChange={(e) => setMonthKey(e.target.value)} className="input">
+                    {monthOptions.map(option => (
+                        <option key={option} value={option}>{monthLabel(option)}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div className="bg-stone-800 p-3 rounded">
+                    <p className="text-sm text-gray-400">Horas trabalhadas</p>
+                    <p className="text-lg font-mono font-bold">{formatMilliseconds(totals.normalMs + totals.extraMs + totals.holidayMs)}</p>
+                </div>
+                <div className="bg-stone-800 p-3 rounded">
+                    <p className="text-sm text-gray-400">Horas extras</p>
+                    <p className="text-lg font-mono font-bold">{formatMilliseconds(totals.extraMs)}</p>
+                </div>
+                <div className="bg-stone-800 p-3 rounded">
+                    <p className="text-sm text-gray-400">Feriados e descanso (100%)</p>
+                    <p className="text-lg font-mono font-bold">{formatMilliseconds(totals.holidayMs)}</p>
+                </div>
+                <div className="bg-stone-800 p-3 rounded">
+                    <p className="text-sm text-gray-400">Banco de horas em {formatDateKey(endDate)}</p>
+                    <p className="text-lg font-mono font-bold" style={{color: (timesheet.timeBankBalance ?? 0) < 0 ? 'var(--color-red)' : 'var(--color-emerald)'}}>
+                        {timesheet.timeBankBalance !== null ? formatBalance(timesheet.timeBankBalance) : '---'}
+                    </p>
+                </div>
+            </div>
+
+            <button onClick={() => printTimesheets([timesheet], startDate, endDate)} className="btn btn-primary w-full">
+                Espelho de Ponto do Mês
+            </button>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+                {visibleDays.length === 0 && (
+                    <p className="text-muted text-center py-4 text-sm" style={{fontStyle: 'italic'}}>Nenhum registro neste mês.</p>
+                )}
+                {visibleDays.map(day => (
+                    <div key={day.dateKey} className="bg-stone-800 p-3 rounded">
+                        <div className="flex justify-between items-center">
+                            <p className="font-semibold">{formatDateKey(day.dateKey)} · {WEEKDAY_LABELS[weekdayOfKey(day.dateKey)]}</p>
+                            <p className="font-mono">{formatMilliseconds(day.normalMs + day.extraMs + day.holidayMs)}</p>
+                        </div>
+                        {day.hasShifts && (
+                            <p className="text-sm font-mono text-gray-400">
+                                {[ClockType.Entrada, ClockType.InicioIntervalo, ClockType.FimIntervalo, ClockType.Saida]
+                                    .map(type => day.times[type] || '--:--')
+                                    .join(' · ')}
+                            </p>
+                        )}
+                        {(day.label || day.issues) && (
+                            <p className="text-sm text-gray-400">{[day.label, day.issues].filter(Boolean).join(' · ')}</p>
+                        )}
+                        {day.extraMs > 0 && <p className="text-sm" style={{color: 'var(--color-emerald)'}}>Extras: {formatMilliseconds(day.extraMs)}</p>}
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-gray-400">
+                (M) marcação incluída pelo empregador e (A) marcação alterada pelo empregador. Em caso de divergência,
+                solicite a correção ou procure o setor de pessoal.
+            </p>
+
+            <div className="space-y-2">
+                <div className="flex justify-between items-center border-b border-gray-600 pb-2">
+                    <h4 className="font-semibold">Minhas Solicitações</h4>
+                    <button onClick={() => setShowRequestForm(true)} className="btn btn-outline text-sm py-1 px-3">
+                        Solicitar correção
+                    </button>
+                </div>
+                {requests.length === 0 && (
+                    <p className="text-muted text-center py-4 text-sm" style={{fontStyle: 'italic'}}>Nenhuma solicitação enviada.</p>
+                )}
+                {requests.map(request => (
+                    <div key={request.id} className="bg-stone-800 p-3 rounded">
+                        <div className="flex justify-between items-center">
+                            <p className="font-semibold">{ADJUSTMENT_KIND_LABELS[request.kind]} · {request.type}</p>
+                            <p className="text-sm font-semibold" style={{color: STATUS_COLORS[request.status]}}>{ADJUSTMENT_STATUS_LABELS[request.status]}</p>
+                        </div>
+                        <p className="text-sm font-mono text-gray-400">{formatDateTime(request.requestedTimestamp)}</p>
+                        <p className="text-sm text-gray-400">Motivo: {request.reason}</p>
+                        {request.decisionNote && <p className="text-sm text-gray-400">Resposta: {request.decisionNote}</p>}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default EmployeePortal;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { openEmployeePortal } from '../lib/credentials';
+import { getDeviceToken } from '../lib/kiosk';
+import { isDeviceUnauthorizedError } from '../lib/devices';
+
+interface EmployeePortalLoginScreenProps {
+    pinLength: number;
+    onLogin: (employeeId: number, sessionToken: string) => Promise<void>; // Carrega o cadastro e as batidas pela sessão aberta
+    onDeviceUnauthorized: () => void;
+    onCancel: () => void;
+}
+
+// Entrada da área do funcionário: PIN e data de nascimento, conferidos juntos no servidor
+const EmployeePortalLoginScreen: React.FC<EmployeePortalLoginScreenProps> = ({ pinLength, onLogin, onDeviceUnauthorized, onCancel }) => {
+    const [pin, setPin] = useState('');
+    const [birthDate, setBirthDate] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (pin.length !== pinLength || !birthDate) return;
+        setIsSubmitting(true);
+        setError('');
+        try {
+            const result = await openEmployeePortal(pin, birthDate, getDeviceToken());
+            if (result.status === 'ok' && result.sessionToken) {
+                await onLogin(result.employeeId, result.sessionToken);
+                return;
+            }
+            setPin('');
+            switch (result.status) {
+                case 'wait':
+                case 'locked':
+                    setError(result.status === 'locked'
+                        ? `Acesso bloqueado por excesso de tentativas. Tente novamente em ${Math.ceil(result.retryAfterSeconds / 60)} minuto(s).`
+                        : `Muitas tentativas. Aguarde ${result.retryAfterSeconds} segundo(s).`);
+                    break;
+                case 'not_allowed':
+                    setError('Este aparelho não atende o seu cadastro. Use o quiosque do seu setor.');
+                    break;
+                case 'not_configured':
+                    setError('Sua data de nascimento ainda não foi cadastrada. Procure o setor de pessoal.');
+                    break;
+                case 'invalid':
+                    setError(result.remaining <= 2
+                        ? `PIN ou data de nascimento incorretos. ${result.remaining} tentativa(s) antes do bloqueio.`
+                        : 'PIN ou data de nascimento incorretos.');
+                    break;
+                default:
+                    setError('Funcionário não encontrado. Tente novamente.');
+            }
+        } catch (err: any) {
+            if (isDeviceUnauthorizedError(err)) {
+                onDeviceUnauthorized();
+                return;
+            }
+            console.error('Erro ao abrir a área do funcionário:', err);
+            setError('Não foi possível verificar o acesso. Verifique a conexão.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="glass-panel max-w-md mx-auto animate-fade-in flex flex-col space-y-4">
+            <h3 className="text-xl font-semibold text-center">Área do Funcionário</h3>
+            <p className="text-sm text-gray-400 text-center">Consulte suas batidas, horas e o espelho de ponto do mês.</p>
+
+            <div>
+                <label htmlFor="portal-pin" className="block font-semibold text-muted mb-2">PIN</label>
+                <input
+                    id="portal-pin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    maxLength={pinLength}
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                    className="input"
+                />
+            </div>
+            <div>
+                <label htmlFor="portal-birth-date" className="block font-semibold text-muted mb-2">Data de Nascimento</label>
+                <input id="portal-birth-date" type="date" value={birthDate} onChange={(e) => setBirthDate(e.target.value)} className="input" />
+            </div>
+
+            {error && <p className="text-center text-sm" style={{color: 'var(--color-red)'}}>{error}</p>}
+
+            <button type="submit" disabled={isSubmitting || pin.length !== pinLength || !birthDate} className="btn btn-primary w-full">
+                {isSubmitting ? 'Aguarde...' : 'Entrar'}
+            </button>
+            <button type="button" onClick={onCancel} className="btn w-full" style={{backgroundColor: 'rgba(255,255,255,0.05)'}}>
+                Voltar ao Quiosque
+            </button>
+        </form>
+    );
+};
+
+export default EmployeePortalLoginScreen;
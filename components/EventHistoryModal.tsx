@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import type { ClockEvent, EventAuditEntry, StoredClockEvent } from '../types';
+import { AUDIT_ACTION_LABELS, fetchEventHistory } from '../lib/eventAudit';
+import { eventTimeZone, formatDateTime } from '../lib/dateTime';
+
+interface EventHistoryModalProps {
+    event: StoredClockEvent;
+    photoUrl?: string; // Foto tirada no quiosque no momento da batida
+    onClose: () => void;
+}
+
+const describeValue = (value: ClockEvent | null) => value ? `${value.type} · ${formatDateTime(value.timestamp)}` : '---';
+
+const EventHistoryModal: React.FC<EventHistoryModalProps> = ({ event, photoUrl, onClose }) => {
+    const [history, setHistory] = useState<EventAuditEntry[] | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchEventHistory(event.id)
+            .then(setHistory)
+            .catch((err: any) => setError(err.message || 'Erro desconhecido'));
+    }, [event.id]);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="glass-panel space-y-4 max-w-lg w-full">
+                <h3 className="text-xl font-bold text-amber-400">Histórico do Registro</h3>
+                <p className="text-gray-300">
+                    {event.employeeName} · {event.type} · {formatDateTime(event.timestamp, eventTimeZone(event))}<br />
+                    <span className="text-sm text-gray-400">
+                        Origem: {event.source === 'manual' ? 'lançamento manual' : event.source === 'offline' ? 'batida no quiosque sem conexão (sincronizada depois)' : 'batida no quiosque'}
+                        {event.deviceId && ` · dispositivo nº ${event.deviceId}`}
+                        {event.adjustmentRequestId && ` · solicitação de ajuste nº ${event.adjustmentRequestId}`}
+                        {event.clientTimestamp && ` · relógio do dispositivo: ${formatDateTime(event.clientTimestamp)}`}
+                    </span>
+                </p>
+                {photoUrl && (
+                    <img src={photoUrl} alt={`Foto da batida de ${event.employeeName}`} className="rounded mx-auto" style={{width: '240px', maxWidth: '100%'}} />
+                )}
+
+                {error && <p style={{color: 'var(--color-red)'}}>Erro ao carregar histórico: {error}</p>}
+                {!history && !error && <p className="text-muted">Carregando...</p>}
+                {history && history.length === 0 && (
+                    <p className="text-muted text-center py-4 text-sm" style={{fontStyle: 'italic'}}>Registro original, sem alterações.</p>
+                )}
+                {history && history.length > 0 && (
+                    <ul className="space-y-2 max-h-80 overflow-y-auto">
+                        {history.map(entry => (
+                            <li key={entry.id} className="bg-stone-800 p-3 rounded space-y-1">
+                                <p className="font-semibold">{AUDIT_ACTION_LABELS[entry.action]} · {formatDateTime(entry.createdAt)} · {entry.actor}</p>
+                                {entry.action === 'update' && (
+                                    <p className="text-sm text-gray-400">De: {describeValue(entry.oldValue)}<br />Para: {describeValue(entry.newValue)}</p>
+                                )}
+                                {entry.action === 'insert' && (
+                                    <p className="text-sm text-gray-400">Valor: {describeValue(entry.newValue)}</p>
+                                )}
+                                <p className="text-sm">Justificativa: {entry.reason}</p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <button onClick={onClose} className="btn btn-outline w-full">Fechar</button>
+            </div>
+        </div>
+    );
+};
+
+export default EventHistoryModal;
@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import type { Holiday, HolidayScope } from '../types';
+import { getHolidaysForYear, HOLIDAY_SCOPE_LABELS } from '../lib/holidays';
+import { repositories } from '../lib/repository';
+import { formatDateKey, todayKey, weekdayOfKey, WEEKDAY_LABELS } from '../lib/dateTime';
+import { DeleteIcon } from './Icons';
+
+interface HolidaysPanelProps {
+    holidays: Holiday[];
+    onRefresh: () => Promise<void>;
+}
+
+const HolidaysPanel: React.FC<HolidaysPanelProps> = ({ holidays, onRefresh }) => {
+    const [year, setYear] = useState(parseInt(todayKey().slice(0, 4)));
+    const [date, setDate] = useState('');
+    const [name, setName] = useState('');
+    const [scope, setScope] = useState<Exclude<HolidayScope, 'nacional'>>('municipal');
+
+    const yearHolidays = useMemo(() => getHolidaysForYear(year, holidays), [year, holidays]);
+
+    const handleAdd = async () => {
+        if (!date || !name.trim()) {
+            alert('Informe a data e o nome do feriado');
+            return;
+        }
+        try {
+            await repositories.holidays.add({ date, name: name.trim(), scope });
+            setDate('');
+            setName('');
+            await onRefresh();
+        } catch (error: any) {
+            console.error('Erro ao cadastrar feriado:', error);
+            alert(`Erro ao cadastrar feriado: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDelete = async (holiday: Holiday) => {
+        if (!confirm(`Remover o feriado "${holiday.name}" (${formatDateKey(holiday.date)})?`)) return;
+        try {
+            await repositories.holidays.remove(holiday.id);
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao remover feriado: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    return (
+        <div className="glass-panel space-y-6">
+            <div className="flex justify-between items-center border-b border-gray-600 pb-2">
+                <h3 className="text-xl font-semibold">Feriados</h3>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setYear(year - 1)} className="btn btn-outline text-sm py-1 px-3">&lt;</button>
+                    <span className="font-semibold">{year}</span>
+                    <button onClick={() => setYear(year + 1)} className="btn btn-outline text-sm py-1 px-3">&gt;</button>
+                </div>
+            </div>
+
+            <p className="text-sm text-gray-400">
+                Feriados nacionais são calculados automaticamente. Cadastre aqui os feriados estaduais, municipais e da empresa.
+                Horas trabalhadas em feriados e no descanso semanal do funcionário são pagas com o adicional do perfil de remuneração.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="holiday-date" className="block font-semibold text-muted mb-2">Data</label>
+                    <input id="holiday-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="holiday-name" className="block font-semibold text-muted mb-2">Nome</label>
+                    <input id="holiday-name" type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Aniversário da Cidade" className="input" />
+                </div>
+                <div>
+                    <label htmlFor="holiday-scope" className="block font-semibold text-muted mb-2">Abrangência</label>
+                    <select id="holiday-scope" value={scope} onChange={(e) => setScope(e.target.value as Exclude<HolidayScope, 'nacional'>)} className="input">
+                        <option value="estadual">{HOLIDAY_SCOPE_LABELS.estadual}</option>
+                        <option value="municipal">{HOLIDAY_SCOPE_LABELS.municipal}</option>
+                        <option value="empresa">{HOLIDAY_SCOPE_LABELS.empresa}</option>
+                    </select>
+                </div>
+            </div>
+            <button onClick={handleAdd} className="btn btn-primary w-full">Cadastrar Feriado</button>
+
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+                {yearHolidays.map(holiday => (
+                    <div key={`${holiday.date}-${holiday.name}`} className="flex justify-between items-center bg-stone-800 p-3 rounded">
+                        <div>
+                            <p className="font-semibold">{holiday.name}</p>
+                            <p className="text-sm text-gray-400">
+                                {formatDateKey(holiday.date)} ({WEEKDAY_LABELS[weekdayOfKey(holiday.date)]}) · {HOLIDAY_SCOPE_LABELS[holiday.scope]}
+                            </p>
+                        </div>
+                        {holiday.scope !== 'nacional' && (
+                            <button onClick={() => handleDelete(holiday)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                <DeleteIcon /> Remover
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default HolidaysPanel;
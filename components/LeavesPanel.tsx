@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import type { Employee, Leave, LeaveKind } from '../types';
+import { addLeave, deleteLeave, getLeaveAttachmentUrl, LEAVE_KINDS } from '../lib/leaves';
+import { formatDateKey, todayKey } from '../lib/dateTime';
+import { DeleteIcon } from './Icons';
+
+interface LeavesPanelProps {
+    leaves: Leave[];
+    employees: Employee[];
+    onRefresh: () => Promise<void>;
+}
+
+const PAY_EFFECT_LABELS = {
+    abonado: 'Abonado',
+    desconto: 'Desconta',
+    neutro: 'Sem efeito no pagamento',
+};
+
+const LeavesPanel: React.FC<LeavesPanelProps> = ({ leaves, employees, onRefresh }) => {
+    const [employeeId, setEmployeeId] = useState('');
+    const [kind, setKind] = useState<LeaveKind>('atestado');
+    const [startDate, setStartDate] = useState(todayKey());
+    const [endDate, setEndDate] = useState(todayKey());
+    const [note, setNote] = useState('');
+    const [attachment, setAttachment] = useState<File | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const attachmentInputRef = useRef<HTMLInputElement>(null);
+
+    const handleAdd = async () => {
+        if (!employeeId || !startDate || !endDate) {
+            alert('Selecione o funcionário e o período');
+            return;
+        }
+        if (endDate < startDate) {
+            alert('A data final deve ser igual ou posterior à inicial');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await addLeave({ employeeId: parseInt(employeeId), kind, startDate, endDate, note: note.trim() }, attachment);
+            setNote('');
+            setAttachment(null);
+            if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+            await onRefresh();
+        } catch (error: any) {
+            console.error('Erro ao registrar afastamento:', error);
+            alert(`Erro ao registrar afastamento: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (leave: Leave) => {
+        if (!confirm(`Excluir ${LEAVE_KINDS[leave.kind].label.toLowerCase()} de ${formatDateKey(leave.startDate)} a ${formatDateKey(leave.endDate)}?`)) return;
+        try {
+            await deleteLeave(leave);
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao excluir afastamento: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleOpenAttachment = async (leave: Leave) => {
+        if (!leave.attachmentPath) return;
+        try {
+            window.open(await getLeaveAttachmentUrl(leave.attachmentPath), '_blank');
+        } catch (error: any) {
+            alert(`Erro ao abrir anexo: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const visibleLeaves = employeeId ? leaves.filter(l => l.employeeId === parseInt(employeeId)) : leaves;
+
+    return (
+        <div className="glass-panel space-y-6">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Afastamentos e Ausências</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="leave-employee" className="block font-semibold text-muted mb-2">Funcionário</label>
+                    <select id="leave-employee" value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} className="input">
+                        <option value="">Todos (apenas listagem)</option>
+                        {employees.map(emp => <option key={emp.id} value={emp.id}>{emp.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="leave-kind" className="block font-semibold text-muted mb-2">Tipo</label>
+                    <select id="leave-kind" value={kind} onChange={(e) => setKind(e.target.value as LeaveKind)} className="input">
+                        {(Object.keys(LEAVE_KINDS) as LeaveKind[]).map(k => (
+                            <option key={k} value={k}>{LEAVE_KINDS[k].label} ({PAY_EFFECT_LABELS[LEAVE_KINDS[k].payEffect]})</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="leave-start" className="block font-semibold text-muted mb-2">De</label>
+                    <input id="leave-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="leave-end" className="block font-semibold text-muted mb-2">Até</label>
+                    <input id="leave-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="leave-note" className="block font-semibold text-muted mb-2">Observação</label>
+                    <input id="leave-note" type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Ex: CID, motivo, período aquisitivo" className="input" />
+                </div>
+                <div>
+                    <label htmlFor="leave-attachment" className="block font-semibold text-muted mb-2">Anexo (atestado)</label>
+                    <input id="leave-attachment" ref={attachmentInputRef} type="file" accept="image/*,application/pdf" onChange={(e) => setAttachment(e.target.files?.[0] || null)} className="input" />
+                </div>
+            </div>
+            <button onClick={handleAdd} disabled={isSaving || !employeeId} className="btn btn-primary w-full">
+                {isSaving ? 'Salvando...' : 'Registrar Afastamento'}
+            </button>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+                {visibleLeaves.length === 0 && (
+                    <p className="text-muted text-center py-4 text-sm" style={{fontStyle: 'italic'}}>Nenhum afastamento registrado.</p>
+                )}
+                {visibleLeaves.map(leave => (
+                    <div key={leave.id} className="flex justify-between items-center bg-stone-800 p-3 rounded">
+                        <div>
+                            <p className="font-semibold">
+                                {employees.find(e => e.id === leave.employeeId)?.name || `Funcionário #${leave.employeeId}`} · {LEAVE_KINDS[leave.kind].label}
+                            </p>
+                            <p className="text-sm text-gray-400">
+                                {leave.startDate === leave.endDate ? formatDateKey(leave.startDate) : `${formatDateKey(leave.startDate)} a ${formatDateKey(leave.endDate)}`}
+                                {leave.note && ` · ${leave.note}`}
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            {leave.attachmentPath && (
+                                <button onClick={() => handleOpenAttachment(leave)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                    Ver anexo
+                                </button>
+                            )}
+                            <button onClick={() => handleDelete(leave)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                <DeleteIcon /> Excluir
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default LeavesPanel;
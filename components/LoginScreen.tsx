@@ -1,108 +1,171 @@
 import React, { useState, useEffect, useRef } from 'react';
 import Clock from './Clock';
 import Keypad from './Keypad';
-import { PIN_LENGTH, ADMIN_USER } from '../constants';
-import type { Employee, StoredClockEvent, ClockType } from '../types';
+import type { Employee, EmployeeSession, StoredClockEvent, ClockType } from '../types';
+import { eventTimeZone, formatDateTime } from '../lib/dateTime';
+import { repositories } from '../lib/repository';
+import { getDeviceToken } from '../lib/kiosk';
+import { isDeviceUnauthorizedError } from '../lib/devices';
+import { isNetworkError, rememberPin, verifyPinOffline } from '../lib/offline';
+import { findOpenShift, getShiftPolicy } from '../lib/shiftPolicy';
+import type { OpenShift } from '../lib/shiftPolicy';
 
 interface LoginScreenProps {
   onLogin: (employee: Employee) => void;
-  employees: Employee[];
-  events: StoredClockEvent[];
+  onDeviceUnauthorized: () => void; // Token do quiosque revogado: volta ao cadastro do aparelho
+  // Turno aberto: abre a solicitação de ajuste (continueToClock segue para o ponto depois de enviar)
+  onRequestAdjustment?: (employee: Employee, lastEvent?: StoredClockEvent, continueToClock?: boolean) => void; // Sem ela, não há solicitação pelo quiosque
+  onCloseOpenShift: (employee: Employee, openShift: OpenShift) => Promise<Date | null>; // Fecha no fim da escala
+  // Cadastro e batidas do funcionário identificado, pela sessão que o PIN abriu (null na conferência offline)
+  onOpenSession: (employeeId: number, sessionToken: string | null) => Promise<EmployeeSession | null>;
+  pinLength: number;
+  pinMaxAttempts: number;
+  pinLockoutMinutes: number;
 }
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, employees, events }) => {
+// Tempo restante do bloqueio, ex.: "45 s" ou "14 min"
+const describeRemaining = (ms: number): string => {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  return seconds < 120 ? `${seconds} s` : `${Math.ceil(seconds / 60)} min`;
+};
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onDeviceUnauthorized, onRequestAdjustment, onCloseOpenShift, onOpenSession, pinLength, pinMaxAttempts, pinLockoutMinutes }) => {
   const [pin, setPin] = useState('');
   const [error, setError] = useState('');
+  // Espera ou bloqueio informado pelo servidor após tentativas inválidas
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  // Funcionário barrado por batida pendente, enquanto a mensagem está na tela
+  const [pendingFor, setPendingFor] = useState<{ employee: Employee; lastEvent?: StoredClockEvent } | null>(null);
+  const [, setTick] = useState(0);
   const isProcessing = useRef(false);
   const lastActionTime = useRef(0);
 
-  // Função de formatação consistente com AdminDashboard
-  const formatDateTime = (timestamp: string | Date): string => {
-    const date = new Date(timestamp);
-    const day = String(date.getUTCDate()).padStart(2, '0');
-    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-    const year = date.getUTCFullYear();
-    const hours = String(date.getUTCHours()).padStart(2, '0');
-    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
-    const seconds = String(date.getUTCSeconds()).padStart(2, '0');
-    return `${day}/${month}/${year}, ${hours}:${minutes}:${seconds}`;
-  };
-
-  // Função para verificar se há batidas pendentes há mais de 12 horas
-  const checkPendingClocks = (employeeId: number): { hasPending: boolean; lastEvent?: StoredClockEvent } => {
-    // Filtrar eventos deste funcionário
-    const employeeEvents = events.filter(e => e.employeeId === employeeId);
-    if (employeeEvents.length === 0) return { hasPending: false };
-
-    // Ordenar por timestamp (mais recente primeiro)
-    const sorted = [...employeeEvents].sort((a, b) =>
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
-
-    const lastEvent = sorted[0];
-    const lastEventTime = new Date(lastEvent.timestamp).getTime();
-
-    // Obter o "agora" no mesmo formato de UTC forçado que usamos no App.tsx
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    const hours = String(now.getHours()).padStart(2, '0');
-    const minutes = String(now.getMinutes()).padStart(2, '0');
-    const seconds = String(now.getSeconds()).padStart(2, '0');
-    const forcedNowUTC = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}.000Z`).getTime();
-
-    const hoursSinceLastEvent = (forcedNowUTC - lastEventTime) / (1000 * 60 * 60);
-
-    // Se a última batida foi há mais de 14 horas E não é uma saída, há pendência
-    // Aumentado para 14h para dar mais margem a turnos longos (ex: 12h + trocas)
-    const hasPending = hoursSinceLastEvent > 14 && lastEvent.type !== 'Saída';
-
-    return { hasPending, lastEvent };
-  };
+  useEffect(() => {
+    if (blockedUntil === null) return;
+    const timer = setInterval(() => {
+      if (Date.now() >= blockedUntil) {
+        setBlockedUntil(null);
+        setError('');
+      } else {
+        setTick(t => t + 1);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [blockedUntil]);
 
   useEffect(() => {
-    if (pin.length === PIN_LENGTH && !isProcessing.current) {
+    if (pin.length === pinLength && !isProcessing.current) {
       isProcessing.current = true;
 
-      const allUsers = [...employees, ADMIN_USER];
-      const employee = allUsers.find((emp) => emp.pin === pin);
+      const resetAfter = (delay: number) => {
+        setTimeout(() => {
+          setPin('');
+          setError('');
+          setPendingFor(null);
+          isProcessing.current = false;
+        }, delay);
+      };
 
-      if (employee) {
-        // Verificar se é admin (admin pode sempre entrar)
-        if (employee.id === ADMIN_USER.id) {
+      // Mostra a mensagem e depois segue para a tela de ponto
+      const loginAfter = (employee: Employee, delay: number) => {
+        setTimeout(() => {
+          setPin('');
           setError('');
           onLogin(employee);
           isProcessing.current = false;
+        }, delay);
+      };
+
+      // O PIN é conferido no servidor, que só guarda o hash e controla as tentativas deste quiosque.
+      // Sem conexão, vale a conferência local para quem já entrou neste quiosque.
+      const check = async () => {
+        try {
+          const result = await repositories.employees.verifyPin(pin, getDeviceToken());
+          if (result.status === 'ok') {
+            rememberPin(result.employeeId, pin).catch(err => console.error('Erro ao guardar PIN para uso offline:', err));
+          }
+          return result;
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          return verifyPinOffline(pin, pinMaxAttempts, pinLockoutMinutes);
+        }
+      };
+
+      check().then(async result => {
+        if (result.status === 'wait' || result.status === 'locked') {
+          setBlockedUntil(Date.now() + result.retryAfterSeconds * 1000);
+          setError(result.status === 'locked'
+            ? 'Teclado bloqueado por excesso de tentativas.'
+            : 'Muitas tentativas. Aguarde para tentar novamente.');
+          setPin('');
+          isProcessing.current = false;
+          return;
+        }
+
+        if (result.status === 'not_allowed') {
+          setError('Este aparelho não registra o seu ponto. Use o quiosque do seu setor.');
+          resetAfter(3000);
           return;
         }
 
-        // Verificar se há batidas pendentes
-        const { hasPending, lastEvent } = checkPendingClocks(employee.id);
+        const session = result.status === 'ok' ? await onOpenSession(result.employeeId, result.sessionToken) : null;
 
-        if (hasPending) {
-          const lastEventDate = formatDateTime(lastEvent!.timestamp);
-          setError(`⚠️ Batida pendente desde ${lastEventDate}. Dirija-se ao setor de pessoal para regularizar.`);
-          setTimeout(() => {
-            setPin('');
-            setError('');
-            isProcessing.current = false;
-          }, 5000); // 5 segundos para ler a mensagem
-        } else {
+        if (!session) {
+          setError(result.status === 'invalid' && result.remaining <= 2
+            ? `PIN inválido. ${result.remaining} tentativa(s) antes do bloqueio.`
+            : 'PIN inválido. Tente novamente.');
+          resetAfter(1500);
+          return;
+        }
+
+        const { employee } = session;
+        // Turno aberto além da duração máxima: aplica a política de turno aberto
+        const openShift = findOpenShift(session.events);
+        if (!openShift) {
           setError('');
           onLogin(employee);
           isProcessing.current = false;
+          return;
         }
-      } else {
-        setError('PIN inválido. Tente novamente.');
-        setTimeout(() => {
-          setPin('');
-          setError('');
+
+        const openSince = formatDateTime(openShift.entry.timestamp, eventTimeZone(openShift.entry));
+        switch (getShiftPolicy().openShiftBehavior) {
+          case 'warn':
+            setError(`⚠️ Turno aberto desde ${openSince}, sem saída. Procure o setor de pessoal para regularizar.`);
+            loginAfter(employee, 4000);
+            return;
+          case 'declare':
+            if (!onRequestAdjustment) break;
+            setPin('');
+            isProcessing.current = false;
+            onRequestAdjustment(employee, openShift.lastEvent, true);
+            return;
+          case 'auto_close': {
+            const closedAt = await onCloseOpenShift(employee, openShift);
+            if (closedAt) {
+              setError(`Turno aberto desde ${openSince} fechado em ${formatDateTime(closedAt)}, fim da escala.`);
+              loginAfter(employee, 3000);
+              return;
+            }
+            break; // Sem escala no dia ou sem conexão: bloqueia até regularizar
+          }
+        }
+
+        setError(`⚠️ Batida pendente desde ${openSince}. Solicite a correção ou dirija-se ao setor de pessoal.`);
+        setPendingFor({ employee, lastEvent: openShift.lastEvent });
+        resetAfter(10000); // 10 segundos para ler a mensagem ou abrir a solicitação
+      }).catch(err => {
+        if (isDeviceUnauthorizedError(err)) {
           isProcessing.current = false;
-        }, 1500);
-      }
+          onDeviceUnauthorized();
+          return;
+        }
+        console.error('Erro ao verificar PIN:', err);
+        setError('Não foi possível verificar o PIN. Verifique a conexão.');
+        resetAfter(2500);
+      });
     }
-  }, [pin, onLogin, employees, events]);
+  }, [pin, pinLength, pinMaxAttempts, pinLockoutMinutes, onLogin, onDeviceUnauthorized, onRequestAdjustment, onCloseOpenShift, onOpenSession]);
 
   const handleKeyPress = (key: string) => {
     // Debounce: ignorar ações muito rápidas
@@ -112,10 +175,10 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, employees, events })
     }
     lastActionTime.current = now;
 
-    if (isProcessing.current) return;
+    if (isProcessing.current || blockedUntil !== null) return;
 
     setPin(prev => {
-      if (prev.length < PIN_LENGTH) {
+      if (prev.length < pinLength) {
         return prev + key;
       }
       return prev;
@@ -129,7 +192,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, employees, events })
     }
     lastActionTime.current = now;
 
-    if (isProcessing.current) return;
+    if (isProcessing.current || blockedUntil !== null) return;
     setPin(prev => prev.slice(0, -1));
   };
 
@@ -140,7 +203,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, employees, events })
     }
     lastActionTime.current = now;
 
-    if (isProcessing.current) return;
+    if (isProcessing.current || blockedUntil !== null) return;
     setPin('');
     setError('');
   };
@@ -151,7 +214,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, employees, events })
       <div className="flex flex-col space-y-2">
         <div className="text-center text-lg text-muted">Digite seu PIN para continuar</div>
         <div className="flex justify-center items-center space-x-3 py-2">
-          {Array.from({ length: PIN_LENGTH }).map((_, index) => (
+          {Array.from({ length: pinLength }).map((_, index) => (
             <div
               key={index}
               className={`pin-dot ${pin.length > index ? 'filled' : ''}`}
@@ -160,7 +223,13 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, employees, events })
         </div>
         <div className="text-center font-semibold flex items-center justify-center" style={{color: 'var(--color-red)', minHeight: '2rem'}}>
           {error}
+          {blockedUntil !== null && ` (${describeRemaining(blockedUntil - Date.now())})`}
         </div>
+        {pendingFor && onRequestAdjustment && (
+          <button onClick={() => onRequestAdjustment(pendingFor.employee, pendingFor.lastEvent)} className="btn btn-primary w-full">
+            Solicitar correção
+          </button>
+        )}
       </div>
       <Keypad onKeyPress={handleKeyPress} onBackspace={handleBackspace} onClear={handleClear} />
     </div>
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { Manager } from '../types';
+import { signUp } from '../lib/auth';
+import { repositories } from '../lib/repository';
+
+interface ManagerLoginScreenProps {
+    onLogin: (manager: Manager) => void;
+    onCancel: () => void;
+}
+
+const ManagerLoginScreen: React.FC<ManagerLoginScreenProps> = ({ onLogin, onCancel }) => {
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [isFirstAccess, setIsFirstAccess] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email || !password) return;
+        setIsSubmitting(true);
+        setMessage(null);
+        try {
+            if (isFirstAccess) {
+                await signUp(email, password);
+                setIsFirstAccess(false);
+                setPassword('');
+                setMessage({ text: 'Enviamos um link de confirmação para o seu e-mail. Depois de confirmar, entre com a senha criada.', type: 'success' });
+                return;
+            }
+
+            const manager = await repositories.managers.signIn(email, password);
+            if (!manager) {
+                setMessage({ text: 'Este e-mail não tem acesso ao painel. Procure o proprietário da conta.', type: 'error' });
+                return;
+            }
+            onLogin(manager);
+        } catch (error: any) {
+            setMessage({ text: error.message || 'Erro desconhecido', type: 'error' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="glass-panel max-w-md mx-auto animate-fade-in flex flex-col space-y-4">
+            <h3 className="text-xl font-semibold text-center">{isFirstAccess ? 'Primeiro Acesso do Gestor' : 'Acesso do Gestor'}</h3>
+
+            <div>
+                <label htmlFor="manager-email" className="block font-semibold text-muted mb-2">E-mail</label>
+                <input id="manager-email" type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} className="input" />
+            </div>
+            <div>
+                <label htmlFor="manager-password" className="block font-semibold text-muted mb-2">{isFirstAccess ? 'Crie uma senha' : 'Senha'}</label>
+                <input
+                    id="manager-password"
+                    type="password"
+                    autoComplete={isFirstAccess ? 'new-password' : 'current-password'}
+                    minLength={isFirstAccess ? 8 : undefined}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="input"
+                />
+            </div>
+
+            {repositories.backend === 'memory' && (
+                <p className="text-center text-sm text-muted">Demonstração: qualquer e-mail e senha abrem o painel.</p>
+            )}
+
+            {message && (
+                <p className="text-center text-sm" style={{color: message.type === 'error' ? 'var(--color-red)' : undefined}}>{message.text}</p>
+            )}
+
+            <button type="submit" disabled={isSubmitting || !email || !password} className="btn btn-primary w-full">
+                {isSubmitting ? 'Aguarde...' : isFirstAccess ? 'Criar Senha' : 'Entrar'}
+            </button>
+            {/* A senha criada no primeiro acesso é do Supabase Auth; nos outros backends o acesso vem do servidor */}
+            {repositories.supportsServerFeatures && (
+                <button type="button" onClick={() => { setIsFirstAccess(!isFirstAccess); setMessage(null); }} className="btn btn-outline w-full">
+                    {isFirstAccess ? 'Já tenho senha' : 'Primeiro acesso'}
+                </button>
+            )}
+            <button type="button" onClick={onCancel} className="btn w-full" style={{backgroundColor: 'rgba(255,255,255,0.05)'}}>
+                Voltar ao Quiosque
+            </button>
+        </form>
+    );
+};
+
+export default ManagerLoginScreen;
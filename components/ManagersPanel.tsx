@@ -0,0 +1,136 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Manager, ManagerRole } from '../types';
+import { deleteManager, fetchManagers, ROLE_LABELS, ROLE_PERMISSIONS, saveManager } from '../lib/auth';
+import { DeleteIcon } from './Icons';
+
+interface ManagersPanelProps {
+    currentManager: Manager;
+}
+
+const PERMISSION_SUMMARY: Record<ManagerRole, string> = {
+    owner: 'Acesso total, inclusive gestores',
+    hr: 'Funcionários, batidas, afastamentos, configurações e arquivos fiscais',
+    supervisor: 'Somente relatórios e aprovação de ajustes',
+};
+
+const ManagersPanel: React.FC<ManagersPanelProps> = ({ currentManager }) => {
+    const [managers, setManagers] = useState<Manager[]>([]);
+    const [email, setEmail] = useState('');
+    const [name, setName] = useState('');
+    const [role, setRole] = useState<ManagerRole>('supervisor');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadManagers = useCallback(async () => {
+        try {
+            setManagers(await fetchManagers());
+        } catch (error) {
+            console.error('Erro ao carregar gestores:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadManagers();
+    }, [loadManagers]);
+
+    const handleAdd = async () => {
+        if (!email.trim() || !name.trim()) {
+            alert('Informe nome e e-mail');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await saveManager({ email, name, role, active: true });
+            setEmail('');
+            setName('');
+            await loadManagers();
+            alert('Gestor cadastrado. Ele deve usar "Primeiro acesso" na tela de login para criar a senha.');
+        } catch (error: any) {
+            alert(`Erro ao cadastrar gestor: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleUpdate = async (manager: Manager, changes: Partial<Manager>) => {
+        try {
+            await saveManager({ ...manager, ...changes });
+            await loadManagers();
+        } catch (error: any) {
+            alert(`Erro ao atualizar gestor: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDelete = async (manager: Manager) => {
+        if (!confirm(`Remover o acesso de ${manager.name} (${manager.email})?`)) return;
+        try {
+            await deleteManager(manager.id);
+            await loadManagers();
+        } catch (error: any) {
+            alert(`Erro ao remover gestor: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    return (
+        <div className="glass-panel space-y-6">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Gestores e Permissões</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="manager-name" className="block font-semibold text-muted mb-2">Nome</label>
+                    <input id="manager-name" type="text" value={name} onChange={(e) => setName(e.target.value)} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="manager-new-email" className="block font-semibold text-muted mb-2">E-mail</label>
+                    <input id="manager-new-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="manager-role" className="block font-semibold text-muted mb-2">Papel</label>
+                    <select id="manager-role" value={role} onChange={(e) => setRole(e.target.value as ManagerRole)} className="input">
+                        {(Object.keys(ROLE_LABELS) as ManagerRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-sm text-gray-400">{ROLE_LABELS[role]}: {PERMISSION_SUMMARY[role]} ({ROLE_PERMISSIONS[role].length} permissões).</p>
+            <button onClick={handleAdd} disabled={isSaving} className="btn btn-primary w-full">
+                {isSaving ? 'Salvando...' : 'Cadastrar Gestor'}
+            </button>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+                {managers.map(manager => {
+                    const isSelf = manager.id === currentManager.id;
+                    return (
+                        <div key={manager.id} className="flex justify-between items-center bg-stone-800 p-3 rounded gap-2">
+                            <div>
+                                <p className="font-semibold">{manager.name}{isSelf && ' (você)'}</p>
+                                <p className="text-sm text-gray-400">{manager.email}{!manager.active && ' · inativo'}</p>
+                            </div>
+                            <div className="flex gap-2 items-center">
+                                <select
+                                    value={manager.role}
+                                    disabled={isSelf}
+                                    onChange={(e) => handleUpdate(manager, { role: e.target.value as ManagerRole })}
+                                    className="input text-sm py-1"
+                                    aria-label={`Papel de ${manager.name}`}
+                                >
+                                    {(Object.keys(ROLE_LABELS) as ManagerRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                </select>
+                                {!isSelf && (
+                                    <button onClick={() => handleUpdate(manager, { active: !manager.active })} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                        {manager.active ? 'Desativar' : 'Ativar'}
+                                    </button>
+                                )}
+                                {!isSelf && (
+                                    <button onClick={() => handleDelete(manager)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                        <DeleteIcon /> Excluir
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ManagersPanel;
@@ -0,0 +1,99 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ClockType, OfflineConflict } from '../types';
+import { fetchOpenOfflineConflicts, resolveOfflineConflict } from '../lib/offlineConflicts';
+import { formatDateTime } from '../lib/dateTime';
+
+interface OfflineConflictsPanelProps {
+    actor: string;
+    canEdit: boolean; // Lançar ou descartar exige a permissão edit_events
+    onAddManualEvent: (details: { employeeId: number; type: ClockType; timestamp: Date; reason: string; }) => Promise<boolean>;
+    // Abre o modal de confirmação do painel pedindo a justificativa
+    requestConfirmation: (title: string, message: string, onConfirm: (reason: string) => void, requireReason?: boolean) => void;
+}
+
+const OfflineConflictsPanel: React.FC<OfflineConflictsPanelProps> = ({ actor, canEdit, onAddManualEvent, requestConfirmation }) => {
+    const [conflicts, setConflicts] = useState<OfflineConflict[]>([]);
+
+    const loadConflicts = useCallback(async () => {
+        try {
+            setConflicts(await fetchOpenOfflineConflicts());
+        } catch (error) {
+            console.error('Erro ao carregar batidas offline com conflito:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadConflicts();
+    }, [loadConflicts]);
+
+    const resolve = async (conflict: OfflineConflict) => {
+        try {
+            await resolveOfflineConflict(conflict.id, actor);
+            await loadConflicts();
+        } catch (error: any) {
+            alert(`Erro ao resolver conflito: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleLaunch = (conflict: OfflineConflict) => {
+        requestConfirmation(
+            'Lançar Batida Offline',
+            `${conflict.type} de ${conflict.employeeName} em ${formatDateTime(conflict.timestamp)} será lançada como batida manual.`,
+            async (reason) => {
+                const success = await onAddManualEvent({
+                    employeeId: conflict.employeeId!,
+                    type: conflict.type,
+                    timestamp: conflict.timestamp,
+                    reason: `${reason} (batida offline recusada: ${conflict.reason})`,
+                });
+                if (success) await resolve(conflict);
+            },
+            true
+        );
+    };
+
+    const handleDiscard = (conflict: OfflineConflict) => {
+        requestConfirmation(
+            'Descartar Batida Offline',
+            `${conflict.type} de ${conflict.employeeName} em ${formatDateTime(conflict.timestamp)} não será lançada.`,
+            () => resolve(conflict)
+        );
+    };
+
+    if (conflicts.length === 0) return null;
+
+    return (
+        <div className="glass-panel space-y-4">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Batidas Offline com Conflito ({conflicts.length})</h3>
+            <p className="text-sm text-gray-400">
+                Batidas registradas sem conexão que não puderam ser aceitas automaticamente ao sincronizar.
+            </p>
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+                {conflicts.map(conflict => (
+                    <div key={conflict.id} className="flex justify-between items-center bg-stone-800 p-3 rounded gap-2">
+                        <div>
+                            <p className="font-semibold">{conflict.employeeName} · {conflict.type} · {formatDateTime(conflict.timestamp)}</p>
+                            <p className="text-sm text-gray-400">
+                                {conflict.reason} · relógio do dispositivo: {formatDateTime(conflict.clientTimestamp)}
+                            </p>
+                        </div>
+                        {canEdit && (
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                {conflict.employeeId !== null && (
+                                    <button onClick={() => handleLaunch(conflict)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                        Lançar
+                                    </button>
+                                )}
+                                <button onClick={() => handleDiscard(conflict)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                    Descartar
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default OfflineConflictsPanel;
@@ -0,0 +1,330 @@
+import React, { useMemo, useState } from 'react';
+import type { Employee, PayProfile, PayRules, PayType } from '../types';
+import { getHourlyRate, isPayProfileAssigned } from '../lib/payProfiles';
+import { repositories } from '../lib/repository';
+import { formatCurrency } from '../lib/workCalculation';
+import { formatDateKey, todayKey } from '../lib/dateTime';
+import { DeleteIcon, EditIcon } from './Icons';
+
+interface PayProfilesPanelProps {
+    payRules: PayRules;
+    employees: Employee[];
+    onRefresh: () => Promise<void>;
+}
+
+type ProfileDraft = Omit<PayProfile, 'id' | 'replacedBy'> & { id?: number };
+
+const EMPTY_PROFILE: ProfileDraft = {
+    name: '',
+    payType: 'hourly',
+    hourlyRate: 0,
+    monthlySalary: 0,
+    monthlyHours: 220,
+    dailyJourneyMinutes: 480,
+    overtimeMultiplier: 1.5,
+    nightPremiumPercent: 20,
+    holidayMultiplier: 2,
+    timeBankEnabled: false,
+    timeBankExpiryMonths: 6,
+};
+
+const PayProfilesPanel: React.FC<PayProfilesPanelProps> = ({ payRules, employees, onRefresh }) => {
+    const [draft, setDraft] = useState<ProfileDraft>(EMPTY_PROFILE);
+    const [versionFrom, setVersionFrom] = useState(todayKey());
+    const [assignProfileId, setAssignProfileId] = useState('');
+    const [assignTarget, setAssignTarget] = useState<'employee' | 'funcao' | 'all'>('employee');
+    const [assignEmployeeId, setAssignEmployeeId] = useState('');
+    const [assignFuncao, setAssignFuncao] = useState('');
+    const [assignFrom, setAssignFrom] = useState(todayKey());
+
+    const funcoes = useMemo(() => {
+        const set = new Set<string>(employees.map(e => (e.funcao || '').trim()).filter(Boolean));
+        return [...set].sort((a, b) => a.localeCompare(b));
+    }, [employees]);
+
+    // Versões substituídas só aparecem nas atribuições antigas
+    const currentProfiles = useMemo(() => payRules.profiles.filter(profile => profile.replacedBy === null), [payRules.profiles]);
+    // Perfil em uso: a edição vira uma nova versão em vez de mudar os períodos passados
+    const isEditingAssigned = !!draft.id && isPayProfileAssigned(payRules, draft.id);
+
+    const handleEditProfile = (profile: PayProfile) => {
+        setDraft(profile);
+        setVersionFrom(todayKey());
+    };
+
+    const handleSaveProfile = async () => {
+        if (!draft.name) {
+            alert('Informe o nome do perfil');
+            return;
+        }
+        if (draft.dailyJourneyMinutes <= 0 || draft.overtimeMultiplier < 1) {
+            alert('Jornada deve ser positiva e o multiplicador de horas extras no mínimo 1');
+            return;
+        }
+        if (isEditingAssigned && !versionFrom) {
+            alert('Informe a partir de quando valem os novos valores');
+            return;
+        }
+        try {
+            if (isEditingAssigned) {
+                const { id, ...values } = draft;
+                await repositories.payRules.saveProfileVersion(id!, values, versionFrom);
+            } else {
+                await repositories.payRules.saveProfile(draft);
+            }
+            setDraft(EMPTY_PROFILE);
+            await onRefresh();
+        } catch (error: any) {
+            console.error('Erro ao salvar perfil:', error);
+            alert(`Erro ao salvar perfil: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDeleteProfile = async (profile: PayProfile) => {
+        if (!confirm(`Excluir o perfil "${profile.name}"?`)) return;
+        try {
+            await repositories.payRules.removeProfile(profile.id);
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao excluir perfil: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleAssign = async () => {
+        if (!assignProfileId || !assignFrom) {
+            alert('Selecione o perfil e a data de início');
+            return;
+        }
+        if (assignTarget === 'employee' && !assignEmployeeId) {
+            alert('Selecione o funcionário');
+            return;
+        }
+        if (assignTarget === 'funcao' && !assignFuncao) {
+            alert('Selecione a função');
+            return;
+        }
+        try {
+            await repositories.payRules.addAssignment({
+                profileId: parseInt(assignProfileId),
+                employeeId: assignTarget === 'employee' ? parseInt(assignEmployeeId) : null,
+                funcao: assignTarget === 'funcao' ? assignFuncao : null,
+                effectiveFrom: assignFrom,
+            });
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao atribuir perfil: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDeleteAssignment = async (assignmentId: number) => {
+        try {
+            await repositories.payRules.removeAssignment(assignmentId);
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao remover atribuição: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const describeTarget = (employeeId: number | null, funcao: string | null) => {
+        if (employeeId !== null) return employees.find(e => e.id === employeeId)?.name || `Funcionário #${employeeId}`;
+        if (funcao) return `Função: ${funcao}`;
+        return 'Todos os funcionários';
+    };
+
+    const describeProfile = (profileId: number) => {
+        const profile = payRules.profiles.find(p => p.id === profileId);
+        if (!profile) return '---';
+        return profile.replacedBy !== null ? `${profile.name} (versão anterior, hora ${formatCurrency(getHourlyRate(profile))})` : profile.name;
+    };
+
+    const sortedAssignments = [...payRules.assignments].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+    return (
+        <div className="glass-panel space-y-6">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Perfis de Remuneração</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="profile-name" className="block font-semibold text-muted mb-2">Nome do Perfil</label>
+                    <input id="profile-name" type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Ex: Cozinha 2026" className="input" />
+                </div>
+                <div>
+                    <label htmlFor="profile-type" className="block font-semibold text-muted mb-2">Tipo</label>
+                    <select id="profile-type" value={draft.payType} onChange={(e) => setDraft({ ...draft, payType: e.target.value as PayType })} className="input">
+                        <option value="hourly">Horista</option>
+                        <option value="monthly">Mensalista</option>
+                    </select>
+                </div>
+                {draft.payType === 'hourly' ? (
+                    <div>
+                        <label htmlFor="profile-rate" className="block font-semibold text-muted mb-2">Valor da Hora (R$)</label>
+                        <input id="profile-rate" type="number" step="0.01" min={0} value={draft.hourlyRate} onChange={(e) => setDraft({ ...draft, hourlyRate: parseFloat(e.target.value) || 0 })} className="input" />
+                    </div>
+                ) : (
+                    <>
+                        <div>
+                            <label htmlFor="profile-salary" className="block font-semibold text-muted mb-2">Salário Mensal (R$)</label>
+                            <input id="profile-salary" type="number" step="0.01" min={0} value={draft.monthlySalary} onChange={(e) => setDraft({ ...draft, monthlySalary: parseFloat(e.target.value) || 0 })} className="input" />
+                        </div>
+                        <div>
+                            <label htmlFor="profile-divisor" className="block font-semibold text-muted mb-2">Divisor Mensal (horas)</label>
+                            <input id="profile-divisor" type="number" min={1} value={draft.monthlyHours} onChange={(e) => setDraft({ ...draft, monthlyHours: parseInt(e.target.value) || 0 })} className="input" />
+                        </div>
+                    </>
+                )}
+                <div>
+                    <label htmlFor="profile-journey" className="block font-semibold text-muted mb-2">Jornada Diária (minutos)</label>
+                    <input id="profile-journey" type="number" min={1} value={draft.dailyJourneyMinutes} onChange={(e) => setDraft({ ...draft, dailyJourneyMinutes: parseInt(e.target.value) || 0 })} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="profile-overtime" className="block font-semibold text-muted mb-2">Adicional de Hora Extra</label>
+                    <select id="profile-overtime" value={draft.overtimeMultiplier} onChange={(e) => setDraft({ ...draft, overtimeMultiplier: parseFloat(e.target.value) })} className="input">
+                        <option value={1.5}>50%</option>
+                        <option value={1.6}>60%</option>
+                        <option value={1.75}>75%</option>
+                        <option value={2}>100%</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="profile-night" className="block font-semibold text-muted mb-2">Adicional Noturno (%)</label>
+                    <input id="profile-night" type="number" min={0} value={draft.nightPremiumPercent} onChange={(e) => setDraft({ ...draft, nightPremiumPercent: parseFloat(e.target.value) || 0 })} className="input" />
+                </div>
+                <div>
+                    <label htmlFor="profile-holiday" className="block font-semibold text-muted mb-2">Domingos e Feriados</label>
+                    <select id="profile-holiday" value={draft.holidayMultiplier} onChange={(e) => setDraft({ ...draft, holidayMultiplier: parseFloat(e.target.value) })} className="input">
+                        <option value={1.5}>50%</option>
+                        <option value={2}>100%</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="profile-time-bank" className="block font-semibold text-muted mb-2">Horas Excedentes</label>
+                    <select id="profile-time-bank" value={draft.timeBankEnabled ? 'bank' : 'paid'} onChange={(e) => setDraft({ ...draft, timeBankEnabled: e.target.value === 'bank' })} className="input">
+                        <option value="paid">Pagas como extra</option>
+                        <option value="bank">Banco de horas</option>
+                    </select>
+                </div>
+                {draft.timeBankEnabled && (
+                    <div>
+                        <label htmlFor="profile-time-bank-expiry" className="block font-semibold text-muted mb-2">Validade do Banco (meses, 0 = sem)</label>
+                        <input id="profile-time-bank-expiry" type="number" min={0} value={draft.timeBankExpiryMonths} onChange={(e) => setDraft({ ...draft, timeBankExpiryMonths: parseInt(e.target.value) || 0 })} className="input" />
+                    </div>
+                )}
+            </div>
+
+            {isEditingAssigned && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <div>
+                        <label htmlFor="profile-version-from" className="block font-semibold text-muted mb-2">Novos valores a partir de</label>
+                        <input id="profile-version-from" type="date" value={versionFrom} onChange={(e) => setVersionFrom(e.target.value)} className="input" />
+                    </div>
+                    <p className="text-sm text-gray-400 md:col-span-2">
+                        Este perfil já está atribuído. Os valores atuais continuam valendo antes desta data; a partir dela,
+                        quem usa o perfil passa para a nova versão.
+                    </p>
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                {draft.id && (
+                    <button onClick={() => setDraft(EMPTY_PROFILE)} className="btn btn-outline flex-1">Cancelar Edição</button>
+                )}
+                <button onClick={handleSaveProfile} className="btn btn-primary flex-1">
+                    {isEditingAssigned ? 'Salvar Nova Versão' : draft.id ? 'Salvar Perfil' : 'Cadastrar Perfil'}
+                </button>
+            </div>
+
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+                {currentProfiles.map(profile => (
+                    <div key={profile.id} className="flex justify-between items-center bg-stone-800 p-3 rounded">
+                        <div>
+                            <p className="font-semibold">{profile.name}</p>
+                            <p className="text-sm text-gray-400">
+                                {profile.payType === 'monthly' ? `Mensalista ${formatCurrency(profile.monthlySalary)} / ${profile.monthlyHours}h` : 'Horista'}
+                                {' · '}Hora {formatCurrency(getHourlyRate(profile))}
+                                {' · '}Extra {Math.round((profile.overtimeMultiplier - 1) * 100)}%
+                                {' · '}Noturno {profile.nightPremiumPercent}%
+                                {' · '}Feriados {Math.round((profile.holidayMultiplier - 1) * 100)}%
+                                {' · '}Jornada {profile.dailyJourneyMinutes / 60}h
+                                {profile.timeBankEnabled && ` · Banco de horas${profile.timeBankExpiryMonths > 0 ? ` (${profile.timeBankExpiryMonths} meses)` : ''}`}
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => handleEditProfile(profile)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                <EditIcon /> Editar
+                            </button>
+                            {!isPayProfileAssigned(payRules, profile.id) && (
+                                <button onClick={() => handleDeleteProfile(profile)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                    <DeleteIcon /> Excluir
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="pt-4 border-t border-gray-600 space-y-4">
+                <h4 className="text-lg font-semibold">Atribuições</h4>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                        <label htmlFor="assign-profile" className="block font-semibold text-muted mb-2">Perfil</label>
+                        <select id="assign-profile" value={assignProfileId} onChange={(e) => setAssignProfileId(e.target.value)} className="input">
+                            <option value="">Selecione...</option>
+                            {currentProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="assign-target" className="block font-semibold text-muted mb-2">Aplicar a</label>
+                        <select id="assign-target" value={assignTarget} onChange={(e) => setAssignTarget(e.target.value as 'employee' | 'funcao' | 'all')} className="input">
+                            <option value="employee">Funcionário</option>
+                            <option value="funcao">Função</option>
+                            <option value="all">Todos</option>
+                        </select>
+                    </div>
+                    <div>
+                        {assignTarget === 'employee' && (
+                            <>
+                                <label htmlFor="assign-employee" className="block font-semibold text-muted mb-2">Funcionário</label>
+                                <select id="assign-employee" value={assignEmployeeId} onChange={(e) => setAssignEmployeeId(e.target.value)} className="input">
+                                    <option value="">Selecione...</option>
+                                    {employees.map(emp => <option key={emp.id} value={emp.id}>{emp.name}</option>)}
+                                </select>
+                            </>
+                        )}
+                        {assignTarget === 'funcao' && (
+                            <>
+                                <label htmlFor="assign-funcao" className="block font-semibold text-muted mb-2">Função</label>
+                                <select id="assign-funcao" value={assignFuncao} onChange={(e) => setAssignFuncao(e.target.value)} className="input">
+                                    <option value="">Selecione...</option>
+                                    {funcoes.map(f => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            </>
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor="assign-from" className="block font-semibold text-muted mb-2">Vigente a partir de</label>
+                        <input id="assign-from" type="date" value={assignFrom} onChange={(e) => setAssignFrom(e.target.value)} className="input" />
+                    </div>
+                </div>
+                <button onClick={handleAssign} className="btn btn-primary w-full">Atribuir Perfil</button>
+
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {sortedAssignments.map(assignment => (
+                        <div key={assignment.id} className="flex justify-between items-center bg-stone-800 p-3 rounded">
+                            <div>
+                                <p className="font-semibold">{describeTarget(assignment.employeeId, assignment.funcao)}</p>
+                                <p className="text-sm text-gray-400">
+                                    {describeProfile(assignment.profileId)} desde {formatDateKey(assignment.effectiveFrom)}
+                                </p>
+                            </div>
+                            <button onClick={() => handleDeleteAssignment(assignment.id)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                <DeleteIcon /> Remover
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PayProfilesPanel;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import type { ReceiptStatus, ReceiptVerification } from '../types';
+import { verifyReceipt } from '../lib/receipts';
+import { eventTimeZone, formatDateTime } from '../lib/dateTime';
+
+interface ReceiptVerificationScreenProps {
+    hash: string;
+}
+
+const STATUS_LABELS: Record<ReceiptStatus, { title: string; description: string; color: string }> = {
+    valid: {
+        title: 'Comprovante válido',
+        description: 'A marcação consta no registro de ponto exatamente como no comprovante.',
+        color: 'var(--color-emerald)',
+    },
+    adjusted: {
+        title: 'Comprovante válido, marcação ajustada',
+        description: 'A marcação foi registrada como no comprovante, mas o gestor a alterou depois.',
+        color: 'var(--color-yellow)',
+    },
+    deleted: {
+        title: 'Comprovante válido, marcação excluída',
+        description: 'A marcação foi registrada como no comprovante, mas o gestor a excluiu depois.',
+        color: 'var(--color-red)',
+    },
+    not_found: {
+        title: 'Comprovante não encontrado',
+        description: 'Nenhuma marcação corresponde a este código de verificação.',
+        color: 'var(--color-red)',
+    },
+};
+
+// Página pública aberta pelo QR code do comprovante; mostra só os dados da própria marcação
+const ReceiptVerificationScreen: React.FC<ReceiptVerificationScreenProps> = ({ hash }) => {
+    const [result, setResult] = useState<ReceiptVerification | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        verifyReceipt(hash)
+            .then(setResult)
+            .catch(err => {
+                console.error('Erro ao verificar comprovante:', err);
+                setError('Não foi possível verificar o comprovante agora. Tente novamente mais tarde.');
+            });
+    }, [hash]);
+
+    const status = result ? STATUS_LABELS[result.status] : null;
+
+    return (
+        <div className="glass-panel max-w-md mx-auto animate-fade-in flex flex-col space-y-4">
+            <h3 className="text-xl font-semibold text-center">Verificação de Comprovante</h3>
+            {error && <p className="text-center text-sm" style={{color: 'var(--color-red)'}}>{error}</p>}
+            {!result && !error && <p className="text-center text-muted">Verificando...</p>}
+            {result && status && (
+                <>
+                    <div className="text-center space-y-1">
+                        <p className="text-lg font-bold" style={{color: status.color}}>{status.title}</p>
+                        <p className="text-sm text-gray-400">{status.description}</p>
+                    </div>
+                    {result.status !== 'not_found' && (
+                        <div className="bg-stone-800 p-4 rounded space-y-1 text-sm">
+                            <p><span className="text-gray-400">NSR:</span> <span className="font-mono">{String(result.nsr).padStart(9, '0')}</span></p>
+                            <p><span className="text-gray-400">Trabalhador:</span> {result.employeeName}</p>
+                            {result.maskedCpf && <p><span className="text-gray-400">CPF:</span> <span className="font-mono">{result.maskedCpf}</span></p>}
+                            <p><span className="text-gray-400">Marcação:</span> {result.type}</p>
+                            {result.timestamp && <p><span className="text-gray-400">Data e hora:</span> {formatDateTime(result.timestamp, eventTimeZone(result))}</p>}
+                            {result.status === 'adjusted' && result.currentTimestamp && (
+                                <p><span className="text-gray-400">Horário atual:</span> {formatDateTime(result.currentTimestamp, eventTimeZone(result))}</p>
+                            )}
+                            {result.recordedAt && <p><span className="text-gray-400">Gravado em:</span> {formatDateTime(result.recordedAt, eventTimeZone(result))}</p>}
+                            {result.timeZone && <p><span className="text-gray-400">Fuso:</span> {result.timeZone}</p>}
+                        </div>
+                    )}
+                </>
+            )}
+            <p className="text-xs text-gray-400 text-center font-mono break-all">{hash}</p>
+        </div>
+    );
+};
+
+export default ReceiptVerificationScreen;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import type { Employee, ScheduleDay, ScheduleKind, ScheduleRules, WorkSchedule } from '../types';
+import { addScheduleAssignment, deleteSchedule, deleteScheduleAssignment, saveSchedule, SCHEDULE_TEMPLATES } from '../lib/schedules';
+import { formatDateKey, todayKey, WEEKDAY_LABELS } from '../lib/dateTime';
+import { DeleteIcon, EditIcon } from './Icons';
+
+interface SchedulesPanelProps {
+    scheduleRules: ScheduleRules;
+    employees: Employee[];
+    onRefresh: () => Promise<void>;
+}
+
+type ScheduleDraft = Omit<WorkSchedule, 'id'> & { id?: number };
+
+const DEFAULT_DAY: ScheduleDay = { start: '08:00', end: '17:00', breakMinutes: 60 };
+
+const EMPTY_SCHEDULE: ScheduleDraft = { name: '', kind: 'weekly', days: Array(7).fill(null) };
+
+const describeDays = (schedule: WorkSchedule): string => {
+    const workDays = schedule.days.filter(Boolean).length;
+    if (schedule.kind === 'weekly') return `Semanal · ${workDays} dias de trabalho`;
+    return `Ciclo de ${schedule.days.length} dias · ${workDays} de trabalho`;
+};
+
+const SchedulesPanel: React.FC<SchedulesPanelProps> = ({ scheduleRules, employees, onRefresh }) => {
+    const [draft, setDraft] = useState<ScheduleDraft>(EMPTY_SCHEDULE);
+    const [assignScheduleId, setAssignScheduleId] = useState('');
+    const [assignEmployeeId, setAssignEmployeeId] = useState('');
+    const [assignFrom, setAssignFrom] = useState(todayKey());
+
+    const handleTemplate = (index: string) => {
+        const template = SCHEDULE_TEMPLATES[parseInt(index)];
+        if (!template) return;
+        setDraft({ ...template.schedule, days: template.schedule.days.map(day => day && { ...day }), id: draft.id });
+    };
+
+    const handleKindChange = (kind: ScheduleKind) => {
+        setDraft({ ...draft, kind, days: kind === 'weekly' ? Array(7).fill(null) : [{ ...DEFAULT_DAY }, null] });
+    };
+
+    const updateDay = (index: number, day: ScheduleDay | null) => {
+        const days = [...draft.days];
+        days[index] = day;
+        setDraft({ ...draft, days });
+    };
+
+    const handleSave = async () => {
+        if (!draft.name) {
+            alert('Informe o nome da escala');
+            return;
+        }
+        if (!draft.days.some(Boolean)) {
+            alert('A escala precisa de pelo menos um dia de trabalho');
+            return;
+        }
+        try {
+            await saveSchedule(draft);
+            setDraft(EMPTY_SCHEDULE);
+            await onRefresh();
+        } catch (error: any) {
+            console.error('Erro ao salvar escala:', error);
+            alert(`Erro ao salvar escala: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDelete = async (schedule: WorkSchedule) => {
+        if (!confirm(`Excluir a escala "${schedule.name}" e todas as suas atribuições?`)) return;
+        try {
+            await deleteSchedule(schedule.id);
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao excluir escala: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleAssign = async () => {
+        if (!assignScheduleId || !assignEmployeeId || !assignFrom) {
+            alert('Selecione a escala, o funcionário e a data de início');
+            return;
+        }
+        try {
+            await addScheduleAssignment({
+                scheduleId: parseInt(assignScheduleId),
+                employeeId: parseInt(assignEmployeeId),
+                effectiveFrom: assignFrom,
+            });
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao atribuir escala: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDeleteAssignment = async (assignmentId: number) => {
+        try {
+            await deleteScheduleAssignment(assignmentId);
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao remover atribuição: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const sortedAssignments = [...scheduleRules.assignments].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+    return (
+        <div className="glass-panel space-y-6">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Escalas de Trabalho</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="schedule-template" className="block font-semibold text-muted mb-2">Modelo</label>
+                    <select id="schedule-template" value="" onChange={(e) => handleTemplate(e.target.value)} className="input">
+                        <option value="">Preencher a partir de...</option>
+                        {SCHEDULE_TEMPLATES.map((template, index) => <option key={index} value={index}>{template.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="schedule-name" className="block font-semibold text-muted mb-2">Nome da Escala</label>
+                    <input id="schedule-name" type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Ex: Cozinha 6x1" className="input" />
+                </div>
+                <div>
+                    <label htmlFor="schedule-kind" className="block font-semibold text-muted mb-2">Tipo</label>
+                    <select id="schedule-kind" value={draft.kind} onChange={(e) => handleKindChange(e.target.value as ScheduleKind)} className="input">
+                        <option value="weekly">Semanal (por dia da semana)</option>
+                        <option value="cycle">Ciclo (12x36, revezamento)</option>
+                    </select>
+                </div>
+            </div>
+
+            {draft.kind === 'cycle' && (
+                <p className="text-sm text-gray-400">O ciclo começa no dia 1 na data de início de cada atribuição e se repete continuamente.</p>
+            )}
+
+            <div className="space-y-2">
+                {draft.days.map((day, index) => (
+                    <div key={index} className="flex items-center gap-2 bg-stone-800 p-2 rounded">
+                        <label className="flex items-center gap-2" style={{minWidth: '9rem'}}>
+                            <input type="checkbox" checked={!!day} onChange={(e) => updateDay(index, e.target.checked ? { ...DEFAULT_DAY } : null)} />
+                            <span className="font-semibold">{draft.kind === 'weekly' ? WEEKDAY_LABELS[index] : `Dia ${index + 1}`}</span>
+                        </label>
+                        {day ? (
+                            <>
+                                <input type="time" value={day.start} onChange={(e) => updateDay(index, { ...day, start: e.target.value })} className="input" aria-label="Entrada" />
+                                <input type="time" value={day.end} onChange={(e) => updateDay(index, { ...day, end: e.target.value })} className="input" aria-label="Saída" />
+                                <input type="number" min={0} value={day.breakMinutes} onChange={(e) => updateDay(index, { ...day, breakMinutes: parseInt(e.target.value) || 0 })} className="input" style={{maxWidth: '6rem'}} aria-label="Intervalo (min)" title="Intervalo (min)" />
+                                <input type="time" value={day.breakStart ?? ''} onChange={(e) => updateDay(index, { ...day, breakStart: e.target.value || undefined })} className="input" aria-label="Início do intervalo (opcional)" title="Início do intervalo (opcional)" />
+                            </>
+                        ) : (
+                            <span className="text-sm text-gray-400">Folga</span>
+                        )}
+                    </div>
+                ))}
+                {draft.kind === 'cycle' && (
+                    <div className="flex gap-2">
+                        <button onClick={() => setDraft({ ...draft, days: [...draft.days, null] })} className="btn btn-outline flex-1 text-sm">+ Dia no ciclo</button>
+                        {draft.days.length > 1 && (
+                            <button onClick={() => setDraft({ ...draft, days: draft.days.slice(0, -1) })} className="btn btn-outline flex-1 text-sm">- Remover último dia</button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex gap-2">
+                {draft.id && (
+                    <button onClick={() => setDraft(EMPTY_SCHEDULE)} className="btn btn-outline flex-1">Cancelar Edição</button>
+                )}
+                <button onClick={handleSave} className="btn btn-primary flex-1">
+                    {draft.id ? 'Salvar Escala' : 'Cadastrar Escala'}
+                </button>
+            </div>
+
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+                {scheduleRules.schedules.map(schedule => (
+                    <div key={schedule.id} className="flex justify-between items-center bg-stone-800 p-3 rounded">
+                        <div>
+                            <p className="font-semibold">{schedule.name}</p>
+                            <p className="text-sm text-gray-400">{describeDays(schedule)}</p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => setDraft({ ...schedule, days: schedule.days.map(day => day && { ...day }) })} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                <EditIcon /> Editar
+                            </button>
+                            <button onClick={() => handleDelete(schedule)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                <DeleteIcon /> Excluir
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="pt-4 border-t border-gray-600 space-y-4">
+                <h4 className="text-lg font-semibold">Atribuições</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label htmlFor="schedule-assign" className="block font-semibold text-muted mb-2">Escala</label>
+                        <select id="schedule-assign" value={assignScheduleId} onChange={(e) => setAssignScheduleId(e.target.value)} className="input">
+                            <option value="">Selecione...</option>
+                            {scheduleRules.schedules.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="schedule-assign-employee" className="block font-semibold text-muted mb-2">Funcionário</label>
+                        <select id="schedule-assign-employee" value={assignEmployeeId} onChange={(e) => setAssignEmployeeId(e.target.value)} className="input">
+                            <option value="">Selecione...</option>
+                            {employees.map(emp => <option key={emp.id} value={emp.id}>{emp.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="schedule-assign-from" className="block font-semibold text-muted mb-2">Início</label>
+                        <input id="schedule-assign-from" type="date" value={assignFrom} onChange={(e) => setAssignFrom(e.target.value)} className="input" />
+                    </div>
+                </div>
+                <button onClick={handleAssign} className="btn btn-primary w-full">Atribuir Escala</button>
+
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {sortedAssignments.map(assignment => (
+                        <div key={assignment.id} className="flex justify-between items-center bg-stone-800 p-3 rounded">
+                            <div>
+                                <p className="font-semibold">{employees.find(e => e.id === assignment.employeeId)?.name || `Funcionário #${assignment.employeeId}`}</p>
+                                <p className="text-sm text-gray-400">
+                                    {scheduleRules.schedules.find(s => s.id === assignment.scheduleId)?.name || '---'} desde {formatDateKey(assignment.effectiveFrom)}
+                                </p>
+                            </div>
+                            <button onClick={() => handleDeleteAssignment(assignment.id)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                <DeleteIcon /> Remover
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SchedulesPanel;
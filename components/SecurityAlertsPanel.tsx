@@ -0,0 +1,69 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { SecurityAlert } from '../types';
+import { acknowledgeSecurityAlert, fetchOpenSecurityAlerts, unlockPinKeypad } from '../lib/securityAlerts';
+import { formatDateTime } from '../lib/dateTime';
+
+interface SecurityAlertsPanelProps {
+    actor: string;
+    canManage: boolean; // Liberar quiosques e marcar alertas como vistos (manage_employees)
+}
+
+const SecurityAlertsPanel: React.FC<SecurityAlertsPanelProps> = ({ actor, canManage }) => {
+    const [alerts, setAlerts] = useState<SecurityAlert[]>([]);
+
+    const loadAlerts = useCallback(async () => {
+        try {
+            setAlerts(await fetchOpenSecurityAlerts());
+        } catch (error) {
+            console.error('Erro ao carregar alertas de segurança:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadAlerts();
+    }, [loadAlerts]);
+
+    const handleAcknowledge = async (alert: SecurityAlert, unlock: boolean) => {
+        try {
+            if (unlock) {
+                await unlockPinKeypad(alert.kind === 'installation_lockout' ? null : alert.kioskId);
+            }
+            await acknowledgeSecurityAlert(alert.id, actor);
+            await loadAlerts();
+        } catch (error: any) {
+            window.alert(`Erro ao atualizar alerta: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    if (alerts.length === 0) return null;
+
+    return (
+        <div className="glass-panel space-y-4" style={{borderColor: 'rgba(220,38,38,0.5)'}}>
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2" style={{color: 'var(--color-red)'}}>
+                Alertas de Segurança ({alerts.length})
+            </h3>
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+                {alerts.map(alert => (
+                    <div key={alert.id} className="flex justify-between items-center bg-stone-800 p-3 rounded gap-2">
+                        <div>
+                            <p className="font-semibold">{alert.message}</p>
+                            <p className="text-sm text-gray-400">{formatDateTime(alert.createdAt)}</p>
+                        </div>
+                        {canManage && (
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <button onClick={() => handleAcknowledge(alert, true)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                    Liberar Teclado
+                                </button>
+                                <button onClick={() => handleAcknowledge(alert, false)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                    Marcar como Visto
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SecurityAlertsPanel;
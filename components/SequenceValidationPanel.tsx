@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { endOfZonedDay, formatDateKey, formatDateTime, startOfZonedDay } from '../lib/dateTime';
+import { PUNCH_SEQUENCE_ERROR_LABELS, validatePunchSequences } from '../lib/punchSequence';
+import type { PunchSequenceIssue } from '../lib/punchSequence';
+
+interface SequenceValidationPanelProps {
+    startDate: string; // YYYY-MM-DD
+    endDate: string;
+    employeeId?: number; // Sem funcionário: todos
+}
+
+// Ferramenta "Validar período": lista as batidas já gravadas fora da sequência Entrada → Intervalo → Saída
+const SequenceValidationPanel: React.FC<SequenceValidationPanelProps> = ({ startDate, endDate, employeeId }) => {
+    const [issues, setIssues] = useState<PunchSequenceIssue[] | null>(null);
+    const [isValidating, setIsValidating] = useState(false);
+
+    // O resultado vale só para o filtro em que foi gerado
+    useEffect(() => {
+        setIssues(null);
+    }, [startDate, endDate, employeeId]);
+
+    const handleValidate = async () => {
+        setIsValidating(true);
+        try {
+            setIssues(await validatePunchSequences(startOfZonedDay(startDate), endOfZonedDay(endDate), employeeId));
+        } catch (error: any) {
+            alert(`Erro ao validar o período: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setIsValidating(false);
+        }
+    };
+
+    return (
+        <div className="bg-stone-800 rounded-lg p-4 space-y-2">
+            <div className="flex justify-between items-center gap-2">
+                <h4 className="text-lg font-semibold text-amber-400">
+                    Sequência das Batidas{issues !== null && ` (${issues.length})`}
+                </h4>
+                <button onClick={handleValidate} disabled={isValidating} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                    {isValidating ? 'Validando...' : 'Validar Período'}
+                </button>
+            </div>
+            {issues === null ? (
+                <p className="text-sm text-gray-400">
+                    Confere as batidas de {formatDateKey(startDate)} a {formatDateKey(endDate)} contra a ordem Entrada,
+                    Início Intervalo, Fim Intervalo e Saída.
+                </p>
+            ) : issues.length === 0 ? (
+                <p className="text-sm" style={{color: 'var(--color-emerald)'}}>Nenhuma batida fora de sequência no período.</p>
+            ) : (
+                <ul className="space-y-2 max-h-60 overflow-y-auto">
+                    {issues.map(issue => (
+                        <li key={issue.eventId} className="list-item">
+                            <span className="text-sm">
+                                <strong>{formatDateTime(issue.timestamp)}</strong> · {issue.employeeName} · {issue.type}
+                                {' '}(anterior: {issue.previousState ?? 'sem turno aberto'})
+                            </span>
+                            <span className="text-sm font-bold" style={{color: 'var(--color-red)'}} title={issue.message}>
+                                {issue.code} · {PUNCH_SEQUENCE_ERROR_LABELS[issue.code]}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default SequenceValidationPanel;
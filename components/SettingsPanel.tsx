@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import type { AppSettings } from '../lib/settings';
+import { isValidTimeZone } from '../lib/dateTime';
+import { isValidCnpj, isValidCpf } from '../lib/documents';
+import { GEOFENCE_MODE_LABELS } from '../lib/sites';
+import type { GeofenceMode } from '../lib/sites';
+import { MAX_SHIFT_HOURS, MIN_SHIFT_HOURS, OPEN_SHIFT_BEHAVIOR_LABELS } from '../lib/shiftPolicy';
+import type { OpenShiftBehavior } from '../lib/shiftPolicy';
+
+// Fusos brasileiros mais comuns; outros fusos IANA podem ser digitados manualmente
+const BRAZIL_TIME_ZONES = [
+    { value: 'America/Sao_Paulo', label: 'Brasília (America/Sao_Paulo)' },
+    { value: 'America/Manaus', label: 'Amazonas (America/Manaus)' },
+    { value: 'America/Cuiaba', label: 'Mato Grosso (America/Cuiaba)' },
+    { value: 'America/Rio_Branco', label: 'Acre (America/Rio_Branco)' },
+    { value: 'America/Noronha', label: 'Fernando de Noronha (America/Noronha)' },
+    { value: 'America/Fortaleza', label: 'Nordeste (America/Fortaleza)' },
+    { value: 'America/Belem', label: 'Pará (America/Belem)' },
+];
+
+interface SettingsPanelProps {
+    settings: AppSettings;
+    onSave: (changes: Partial<AppSettings>) => Promise<boolean>;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave }) => {
+    const [draft, setDraft] = useState<AppSettings>(settings);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setDraft(settings);
+    }, [settings]);
+
+    const handleSave = async () => {
+        if (!isValidTimeZone(draft.timeZone)) {
+            alert(`Fuso horário inválido: ${draft.timeZone}`);
+            return;
+        }
+        if (draft.employerDocument && !isValidCnpj(draft.employerDocument) && !isValidCpf(draft.employerDocument)) {
+            alert('CNPJ/CPF do empregador inválido');
+            return;
+        }
+        if (draft.responsibleCpf && !isValidCpf(draft.responsibleCpf)) {
+            alert('CPF do responsável inválido');
+            return;
+        }
+        if (!Number.isInteger(draft.pinLength) || draft.pinLength < 4 || draft.pinLength > 8) {
+            alert('O PIN deve ter de 4 a 8 dígitos');
+            return;
+        }
+        if (draft.pinMaxAttempts < 1 || draft.pinLockoutMinutes < 1) {
+            alert('Tentativas e tempo de bloqueio devem ser maiores que zero');
+            return;
+        }
+        if (!Number.isInteger(draft.maxShiftHours) || draft.maxShiftHours < MIN_SHIFT_HOURS || draft.maxShiftHours > MAX_SHIFT_HOURS) {
+            alert(`A duração máxima do turno deve ser de ${MIN_SHIFT_HOURS} a ${MAX_SHIFT_HOURS} horas`);
+            return;
+        }
+        if (draft.pinLength !== settings.pinLength && !confirm(
+            `Os PINs atuais têm ${settings.pinLength} dígitos e deixarão de ser aceitos no quiosque. ` +
+            `Será preciso cadastrar um novo PIN de ${draft.pinLength} dígitos para cada funcionário. Continuar?`
+        )) {
+            return;
+        }
+        setIsSaving(true);
+        const success = await onSave(draft);
+        setIsSaving(false);
+        alert(success ? 'Configurações salvas com sucesso!' : 'Erro ao salvar configurações');
+    };
+
+    const isKnownZone = BRAZIL_TIME_ZONES.some(z => z.value === draft.timeZone);
+
+    return (
+        <div className="glass-panel space-y-4">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Configurações</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="settings-timezone" className="block font-semibold text-muted mb-2">Fuso Horário da Empresa</label>
+                    <select
+                        id="settings-timezone"
+                        value={isKnownZone ? draft.timeZone : 'other'}
+                        onChange={(e) => setDraft({ ...draft, timeZone: e.target.value === 'other' ? '' : e.target.value })}
+                        className="input"
+                    >
+                        {BRAZIL_TIME_ZONES.map(z => (
+                            <option key={z.value} value={z.value}>{z.label}</option>
+                        ))}
+                        <option value="other">Outro...</option>
+                    </select>
+                    <p className="text-sm text-gray-400 mt-1">Vale para todos os locais e quiosques; não há fuso próprio por local.</p>
+                </div>
+                {!isKnownZone && (
+                    <div>
+                        <label htmlFor="settings-timezone-custom" className="block font-semibold text-muted mb-2">Fuso IANA</label>
+                        <input
+                            id="settings-timezone-custom"
+                            type="text"
+                            value={draft.timeZone}
+                            onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })}
+                            placeholder="Ex: Europe/Lisbon"
+                            className="input"
+                        />
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="settings-drift" className="block font-semibold text-muted mb-2">Tolerância do Relógio do Quiosque (segundos)</label>
+                    <input
+                        id="settings-drift"
+                        type="number"
+                        min={0}
+                        value={draft.clockDriftThresholdSeconds}
+                        onChange={(e) => setDraft({ ...draft, clockDriftThresholdSeconds: parseInt(e.target.value) || 0 })}
+                        className="input"
+                    />
+                </div>
+            </div>
+
+            <h4 className="text-lg font-semibold text-amber-400">Identificação do Empregador (AFD/AEJ)</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="settings-employer-document" className="block font-semibold text-muted mb-2">CNPJ ou CPF do Empregador</label>
+                    <input
+                        id="settings-employer-document"
+                        type="text"
+                        value={draft.employerDocument}
+                        onChange={(e) => setDraft({ ...draft, employerDocument: e.target.value })}
+                        placeholder="00.000.000/0000-00"
+                        className="input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="settings-employer-name" className="block font-semibold text-muted mb-2">Razão Social</label>
+                    <input
+                        id="settings-employer-name"
+                        type="text"
+                        value={draft.employerName}
+                        onChange={(e) => setDraft({ ...draft, employerName: e.target.value })}
+                        className="input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="settings-employer-cno" className="block font-semibold text-muted mb-2">CNO ou CAEPF (opcional)</label>
+                    <input
+                        id="settings-employer-cno"
+                        type="text"
+                        value={draft.employerCno}
+                        onChange={(e) => setDraft({ ...draft, employerCno: e.target.value })}
+                        className="input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="settings-responsible-cpf" className="block font-semibold text-muted mb-2">CPF do Responsável pelos Cadastros</label>
+                    <input
+                        id="settings-responsible-cpf"
+                        type="text"
+                        value={draft.responsibleCpf}
+                        onChange={(e) => setDraft({ ...draft, responsibleCpf: e.target.value })}
+                        placeholder="000.000.000-00"
+                        className="input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="settings-rep-identifier" className="block font-semibold text-muted mb-2">Registro do REP-P no INPI</label>
+                    <input
+                        id="settings-rep-identifier"
+                        type="text"
+                        value={draft.repIdentifier}
+                        onChange={(e) => setDraft({ ...draft, repIdentifier: e.target.value })}
+                        className="input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="settings-developer-document" className="block font-semibold text-muted mb-2">CNPJ ou CPF do Desenvolvedor</label>
+                    <input
+                        id="settings-developer-document"
+                        type="text"
+                        value={draft.developerDocument}
+                        onChange={(e) => setDraft({ ...draft, developerDocument: e.target.value })}
+                        className="input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="settings-developer-name" className="block font-semibold text-muted mb-2">Razão Social do Desenvolvedor</label>
+                    <input
+                        id="settings-developer-name"
+                        type="text"
+                        value={draft.developerName}
+                        onChange={(e) => setDraft({ ...draft, developerName: e.target.value })}
+                        className="input"
+                    />
+                </div>
+            </div>
+
+            <h4 className="text-lg font-semibold text-amber-400">Teclado de PIN</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="settings-pin-length" className="block font-semibold text-muted mb-2">Dígitos do PIN</label>
+                    <select
+                        id="settings-pin-length"
+                        value={draft.pinLength}
+                        onChange={(e) => setDraft({ ...draft, pinLength: parseInt(e.target.value) })}
+                        className="input"
+                    >
+                        {[4, 5, 6, 7, 8].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="settings-pin-attempts" className="block font-semibold text-muted mb-2">Tentativas até Bloquear</label>
+                    <input
+                        id="settings-pin-attempts"
+                        type="number"
+                        min={1}
+                        value={draft.pinMaxAttempts}
+                        onChange={(e) => setDraft({ ...draft, pinMaxAttempts: parseInt(e.target.value) || 0 })}
+                        className="input"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="settings-pin-lockout" className="block font-semibold text-muted mb-2">Bloqueio Inicial (minutos)</label>
+                    <input
+                        id="settings-pin-lockout"
+                        type="number"
+                        min={1}
+                        value={draft.pinLockoutMinutes}
+                        onChange={(e) => setDraft({ ...draft, pinLockoutMinutes: parseInt(e.target.value) || 0 })}
+                        className="input"
+                    />
+                </div>
+            </div>
+
+            <h4 className="text-lg font-semibold text-amber-400">Foto da Batida</h4>
+            <label className="flex items-center gap-2">
+                <input
+                    type="checkbox"
+                    checked={draft.punchPhotoEnabled}
+                    onChange={(e) => setDraft({ ...draft, punchPhotoEnabled: e.target.checked })}
+                />
+                <span>Tirar uma foto pela câmera do quiosque a cada batida</span>
+            </label>
+            <p className="text-sm text-gray-400">
+                A foto fica vinculada ao registro para conferência da identidade no relatório. Sem câmera ou sem
+                permissão do navegador, o ponto é registrado normalmente, sem foto.
+            </p>
+
+            <h4 className="text-lg font-semibold text-amber-400">Cerca Virtual</h4>
+            <div>
+                <label htmlFor="settings-geofence-mode" className="block font-semibold text-muted mb-2">Batidas Fora dos Locais Permitidos</label>
+                <select
+                    id="settings-geofence-mode"
+                    value={draft.geofenceMode}
+                    onChange={(e) => setDraft({ ...draft, geofenceMode: e.target.value as GeofenceMode })}
+                    className="input"
+                >
+                    {(Object.keys(GEOFENCE_MODE_LABELS) as GeofenceMode[]).map(mode => <option key={mode} value={mode}>{GEOFENCE_MODE_LABELS[mode]}</option>)}
+                </select>
+            </div>
+            <p className="text-sm text-gray-400">
+                Ligada, o app pede a localização do aparelho a cada batida. Batidas sem localização contam como fora da área.
+            </p>
+
+            <h4 className="text-lg font-semibold text-amber-400">Turno Aberto</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="settings-max-shift" className="block font-semibold text-muted mb-2">Duração Máxima do Turno (horas)</label>
+                    <input
+                        id="settings-max-shift"
+                        type="number"
+                        min={MIN_SHIFT_HOURS}
+                        max={MAX_SHIFT_HOURS}
+                        value={draft.maxShiftHours}
+                        onChange={(e) => setDraft({ ...draft, maxShiftHours: parseInt(e.target.value) || 0 })}
+                        className="input"
+                    />
+                </div>
+                <div className="md:col-span-2">
+                    <label htmlFor="settings-open-shift" className="block font-semibold text-muted mb-2">Turno sem Saída Após o Limite</label>
+                    <select
+                        id="settings-open-shift"
+                        value={draft.openShiftBehavior}
+                        onChange={(e) => setDraft({ ...draft, openShiftBehavior: e.target.value as OpenShiftBehavior })}
+                        className="input"
+                    >
+                        {(Object.keys(OPEN_SHIFT_BEHAVIOR_LABELS) as OpenShiftBehavior[]).map(behavior => <option key={behavior} value={behavior}>{OPEN_SHIFT_BEHAVIOR_LABELS[behavior]}</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-sm text-gray-400">
+                Batidas além da duração máxima, contada da Entrada, não entram no turno nos relatórios. O fechamento
+                automático usa o fim da escala do dia; sem escala, o ponto fica bloqueado como na primeira opção.
+            </p>
+
+            <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="btn btn-primary w-full"
+            >
+                {isSaving ? 'Salvando...' : 'Salvar Configurações'}
+            </button>
+        </div>
+    );
+};
+
+export default SettingsPanel;
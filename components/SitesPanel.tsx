@@ -0,0 +1,137 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Site } from '../types';
+import { addSite, deleteSite, fetchSites, getCurrentLocation, setSiteActive } from '../lib/sites';
+import { DeleteIcon } from './Icons';
+
+const SitesPanel: React.FC = () => {
+    const [sites, setSites] = useState<Site[]>([]);
+    const [name, setName] = useState('');
+    const [latitude, setLatitude] = useState('');
+    const [longitude, setLongitude] = useState('');
+    const [radius, setRadius] = useState('100');
+    const [isLocating, setIsLocating] = useState(false);
+
+    const loadSites = useCallback(async () => {
+        try {
+            setSites(await fetchSites());
+        } catch (error) {
+            console.error('Erro ao carregar locais de ponto:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSites();
+    }, [loadSites]);
+
+    const handleUseCurrentLocation = async () => {
+        setIsLocating(true);
+        const location = await getCurrentLocation();
+        setIsLocating(false);
+        if (!location) {
+            alert('Não foi possível obter a localização deste aparelho');
+            return;
+        }
+        setLatitude(location.latitude.toFixed(6));
+        setLongitude(location.longitude.toFixed(6));
+    };
+
+    const handleAdd = async () => {
+        const lat = parseFloat(latitude.replace(',', '.'));
+        const lng = parseFloat(longitude.replace(',', '.'));
+        const radiusMeters = parseInt(radius);
+        if (!name.trim() || isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+            alert('Informe o nome e coordenadas válidas (latitude entre -90 e 90, longitude entre -180 e 180)');
+            return;
+        }
+        if (!radiusMeters || radiusMeters <= 0) {
+            alert('Informe o raio em metros');
+            return;
+        }
+        try {
+            await addSite({ name: name.trim(), latitude: lat, longitude: lng, radiusMeters, active: true });
+            setName('');
+            setLatitude('');
+            setLongitude('');
+            await loadSites();
+        } catch (error: any) {
+            alert(`Erro ao cadastrar local: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleToggle = async (site: Site) => {
+        try {
+            await setSiteActive(site.id, !site.active);
+            await loadSites();
+        } catch (error: any) {
+            alert(`Erro ao atualizar local: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDelete = async (site: Site) => {
+        if (!confirm(`Remover o local "${site.name}"? As batidas já registradas mantêm a distância calculada.`)) return;
+        try {
+            await deleteSite(site.id);
+            await loadSites();
+        } catch (error: any) {
+            alert(`Erro ao remover local: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    return (
+        <div className="glass-panel space-y-6">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Locais Permitidos (Cerca Virtual)</h3>
+            <p className="text-sm text-gray-400">
+                Com a cerca virtual ligada nas configurações, cada batida registra a localização do aparelho e a
+                distância até o local ativo mais próximo. Sem nenhum local ativo, a cerca não é aplicada.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                    <label htmlFor="site-name" className="block font-semibold text-muted mb-2">Nome</label>
+                    <input id="site-name" type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Loja Centro" className="input" />
+                </div>
+                <div>
+                    <label htmlFor="site-latitude" className="block font-semibold text-muted mb-2">Latitude</label>
+                    <input id="site-latitude" type="text" inputMode="decimal" value={latitude} onChange={(e) => setLatitude(e.target.value)} placeholder="-23.550520" className="input" />
+                </div>
+                <div>
+                    <label htmlFor="site-longitude" className="block font-semibold text-muted mb-2">Longitude</label>
+                    <input id="site-longitude" type="text" inputMode="decimal" value={longitude} onChange={(e) => setLongitude(e.target.value)} placeholder="-46.633308" className="input" />
+                </div>
+                <div>
+                    <label htmlFor="site-radius" className="block font-semibold text-muted mb-2">Raio (metros)</label>
+                    <input id="site-radius" type="number" min={1} value={radius} onChange={(e) => setRadius(e.target.value)} className="input" />
+                </div>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+                <button onClick={handleUseCurrentLocation} disabled={isLocating} className="btn btn-outline flex-1" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                    {isLocating ? 'Obtendo localização...' : 'Usar Localização Deste Aparelho'}
+                </button>
+                <button onClick={handleAdd} className="btn btn-primary flex-1">Cadastrar Local</button>
+            </div>
+
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+                {sites.map(site => (
+                    <div key={site.id} className="flex justify-between items-center bg-stone-800 p-3 rounded gap-2">
+                        <div>
+                            <p className="font-semibold">{site.name}{!site.active && ' · inativo'}</p>
+                            <p className="text-sm text-gray-400">
+                                {site.latitude.toFixed(6)}, {site.longitude.toFixed(6)} · raio de {site.radiusMeters} m
+                            </p>
+                        </div>
+                        <div className="flex gap-2 items-center">
+                            <button onClick={() => handleToggle(site)} className="btn btn-outline text-sm py-1 px-3" style={{borderColor: 'rgba(255,255,255,0.2)'}}>
+                                {site.active ? 'Desativar' : 'Ativar'}
+                            </button>
+                            <button onClick={() => handleDelete(site)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                <DeleteIcon /> Excluir
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SitesPanel;
@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface SyncIndicatorProps {
+    isOnline: boolean;
+    pendingCount: number; // Batidas offline ainda na fila do quiosque
+}
+
+const SyncIndicator: React.FC<SyncIndicatorProps> = ({ isOnline, pendingCount }) => {
+    if (isOnline && pendingCount === 0) return null;
+
+    const label = pendingCount > 0
+        ? `${pendingCount} batida(s) aguardando sincronização`
+        : 'Sem conexão';
+
+    return (
+        <span
+            className="text-xs font-semibold"
+            title={isOnline ? 'Enviando as batidas feitas sem conexão' : 'As batidas serão guardadas neste aparelho e enviadas quando a conexão voltar'}
+            style={{
+                position: 'absolute',
+                right: '1rem',
+                padding: '0.25rem 0.75rem',
+                borderRadius: '9999px',
+                color: isOnline ? 'var(--color-emerald)' : '#fbbf24',
+                border: `1px solid ${isOnline ? 'rgba(16,185,129,0.4)' : 'rgba(251,191,36,0.4)'}`,
+            }}
+        >
+            {isOnline ? '⟳ ' : '⚠ '}{label}
+        </span>
+    );
+};
+
+export default SyncIndicator;
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import type { Employee, Holiday, PayRules, StoredClockEvent, TimeBankEntry, TimeBankEntryKind } from '../types';
+import { addTimeBankEntry, buildTimeBankLedger, deleteTimeBankEntry, formatBalance, TIME_BANK_KIND_LABELS } from '../lib/timeBank';
+import { resolvePayProfile } from '../lib/payProfiles';
+import { formatMilliseconds } from '../lib/workCalculation';
+import { formatDateKey, todayKey } from '../lib/dateTime';
+import { DeleteIcon } from './Icons';
+
+interface TimeBankPanelProps {
+    employees: Employee[];
+    allEvents: StoredClockEvent[];
+    timeBankEntries: TimeBankEntry[];
+    payRules: PayRules;
+    holidays: Holiday[];
+    onRefresh: () => Promise<void>;
+}
+
+const TimeBankPanel: React.FC<TimeBankPanelProps> = ({ employees, allEvents, timeBankEntries, payRules, holidays, onRefresh }) => {
+    const [employeeId, setEmployeeId] = useState('');
+    const [kind, setKind] = useState<TimeBankEntryKind>('ajuste');
+    const [date, setDate] = useState(todayKey());
+    const [direction, setDirection] = useState<'credit' | 'debit'>('credit');
+    const [duration, setDuration] = useState('01:00');
+    const [note, setNote] = useState('');
+
+    const employee = employees.find(e => e.id === parseInt(employeeId));
+
+    const ledger = useMemo(() => {
+        if (!employee) return null;
+        return buildTimeBankLedger(employee, allEvents, timeBankEntries, payRules, holidays);
+    }, [employee, allEvents, timeBankEntries, payRules, holidays]);
+
+    const handleAdd = async () => {
+        if (!employee || !date) {
+            alert('Selecione o funcionário e a data');
+            return;
+        }
+
+        let minutes: number;
+        if (kind === 'compensacao') {
+            // Folga compensada consome uma jornada inteira do perfil vigente no dia
+            minutes = -resolvePayProfile(payRules, employee.id, employee.funcao, date).dailyJourneyMinutes;
+        } else {
+            const [hours, mins] = duration.split(':').map(n => parseInt(n) || 0);
+            const total = hours * 60 + mins;
+            if (total <= 0) {
+                alert('Informe a quantidade de horas do ajuste');
+                return;
+            }
+            if (!note.trim()) {
+                alert('Informe o motivo do ajuste');
+                return;
+            }
+            minutes = direction === 'credit' ? total : -total;
+        }
+
+        try {
+            await addTimeBankEntry({ employeeId: employee.id, date, minutes, kind, note: note.trim() });
+            setNote('');
+            await onRefresh();
+        } catch (error: any) {
+            console.error('Erro ao lançar no banco de horas:', error);
+            alert(`Erro ao lançar no banco de horas: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleDelete = async (entryId: number) => {
+        if (!confirm('Remover este lançamento do banco de horas?')) return;
+        try {
+            await deleteTimeBankEntry(entryId);
+            await onRefresh();
+        } catch (error: any) {
+            alert(`Erro ao remover lançamento: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    return (
+        <div className="glass-panel space-y-6">
+            <h3 className="text-xl font-semibold border-b border-gray-600 pb-2">Banco de Horas</h3>
+
+            <div>
+                <label htmlFor="time-bank-employee" className="block font-semibold text-muted mb-2">Funcionário</label>
+                <select id="time-bank-employee" value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} className="input">
+                    <option value="">Selecione...</option>
+                    {employees.map(emp => <option key={emp.id} value={emp.id}>{emp.name}</option>)}
+                </select>
+            </div>
+
+            {ledger && (
+                <>
+                    <div className="grid grid-cols-2 gap-4 text-center">
+                        <div>
+                            <p className="text-sm text-gray-400">Saldo Atual</p>
+                            <p className="text-2xl font-bold" style={{color: ledger.balance < 0 ? 'var(--color-red)' : 'var(--color-emerald)'}}>{formatBalance(ledger.balance)}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-400">Próximo Vencimento</p>
+                            <p className="text-xl font-bold text-gold">
+                                {ledger.nextExpiry ? `${formatMilliseconds(ledger.nextExpiry.amount)} em ${formatDateKey(ledger.nextExpiry.date)}` : '---'}
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label htmlFor="time-bank-kind" className="block font-semibold text-muted mb-2">Lançamento</label>
+                            <select id="time-bank-kind" value={kind} onChange={(e) => setKind(e.target.value as TimeBankEntryKind)} className="input">
+                                <option value="ajuste">{TIME_BANK_KIND_LABELS.ajuste}</option>
+                                <option value="compensacao">{TIME_BANK_KIND_LABELS.compensacao}</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="time-bank-date" className="block font-semibold text-muted mb-2">Data</label>
+                            <input id="time-bank-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className="input" />
+                        </div>
+                        {kind === 'ajuste' ? (
+                            <div className="flex gap-2">
+                                <div className="flex-1">
+                                    <label htmlFor="time-bank-direction" className="block font-semibold text-muted mb-2">Tipo</label>
+                                    <select id="time-bank-direction" value={direction} onChange={(e) => setDirection(e.target.value as 'credit' | 'debit')} className="input">
+                                        <option value="credit">Crédito</option>
+                                        <option value="debit">Débito</option>
+                                    </select>
+                                </div>
+                                <div className="flex-1">
+                                    <label htmlFor="time-bank-duration" className="block font-semibold text-muted mb-2">Horas</label>
+                                    <input id="time-bank-duration" type="time" value={duration} onChange={(e) => setDuration(e.target.value)} className="input" />
+                                </div>
+                            </div>
+                        ) : (
+                            <div>
+                                <p className="block font-semibold text-muted mb-2">Débito</p>
+                                <p className="text-sm text-gray-400">Uma jornada do perfil vigente na data ({resolvePayProfile(payRules, employee!.id, employee!.funcao, date || todayKey()).dailyJourneyMinutes / 60}h)</p>
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor="time-bank-note" className="block font-semibold text-muted mb-2">Motivo</label>
+                        <input id="time-bank-note" type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder={kind === 'ajuste' ? 'Obrigatório para ajustes' : 'Opcional'} className="input" />
+                    </div>
+                    <button onClick={handleAdd} className="btn btn-primary w-full">Lançar no Banco de Horas</button>
+
+                    <div className="space-y-2 max-h-80 overflow-y-auto">
+                        {ledger.movements.length === 0 && (
+                            <p className="text-muted text-center py-4 text-sm" style={{fontStyle: 'italic'}}>Nenhum movimento no banco de horas.</p>
+                        )}
+                        {[...ledger.movements].reverse().map((movement, index) => (
+                            <div key={index} className="flex justify-between items-center bg-stone-800 p-3 rounded">
+                                <div>
+                                    <p className="font-semibold">{formatDateKey(movement.date)} · {TIME_BANK_KIND_LABELS[movement.kind]}</p>
+                                    <p className="text-sm text-gray-400">{movement.description}</p>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <div className="text-right">
+                                        <p className="font-mono font-bold" style={{color: movement.amount < 0 ? 'var(--color-red)' : 'var(--color-emerald)'}}>{formatBalance(movement.amount)}</p>
+                                        <p className="text-sm text-gray-400">Saldo {formatBalance(movement.balance)}</p>
+                                    </div>
+                                    {movement.entryId && (
+                                        <button onClick={() => handleDelete(movement.entryId!)} className="btn btn-outline text-sm py-1 px-3" style={{color: 'var(--color-red)', borderColor: 'rgba(220,38,38,0.3)'}}>
+                                            <DeleteIcon />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TimeBankPanel;
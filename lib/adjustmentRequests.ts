@@ -0,0 +1,120 @@
+import { supabase } from './supabase';
+import { getDeviceToken } from './kiosk';
+import type { AdjustmentRequest, AdjustmentRequestKind, AdjustmentRequestStatus, StoredClockEvent } from '../types';
+import { ClockType } from '../types';
+import { eventDateKey } from './dateTime';
+
+// Solicitações de ajuste de ponto (migrations/adjustment_requests.sql). O funcionário envia pelo quiosque
+// ou pela área do funcionário; o gestor aprova (a batida é gravada pelo banco, com auditoria) ou recusa.
+
+const ATTACHMENT_BUCKET = 'ponto-solicitacoes';
+
+export const ADJUSTMENT_KIND_LABELS: Record<AdjustmentRequestKind, string> = {
+    missing: 'Batida esquecida',
+    wrong_time: 'Horário errado',
+};
+
+export const ADJUSTMENT_STATUS_LABELS: Record<AdjustmentRequestStatus, string> = {
+    pending: 'Pendente',
+    approved: 'Aprovada',
+    rejected: 'Recusada',
+};
+
+export interface AdjustmentRequestDraft {
+    employeeId: number;
+    kind: AdjustmentRequestKind;
+    eventId: number | null;
+    type: ClockType;
+    requestedTimestamp: Date;
+    reason: string;
+    origin: 'kiosk' | 'portal';
+}
+
+/**
+ * Sugestão para a batida esquecida a partir da última registrada: o que deveria ter vindo depois dela,
+ * ou a Saída quando o funcionário declara o fim de um turno aberto.
+ */
+export const suggestMissingPunch = (lastEvent?: StoredClockEvent, exitOnly = false): { type: ClockType; dateKey: string } | undefined => {
+    if (!lastEvent) return undefined;
+    const type = lastEvent.type === ClockType.InicioIntervalo && !exitOnly ? ClockType.FimIntervalo : ClockType.Saida;
+    return { type, dateKey: eventDateKey(lastEvent) };
+};
+
+const mapRequest = (row: any): AdjustmentRequest => ({
+    id: row.id,
+    employeeId: row.employee_id,
+    kind: row.kind,
+    eventId: row.event_id ?? null,
+    type: row.type,
+    requestedTimestamp: new Date(row.requested_timestamp),
+    reason: row.reason,
+    attachmentPath: row.attachment_path ?? null,
+    origin: row.origin,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    decidedAt: row.decided_at ? new Date(row.decided_at) : null,
+    decidedBy: row.decided_by ?? null,
+    decisionNote: row.decision_note ?? null,
+});
+
+export const submitAdjustmentRequest = async (draft: AdjustmentRequestDraft, attachment?: File | null): Promise<number> => {
+    let attachmentPath: string | null = null;
+    if (attachment) {
+        attachmentPath = `${draft.employeeId}/${Date.now()}-${attachment.name.replace(/[^\w.-]/g, '_')}`;
+        const { error: uploadError } = await supabase.storage.from(ATTACHMENT_BUCKET).upload(attachmentPath, attachment);
+        if (uploadError) throw uploadError;
+    }
+
+    const { data, error } = await supabase.rpc('submit_adjustment_request', {
+        p_device_token: getDeviceToken(),
+        p_employee_id: draft.employeeId,
+        p_kind: draft.kind,
+        p_type: draft.type,
+        p_timestamp: draft.requestedTimestamp.toISOString(),
+        p_reason: draft.reason,
+        p_event_id: draft.eventId,
+        p_attachment_path: attachmentPath,
+        p_origin: draft.origin,
+    });
+    if (error) throw error;
+    return data;
+};
+
+/** Solicitações do funcionário para a área do funcionário (o quiosque não lê a tabela diretamente). */
+export const fetchEmployeeAdjustmentRequests = async (employeeId: number): Promise<AdjustmentRequest[]> => {
+    const { data, error } = await supabase.rpc('employee_adjustment_requests', {
+        p_device_token: getDeviceToken(),
+        p_employee_id: employeeId,
+    });
+    if (error) throw error;
+    return (data || []).map((row: any) => mapRequest({ ...row, employee_id: employeeId }));
+};
+
+/** Pendentes primeiro, depois as decididas nos últimos 30 dias. */
+export const fetchAdjustmentRequests = async (): Promise<AdjustmentRequest[]> => {
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+        .from('ponto_adjustment_requests')
+        .select('*')
+        .or(`status.eq.pending,decided_at.gte.${since}`)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapRequest);
+};
+
+export const approveAdjustmentRequest = async (requestId: number, note: string): Promise<void> => {
+    const { error } = await supabase.rpc('approve_adjustment_request', { p_request_id: requestId, p_note: note });
+    if (error) throw error;
+};
+
+export const rejectAdjustmentRequest = async (requestId: number, note: string): Promise<void> => {
+    const { error } = await supabase.rpc('reject_adjustment_request', { p_request_id: requestId, p_note: note });
+    if (error) throw error;
+};
+
+/** Link temporário (5 minutos) para abrir o anexo do bucket privado. */
+export const getAdjustmentAttachmentUrl = async (attachmentPath: string): Promise<string> => {
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUrl(attachmentPath, 300);
+    if (error) throw error;
+    return data.signedUrl;
+};
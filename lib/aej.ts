@@ -0,0 +1,333 @@
+import { eventDateKey, eventTimeZone } from './dateTime';
+import { isValidCpf, onlyDigits } from './documents';
+import { formatRecordDateTime, validateEmployerSettings } from './afd';
+import { calculateLeaveDays, LEAVE_KINDS } from './leaves';
+import { getExpectedBreakEnd, getExpectedDay, getExpectedMinutes } from './schedules';
+import { calculateShiftDetails, groupEventsByShifts } from './workCalculation';
+import type { AppSettings } from './settings';
+import { ClockType } from '../types';
+import type { Employee, Holiday, Leave, PayRules, ScheduleDay, ScheduleRules, StoredClockEvent, TimeBankEntry } from '../types';
+
+// Arquivo Eletrônico de Jornada (AEJ), leiaute do Anexo VI da Portaria MTP nº 671/2021.
+// Campos separados por "|", um registro por linha (CRLF):
+// 01 cabeçalho, 02 REPs utilizados, 03 vínculos, 04 horários contratuais, 05 marcações tratadas,
+// 07 ausências e banco de horas, 08 programa de tratamento, 99 trailer e a linha de assinatura.
+// O registro 06 (matrícula eSocial) não é gerado: o cadastro não guarda essa informação.
+
+export const AEJ_PROGRAM_NAME = 'Ponto Eletrônico';
+export const AEJ_PROGRAM_VERSION = '0.0.1';
+
+const LAYOUT_VERSION = '001';
+const SIGNATURE_LINE = 'ASSINATURA_DIGITAL_EM_ARQUIVO_P7S';
+const REP_ID = '1'; // O quiosque é o único REP do arquivo
+const REP_TYPE_PROGRAM = '3'; // REP-P
+const SEPARATOR = '|';
+
+// Quantidade de campos de cada registro (o 04 tem pares de entrada/saída variáveis)
+const FIELD_COUNTS: Record<string, number> = { '01': 10, '02': 4, '03': 4, '05': 9, '06': 3, '07': 6, '08': 7, '99': 9 };
+const RECORD_TYPES = ['01', '02', '03', '04', '05', '06', '07', '08'];
+
+// 07: tipo de ausência ou compensação
+const ABSENCE_UNJUSTIFIED = '2';
+const ABSENCE_TIME_BANK = '3';
+// 07: movimento do banco de horas
+const TIME_BANK_CREDIT = '1';
+const TIME_BANK_DEBIT = '2';
+
+export interface AejInput {
+    settings: AppSettings;
+    employees: Employee[]; // Funcionários do filtro atual
+    events: StoredClockEvent[];
+    payRules: PayRules;
+    scheduleRules: ScheduleRules;
+    holidays: Holiday[];
+    leaves: Leave[];
+    timeBankEntries: TimeBankEntry[];
+    reasons: Map<number, string>; // Justificativa de lançamentos manuais e ajustes (fetchLatestReasons)
+    fromKey: string;
+    toKey: string;
+    generatedAt?: Date;
+}
+
+const documentType = (document: string) => onlyDigits(document).length === 11 ? '2' : '1';
+const toHourMinute = (time: string) => time.replace(':', '');
+const line = (...fields: (string | number)[]) => fields.join(SEPARATOR);
+
+/** Turnos do funcionário iniciados no período (datas inclusivas). */
+const shiftsInPeriod = (events: StoredClockEvent[], employeeId: number, fromKey: string, toKey: string) =>
+    groupEventsByShifts(events.filter(e => e.employeeId === employeeId)).filter(shift => {
+        const dateKey = eventDateKey(shift[0]);
+        return dateKey >= fromKey && dateKey <= toKey;
+    });
+
+/** Batidas que entram no AEJ, para buscar as justificativas antes de gerar o arquivo. */
+export const getAejAdjustedEventIds = (events: StoredClockEvent[], employees: Employee[], fromKey: string, toKey: string): number[] =>
+    employees.flatMap(emp => shiftsInPeriod(events, emp.id, fromKey, toKey).flat())
+        .filter(event => event.source === 'manual' || event.editedAt)
+        .map(event => event.id);
+
+/** Funcionários do filtro com turnos no período e sem CPF válido. */
+export const findEmployeesMissingCpf = (input: Pick<AejInput, 'employees' | 'events' | 'fromKey' | 'toKey'>): Employee[] =>
+    input.employees
+        .filter(emp => shiftsInPeriod(input.events, emp.id, input.fromKey, input.toKey).length > 0 && !isValidCpf(emp.cpf))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+export const validateAejInput = (input: AejInput): string[] => {
+    const errors = validateEmployerSettings(input.settings);
+    if (!input.settings.developerName.trim()) errors.push('Razão social do desenvolvedor não informada');
+    const missingCpf = findEmployeesMissingCpf(input);
+    if (missingCpf.length > 0) errors.push(`Funcionários sem CPF válido: ${missingCpf.map(emp => emp.name).join(', ')}`);
+    return errors;
+};
+
+export const generateAej = (input: AejInput): string => {
+    const { settings, payRules, scheduleRules, holidays, fromKey, toKey } = input;
+    const contracts = new Map<string, { code: number; day: ScheduleDay; dateKey: string }>();
+    const links: string[] = [];
+    const punches: string[] = [];
+    const absences: string[] = [];
+
+    const contractCode = (employeeId: number, dateKey: string): string => {
+        const day = getExpectedDay(scheduleRules, employeeId, dateKey);
+        if (!day) return '';
+        const key = `${day.start}-${day.end}-${day.breakMinutes}-${day.breakStart ?? ''}`;
+        if (!contracts.has(key)) contracts.set(key, { code: contracts.size + 1, day, dateKey });
+        return String(contracts.get(key)!.code);
+    };
+
+    const sortedEmployees = [...input.employees].sort((a, b) => a.name.localeCompare(b.name));
+    for (const employee of sortedEmployees) {
+        const shifts = shiftsInPeriod(input.events, employee.id, fromKey, toKey);
+        const employeeAbsences: { date: string; record: string }[] = [];
+        const linkId = links.length + 1;
+
+        for (const shift of shifts) {
+            const dateKey = eventDateKey(shift[0]);
+            const code = contractCode(employee.id, dateKey);
+            let sequence = 0;
+
+            for (const event of shift) {
+                const isEntry = event.type === ClockType.Entrada || event.type === ClockType.FimIntervalo;
+                sequence = isEntry || sequence === 0 ? sequence + 1 : sequence;
+                const kind = isEntry ? 'E' : 'S';
+                const reason = input.reasons.get(event.id) || '';
+                const timeZone = eventTimeZone(event);
+
+                if (event.source === 'manual') {
+                    punches.push(line('05', linkId, formatRecordDateTime(event.timestamp, true, timeZone), '', kind, sequence, 'I', code, reason));
+                } else if (event.editedAt) {
+                    // Ajuste: a marcação original é desconsiderada e a tratada entra como incluída
+                    if (event.originalTimestamp) {
+                        punches.push(line('05', linkId, formatRecordDateTime(event.originalTimestamp, true, timeZone), REP_ID, 'D', '', 'O', code, reason));
+                    }
+                    punches.push(line('05', linkId, formatRecordDateTime(event.timestamp, true, timeZone), '', kind, sequence, 'I', code, reason));
+                } else {
+                    punches.push(line('05', linkId, formatRecordDateTime(event.timestamp, true, timeZone), REP_ID, kind, sequence, 'O', code, ''));
+                }
+            }
+
+            const timeBankMinutes = Math.round(calculateShiftDetails(shift, employee, payRules, holidays).timeBank / 60000);
+            if (timeBankMinutes !== 0) {
+                employeeAbsences.push({
+                    date: dateKey,
+                    record: line('07', linkId, ABSENCE_TIME_BANK, dateKey, Math.abs(timeBankMinutes), timeBankMinutes > 0 ? TIME_BANK_CREDIT : TIME_BANK_DEBIT),
+                });
+            }
+        }
+
+        calculateLeaveDays(employee, input.leaves, input.events, payRules, scheduleRules, holidays, fromKey, toKey)
+            .filter(day => LEAVE_KINDS[day.leave.kind].payEffect === 'desconto')
+            .forEach(day => employeeAbsences.push({
+                date: day.date,
+                record: line('07', linkId, ABSENCE_UNJUSTIFIED, day.date, day.expectedMinutes, ''),
+            }));
+
+        input.timeBankEntries
+            .filter(entry => entry.employeeId === employee.id && entry.date >= fromKey && entry.date <= toKey && entry.minutes !== 0)
+            .forEach(entry => employeeAbsences.push({
+                date: entry.date,
+                record: line('07', linkId, ABSENCE_TIME_BANK, entry.date, Math.abs(entry.minutes), entry.minutes > 0 ? TIME_BANK_CREDIT : TIME_BANK_DEBIT),
+            }));
+
+        if (shifts.length === 0 && employeeAbsences.length === 0) continue;
+
+        links.push(line('03', linkId, onlyDigits(employee.cpf), employee.name.trim()));
+        employeeAbsences
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .forEach(absence => absences.push(absence.record));
+    }
+
+    // Com o início do intervalo na escala, o horário contratual tem dois pares de entrada e saída
+    const contractLines = [...contracts.values()].map(({ code, day, dateKey }) => {
+        const breakEnd = getExpectedBreakEnd(day);
+        const pairs = day.breakStart && breakEnd
+            ? [day.start, day.breakStart, breakEnd, day.end]
+            : [day.start, day.end];
+        return line('04', code, getExpectedMinutes(dateKey, day), ...pairs.map(toHourMinute));
+    });
+
+    const records = [
+        line('01',
+            documentType(settings.employerDocument),
+            onlyDigits(settings.employerDocument),
+            '',
+            onlyDigits(settings.employerCno),
+            settings.employerName.trim(),
+            fromKey,
+            toKey,
+            formatRecordDateTime(input.generatedAt || new Date()),
+            LAYOUT_VERSION),
+        line('02', REP_ID, REP_TYPE_PROGRAM, onlyDigits(settings.repIdentifier)),
+        ...links,
+        ...contractLines,
+        ...punches,
+        ...absences,
+        line('08', AEJ_PROGRAM_NAME, AEJ_PROGRAM_VERSION, documentType(settings.developerDocument),
+            onlyDigits(settings.developerDocument), settings.developerName.trim(), ''),
+    ];
+
+    const count = (type: string) => records.filter(record => record.startsWith(`${type}${SEPARATOR}`)).length;
+    records.push(line('99', ...RECORD_TYPES.map(count)));
+    records.push(SIGNATURE_LINE);
+
+    return records.join('\r\n') + '\r\n';
+};
+
+export const getAejFileName = (settings: AppSettings, fromKey: string, toKey: string): string =>
+    `AEJ_${onlyDigits(settings.employerDocument)}_${fromKey}_${toKey}.txt`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[+-]\d{4}$/;
+const HOUR_MINUTE_PATTERN = /^([01]\d|2[0-3])[0-5]\d$/;
+
+/**
+ * Validação estrutural de um AEJ (gerado aqui ou recebido de outro sistema):
+ * tipos e ordem dos registros, quantidade e formato dos campos, referências entre registros e trailer.
+ * Retorna a lista de problemas encontrados (vazia se o arquivo estiver correto).
+ */
+export const validateAejFile = (content: string): string[] => {
+    const errors: string[] = [];
+    const lines = content.split(/\r?\n/);
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+    if (lines.length === 0) return ['Arquivo vazio'];
+    if (lines[lines.length - 1] !== SIGNATURE_LINE) {
+        errors.push(`A última linha deve ser ${SIGNATURE_LINE}`);
+    } else {
+        lines.pop();
+    }
+
+    const counts: Record<string, number> = {};
+    const linkIds = new Set<string>();
+    const repIds = new Set<string>();
+    const contractCodes = new Set<string>();
+    let previousType = '';
+    let trailer: string[] | null = null;
+
+    lines.forEach((text, index) => {
+        const lineNumber = index + 1;
+        const fields = text.split(SEPARATOR);
+        const type = fields[0];
+        const fail = (message: string) => errors.push(`Linha ${lineNumber} (registro ${type}): ${message}`);
+
+        if (trailer) {
+            errors.push(`Linha ${lineNumber}: registro após o trailer`);
+            return;
+        }
+        if (type === '99') {
+            trailer = fields;
+            if (fields.length !== FIELD_COUNTS['99']) fail(`esperados ${FIELD_COUNTS['99']} campos, encontrados ${fields.length}`);
+            return;
+        }
+        if (!RECORD_TYPES.includes(type)) {
+            errors.push(`Linha ${lineNumber}: tipo de registro desconhecido "${type}"`);
+            return;
+        }
+        if (lineNumber === 1 && type !== '01') fail('o arquivo deve começar pelo cabeçalho (01)');
+        if (type < previousType) fail(`fora de ordem (após registro ${previousType})`);
+        previousType = type;
+        counts[type] = (counts[type] || 0) + 1;
+
+        const expectedFields = FIELD_COUNTS[type];
+        if (type === '04' ? fields.length < 3 || fields.length % 2 === 0 : fields.length !== expectedFields) {
+            fail(type === '04'
+                ? 'esperados código, duração e pares de entrada/saída'
+                : `esperados ${expectedFields} campos, encontrados ${fields.length}`);
+            return;
+        }
+
+        switch (type) {
+            case '01':
+                if (counts['01'] > 1) fail('cabeçalho duplicado');
+                if (!['1', '2'].includes(fields[1])) fail('tipo de identificador do empregador inválido');
+                if (!/^\d{11}$|^\d{14}$/.test(fields[2])) fail('CNPJ/CPF do empregador inválido');
+                if (!fields[5]) fail('razão social não informada');
+                if (!DATE_PATTERN.test(fields[6]) || !DATE_PATTERN.test(fields[7])) fail('período inválido');
+                else if (fields[6] > fields[7]) fail('data inicial posterior à data final');
+                if (!DATE_TIME_PATTERN.test(fields[8])) fail('data e hora de geração inválida');
+                break;
+            case '02':
+                if (repIds.has(fields[1])) fail(`REP ${fields[1]} duplicado`);
+                repIds.add(fields[1]);
+                if (!['1', '2', '3'].includes(fields[2])) fail('tipo de REP inválido');
+                if (!/^\d{1,17}$/.test(fields[3])) fail('número do REP inválido');
+                break;
+            case '03':
+                if (linkIds.has(fields[1])) fail(`vínculo ${fields[1]} duplicado`);
+                linkIds.add(fields[1]);
+                if (!isValidCpf(fields[2])) fail('CPF inválido');
+                if (!fields[3]) fail('nome não informado');
+                break;
+            case '04':
+                if (contractCodes.has(fields[1])) fail(`horário ${fields[1]} duplicado`);
+                contractCodes.add(fields[1]);
+                if (!/^\d+$/.test(fields[2])) fail('duração da jornada inválida');
+                if (fields.slice(3).some(time => !HOUR_MINUTE_PATTERN.test(time))) fail('horário de entrada/saída inválido (HHmm)');
+                break;
+            case '05':
+                if (!linkIds.has(fields[1])) fail(`vínculo ${fields[1]} não declarado`);
+                if (!DATE_TIME_PATTERN.test(fields[2])) fail('data e hora da marcação inválida');
+                if (fields[3] && !repIds.has(fields[3])) fail(`REP ${fields[3]} não declarado`);
+                if (!['E', 'S', 'D'].includes(fields[4])) fail('tipo de marcação inválido');
+                if (fields[4] !== 'D' && !/^\d+$/.test(fields[5])) fail('sequência de entrada/saída inválida');
+                if (!['O', 'I', 'P', 'X', 'T'].includes(fields[6])) fail('fonte da marcação inválida');
+                if (fields[6] === 'O' && !fields[3]) fail('marcação original sem REP');
+                if (fields[7] && !contractCodes.has(fields[7])) fail(`horário contratual ${fields[7]} não declarado`);
+                if ((fields[6] === 'I' || fields[4] === 'D') && !fields[8].trim()) fail('motivo obrigatório para marcação incluída ou desconsiderada');
+                break;
+            case '06':
+                if (!linkIds.has(fields[1])) fail(`vínculo ${fields[1]} não declarado`);
+                break;
+            case '07':
+                if (!linkIds.has(fields[1])) fail(`vínculo ${fields[1]} não declarado`);
+                if (!['1', '2', '3', '4'].includes(fields[2])) fail('tipo de ausência ou compensação inválido');
+                if (!DATE_PATTERN.test(fields[3])) fail('data inválida');
+                if (!/^\d+$/.test(fields[4])) fail('quantidade de minutos inválida');
+                if (fields[2] === ABSENCE_TIME_BANK && ![TIME_BANK_CREDIT, TIME_BANK_DEBIT].includes(fields[5])) fail('tipo de movimento do banco de horas inválido');
+                break;
+            case '08':
+                if (counts['08'] > 1) fail('programa de tratamento duplicado');
+                if (!fields[1] || !fields[2]) fail('nome e versão do programa obrigatórios');
+                if (!/^\d{11}$|^\d{14}$/.test(fields[4])) fail('CNPJ/CPF do desenvolvedor inválido');
+                break;
+        }
+    });
+
+    if (!counts['01']) errors.push('Cabeçalho (01) ausente');
+    if (!counts['02']) errors.push('Nenhum REP (02) declarado');
+    if (!counts['08']) errors.push('Identificação do programa (08) ausente');
+
+    const trailerFields = trailer as string[] | null;
+    if (!trailerFields) {
+        errors.push('Trailer (99) ausente');
+    } else {
+        RECORD_TYPES.forEach((type, index) => {
+            const declared = parseInt(trailerFields[index + 1]);
+            if (declared !== (counts[type] || 0)) {
+                errors.push(`Trailer: ${declared} registro(s) ${type} declarados, ${counts[type] || 0} encontrados`);
+            }
+        });
+    }
+
+    return errors;
+};
@@ -0,0 +1,247 @@
+import { supabase } from './supabase';
+import { endOfZonedDay, formatIsoWithOffset, getTimeZone, startOfZonedDay } from './dateTime';
+import { isValidCnpj, isValidCpf, onlyDigits } from './documents';
+import type { AppSettings } from './settings';
+import type { Employee } from '../types';
+
+// Arquivo Fonte de Dados (AFD) do REP-P, leiaute 003 do Anexo V da Portaria MTP nº 671/2021.
+// Registros de largura fixa, um por linha (CRLF), em ordem de NSR:
+// tipo 1 (cabeçalho), tipo 5 (empregados), tipo 7 (marcações), trailer e a linha de assinatura.
+// A assinatura digital propriamente dita é um arquivo .p7s (CAdES destacado) gerado fora do sistema.
+
+const LAYOUT_VERSION = '003';
+const SIGNATURE_LINE = 'ASSINATURA_DIGITAL_EM_ARQUIVO_P7S';
+const PAGE_SIZE = 1000;
+
+// Identificador do coletor da marcação: 02 = navegador (o quiosque é um aplicativo web)
+const COLLECTOR_BROWSER = '02';
+
+export type AfdEmployeeOperation = 'I' | 'A' | 'E';
+
+// Marcação de quiosque com NSR (marcação original, sem ajustes administrativos). Nas batidas offline
+// a gravação (recordedAt) é o momento da sincronização, posterior à marcação.
+export interface AfdPunch {
+    nsr: number;
+    employeeId: number;
+    markedAt: Date;
+    recordedAt: Date;
+    offline: boolean;
+    timeZone: string; // Fuso em que a batida foi gravada
+}
+
+// Inclusão, alteração ou exclusão de empregado (tabela ponto_employee_records)
+export interface AfdEmployeeRecord {
+    nsr: number;
+    employeeId: number;
+    operation: AfdEmployeeOperation;
+    cpf: string;
+    name: string;
+    responsibleCpf: string;
+    recordedAt: Date;
+}
+
+export interface AfdRecords {
+    punches: AfdPunch[];
+    employeeRecords: AfdEmployeeRecord[];
+}
+
+export interface AfdValidation {
+    errors: string[]; // Problemas na identificação do empregador/REP
+    missingCpf: Employee[]; // Funcionários com marcações no período sem CPF válido
+}
+
+const numeric = (value: string | number, size: number) => String(value).padStart(size, '0').slice(-size);
+const alpha = (value: string, size: number) => value.padEnd(size, ' ').slice(0, size);
+
+/** Data e hora no formato do AFD/AEJ; nas marcações os segundos são sempre 00. */
+export const formatRecordDateTime = (timestamp: Date, zeroSeconds = false, timeZone = getTimeZone()): string => {
+    const iso = formatIsoWithOffset(timestamp, timeZone);
+    return zeroSeconds ? `${iso.slice(0, 17)}00${iso.slice(19)}` : iso;
+};
+
+/** CRC-16/KERMIT do conteúdo do registro, em 4 dígitos hexadecimais. */
+export const crc16 = (content: string): string => {
+    let crc = 0;
+    for (const byte of new TextEncoder().encode(content)) {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+const sha256 = async (content: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const documentType = (document: string) => onlyDigits(document).length === 11 ? '2' : '1';
+
+/** Identificação do empregador e do programa, obrigatória no AFD e no AEJ. */
+export const validateEmployerSettings = (settings: AppSettings): string[] => {
+    const errors: string[] = [];
+    const employer = onlyDigits(settings.employerDocument);
+    if (!isValidCnpj(employer) && !isValidCpf(employer)) errors.push('CNPJ/CPF do empregador ausente ou inválido');
+    if (!settings.employerName.trim()) errors.push('Razão social do empregador não informada');
+    if (!onlyDigits(settings.repIdentifier)) errors.push('Número de registro do REP-P no INPI não informado');
+    const developer = onlyDigits(settings.developerDocument);
+    if (!isValidCnpj(developer) && !isValidCpf(developer)) errors.push('CNPJ/CPF do desenvolvedor ausente ou inválido');
+    return errors;
+};
+
+export const validateAfd = (settings: AppSettings, employees: Employee[], records: AfdRecords): AfdValidation => {
+    const errors = validateEmployerSettings(settings);
+    const employeeIds = new Set(records.punches.map(p => p.employeeId));
+    const missingCpf = employees
+        .filter(emp => employeeIds.has(emp.id) && !isValidCpf(emp.cpf))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    return { errors, missingCpf };
+};
+
+/**
+ * Monta o AFD do período (datas inclusivas, no fuso da empresa).
+ * Os CPFs das marcações vêm do cadastro atual (Employee.cpf); valide antes com validateAfd.
+ */
+export const generateAfd = async (
+    settings: AppSettings,
+    employees: Employee[],
+    records: AfdRecords,
+    fromKey: string,
+    toKey: string,
+    generatedAt = new Date()
+): Promise<string> => {
+    const cpfById = new Map(employees.map(emp => [emp.id, onlyDigits(emp.cpf)]));
+    const lines: string[] = [];
+    const withCrc = (content: string) => content + crc16(content);
+
+    lines.push(withCrc([
+        numeric(0, 9),
+        '1',
+        documentType(settings.employerDocument),
+        numeric(onlyDigits(settings.employerDocument), 14),
+        onlyDigits(settings.employerCno) ? numeric(onlyDigits(settings.employerCno), 14) : alpha('', 14),
+        alpha(settings.employerName.trim(), 150),
+        numeric(onlyDigits(settings.repIdentifier), 17),
+        fromKey,
+        toKey,
+        formatRecordDateTime(generatedAt, true),
+        LAYOUT_VERSION,
+        documentType(settings.developerDocument),
+        numeric(onlyDigits(settings.developerDocument), 14),
+        alpha('', 30),
+    ].join('')));
+
+    const entries = [
+        ...records.employeeRecords.map(record => ({ nsr: record.nsr, record })),
+        ...records.punches.map(punch => ({ nsr: punch.nsr, punch })),
+    ].sort((a, b) => a.nsr - b.nsr);
+
+    let previousHash = '';
+    let employeeCount = 0;
+    let punchCount = 0;
+    for (const entry of entries) {
+        if ('record' in entry) {
+            const { record } = entry;
+            lines.push(withCrc([
+                numeric(record.nsr, 9),
+                '5',
+                formatRecordDateTime(record.recordedAt),
+                record.operation,
+                numeric(record.cpf, 12),
+                alpha(record.name, 52),
+                alpha('', 4),
+                numeric(record.responsibleCpf, 11),
+            ].join('')));
+            employeeCount++;
+        } else {
+            const { punch } = entry;
+            // Cada hash encadeia o registro com o hash da marcação anterior
+            const content = [
+                numeric(punch.nsr, 9),
+                '7',
+                formatRecordDateTime(punch.markedAt, true, punch.timeZone),
+                numeric(cpfById.get(punch.employeeId) || '', 12),
+                formatRecordDateTime(punch.recordedAt, false, punch.timeZone),
+                COLLECTOR_BROWSER,
+                punch.offline ? '1' : '0',
+            ].join('');
+            previousHash = await sha256(content + previousHash);
+            lines.push(content + previousHash);
+            punchCount++;
+        }
+    }
+
+    lines.push([
+        '999999999',
+        numeric(0, 9), // tipo 2
+        numeric(0, 9), // tipo 3
+        numeric(0, 9), // tipo 4
+        numeric(employeeCount, 9),
+        numeric(0, 9), // tipo 6
+        numeric(punchCount, 9),
+        '9',
+    ].join(''));
+    lines.push(SIGNATURE_LINE);
+
+    return lines.join('\r\n') + '\r\n';
+};
+
+/** Nome sugerido pela Portaria: AFD + registro do REP + CNPJ/CPF do empregador + REP_P. */
+export const getAfdFileName = (settings: AppSettings): string =>
+    `AFD${numeric(onlyDigits(settings.repIdentifier), 17)}${numeric(onlyDigits(settings.employerDocument), 14)}REP_P.txt`;
+
+const fetchAllPages = async (query: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>) => {
+    const rows: any[] = [];
+    for (let page = 0; ; page++) {
+        const { data, error } = await query(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+};
+
+/** Marcações e registros de empregado gravados no período, inclusive batidas ajustadas ou excluídas depois. */
+export const fetchAfdRecords = async (fromKey: string, toKey: string): Promise<AfdRecords> => {
+    const from = startOfZonedDay(fromKey).toISOString();
+    const to = endOfZonedDay(toKey).toISOString();
+
+    const [eventRows, recordRows] = await Promise.all([
+        fetchAllPages((start, end) => supabase
+            .from('ponto_events')
+            .select('nsr, employee_id, original_timestamp, recorded_at, source, time_zone')
+            .not('nsr', 'is', null)
+            .gte('original_timestamp', from)
+            .lte('original_timestamp', to)
+            .order('nsr', { ascending: true })
+            .range(start, end)),
+        fetchAllPages((start, end) => supabase
+            .from('ponto_employee_records')
+            .select('*')
+            .gte('recorded_at', from)
+            .lte('recorded_at', to)
+            .order('nsr', { ascending: true })
+            .range(start, end)),
+    ]);
+
+    return {
+        punches: eventRows.map(row => ({
+            nsr: row.nsr,
+            employeeId: row.employee_id,
+            markedAt: new Date(row.original_timestamp),
+            recordedAt: new Date(row.recorded_at || row.original_timestamp),
+            offline: row.source === 'offline',
+            timeZone: row.time_zone || getTimeZone(),
+        })),
+        employeeRecords: recordRows.map(row => ({
+            nsr: row.nsr,
+            employeeId: row.employee_id,
+            operation: row.operation,
+            cpf: row.cpf || '',
+            name: row.name,
+            responsibleCpf: row.responsible_cpf || '',
+            recordedAt: new Date(row.recorded_at),
+        })),
+    };
+};
@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import type { Manager, ManagerRole, Permission } from '../types';
+
+// Login dos gestores por e-mail e senha (Supabase Auth). O cadastro em ponto_managers define o papel;
+// as mesmas permissões são conferidas no banco por ponto_has_permission (migrations/manager_accounts.sql).
+
+export const ROLE_LABELS: Record<ManagerRole, string> = {
+    owner: 'Proprietário',
+    hr: 'Recursos Humanos',
+    supervisor: 'Supervisor',
+};
+
+export const ROLE_PERMISSIONS: Record<ManagerRole, Permission[]> = {
+    owner: ['view_reports', 'export_files', 'manage_employees', 'edit_events', 'manage_leaves', 'manage_settings', 'approve_adjustments', 'manage_managers'],
+    hr: ['view_reports', 'export_files', 'manage_employees', 'edit_events', 'manage_leaves', 'manage_settings', 'approve_adjustments'],
+    supervisor: ['view_reports', 'approve_adjustments'],
+};
+
+export const hasPermission = (manager: Manager | null, permission: Permission): boolean =>
+    !!manager && manager.active && ROLE_PERMISSIONS[manager.role].includes(permission);
+
+const mapManager = (row: any): Manager => ({
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    active: row.active,
+});
+
+/** Gestor da sessão atual; null se não houver sessão ou se o e-mail não tiver acesso ao painel. */
+export const fetchCurrentManager = async (): Promise<Manager | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return null;
+
+    const { data, error } = await supabase.rpc('current_manager');
+    if (error) throw error;
+    return data && data.id ? mapManager(data) : null;
+};
+
+export const signIn = async (email: string, password: string): Promise<void> => {
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    if (error) throw error;
+};
+
+/** Primeiro acesso: cria a senha de um e-mail já cadastrado como gestor (confirmação por e-mail). */
+export const signUp = async (email: string, password: string): Promise<void> => {
+    const { error } = await supabase.auth.signUp({ email: email.trim(), password });
+    if (error) throw error;
+};
+
+export const signOut = async (): Promise<void> => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+};
+
+export const changePassword = async (password: string): Promise<void> => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw error;
+};
+
+export const fetchManagers = async (): Promise<Manager[]> => {
+    const { data, error } = await supabase.from('ponto_managers').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map(mapManager);
+};
+
+export const saveManager = async (manager: Omit<Manager, 'id'> & { id?: number }): Promise<void> => {
+    const row = {
+        email: manager.email.trim().toLowerCase(),
+        name: manager.name.trim(),
+        role: manager.role,
+        active: manager.active,
+    };
+    const { error } = manager.id
+        ? await supabase.from('ponto_managers').update(row).eq('id', manager.id)
+        : await supabase.from('ponto_managers').insert([row]);
+    if (error) throw error;
+};
+
+export const deleteManager = async (managerId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_managers').delete().eq('id', managerId);
+    if (error) throw error;
+};
@@ -0,0 +1,26 @@
+// Câmera do quiosque para a foto da batida. Qualquer falha (sem câmera, permissão negada) apenas
+// deixa a batida sem foto: o registro do ponto nunca depende da câmera.
+
+const PHOTO_WIDTH = 320;
+const PHOTO_QUALITY = 0.7;
+
+export const startCamera = (): Promise<MediaStream> =>
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', width: { ideal: 640 } }, audio: false });
+
+export const stopCamera = (stream: MediaStream | null): void => {
+    stream?.getTracks().forEach(track => track.stop());
+};
+
+/** Captura o quadro atual do vídeo como JPEG reduzido; null se o vídeo ainda não tem imagem. */
+export const captureFrame = (video: HTMLVideoElement): Promise<Blob | null> => {
+    if (!video.videoWidth || !video.videoHeight) return Promise.resolve(null);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = PHOTO_WIDTH;
+    canvas.height = Math.round(video.videoHeight * PHOTO_WIDTH / video.videoWidth);
+    const context = canvas.getContext('2d');
+    if (!context) return Promise.resolve(null);
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY));
+};
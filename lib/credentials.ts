@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+
+// PINs dos funcionários no quiosque. Ficam apenas como hash no banco (ponto_credentials) e são
+// conferidos pela função verify_pin; o app nunca recebe nem compara PINs localmente.
+// verify_pin também conta as tentativas por quiosque e aplica espera progressiva e bloqueio.
+// Só responde a dispositivos cadastrados, e recusa funcionários que o dispositivo não atende.
+// Com o PIN certo, o banco abre uma sessão curta do funcionário (migrations/employee_sessions.sql), cujo
+// token dá acesso às batidas dele; sem conexão a conferência é local e não há sessão.
+
+export type PinVerification =
+    | { status: 'ok'; employeeId: number; sessionToken: string | null }
+    | { status: 'invalid'; remaining: number }
+    | { status: 'wait' | 'locked'; retryAfterSeconds: number }
+    | { status: 'not_allowed' };
+
+const toPinVerification = (data: any): PinVerification => {
+    switch (data.status) {
+        case 'ok':
+            return { status: 'ok', employeeId: data.employee_id, sessionToken: data.session_token ?? null };
+        case 'wait':
+        case 'locked':
+            return { status: data.status, retryAfterSeconds: Number(data.seconds) };
+        case 'not_allowed':
+            return { status: 'not_allowed' };
+        default:
+            return { status: 'invalid', remaining: data.remaining };
+    }
+};
+
+export const verifyPin = async (pin: string, deviceToken: string | null): Promise<PinVerification> => {
+    const { data, error } = await supabase.rpc('verify_pin', { p_pin: pin, p_device_token: deviceToken });
+    if (error) throw error;
+    return toPinVerification(data);
+};
+
+// Área do funcionário: PIN e data de nascimento conferidos juntos (migrations/employee_portal.sql).
+// 'not_configured': PIN certo, mas o gestor ainda não cadastrou a data de nascimento.
+export type PortalAccess = PinVerification | { status: 'not_configured' };
+
+export const openEmployeePortal = async (pin: string, birthDate: string, deviceToken: string | null): Promise<PortalAccess> => {
+    const { data, error } = await supabase.rpc('open_employee_portal', { p_pin: pin, p_birth_date: birthDate, p_device_token: deviceToken });
+    if (error) throw error;
+    return data.status === 'not_configured' ? { status: 'not_configured' } : toPinVerification(data);
+};
+
+export const setEmployeePin = async (employeeId: number, pin: string): Promise<void> => {
+    const { error } = await supabase.rpc('set_employee_pin', { p_employee_id: employeeId, p_pin: pin });
+    if (error) throw error;
+};
+
+export const setEmployeeBirthDate = async (employeeId: number, birthDate: string): Promise<void> => {
+    const { error } = await supabase.rpc('set_employee_birth_date', { p_employee_id: employeeId, p_birth_date: birthDate });
+    if (error) throw error;
+};
@@ -0,0 +1,200 @@
+// Módulo único de data/hora do sistema.
+// Os timestamps são sempre instantes reais (UTC no banco) e toda exibição, agrupamento por dia
+// e conversão de horários digitados passa por aqui, usando o fuso IANA configurado da empresa.
+// Nunca use getHours()/getUTCHours() diretamente nas telas: o fuso do dispositivo é irrelevante.
+// Cada batida guarda o fuso em vigor quando foi gravada (migrations/event_time_zone.sql): o dia, os
+// horários e os arquivos fiscais de uma batida usam eventTimeZone(event), e não o fuso configurado hoje.
+
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo';
+
+let currentTimeZone = DEFAULT_TIME_ZONE;
+
+export const getTimeZone = (): string => currentTimeZone;
+
+export const setTimeZone = (timeZone: string) => {
+    currentTimeZone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+};
+
+/** Fuso em que a batida foi gravada; batidas sem ele (ainda não sincronizadas) usam o fuso atual. */
+export const eventTimeZone = (event: { timeZone?: string | null }): string =>
+    event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : currentTimeZone;
+
+/** Dia (YYYY-MM-DD) da batida no fuso em que ela foi gravada. */
+export const eventDateKey = (event: { timestamp: string | Date; timeZone?: string | null }): string =>
+    toDateKey(event.timestamp, eventTimeZone(event));
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export interface ZonedParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number; // 0 = domingo
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            weekday: 'short',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const pad = (num: number, size = 2) => String(num).padStart(size, '0');
+
+/**
+ * Decompõe um instante nos campos de calendário/relógio do fuso informado.
+ */
+export const getZonedParts = (timestamp: string | Date, timeZone = currentTimeZone): ZonedParts => {
+    const date = new Date(timestamp);
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+    return {
+        year: parseInt(parts.year),
+        month: parseInt(parts.month),
+        day: parseInt(parts.day),
+        hour: parseInt(parts.hour),
+        minute: parseInt(parts.minute),
+        second: parseInt(parts.second),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+    };
+};
+
+/**
+ * Diferença (ms) entre o relógio do fuso e o UTC naquele instante. Ex.: -3h para São Paulo.
+ */
+export const getTimeZoneOffsetMs = (timestamp: string | Date, timeZone = currentTimeZone): number => {
+    const date = new Date(timestamp);
+    const p = getZonedParts(date, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - (date.getTime() - date.getUTCMilliseconds());
+};
+
+/** Data do calendário no formato YYYY-MM-DD (chave usada nos agrupamentos por dia). */
+export const toDateKey = (timestamp: string | Date, timeZone = currentTimeZone): string => {
+    const p = getZonedParts(timestamp, timeZone);
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+/** Horário no formato HH:mm:ss, adequado para inputs type="time". */
+export const toTimeKey = (timestamp: string | Date, timeZone = currentTimeZone): string => {
+    const p = getZonedParts(timestamp, timeZone);
+    return `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+};
+
+/**
+ * Instante no formato ISO 8601 com o deslocamento do fuso, sem milissegundos (AAAA-MM-ddThh:mm:ss-0300),
+ * como exigido nos arquivos fiscais (AFD/AEJ).
+ */
+export const formatIsoWithOffset = (timestamp: string | Date, timeZone = currentTimeZone): string => {
+    const offsetMinutes = Math.round(getTimeZoneOffsetMs(timestamp, timeZone) / 60000);
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const abs = Math.abs(offsetMinutes);
+    return `${toDateKey(timestamp, timeZone)}T${toTimeKey(timestamp, timeZone)}${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+export const todayKey = (timeZone = currentTimeZone): string => toDateKey(new Date(), timeZone);
+
+export const formatDateTime = (timestamp: string | Date, timeZone = currentTimeZone): string => {
+    const p = getZonedParts(timestamp, timeZone);
+    return `${pad(p.day)}/${pad(p.month)}/${p.year}, ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+};
+
+export const formatDate = (timestamp: string | Date, timeZone = currentTimeZone): string => {
+    const p = getZonedParts(timestamp, timeZone);
+    return `${pad(p.day)}/${pad(p.month)}/${p.year}`;
+};
+
+export const formatTime = (timestamp: string | Date, timeZone = currentTimeZone): string => {
+    return toTimeKey(timestamp, timeZone);
+};
+
+/** Converte uma chave YYYY-MM-DD para DD/MM/YYYY sem passar por Date. */
+export const formatDateKey = (dateKey: string): string => dateKey.split('-').reverse().join('/');
+
+/**
+ * Converte data + horário de parede do fuso (como digitados pelo usuário) no instante real.
+ * Trata a troca de offset fazendo uma segunda passada com o offset do instante calculado.
+ */
+export const zonedTimeToInstant = (dateKey: string, time: string, timeZone = currentTimeZone): Date => {
+    const [year, month, day] = dateKey.split('-').map(n => parseInt(n));
+    const [hours, minutes, seconds] = time.split(':').map(n => parseInt(n));
+    const wallClockAsUtc = Date.UTC(year, month - 1, day, hours || 0, minutes || 0, seconds || 0);
+
+    let instant = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+    const correctedOffset = getTimeZoneOffsetMs(new Date(instant), timeZone);
+    instant = wallClockAsUtc - correctedOffset;
+
+    return new Date(instant);
+};
+
+export const startOfZonedDay = (dateKey: string, timeZone = currentTimeZone): Date =>
+    zonedTimeToInstant(dateKey, '00:00:00', timeZone);
+
+export const endOfZonedDay = (dateKey: string, timeZone = currentTimeZone): Date =>
+    new Date(startOfZonedDay(addDaysToKey(dateKey, 1), timeZone).getTime() - 1);
+
+export const isSameZonedDay = (a: string | Date, b: string | Date, timeZone = currentTimeZone): boolean =>
+    toDateKey(a, timeZone) === toDateKey(b, timeZone);
+
+/** Aritmética de calendário pura sobre chaves YYYY-MM-DD (independe de fuso). */
+export const addDaysToKey = (dateKey: string, days: number): string => {
+    const [year, month, day] = dateKey.split('-').map(n => parseInt(n));
+    const date = new Date(Date.UTC(year, month - 1, day + days));
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/** Quantidade de dias de calendário de `from` até `to` (negativo se `to` for anterior). */
+export const daysBetweenKeys = (from: string, to: string): number => {
+    const toUtc = (key: string) => {
+        const [year, month, day] = key.split('-').map(n => parseInt(n));
+        return Date.UTC(year, month - 1, day);
+    };
+    return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+};
+
+/** Soma meses a uma chave YYYY-MM-DD, limitando ao último dia do mês (31/01 + 1 = 28/02). */
+export const addMonthsToKey = (dateKey: string, months: number): string => {
+    const [year, month, day] = dateKey.split('-').map(n => parseInt(n));
+    const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    const date = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)));
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/** Dia da semana (0 = domingo) de uma chave YYYY-MM-DD. */
+export const weekdayOfKey = (dateKey: string): number => {
+    const [year, month, day] = dateKey.split('-').map(n => parseInt(n));
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/** Primeiro dia do mês de uma chave YYYY-MM-DD. */
+export const startOfMonthKey = (dateKey: string): string => `${dateKey.slice(0, 7)}-01`;
+
+export const WEEKDAY_LABELS = ['Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado'];
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import { getDeviceToken, getKioskId, setDeviceToken } from './kiosk';
+import type { Device } from '../types';
+
+// Dispositivos autorizados a registrar batidas (migrations/devices.sql). O gestor gera um código de
+// uso único; o quiosque troca o código por um token, que acompanha toda chamada de PIN e de batida.
+
+const mapDevice = (row: any): Device => ({
+    id: row.id,
+    name: row.name,
+    kioskId: row.kiosk_id,
+    allowedEmployeeIds: row.allowed_employee_ids,
+    allowedSiteIds: row.allowed_site_ids,
+    createdAt: new Date(row.created_at),
+    createdBy: row.created_by,
+    lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    revokedBy: row.revoked_by,
+});
+
+/** Token ausente, desconhecido ou revogado (ponto_authorize_device). */
+export const isDeviceUnauthorizedError = (error: any): boolean => error?.code === '42501';
+
+export const fetchDevices = async (): Promise<Device[]> => {
+    const { data, error } = await supabase.from('ponto_devices').select('*').order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapDevice);
+};
+
+/** Gera o código de cadastro, válido por 15 minutos e para um único aparelho. */
+export const createEnrollmentCode = async (deviceName: string, actor: string): Promise<string> => {
+    const { data, error } = await supabase.rpc('create_device_enrollment', { p_device_name: deviceName, p_actor: actor });
+    if (error) throw error;
+    return data as string;
+};
+
+export const updateDevice = async (
+    deviceId: number,
+    changes: Partial<Pick<Device, 'name' | 'allowedEmployeeIds' | 'allowedSiteIds'>>
+): Promise<void> => {
+    const row: Record<string, unknown> = {};
+    if (changes.name !== undefined) row.name = changes.name;
+    if (changes.allowedEmployeeIds !== undefined) row.allowed_employee_ids = changes.allowedEmployeeIds;
+    if (changes.allowedSiteIds !== undefined) row.allowed_site_ids = changes.allowedSiteIds;
+    const { error } = await supabase.from('ponto_devices').update(row).eq('id', deviceId);
+    if (error) throw error;
+};
+
+export const revokeDevice = async (deviceId: number, actor: string): Promise<void> => {
+    const { error } = await supabase
+        .from('ponto_devices')
+        .update({ revoked_at: new Date().toISOString(), revoked_by: actor })
+        .eq('id', deviceId);
+    if (error) throw error;
+};
+
+/** Cadastra este aparelho com o código gerado no painel e guarda o token no navegador. */
+export const enrollDevice = async (code: string): Promise<string> => {
+    const { data, error } = await supabase.rpc('enroll_device', { p_code: code, p_kiosk_id: getKioskId() });
+    if (error) throw error;
+    setDeviceToken(data.token);
+    return data.name;
+};
+
+/** Confere se o token deste aparelho continua válido; um token revogado é apagado do navegador. */
+export const checkDevice = async (): Promise<boolean> => {
+    const token = getDeviceToken();
+    if (!token) return false;
+    const { data, error } = await supabase.rpc('check_device', { p_device_token: token });
+    if (error) throw error;
+    if (data.status !== 'active') {
+        setDeviceToken(null);
+        return false;
+    }
+    return true;
+};
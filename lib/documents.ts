@@ -0,0 +1,37 @@
+// Validação e formatação de CPF e CNPJ (validação pelos dígitos verificadores; aceita valores com ou sem máscara).
+
+export const onlyDigits = (value: string | null | undefined): string => (value || '').replace(/\D/g, '');
+
+export const isValidCpf = (value: string | null | undefined): boolean => {
+    const cpf = onlyDigits(value);
+    if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+    const checkDigit = (length: number) => {
+        let sum = 0;
+        for (let i = 0; i < length; i++) sum += parseInt(cpf[i]) * (length + 1 - i);
+        const rest = (sum * 10) % 11;
+        return rest === 10 ? 0 : rest;
+    };
+    return checkDigit(9) === parseInt(cpf[9]) && checkDigit(10) === parseInt(cpf[10]);
+};
+
+export const isValidCnpj = (value: string | null | undefined): boolean => {
+    const cnpj = onlyDigits(value);
+    if (cnpj.length !== 14 || /^(\d)\1{13}$/.test(cnpj)) return false;
+
+    const checkDigit = (length: number) => {
+        let sum = 0;
+        for (let i = 0; i < length; i++) sum += parseInt(cnpj[i]) * ((length - i - 1) % 8 + 2);
+        const rest = sum % 11;
+        return rest < 2 ? 0 : 11 - rest;
+    };
+    return checkDigit(12) === parseInt(cnpj[12]) && checkDigit(13) === parseInt(cnpj[13]);
+};
+
+/** Formata CPF (000.000.000-00) ou CNPJ (00.000.000/0000-00); outros valores voltam como vieram. */
+export const formatDocument = (value: string | null | undefined): string => {
+    const digits = onlyDigits(value);
+    if (digits.length === 11) return digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
+    if (digits.length === 14) return digits.replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, '$1.$2.$3/$4-$5');
+    return value || '';
+};
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import type { ClockType } from '../types';
+
+// Batidas duplicadas (migrations/duplicate_punches.sql): o banco recusa uma segunda batida do mesmo tipo para o
+// mesmo funcionário a até 60 segundos (erro PD001), e cada batida do quiosque leva uma chave de idempotência
+// para que a repetição do mesmo envio devolva a batida já gravada. As duplicadas gravadas antes disso são
+// encontradas e mescladas pela ferramenta do painel.
+
+export const DUPLICATE_PUNCH_ERROR_CODE = 'PD001';
+
+export const isDuplicatePunchError = (error: any): boolean => error?.code === DUPLICATE_PUNCH_ERROR_CODE;
+
+/** Chave de idempotência de uma batida pretendida; a mesma chave vai em todas as tentativas de envio. */
+export const newIdempotencyKey = (): string => crypto.randomUUID();
+
+export interface DuplicatePunch {
+    duplicateId: number;
+    keptId: number; // Batida que fica no lugar: a do quiosque antes da manual e, entre iguais, a mais antiga
+    employeeId: number;
+    employeeName: string;
+    type: ClockType;
+    duplicateTimestamp: Date;
+    keptTimestamp: Date;
+    duplicateSource: string;
+    keptSource: string;
+    movesPhoto: boolean; // A foto da duplicada passa para a batida mantida, que não tem foto
+}
+
+/** Prévia da limpeza: duplicadas do período e a batida mantida no lugar de cada uma. */
+export const findDuplicatePunches = async (start: Date, end: Date): Promise<DuplicatePunch[]> => {
+    const { data, error } = await supabase.rpc('find_duplicate_punches', {
+        p_start: start.toISOString(),
+        p_end: end.toISOString(),
+    });
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        duplicateId: row.duplicate_id,
+        keptId: row.kept_id,
+        employeeId: row.employee_id,
+        employeeName: row.employee_name,
+        type: row.type,
+        duplicateTimestamp: new Date(row.duplicate_timestamp),
+        keptTimestamp: new Date(row.kept_timestamp),
+        duplicateSource: row.duplicate_source,
+        keptSource: row.kept_source,
+        movesPhoto: row.moves_photo,
+    }));
+};
+
+/** Exclui (exclusão lógica, com auditoria) as duplicadas escolhidas; retorna quantas foram mescladas. */
+export const mergeDuplicatePunches = async (duplicateIds: number[]): Promise<number> => {
+    const { data, error } = await supabase.rpc('merge_duplicate_punches', { p_duplicate_ids: duplicateIds });
+    if (error) throw error;
+    return data ?? 0;
+};
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import type { ClockEvent, ClockType, EventAuditAction, EventAuditEntry } from '../types';
+
+// Alterações administrativas de batidas. Passam sempre pelas funções admin_* do banco, que gravam
+// a mudança e a trilha de auditoria (autor, justificativa, antes/depois) na mesma transação. O autor é o
+// gestor da sessão, definido pelo banco (migrations/audit_actor.sql).
+// Exclusões são lógicas: a batida recebe deleted_at e some dos relatórios, mas continua no banco.
+
+export const AUDIT_ACTION_LABELS: Record<EventAuditAction, string> = {
+    insert: 'Inclusão manual',
+    update: 'Alteração',
+    delete: 'Exclusão',
+};
+
+export const insertManualEvent = async (
+    employeeId: number,
+    type: ClockType,
+    timestamp: Date,
+    reason: string
+): Promise<void> => {
+    const { error } = await supabase.rpc('admin_insert_event', {
+        p_employee_id: employeeId,
+        p_type: type,
+        p_timestamp: timestamp.toISOString(),
+        p_reason: reason,
+    });
+    if (error) throw error;
+};
+
+/** Início e fim de intervalo gravados juntos, para não ficarem fora de sequência entre uma inclusão e outra. */
+export const insertManualBreak = async (
+    employeeId: number,
+    start: Date,
+    end: Date,
+    reason: string
+): Promise<void> => {
+    const { error } = await supabase.rpc('admin_insert_break', {
+        p_employee_id: employeeId,
+        p_start: start.toISOString(),
+        p_end: end.toISOString(),
+        p_reason: reason,
+    });
+    if (error) throw error;
+};
+
+export const updateEvent = async (
+    eventId: number,
+    changes: ClockEvent,
+    reason: string
+): Promise<void> => {
+    const { error } = await supabase.rpc('admin_update_event', {
+        p_event_id: eventId,
+        p_type: changes.type,
+        p_timestamp: changes.timestamp.toISOString(),
+        p_reason: reason,
+    });
+    if (error) throw error;
+};
+
+export const deleteEvent = async (eventId: number, reason: string): Promise<void> => {
+    const { error } = await supabase.rpc('admin_delete_event', {
+        p_event_id: eventId,
+        p_reason: reason,
+    });
+    if (error) throw error;
+};
+
+const mapValue = (value: any): ClockEvent | null =>
+    value ? { type: value.type, timestamp: new Date(value.timestamp) } : null;
+
+export const fetchEventHistory = async (eventId: number): Promise<EventAuditEntry[]> => {
+    const { data, error } = await supabase
+        .from('ponto_event_audit')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+        id: row.id,
+        eventId: row.event_id,
+        action: row.action,
+        actor: row.actor,
+        reason: row.reason,
+        oldValue: mapValue(row.old_value),
+        newValue: mapValue(row.new_value),
+        createdAt: new Date(row.created_at),
+    }));
+};
+
+/** Justificativa mais recente de cada registro informado (lançamentos manuais e ajustes). */
+export const fetchLatestReasons = async (eventIds: number[]): Promise<Map<number, string>> => {
+    const reasons = new Map<number, string>();
+    for (let i = 0; i < eventIds.length; i += 200) {
+        const { data, error } = await supabase
+            .from('ponto_event_audit')
+            .select('event_id, reason')
+            .in('event_id', eventIds.slice(i, i + 200))
+            .in('action', ['insert', 'update'])
+            .order('created_at', { ascending: true });
+        if (error) throw error;
+        (data || []).forEach((row: any) => reasons.set(row.event_id, row.reason));
+    }
+    return reasons;
+};
@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import { addDaysToKey, weekdayOfKey } from './dateTime';
+import type { DayClassification, Holiday, HolidayScope } from '../types';
+
+// Calendário de feriados: nacionais gerados por ano + datas cadastradas pelo administrador
+// (estaduais, municipais e da empresa) na tabela ponto_holidays.
+
+export const DEFAULT_REST_WEEKDAY = 0; // Domingo
+
+export const HOLIDAY_SCOPE_LABELS: Record<HolidayScope, string> = {
+    nacional: 'Nacional',
+    estadual: 'Estadual',
+    municipal: 'Municipal',
+    empresa: 'Empresa',
+};
+
+const pad = (num: number) => String(num).padStart(2, '0');
+
+/** Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher). */
+export const easterSunday = (year: number): string => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Feriados nacionais (Lei 662/1949 e alterações). Carnaval e Corpus Christi são pontos
+ * facultativos e, se a empresa os adotar, devem ser cadastrados como feriado da empresa.
+ */
+export const getNationalHolidays = (year: number): Holiday[] => {
+    const fixed: [string, string][] = [
+        ['01-01', 'Confraternização Universal'],
+        ['04-21', 'Tiradentes'],
+        ['05-01', 'Dia do Trabalho'],
+        ['09-07', 'Independência do Brasil'],
+        ['10-12', 'Nossa Senhora Aparecida'],
+        ['11-02', 'Finados'],
+        ['11-15', 'Proclamação da República'],
+        ['12-25', 'Natal'],
+    ];
+    // Lei 14.759/2023
+    if (year >= 2024) fixed.push(['11-20', 'Dia Nacional de Zumbi e da Consciência Negra']);
+
+    const holidays: Holiday[] = fixed.map(([monthDay, name]) => ({
+        id: 0,
+        date: `${year}-${monthDay}`,
+        name,
+        scope: 'nacional',
+    }));
+    holidays.push({ id: 0, date: addDaysToKey(easterSunday(year), -2), name: 'Sexta-feira Santa', scope: 'nacional' });
+
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/** Feriados de um ano: nacionais + cadastrados pelo administrador. */
+export const getHolidaysForYear = (year: number, customHolidays: Holiday[]): Holiday[] => {
+    const custom = customHolidays.filter(h => h.date.startsWith(`${year}-`));
+    return [...getNationalHolidays(year), ...custom].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const findHoliday = (dateKey: string, customHolidays: Holiday[]): Holiday | undefined => {
+    const year = parseInt(dateKey.slice(0, 4));
+    return getHolidaysForYear(year, customHolidays).find(h => h.date === dateKey);
+};
+
+/**
+ * Classifica o dia para pagamento: feriado tem prioridade sobre o descanso semanal.
+ */
+export const classifyDay = (
+    dateKey: string,
+    restWeekday: number | undefined,
+    customHolidays: Holiday[]
+): DayClassification => {
+    const holiday = findHoliday(dateKey, customHolidays);
+    if (holiday) return { kind: 'holiday', holidayName: holiday.name };
+
+    const rest = restWeekday ?? DEFAULT_REST_WEEKDAY;
+    if (weekdayOfKey(dateKey) === rest) return { kind: 'rest_day' };
+
+    return { kind: 'regular' };
+};
+
+export const describeDayClassification = (day: DayClassification): string => {
+    if (day.kind === 'holiday') return `Feriado: ${day.holidayName}`;
+    if (day.kind === 'rest_day') return 'Descanso semanal';
+    return '';
+};
+
+export const mapHoliday = (row: any): Holiday => ({
+    id: row.id,
+    date: row.date,
+    name: row.name,
+    scope: row.scope,
+});
+
+export const fetchHolidays = async (): Promise<Holiday[]> => {
+    const { data, error } = await supabase.from('ponto_holidays').select('*').order('date', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapHoliday);
+};
+
+export const addHoliday = async (holiday: Omit<Holiday, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('ponto_holidays').insert([{
+        date: holiday.date,
+        name: holiday.name,
+        scope: holiday.scope,
+    }]);
+    if (error) throw error;
+};
+
+export const deleteHoliday = async (holidayId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_holidays').delete().eq('id', holidayId);
+    if (error) throw error;
+};
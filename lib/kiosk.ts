@@ -0,0 +1,22 @@
+// Identificador do quiosque, gerado uma vez e guardado no navegador. Serve para o banco contar as
+// tentativas de PIN de cada aparelho; não é uma credencial (pode ser apagado ou trocado pelo usuário).
+const KIOSK_ID_KEY = 'kioskId';
+// Token do dispositivo cadastrado (migrations/devices.sql): este sim autoriza o aparelho a registrar
+// batidas. Só existe depois do cadastro com o código gerado no painel.
+const DEVICE_TOKEN_KEY = 'deviceToken';
+
+export const getKioskId = (): string => {
+    let kioskId = localStorage.getItem(KIOSK_ID_KEY);
+    if (!kioskId) {
+        kioskId = crypto.randomUUID();
+        localStorage.setItem(KIOSK_ID_KEY, kioskId);
+    }
+    return kioskId;
+};
+
+export const getDeviceToken = (): string | null => localStorage.getItem(DEVICE_TOKEN_KEY);
+
+export const setDeviceToken = (token: string | null): void => {
+    if (token) localStorage.setItem(DEVICE_TOKEN_KEY, token);
+    else localStorage.removeItem(DEVICE_TOKEN_KEY);
+};
@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import { addDaysToKey, eventDateKey } from './dateTime';
+import { getHourlyRate, resolvePayProfile } from './payProfiles';
+import { getExpectedWorkMinutes } from './schedules';
+import { groupEventsByShifts } from './workCalculation';
+import type { Employee, Holiday, Leave, LeaveKind, PayRules, ScheduleRules, StoredClockEvent } from '../types';
+
+// Afastamentos e ausências (tabela ponto_leaves) e o efeito de cada dia no espelho de ponto.
+// Abonado: as horas previstas do dia contam como trabalhadas (horista recebe; mensalista já recebe no salário).
+// Desconto: as horas previstas são descontadas do mensalista (horista simplesmente não recebe).
+// Neutro: o dia aparece identificado, sem efeito no pagamento.
+
+const ATTACHMENT_BUCKET = 'ponto-anexos';
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export type LeavePayEffect = 'abonado' | 'desconto' | 'neutro';
+
+export const LEAVE_KINDS: Record<LeaveKind, { label: string; payEffect: LeavePayEffect }> = {
+    ferias: { label: 'Férias', payEffect: 'abonado' },
+    atestado: { label: 'Atestado médico', payEffect: 'abonado' },
+    falta_justificada: { label: 'Falta justificada', payEffect: 'abonado' },
+    falta_injustificada: { label: 'Falta injustificada', payEffect: 'desconto' },
+    folga: { label: 'Folga', payEffect: 'neutro' },
+};
+
+export interface LeaveDay {
+    employeeId: number;
+    date: string; // YYYY-MM-DD
+    leave: Leave;
+    expectedMinutes: number;
+    abonado: number; // ms contados como trabalhados
+    payment: number; // Valor do dia (negativo em caso de desconto)
+}
+
+export const findLeave = (leaves: Leave[], employeeId: number, dateKey: string): Leave | undefined =>
+    leaves.find(l => l.employeeId === employeeId && l.startDate <= dateKey && l.endDate >= dateKey);
+
+/**
+ * Dias de afastamento do funcionário no período (datas inclusivas) em que não houve batida.
+ * Dias com turno registrado são calculados normalmente pelas batidas.
+ */
+export const calculateLeaveDays = (
+    employee: Employee,
+    leaves: Leave[],
+    events: StoredClockEvent[],
+    payRules: PayRules,
+    scheduleRules: ScheduleRules,
+    holidays: Holiday[],
+    fromKey: string,
+    toKey: string
+): LeaveDay[] => {
+    const employeeLeaves = leaves.filter(l => l.employeeId === employee.id && l.startDate <= toKey && l.endDate >= fromKey);
+    if (employeeLeaves.length === 0) return [];
+
+    const workedDates = new Set(
+        groupEventsByShifts(events.filter(e => e.employeeId === employee.id)).map(shift => eventDateKey(shift[0]))
+    );
+
+    const days: LeaveDay[] = [];
+    for (let dateKey = fromKey; dateKey <= toKey; dateKey = addDaysToKey(dateKey, 1)) {
+        const leave = findLeave(employeeLeaves, employee.id, dateKey);
+        if (!leave || workedDates.has(dateKey)) continue;
+
+        const profile = resolvePayProfile(payRules, employee.id, employee.funcao, dateKey);
+        const expectedMinutes = getExpectedWorkMinutes(employee, dateKey, profile.dailyJourneyMinutes, scheduleRules, holidays);
+        const expectedPay = (expectedMinutes * MINUTE_MS / HOUR_MS) * getHourlyRate(profile);
+        const effect = LEAVE_KINDS[leave.kind].payEffect;
+
+        days.push({
+            employeeId: employee.id,
+            date: dateKey,
+            leave,
+            expectedMinutes,
+            abonado: effect === 'abonado' ? expectedMinutes * MINUTE_MS : 0,
+            payment: effect === 'abonado' && profile.payType === 'hourly' ? expectedPay
+                : effect === 'desconto' && profile.payType === 'monthly' ? -expectedPay
+                : 0,
+        });
+    }
+    return days;
+};
+
+const mapLeave = (row: any): Leave => ({
+    id: row.id,
+    employeeId: row.employee_id,
+    kind: row.kind,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    note: row.note || '',
+    attachmentPath: row.attachment_path,
+});
+
+export const fetchLeaves = async (): Promise<Leave[]> => {
+    const { data, error } = await supabase.from('ponto_leaves').select('*').order('start_date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapLeave);
+};
+
+export const addLeave = async (leave: Omit<Leave, 'id' | 'attachmentPath'>, attachment?: File | null): Promise<void> => {
+    let attachmentPath: string | null = null;
+    if (attachment) {
+        attachmentPath = `${leave.employeeId}/${Date.now()}-${attachment.name.replace(/[^\w.-]/g, '_')}`;
+        const { error: uploadError } = await supabase.storage.from(ATTACHMENT_BUCKET).upload(attachmentPath, attachment);
+        if (uploadError) throw uploadError;
+    }
+
+    const { error } = await supabase.from('ponto_leaves').insert([{
+        employee_id: leave.employeeId,
+        kind: leave.kind,
+        start_date: leave.startDate,
+        end_date: leave.endDate,
+        note: leave.note,
+        attachment_path: attachmentPath,
+    }]);
+    if (error) {
+        if (attachmentPath) await supabase.storage.from(ATTACHMENT_BUCKET).remove([attachmentPath]);
+        throw error;
+    }
+};
+
+export const deleteLeave = async (leave: Leave): Promise<void> => {
+    const { error } = await supabase.from('ponto_leaves').delete().eq('id', leave.id);
+    if (error) throw error;
+    if (leave.attachmentPath) {
+        await supabase.storage.from(ATTACHMENT_BUCKET).remove([leave.attachmentPath]);
+    }
+};
+
+/** Link temporário (5 minutos) para abrir o anexo do bucket privado. */
+export const getLeaveAttachmentUrl = async (attachmentPath: string): Promise<string> => {
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUrl(attachmentPath, 300);
+    if (error) throw error;
+    return data.signedUrl;
+};
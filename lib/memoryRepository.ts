@@ -0,0 +1,369 @@
+import type { Employee, Holiday, Manager, PayProfile, PayProfileAssignment, StoredClockEvent } from '../types';
+import { ClockType } from '../types';
+import { getTimeZone } from './dateTime';
+import { DUPLICATE_PUNCH_ERROR_CODE } from './duplicatePunches';
+import { DEFAULT_SETTINGS } from './settings';
+import type { AppSettings } from './settings';
+import type {
+    DataRepositories, EmployeeRepository, EventRepository, HolidayRepository, ManagerRepository, PayRulesRepository,
+    SettingsRepository,
+} from './repository';
+
+// Backend em memória para a demonstração do quiosque e do painel. Segue as mesmas regras visíveis do banco
+// para as batidas do quiosque (horário do servidor, chave de idempotência, recusa da repetida em menos de
+// 1 minuto) e para os perfis de remuneração atribuídos, mas não guarda auditoria, não emite comprovante e
+// não bloqueia o teclado depois de PINs errados. Qualquer e-mail e senha entram no painel como proprietário.
+
+const DUPLICATE_WINDOW_MS = 60 * 1000;
+
+// Os mesmos funcionários (e PINs) de exemplo de schema.sql
+const DEMO_EMPLOYEES: Employee[] = [
+    { id: 1, name: 'Ana Silva', pin: '1234', phone: '11987654321' },
+    { id: 2, name: 'Bruno Costa', pin: '5678', phone: '21987654321' },
+    { id: 3, name: 'Carla Dias', pin: '4321', phone: '31987654321' },
+    { id: 4, name: 'Daniel Alves', pin: '8765', phone: '41987654321' },
+];
+
+interface MemoryEvent extends StoredClockEvent {
+    deletedAt: Date | null;
+    idempotencyKey: string | null;
+}
+
+const DEMO_MANAGER_ID = 1;
+
+// Valores que um perfil já atribuído não muda mais (o nome pode mudar)
+const PROFILE_RATE_FIELDS = [
+    'payType', 'hourlyRate', 'monthlySalary', 'monthlyHours', 'dailyJourneyMinutes', 'overtimeMultiplier',
+    'nightPremiumPercent', 'holidayMultiplier', 'timeBankEnabled', 'timeBankExpiryMonths',
+] as const;
+
+export interface MemorySeed {
+    employees: Employee[];
+    events: StoredClockEvent[];
+}
+
+export const createMemoryRepositories = (seed: MemorySeed = { employees: DEMO_EMPLOYEES, events: [] }): DataRepositories => {
+    let employeeRows: Employee[] = seed.employees.map(({ pin, birthDate, ...employee }) => ({ ...employee }));
+    let eventRows: MemoryEvent[] = seed.events.map(event => ({ ...event, deletedAt: null, idempotencyKey: null }));
+    const pins = new Map(seed.employees.filter(employee => employee.pin).map(employee => [employee.id, employee.pin!]));
+    const sessions = new Map<string, number>(); // token da sessão aberta pelo PIN -> funcionário
+    let manager: Manager | null = null;
+    let settingsValues: AppSettings = { ...DEFAULT_SETTINGS };
+    let profileRows: PayProfile[] = [];
+    let assignmentRows: PayProfileAssignment[] = [];
+    let holidayRows: Holiday[] = [];
+    const listeners = new Set<(table: 'employees' | 'events') => void>();
+
+    const nextId = (rows: { id: number }[]) => rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+    const notify = (table: 'employees' | 'events') => listeners.forEach(listener => listener(table));
+
+    const findEmployee = (employeeId: number): Employee => {
+        const employee = employeeRows.find(row => row.id === employeeId);
+        if (!employee) throw new Error(`Funcionário ${employeeId} não encontrado`);
+        return employee;
+    };
+
+    const sessionEmployee = (sessionToken: string): number => {
+        const employeeId = sessions.get(sessionToken);
+        if (employeeId === undefined) throw new Error('Sessão do funcionário expirada. Digite o PIN novamente.');
+        return employeeId;
+    };
+
+    const findEvent = (eventId: number): MemoryEvent => {
+        const event = eventRows.find(row => row.id === eventId && !row.deletedAt);
+        if (!event) throw new Error(`Batida ${eventId} não encontrada`);
+        return event;
+    };
+
+    // Mesma guarda de migrations/duplicate_punches.sql (erro PD001)
+    const rejectDuplicate = (employeeId: number, type: ClockType, timestamp: Date, ignoreId?: number) => {
+        const existing = eventRows.find(row => !row.deletedAt && row.id !== ignoreId && row.employeeId === employeeId && row.type === type
+            && Math.abs(row.timestamp.getTime() - timestamp.getTime()) <= DUPLICATE_WINDOW_MS);
+        if (existing) {
+            throw Object.assign(new Error(`${type} já registrada há menos de 1 minuto`), { code: DUPLICATE_PUNCH_ERROR_CODE });
+        }
+    };
+
+    const insertEvent = (employeeId: number, type: ClockType, timestamp: Date, fields: Partial<MemoryEvent> = {}): MemoryEvent => {
+        const employee = findEmployee(employeeId);
+        rejectDuplicate(employeeId, type, timestamp);
+        const event: MemoryEvent = {
+            id: nextId(eventRows),
+            employeeId,
+            employeeName: employee.name,
+            type,
+            timestamp,
+            source: 'manual',
+            deletedAt: null,
+            idempotencyKey: null,
+            timeZone: getTimeZone(),
+            ...fields,
+        };
+        eventRows.push(event);
+        return event;
+    };
+
+    const toStored = ({ deletedAt, idempotencyKey, ...event }: MemoryEvent): StoredClockEvent => ({ ...event });
+
+    const employees: EmployeeRepository = {
+        async list() {
+            return [...employeeRows].sort((a, b) => a.id - b.id).map(employee => ({ ...employee }));
+        },
+
+        async getForSession(sessionToken) {
+            return { ...findEmployee(sessionEmployee(sessionToken)) };
+        },
+
+        async create({ pin, birthDate, ...employee }) {
+            const created = { ...employee, id: nextId(employeeRows) };
+            employeeRows.push(created);
+            notify('employees');
+            return { ...created };
+        },
+
+        async update({ pin, birthDate, ...employee }) {
+            findEmployee(employee.id);
+            employeeRows = employeeRows.map(row => row.id === employee.id ? { ...employee } : row);
+            notify('employees');
+        },
+
+        // Como no banco: funcionários com batidas não podem ser apagados
+        async remove(employeeId) {
+            findEmployee(employeeId);
+            if (eventRows.some(event => event.employeeId === employeeId)) {
+                throw new Error('Funcionário com registros de ponto não pode ser excluído');
+            }
+            employeeRows = employeeRows.filter(row => row.id !== employeeId);
+            notify('employees');
+        },
+
+        async setPin(employeeId, pin) {
+            findEmployee(employeeId);
+            if ([...pins].some(([otherId, otherPin]) => otherId !== employeeId && otherPin === pin)) {
+                throw new Error('PIN já cadastrado para outro funcionário');
+            }
+            pins.set(employeeId, pin);
+        },
+
+        // A data de nascimento só dá acesso à área do funcionário, que este backend não tem
+        async setBirthDate(employeeId) {
+            findEmployee(employeeId);
+        },
+
+        async verifyPin(pin) {
+            const match = [...pins].find(([, employeePin]) => employeePin === pin);
+            if (!match) return { status: 'invalid', remaining: Number.POSITIVE_INFINITY };
+            const sessionToken = crypto.randomUUID();
+            sessions.set(sessionToken, match[0]);
+            return { status: 'ok', employeeId: match[0], sessionToken };
+        },
+    };
+
+    const events: EventRepository = {
+        async list() {
+            return eventRows
+                .filter(event => !event.deletedAt)
+                .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+                .map(toStored);
+        },
+
+        async listForSession(sessionToken) {
+            const employeeId = sessionEmployee(sessionToken);
+            return (await events.list()).filter(event => event.employeeId === employeeId);
+        },
+
+        async registerPunch({ employee, type, clientTimestamp, location, idempotencyKey }) {
+            const repeated = eventRows.find(event => event.idempotencyKey === idempotencyKey);
+            const event = repeated ?? insertEvent(employee.id, type, new Date(), {
+                source: 'kiosk',
+                clientTimestamp,
+                location,
+                idempotencyKey,
+            });
+            if (!repeated) notify('events');
+            return { event: toStored(event), nsr: null, receiptHash: null };
+        },
+
+        async insertManual(employeeId, type, timestamp) {
+            insertEvent(employeeId, type, timestamp);
+            notify('events');
+        },
+
+        async insertManualBreak(employeeId, start, end) {
+            insertEvent(employeeId, ClockType.InicioIntervalo, start);
+            insertEvent(employeeId, ClockType.FimIntervalo, end);
+            notify('events');
+        },
+
+        async update(eventId, changes) {
+            const event = findEvent(eventId);
+            rejectDuplicate(event.employeeId, changes.type, changes.timestamp, eventId);
+            event.originalTimestamp = event.originalTimestamp ?? event.timestamp;
+            event.type = changes.type;
+            event.timestamp = changes.timestamp;
+            event.editedAt = new Date();
+            notify('events');
+        },
+
+        // Exclusão lógica, como no banco
+        async remove(eventId) {
+            findEvent(eventId).deletedAt = new Date();
+            notify('events');
+        },
+    };
+
+    const managers: ManagerRepository = {
+        async current() {
+            return manager;
+        },
+
+        async signIn(email) {
+            const address = email.trim().toLowerCase();
+            manager = { id: DEMO_MANAGER_ID, email: address, name: address, role: 'owner', active: true };
+            return manager;
+        },
+
+        async signOut() {
+            manager = null;
+        },
+    };
+
+    const settings: SettingsRepository = {
+        async load() {
+            return { ...settingsValues };
+        },
+
+        async save(changes) {
+            settingsValues = { ...settingsValues, ...changes };
+        },
+    };
+
+    const findProfile = (profileId: number): PayProfile => {
+        const profile = profileRows.find(row => row.id === profileId);
+        if (!profile) throw new Error(`Perfil ${profileId} não encontrado`);
+        return profile;
+    };
+
+    const isAssigned = (profileId: number) => assignmentRows.some(assignment => assignment.profileId === profileId);
+
+    // Mesmas regras de migrations/pay_profile_versions.sql
+    const payRules: PayRulesRepository = {
+        async load() {
+            return {
+                profiles: [...profileRows].sort((a, b) => a.name.localeCompare(b.name)).map(profile => ({ ...profile })),
+                assignments: [...assignmentRows].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)).map(row => ({ ...row })),
+            };
+        },
+
+        async saveProfile({ id, ...values }) {
+            if (!id) {
+                profileRows.push({ ...values, id: nextId(profileRows), replacedBy: null });
+                return;
+            }
+            const profile = findProfile(id);
+            if (isAssigned(id) && PROFILE_RATE_FIELDS.some(field => profile[field] !== values[field])) {
+                throw new Error(`O perfil "${profile.name}" já está atribuído; salve os novos valores como uma nova versão`);
+            }
+            Object.assign(profile, values);
+        },
+
+        async saveProfileVersion(profileId, values, effectiveFrom) {
+            const previous = findProfile(profileId);
+            if (previous.replacedBy !== null) {
+                throw new Error(`O perfil "${previous.name}" já foi substituído por uma versão mais nova`);
+            }
+            const version: PayProfile = { ...values, id: nextId(profileRows), replacedBy: null };
+            profileRows.push(version);
+
+            // Quem usava a versão anterior na data passa para a nova
+            const targets = new Map<string, PayProfileAssignment>();
+            [...assignmentRows]
+                .filter(row => row.effectiveFrom < effectiveFrom)
+                .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.id - b.id)
+                .forEach(row => targets.set(`${row.employeeId}|${row.funcao}`, row));
+            for (const latest of targets.values()) {
+                const startsOnDate = assignmentRows.some(row => row.employeeId === latest.employeeId
+                    && row.funcao === latest.funcao && row.effectiveFrom === effectiveFrom);
+                if (latest.profileId === profileId && !startsOnDate) {
+                    assignmentRows.push({ ...latest, id: nextId(assignmentRows), profileId: version.id, effectiveFrom });
+                }
+            }
+
+            // As que começam na data ou depois dela já são da nova versão
+            assignmentRows.forEach(row => {
+                if (row.profileId === profileId && row.effectiveFrom >= effectiveFrom) row.profileId = version.id;
+            });
+            previous.replacedBy = version.id;
+        },
+
+        async removeProfile(profileId) {
+            const profile = findProfile(profileId);
+            if (isAssigned(profileId)) {
+                throw new Error(`O perfil "${profile.name}" tem atribuições e não pode ser excluído`);
+            }
+            profileRows = profileRows.filter(row => row.id !== profileId);
+        },
+
+        async addAssignment(assignment) {
+            findProfile(assignment.profileId);
+            assignmentRows.push({ ...assignment, id: nextId(assignmentRows) });
+        },
+
+        async removeAssignment(assignmentId) {
+            assignmentRows = assignmentRows.filter(row => row.id !== assignmentId);
+        },
+    };
+
+    const holidays: HolidayRepository = {
+        async list() {
+            return [...holidayRows].sort((a, b) => a.date.localeCompare(b.date)).map(holiday => ({ ...holiday }));
+        },
+
+        async add(holiday) {
+            if (holidayRows.some(row => row.date === holiday.date && row.name === holiday.name)) {
+                throw new Error('Feriado já cadastrado nesta data');
+            }
+            holidayRows.push({ ...holiday, id: nextId(holidayRows) });
+        },
+
+        async remove(holidayId) {
+            holidayRows = holidayRows.filter(row => row.id !== holidayId);
+        },
+    };
+
+    return {
+        backend: 'memory',
+        supportsServerFeatures: false,
+        employees,
+        events,
+        managers,
+        settings,
+        payRules,
+        holidays,
+
+        async restoreBackup(backup) {
+            const toDate = (value: string | null | undefined) => value ? new Date(value) : null;
+            employeeRows = backup.employees.map(({ pin, birthDate, ...employee }) => ({ ...employee }));
+            pins.clear();
+            backup.employees.forEach(employee => employee.pin && pins.set(employee.id, employee.pin));
+            eventRows = backup.events.map(event => ({
+                ...event,
+                timestamp: new Date(event.timestamp),
+                clientTimestamp: toDate(event.clientTimestamp),
+                editedAt: toDate(event.editedAt),
+                originalTimestamp: toDate(event.originalTimestamp),
+                deletedAt: null,
+                idempotencyKey: null,
+            }));
+            notify('employees');
+            notify('events');
+        },
+
+        subscribe(onChange) {
+            listeners.add(onChange);
+            return () => {
+                listeners.delete(onChange);
+            };
+        },
+    };
+};
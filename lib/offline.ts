@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+import { attachPunchPhoto } from './photoStorage';
+import { enqueuePunch, listQueuedPunches, metaGet, metaSet, removeQueuedPunch } from './offlineStore';
+import type { QueuedPunch } from './offlineStore';
+import type { PinVerification } from './credentials';
+import type { ClockType, Employee, PunchLocation } from '../types';
+
+// Funcionamento do quiosque sem conexão: fila de batidas e conferência local do PIN.
+// O PIN só pode ser conferido offline para quem já entrou neste quiosque com conexão: nesse momento
+// guardamos um hash PBKDF2 com sal do PIN digitado (nunca o PIN). O banco continua sendo a referência.
+
+const PIN_HASHES_KEY = 'pinHashes';
+const PIN_FAILURES_KEY = 'offlinePinFailures';
+const PBKDF2_ITERATIONS = 20000;
+
+export type SyncStatus = 'synced' | 'already_synced' | 'duplicate' | 'conflict';
+
+export interface SyncSummary {
+    synced: number;
+    duplicates: number; // Já havia a mesma batida no banco; descartadas
+    conflicts: number; // Enviadas para análise do gestor
+    remaining: number; // Continuam na fila (sem conexão ou erro no envio)
+}
+
+interface StoredPinHash {
+    salt: Uint8Array;
+    hash: string;
+}
+
+/** Falha de rede (sem conexão ou servidor inacessível), em oposição a um erro devolvido pelo banco. */
+export const isNetworkError = (error: any): boolean =>
+    !navigator.onLine || /failed to fetch|networkerror|load failed|fetch failed|network request failed/i.test(String(error?.message ?? error));
+
+const derivePinHash = async (pin: string, salt: Uint8Array): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        key,
+        256
+    );
+    return Array.from(new Uint8Array(bits), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/** Guarda o hash do PIN conferido pelo servidor, para permitir o acesso offline deste funcionário. */
+export const rememberPin = async (employeeId: number, pin: string): Promise<void> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hashes = (await metaGet<Record<number, StoredPinHash>>(PIN_HASHES_KEY)) || {};
+    hashes[employeeId] = { salt, hash: await derivePinHash(pin, salt) };
+    await metaSet(PIN_HASHES_KEY, hashes);
+    await metaSet(PIN_FAILURES_KEY, { count: 0, last: 0 });
+};
+
+/**
+ * Confere o PIN com os hashes guardados no quiosque. Aplica localmente o mesmo limite de tentativas
+ * configurado para o servidor, já que offline o banco não tem como contar as falhas.
+ */
+export const verifyPinOffline = async (
+    pin: string,
+    maxAttempts: number,
+    lockoutMinutes: number
+): Promise<PinVerification> => {
+    const failures = (await metaGet<{ count: number; last: number }>(PIN_FAILURES_KEY)) || { count: 0, last: 0 };
+    if (failures.count >= maxAttempts) {
+        const lockedUntil = failures.last + lockoutMinutes * 60 * 1000;
+        if (Date.now() < lockedUntil) {
+            return { status: 'locked', retryAfterSeconds: Math.ceil((lockedUntil - Date.now()) / 1000) };
+        }
+    }
+
+    const hashes = (await metaGet<Record<number, StoredPinHash>>(PIN_HASHES_KEY)) || {};
+    for (const [employeeId, stored] of Object.entries(hashes)) {
+        if (await derivePinHash(pin, stored.salt) === stored.hash) {
+            await metaSet(PIN_FAILURES_KEY, { count: 0, last: 0 });
+            return { status: 'ok', employeeId: Number(employeeId), sessionToken: null };
+        }
+    }
+
+    const count = failures.count >= maxAttempts ? 1 : failures.count + 1;
+    await metaSet(PIN_FAILURES_KEY, { count, last: Date.now() });
+    return count >= maxAttempts
+        ? { status: 'locked', retryAfterSeconds: lockoutMinutes * 60 }
+        : { status: 'invalid', remaining: maxAttempts - count };
+};
+
+/** Enfileira uma batida feita sem conexão. O horário é corrigido pela diferença medida com o servidor. */
+export const queueOfflinePunch = (
+    employee: Employee,
+    type: ClockType,
+    clockDriftMs: number | null,
+    photo: Blob | null,
+    location: PunchLocation | null,
+    idempotencyKey?: string
+): Promise<QueuedPunch> => {
+    const clientTimestamp = new Date();
+    return enqueuePunch({
+        employeeId: employee.id,
+        employeeName: employee.name,
+        type,
+        timestamp: new Date(clientTimestamp.getTime() - (clockDriftMs || 0)),
+        clientTimestamp,
+        photo,
+        location,
+        idempotencyKey,
+    });
+};
+
+/** Envia a fila em ordem; para no primeiro erro para preservar a sequência do contador. */
+export const syncQueuedPunches = async (deviceToken: string | null): Promise<SyncSummary> => {
+    const queue = (await listQueuedPunches()).sort((a, b) => a.sequence - b.sequence);
+    const summary: SyncSummary = { synced: 0, duplicates: 0, conflicts: 0, remaining: queue.length };
+
+    for (const punch of queue) {
+        const { data, error } = await supabase.rpc('sync_offline_punch', {
+            p_device_token: deviceToken,
+            p_queue_id: punch.queueId,
+            p_sequence: punch.sequence,
+            p_employee_id: punch.employeeId,
+            p_type: punch.type,
+            p_timestamp: punch.timestamp.toISOString(),
+            p_client_timestamp: punch.clientTimestamp.toISOString(),
+            p_latitude: punch.location?.latitude ?? null,
+            p_longitude: punch.location?.longitude ?? null,
+            p_accuracy: punch.location?.accuracy ?? null,
+            p_idempotency_key: punch.idempotencyKey ?? null,
+        });
+        if (error) {
+            if (!isNetworkError(error)) console.error('Erro ao sincronizar batida offline:', error);
+            break;
+        }
+
+        const status = data as SyncStatus;
+        if (status === 'synced' || status === 'already_synced') summary.synced++;
+        else if (status === 'duplicate') summary.duplicates++;
+        else summary.conflicts++;
+
+        // A foto acompanha só a batida aceita agora; sem ela a batida continua válida
+        if (status === 'synced' && punch.photo) {
+            await attachPunchPhoto(punch.employeeId, punch.photo, { queueId: punch.queueId, sequence: punch.sequence })
+                .catch(error => console.error('Erro ao enviar foto da batida offline:', error));
+        }
+
+        await removeQueuedPunch(punch.sequence);
+        summary.remaining--;
+    }
+
+    return summary;
+};
@@ -0,0 +1,35 @@
+import { supabase } from './supabase';
+import type { OfflineConflict } from '../types';
+
+// Batidas offline recusadas na sincronização (migrations/offline_punches.sql). O gestor decide se
+// lança a batida manualmente, com justificativa, ou a descarta; em ambos os casos ela é marcada como resolvida.
+
+const mapConflict = (row: any): OfflineConflict => ({
+    id: row.id,
+    kioskId: row.kiosk_id,
+    employeeId: row.employee_id,
+    employeeName: row.employee_name,
+    type: row.type,
+    timestamp: new Date(row.timestamp),
+    clientTimestamp: new Date(row.client_timestamp),
+    reason: row.reason,
+    createdAt: new Date(row.created_at),
+});
+
+export const fetchOpenOfflineConflicts = async (): Promise<OfflineConflict[]> => {
+    const { data, error } = await supabase
+        .from('ponto_offline_conflicts')
+        .select('*')
+        .is('resolved_at', null)
+        .order('timestamp', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapConflict);
+};
+
+export const resolveOfflineConflict = async (id: number, actor: string): Promise<void> => {
+    const { error } = await supabase
+        .from('ponto_offline_conflicts')
+        .update({ resolved_at: new Date().toISOString(), resolved_by: actor })
+        .eq('id', id);
+    if (error) throw error;
+};
@@ -0,0 +1,110 @@
+import type { PunchLocation } from '../types';
+
+// Armazenamento local do quiosque (IndexedDB) para funcionar sem conexão:
+//   cache — última cópia de funcionários, batidas recentes e configurações;
+//   queue — batidas feitas offline aguardando envio, em ordem do contador da fila;
+//   meta  — contador crescente das batidas offline e demais valores do quiosque.
+// O contador pertence a uma fila identificada por um id aleatório, criado junto com ele: se os dados
+// do navegador forem apagados, a nova fila recomeça do 1 sem se confundir com batidas já enviadas.
+
+const DB_NAME = 'ponto-offline';
+const DB_VERSION = 1;
+const QUEUE_KEY = 'offlineQueue';
+
+export interface QueuedPunch {
+    queueId: string;
+    sequence: number; // Contador crescente da fila, nunca reutilizado
+    employeeId: number;
+    employeeName: string;
+    type: string;
+    timestamp: Date; // Horário do dispositivo corrigido pela última diferença medida com o servidor
+    clientTimestamp: Date; // Horário bruto do dispositivo
+    photo?: Blob | null; // Foto da batida, enviada junto na sincronização
+    location?: PunchLocation | null; // Avaliada pela cerca virtual na sincronização
+    idempotencyKey?: string; // Mesma chave da tentativa online: se ela chegou ao servidor, esta é descartada
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains('cache')) db.createObjectStore('cache');
+                if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+                if (!db.objectStoreNames.contains('queue')) db.createObjectStore('queue', { keyPath: 'sequence' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+export const cacheGet = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    return requestResult(db.transaction('cache').objectStore('cache').get(key));
+};
+
+export const cacheSet = async (key: string, value: unknown): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction('cache', 'readwrite');
+    tx.objectStore('cache').put(value, key);
+    await transactionDone(tx);
+};
+
+export const metaGet = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    return requestResult(db.transaction('meta').objectStore('meta').get(key));
+};
+
+export const metaSet = async (key: string, value: unknown): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction('meta', 'readwrite');
+    tx.objectStore('meta').put(value, key);
+    await transactionDone(tx);
+};
+
+/** Enfileira a batida e atribui o próximo contador na mesma transação. */
+export const enqueuePunch = async (punch: Omit<QueuedPunch, 'queueId' | 'sequence'>): Promise<QueuedPunch> => {
+    const db = await openDb();
+    const tx = db.transaction(['meta', 'queue'], 'readwrite');
+    const meta = tx.objectStore('meta');
+    const previous = (await requestResult(meta.get(QUEUE_KEY))) as { id: string; sequence: number } | undefined;
+    const current = { id: previous?.id || crypto.randomUUID(), sequence: (previous?.sequence || 0) + 1 };
+    const queued: QueuedPunch = { ...punch, queueId: current.id, sequence: current.sequence };
+    meta.put(current, QUEUE_KEY);
+    tx.objectStore('queue').add(queued);
+    await transactionDone(tx);
+    return queued;
+};
+
+export const listQueuedPunches = async (): Promise<QueuedPunch[]> => {
+    const db = await openDb();
+    return requestResult(db.transaction('queue').objectStore('queue').getAll());
+};
+
+export const removeQueuedPunch = async (sequence: number): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction('queue', 'readwrite');
+    tx.objectStore('queue').delete(sequence);
+    await transactionDone(tx);
+};
@@ -0,0 +1,182 @@
+import { supabase } from './supabase';
+import { eventDateKey } from './dateTime';
+import type { Employee, PayProfile, PayProfileAssignment, PayRules, StoredClockEvent } from '../types';
+
+// Valores usados antes dos perfis existirem (R$ 8,15/h, extra a R$ 16,30, jornada de 8h).
+// Continuam valendo para quem não tiver nenhum perfil atribuído.
+export const DEFAULT_PAY_PROFILE: PayProfile = {
+    id: 0,
+    name: 'Padrão',
+    payType: 'hourly',
+    hourlyRate: 8.15,
+    monthlySalary: 0,
+    monthlyHours: 220,
+    dailyJourneyMinutes: 8 * 60,
+    overtimeMultiplier: 2,
+    nightPremiumPercent: 20,
+    holidayMultiplier: 2,
+    timeBankEnabled: false,
+    timeBankExpiryMonths: 6,
+    replacedBy: null,
+};
+
+export const EMPTY_PAY_RULES: PayRules = { profiles: [], assignments: [] };
+
+/** Valor da hora normal: direto para horistas, salário / divisor para mensalistas. */
+export const getHourlyRate = (profile: PayProfile): number => {
+    if (profile.payType === 'monthly') {
+        return profile.monthlyHours > 0 ? profile.monthlySalary / profile.monthlyHours : 0;
+    }
+    return profile.hourlyRate;
+};
+
+const latestEffective = (assignments: PayProfileAssignment[], dateKey: string): PayProfileAssignment | undefined =>
+    assignments
+        .filter(a => a.effectiveFrom <= dateKey)
+        .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+
+/**
+ * Perfil vigente para o funcionário na data (YYYY-MM-DD).
+ * Prioridade: atribuição individual > atribuição pela função > atribuição geral > padrão.
+ * Como cada atribuição tem data de início, reajustes não alteram períodos anteriores.
+ */
+export const resolvePayProfile = (
+    rules: PayRules,
+    employeeId: number,
+    funcao: string | undefined,
+    dateKey: string
+): PayProfile => {
+    const normalizedFuncao = (funcao || '').trim().toLowerCase();
+
+    const candidates = [
+        rules.assignments.filter(a => a.employeeId === employeeId),
+        normalizedFuncao
+            ? rules.assignments.filter(a => a.employeeId === null && (a.funcao || '').trim().toLowerCase() === normalizedFuncao)
+            : [],
+        rules.assignments.filter(a => a.employeeId === null && !a.funcao),
+    ];
+
+    for (const group of candidates) {
+        const assignment = latestEffective(group, dateKey);
+        if (assignment) {
+            const profile = rules.profiles.find(p => p.id === assignment.profileId);
+            if (profile) return profile;
+        }
+    }
+
+    return DEFAULT_PAY_PROFILE;
+};
+
+/** Perfil vigente no dia em que o turno começou (data da Entrada no fuso em que foi gravada). */
+export const resolveShiftPayProfile = (
+    rules: PayRules,
+    employee: Employee | undefined,
+    shiftEvents: StoredClockEvent[]
+): PayProfile => {
+    if (shiftEvents.length === 0) return DEFAULT_PAY_PROFILE;
+    return resolvePayProfile(rules, shiftEvents[0].employeeId, employee?.funcao, eventDateKey(shiftEvents[0]));
+};
+
+const mapProfile = (row: any): PayProfile => ({
+    id: row.id,
+    name: row.name,
+    payType: row.pay_type,
+    hourlyRate: Number(row.hourly_rate) || 0,
+    monthlySalary: Number(row.monthly_salary) || 0,
+    monthlyHours: Number(row.monthly_hours) || 220,
+    dailyJourneyMinutes: row.daily_journey_minutes,
+    overtimeMultiplier: Number(row.overtime_multiplier) || 1,
+    nightPremiumPercent: Number(row.night_premium_percent) || 0,
+    holidayMultiplier: Number(row.holiday_multiplier) || 2,
+    timeBankEnabled: !!row.time_bank_enabled,
+    timeBankExpiryMonths: row.time_bank_expiry_months ?? 6,
+    replacedBy: row.replaced_by ?? null,
+});
+
+const mapAssignment = (row: any): PayProfileAssignment => ({
+    id: row.id,
+    profileId: row.profile_id,
+    employeeId: row.employee_id,
+    funcao: row.funcao,
+    effectiveFrom: row.effective_from,
+});
+
+/** Perfis e atribuições a partir das linhas das tabelas (Supabase ou api/pay-rules.js). */
+export const payRulesFromRows = (profileRows: any[], assignmentRows: any[]): PayRules => ({
+    profiles: profileRows.map(mapProfile),
+    assignments: assignmentRows.map(mapAssignment),
+});
+
+export const fetchPayRules = async (): Promise<PayRules> => {
+    const [profilesResult, assignmentsResult] = await Promise.all([
+        supabase.from('ponto_pay_profiles').select('*').order('name', { ascending: true }),
+        supabase.from('ponto_pay_assignments').select('*').order('effective_from', { ascending: true }),
+    ]);
+    if (profilesResult.error) throw profilesResult.error;
+    if (assignmentsResult.error) throw assignmentsResult.error;
+
+    return payRulesFromRows(profilesResult.data || [], assignmentsResult.data || []);
+};
+
+export type PayProfileValues = Omit<PayProfile, 'id' | 'replacedBy'>;
+
+export const toProfileRow = (profile: PayProfileValues) => ({
+        name: profile.name,
+        pay_type: profile.payType,
+        hourly_rate: profile.hourlyRate,
+        monthly_salary: profile.monthlySalary,
+        monthly_hours: profile.monthlyHours,
+        daily_journey_minutes: profile.dailyJourneyMinutes,
+        overtime_multiplier: profile.overtimeMultiplier,
+        night_premium_percent: profile.nightPremiumPercent,
+        holiday_multiplier: profile.holidayMultiplier,
+        time_bank_enabled: profile.timeBankEnabled,
+        time_bank_expiry_months: profile.timeBankExpiryMonths,
+});
+
+/** Perfil com atribuições não muda mais: novos valores entram por savePayProfileVersion. */
+export const isPayProfileAssigned = (rules: PayRules, profileId: number): boolean =>
+    rules.assignments.some(assignment => assignment.profileId === profileId);
+
+export const savePayProfile = async (profile: PayProfileValues & { id?: number }): Promise<void> => {
+    const row = toProfileRow(profile);
+    const { error } = profile.id
+        ? await supabase.from('ponto_pay_profiles').update(row).eq('id', profile.id)
+        : await supabase.from('ponto_pay_profiles').insert([row]);
+    if (error) throw error;
+};
+
+/**
+ * Grava os novos valores de um perfil já atribuído como uma nova versão, vigente a partir de effectiveFrom
+ * (YYYY-MM-DD) para todos que usavam o perfil nessa data. Os períodos anteriores mantêm os valores antigos.
+ */
+export const savePayProfileVersion = async (profileId: number, profile: PayProfileValues, effectiveFrom: string): Promise<void> => {
+    const { error } = await supabase.rpc('save_pay_profile_version', {
+        p_profile_id: profileId,
+        p_profile: toProfileRow(profile),
+        p_effective_from: effectiveFrom,
+    });
+    if (error) throw error;
+};
+
+export const deletePayProfile = async (profileId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_pay_profiles').delete().eq('id', profileId);
+    if (error) throw error;
+};
+
+export const toAssignmentRow = (assignment: Omit<PayProfileAssignment, 'id'>) => ({
+    profile_id: assignment.profileId,
+    employee_id: assignment.employeeId,
+    funcao: assignment.funcao,
+    effective_from: assignment.effectiveFrom,
+});
+
+export const addPayAssignment = async (assignment: Omit<PayProfileAssignment, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('ponto_pay_assignments').insert([toAssignmentRow(assignment)]);
+    if (error) throw error;
+};
+
+export const deletePayAssignment = async (assignmentId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_pay_assignments').delete().eq('id', assignmentId);
+    if (error) throw error;
+};
@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import { getDeviceToken } from './kiosk';
+
+// Onde ficam as fotos tiradas no momento da batida. A batida guarda apenas o caminho
+// (<funcionário>/<uuid>.jpg); a imagem fica no bucket privado do Supabase ou, quando
+// VITE_PHOTO_STORAGE_URL está definido, no disco local servido por photo-server.js.
+export interface PhotoStorage {
+    /** Envio pelo quiosque: só aceito para o caminho já vinculado à batida e com o token do dispositivo. */
+    upload: (path: string, photo: Blob, deviceToken: string | null) => Promise<void>;
+    /** Endereços para exibir as fotos no painel; caminhos sem foto acessível ficam de fora. */
+    getUrls: (paths: string[]) => Promise<Record<string, string>>;
+}
+
+const PHOTO_BUCKET = 'ponto-fotos';
+
+const supabaseStorage: PhotoStorage = {
+    upload: async (path, photo, deviceToken) => {
+        const { error } = await supabase.storage.from(PHOTO_BUCKET).upload(path, photo, {
+            contentType: 'image/jpeg',
+            headers: { 'x-device-token': deviceToken ?? '' },
+        });
+        if (error) throw error;
+    },
+    getUrls: async (paths) => {
+        if (paths.length === 0) return {};
+        const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, 300);
+        if (error) throw error;
+        const urls: Record<string, string> = {};
+        for (const item of data || []) {
+            if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+        }
+        return urls;
+    },
+};
+
+// A leitura exige o token do gestor, que não vai numa tag <img>: as fotos são baixadas e exibidas por blob URL
+const localDiskStorage = (baseUrl: string): PhotoStorage => {
+    const objectUrls = new Map<string, string>();
+    return {
+        upload: async (path, photo, deviceToken) => {
+            const response = await fetch(`${baseUrl}/${path}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'image/jpeg', 'X-Device-Token': deviceToken ?? '' },
+                body: photo,
+            });
+            if (!response.ok) throw new Error(`Servidor de fotos recusou o envio (${response.status})`);
+        },
+        getUrls: async (paths) => {
+            const { data: { session } } = await supabase.auth.getSession();
+            const urls: Record<string, string> = {};
+            for (const path of paths) {
+                if (!objectUrls.has(path)) {
+                    const response = await fetch(`${baseUrl}/${path}`, {
+                        headers: { Authorization: `Bearer ${session?.access_token ?? ''}` },
+                    });
+                    if (!response.ok) continue;
+                    objectUrls.set(path, URL.createObjectURL(await response.blob()));
+                }
+                urls[path] = objectUrls.get(path)!;
+            }
+            return urls;
+        },
+    };
+};
+
+const localStorageUrl = import.meta.env.VITE_PHOTO_STORAGE_URL?.replace(/\/+$/, '');
+
+export const photoStorage: PhotoStorage = localStorageUrl ? localDiskStorage(localStorageUrl) : supabaseStorage;
+
+/**
+ * Vincula a foto à batida recém-gravada — pelo id (online) ou pela fila offline — e envia o arquivo.
+ * O nome é sorteado para não ser adivinhado; o banco só aceita o vínculo nos primeiros minutos após a
+ * gravação e devolve o caminho aceito, o único para o qual o envio é liberado.
+ */
+export const attachPunchPhoto = async (
+    employeeId: number,
+    photo: Blob,
+    target: { eventId: number } | { queueId: string; sequence: number }
+): Promise<void> => {
+    const deviceToken = getDeviceToken();
+    const path = `${employeeId}/${crypto.randomUUID()}.jpg`;
+    const { data: attachedPath, error } = await supabase.rpc('attach_punch_photo', 'eventId' in target
+        ? { p_device_token: deviceToken, p_path: path, p_event_id: target.eventId }
+        : { p_device_token: deviceToken, p_path: path, p_queue_id: target.queueId, p_sequence: target.sequence });
+    if (error) throw error;
+
+    await photoStorage.upload(attachedPath, photo, deviceToken);
+};
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import { getMaxShiftMs } from './shiftPolicy';
+import type { StoredClockEvent } from '../types';
+import { ClockType } from '../types';
+
+// Sequência das batidas (migrations/punch_sequence.sql): Entrada → Início Intervalo ⇄ Fim Intervalo → Saída.
+// O banco recusa qualquer gravação fora de ordem com um dos códigos abaixo (SQLSTATE do erro); aqui ficam as
+// mesmas regras para o quiosque habilitar os botões e a consulta das batidas já gravadas fora de ordem.
+
+export type PunchSequenceErrorCode = 'PS001' | 'PS002' | 'PS003' | 'PS004';
+
+export const PUNCH_SEQUENCE_ERROR_LABELS: Record<PunchSequenceErrorCode, string> = {
+    PS001: 'Sem turno aberto',
+    PS002: 'Entrada com turno aberto',
+    PS003: 'Fim de intervalo sem início',
+    PS004: 'Intervalo não encerrado',
+};
+
+// Próximas batidas válidas a partir da última do turno aberto (null = sem turno aberto)
+const NEXT_TYPES: Record<ClockType | 'none', ClockType[]> = {
+    none: [ClockType.Entrada],
+    [ClockType.Entrada]: [ClockType.InicioIntervalo, ClockType.Saida],
+    [ClockType.InicioIntervalo]: [ClockType.FimIntervalo],
+    [ClockType.FimIntervalo]: [ClockType.InicioIntervalo, ClockType.Saida],
+    [ClockType.Saida]: [ClockType.Entrada],
+};
+
+/** Tipo da última batida do turno aberto em `at`, ou null se não houver turno aberto (ou ele passou do limite). */
+export const getPunchState = (employeeEvents: StoredClockEvent[], at = Date.now()): ClockType | null => {
+    const sorted = employeeEvents
+        .filter(event => event.timestamp.getTime() <= at)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const last = sorted[sorted.length - 1];
+    if (!last || last.type === ClockType.Saida) return null;
+
+    const entry = sorted.filter(event => event.type === ClockType.Entrada).pop();
+    if (!entry || at - entry.timestamp.getTime() > getMaxShiftMs()) return null;
+    return last.type;
+};
+
+export const allowedNextTypes = (employeeEvents: StoredClockEvent[], at = Date.now()): ClockType[] =>
+    NEXT_TYPES[getPunchState(employeeEvents, at) ?? 'none'];
+
+export const isPunchSequenceError = (error: any): boolean =>
+    typeof error?.code === 'string' && error.code in PUNCH_SEQUENCE_ERROR_LABELS;
+
+export interface PunchSequenceIssue {
+    eventId: number;
+    employeeId: number;
+    employeeName: string;
+    type: ClockType;
+    timestamp: Date;
+    previousState: ClockType | null; // Última batida do turno aberto antes desta (null = sem turno aberto)
+    code: PunchSequenceErrorCode;
+    message: string;
+}
+
+/** Batidas gravadas fora de sequência no período (ferramenta "Validar período" do painel). */
+export const validatePunchSequences = async (start: Date, end: Date, employeeId?: number): Promise<PunchSequenceIssue[]> => {
+    const { data, error } = await supabase.rpc('validate_punch_sequences', {
+        p_start: start.toISOString(),
+        p_end: end.toISOString(),
+        p_employee_id: employeeId ?? null,
+    });
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        eventId: row.event_id,
+        employeeId: row.employee_id,
+        employeeName: row.employee_name,
+        type: row.type,
+        timestamp: new Date(row.timestamp),
+        previousState: row.previous_state ?? null,
+        code: row.code,
+        message: row.message,
+    }));
+};
@@ -0,0 +1,196 @@
+import QRCode from 'qrcode';
+import { supabase } from './supabase';
+import { eventTimeZone, formatDateTime } from './dateTime';
+import { formatDocument } from './documents';
+import type { AppSettings } from './settings';
+import type { RegisteredPunch } from './repository';
+import type { Employee, PunchReceipt, ReceiptVerification } from '../types';
+
+// Comprovante de registro de ponto (Portaria MTP nº 671/2021), gerado a partir da batida devolvida por
+// register_punch. O mesmo conteúdo sai em três formatos: impressão em bobina (HTML de 80 mm ou comandos
+// ESC/POS para impressoras térmicas) e PDF. O QR code leva à página pública de verificação
+// (?comprovante=<código>), que confere o código com o banco (migrations/receipts.sql).
+
+export const RECEIPT_QUERY_PARAM = 'comprovante';
+
+export const buildReceipt = (punch: RegisteredPunch, employee: Employee, settings: AppSettings): PunchReceipt | null => {
+    if (!punch.nsr || !punch.receiptHash) return null;
+    return {
+        nsr: punch.nsr,
+        employeeName: employee.name,
+        employeeCpf: employee.cpf || '',
+        employerName: settings.employerName,
+        employerDocument: settings.employerDocument,
+        type: punch.event.type,
+        timestamp: punch.event.timestamp,
+        timeZone: eventTimeZone(punch.event),
+        hash: punch.receiptHash,
+    };
+};
+
+export const getVerificationUrl = (hash: string): string =>
+    `${window.location.origin}${window.location.pathname}?${RECEIPT_QUERY_PARAM}=${hash}`;
+
+/** Linhas do comprovante, comuns a todos os formatos. O código é quebrado para caber na bobina. */
+export const receiptLines = (receipt: PunchReceipt): string[] => [
+    `Empregador: ${receipt.employerName || '---'}`,
+    `CNPJ/CPF: ${formatDocument(receipt.employerDocument) || '---'}`,
+    `Trabalhador: ${receipt.employeeName}`,
+    `CPF: ${formatDocument(receipt.employeeCpf) || '---'}`,
+    `Data e hora: ${formatDateTime(receipt.timestamp, receipt.timeZone)}`,
+    `Fuso: ${receipt.timeZone}`,
+    `Marcação: ${receipt.type}`,
+    `NSR: ${String(receipt.nsr).padStart(9, '0')}`,
+    'Código de verificação (SHA-256):',
+    receipt.hash.slice(0, 32),
+    receipt.hash.slice(32),
+];
+
+export const RECEIPT_TITLE = 'COMPROVANTE DE REGISTRO DE PONTO DO TRABALHADOR';
+
+// PDF e ESC/POS usam um byte por caractere (WinAnsi/CP1252, que coincide com o Latin-1 nos acentos do português)
+const toSingleByte = (text: string): string => text.replace(/[^\x20-\xff]/g, '?');
+
+const escapePdfText = (text: string): string => toSingleByte(text).replace(/[\\()]/g, match => `\\${match}`);
+
+/** PDF de uma página no tamanho da bobina (80 mm), com o QR code de verificação. */
+export const generateReceiptPdf = (receipt: PunchReceipt): Blob => {
+    const width = 227; // 80 mm em pontos
+    const height = 440;
+    const margin = 12;
+    const qr = QRCode.create(getVerificationUrl(receipt.hash), { errorCorrectionLevel: 'M' }).modules;
+    const qrSize = 130;
+    const cell = qrSize / qr.size;
+    const qrX = (width - qrSize) / 2;
+
+    // Título em duas linhas para caber na largura da bobina
+    const commands: string[] = [
+        'BT', '/F1 9 Tf', `${margin} ${height - 24} Td`,
+        '(COMPROVANTE DE REGISTRO DE PONTO) Tj', '0 -12 Td', '(DO TRABALHADOR) Tj', '/F1 8 Tf', '0 -4 Td',
+    ];
+    for (const line of receiptLines(receipt)) {
+        commands.push('0 -13 Td', `(${escapePdfText(line)}) Tj`);
+    }
+    commands.push('ET');
+    for (let row = 0; row < qr.size; row++) {
+        for (let col = 0; col < qr.size; col++) {
+            if (qr.get(row, col)) {
+                commands.push(`${(qrX + col * cell).toFixed(2)} ${(margin + 20 + (qr.size - row - 1) * cell).toFixed(2)} ${cell.toFixed(2)} ${cell.toFixed(2)} re`);
+            }
+        }
+    }
+    commands.push('f', 'BT', '/F1 7 Tf', `${margin} ${margin + 4} Td`, `(${escapePdfText('Verifique este comprovante pelo QR code.')}) Tj`, 'ET');
+    const content = commands.join('\n');
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    ];
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+        const offset = pdf.length;
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return new Blob([Uint8Array.from(pdf, char => char.charCodeAt(0))], { type: 'application/pdf' });
+};
+
+/** Comandos ESC/POS para impressora térmica: texto em CP1252, QR code nativo da impressora e corte. */
+export const generateEscPos = (receipt: PunchReceipt): Uint8Array => {
+    const ESC = 0x1b;
+    const GS = 0x1d;
+    const bytes: number[] = [];
+    const text = (value: string) => {
+        for (const char of toSingleByte(value)) bytes.push(char.charCodeAt(0));
+        bytes.push(0x0a);
+    };
+
+    bytes.push(ESC, 0x40, ESC, 0x74, 16); // Inicializa e seleciona a página de código WPC1252
+    bytes.push(ESC, 0x61, 1, ESC, 0x45, 1); // Centralizado, negrito
+    text(RECEIPT_TITLE);
+    bytes.push(ESC, 0x45, 0, ESC, 0x61, 0);
+    receiptLines(receipt).forEach(text);
+
+    const qrData = Array.from(new TextEncoder().encode(getVerificationUrl(receipt.hash)));
+    const storeLength = qrData.length + 3;
+    bytes.push(ESC, 0x61, 1, 0x0a);
+    bytes.push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0); // Modelo 2
+    bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 5); // Tamanho do módulo
+    bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31); // Correção de erro M
+    bytes.push(GS, 0x28, 0x6b, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30, ...qrData);
+    bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30); // Imprime o QR code
+    bytes.push(0x0a);
+    text('Verifique este comprovante pelo QR code.');
+    bytes.push(ESC, 0x64, 4, GS, 0x56, 1); // Avança e corta o papel
+
+    return Uint8Array.from(bytes);
+};
+
+/** Abre o comprovante no layout de bobina de 80 mm e chama a impressão do navegador. */
+export const printReceipt = async (receipt: PunchReceipt): Promise<void> => {
+    const qrSvg = await QRCode.toString(getVerificationUrl(receipt.hash), { type: 'svg', margin: 0, errorCorrectionLevel: 'M' });
+    const escapeHtml = (value: string) => value.replace(/[&<>"]/g, char => `&#${char.charCodeAt(0)};`);
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        alert('Permita janelas pop-up para imprimir o comprovante');
+        return;
+    }
+    printWindow.document.write(`
+        <html>
+        <head>
+            <title>Comprovante NSR ${receipt.nsr}</title>
+            <style>
+                @page { size: 80mm auto; margin: 4mm; }
+                body { font-family: monospace; font-size: 11px; width: 72mm; margin: 0; }
+                h1 { font-size: 11px; text-align: center; margin: 0 0 6px; }
+                p { margin: 2px 0; word-break: break-all; }
+                .qr { width: 40mm; margin: 8px auto 4px; display: block; }
+            </style>
+        </head>
+        <body onload="window.print()">
+            <h1>${RECEIPT_TITLE}</h1>
+            ${receiptLines(receipt).map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+            <div class="qr">${qrSvg}</div>
+            <p style="text-align: center;">Verifique este comprovante pelo QR code.</p>
+        </body>
+        </html>
+    `);
+    printWindow.document.close();
+};
+
+export const downloadReceiptFile = (content: Blob | Uint8Array, fileName: string) => {
+    const blob = content instanceof Blob ? content : new Blob([content as BlobPart], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const verifyReceipt = async (hash: string): Promise<ReceiptVerification> => {
+    const { data, error } = await supabase.rpc('verify_receipt', { p_hash: hash });
+    if (error) throw error;
+    if (data.status === 'not_found') return { status: 'not_found' };
+    return {
+        status: data.status,
+        nsr: Number(data.nsr),
+        employeeName: data.employee_name,
+        maskedCpf: data.cpf_masked,
+        type: data.type,
+        timestamp: new Date(data.timestamp),
+        currentTimestamp: data.current_timestamp ? new Date(data.current_timestamp) : null,
+        recordedAt: data.recorded_at ? new Date(data.recorded_at) : null,
+        timeZone: data.time_zone ?? undefined,
+    };
+};
@@ -0,0 +1,136 @@
+import type {
+    ClockEvent, ClockType, Employee, Holiday, Manager, PayProfileAssignment, PayRules, PunchLocation, StoredClockEvent,
+} from '../types';
+import type { PinVerification } from './credentials';
+import type { PayProfileValues } from './payProfiles';
+import type { AppSettings } from './settings';
+import { createSupabaseRepositories } from './supabaseRepository';
+import { createRestRepositories } from './restRepository';
+import { createMemoryRepositories } from './memoryRepository';
+
+// Acesso aos dados do quiosque e do painel do gestor. O app fala só com estas interfaces; a implementação
+// é escolhida por VITE_DATA_BACKEND:
+// * supabase (padrão): tabelas ponto_*, funções do banco com auditoria e tempo real.
+// * postgres: rotas de api/ (Vercel Postgres, schema.sql) em VITE_API_BASE_URL, com horário do servidor,
+//   conferência do PIN, auditoria e exclusão lógica feitas pelas rotas.
+// * memory: demonstração com dados no navegador, que somem ao recarregar a página.
+// Os dois últimos não têm os recursos de supportsServerFeatures: essas telas e ações ficam desligadas.
+
+export type DataBackend = 'supabase' | 'postgres' | 'memory';
+
+/** Batida do quiosque a registrar; o horário oficial é o do servidor quando o backend o define. */
+export interface PunchRequest {
+    employee: Employee;
+    type: ClockType;
+    clientTimestamp: Date;
+    location: PunchLocation | null;
+    idempotencyKey: string; // A mesma em todas as tentativas da mesma batida
+    deviceToken: string | null;
+    sessionToken: string | null; // Sessão aberta pelo PIN; o backend Postgres identifica o funcionário por ela
+}
+
+export interface RegisteredPunch {
+    event: StoredClockEvent;
+    nsr: number | null; // Sem NSR o quiosque não emite comprovante
+    receiptHash: string | null;
+}
+
+export interface EmployeeRepository {
+    list(): Promise<Employee[]>;
+    create(employee: Omit<Employee, 'id'>): Promise<Employee>;
+    update(employee: Employee): Promise<void>;
+    remove(employeeId: number): Promise<void>;
+    setPin(employeeId: number, pin: string): Promise<void>;
+    setBirthDate(employeeId: number, birthDate: string): Promise<void>;
+    /** Cadastro do funcionário da sessão aberta pelo PIN; o quiosque não lê a lista de funcionários. */
+    getForSession(sessionToken: string): Promise<Employee>;
+    /** Confere o PIN do teclado do quiosque, com o controle de tentativas do backend. */
+    verifyPin(pin: string, deviceToken: string | null): Promise<PinVerification>;
+}
+
+/** Batidas ativas; alterações administrativas levam a justificativa para a trilha de auditoria. */
+export interface EventRepository {
+    /** Todas as batidas, para o painel do gestor. */
+    list(): Promise<StoredClockEvent[]>;
+    /** Batidas do funcionário da sessão aberta pelo PIN (verifyPin ou área do funcionário). */
+    listForSession(sessionToken: string): Promise<StoredClockEvent[]>;
+    registerPunch(punch: PunchRequest): Promise<RegisteredPunch>;
+    insertManual(employeeId: number, type: ClockType, timestamp: Date, reason: string): Promise<void>;
+    insertManualBreak(employeeId: number, start: Date, end: Date, reason: string): Promise<void>;
+    update(eventId: number, changes: ClockEvent, reason: string): Promise<void>;
+    remove(eventId: number, reason: string): Promise<void>;
+}
+
+export interface ManagerRepository {
+    /** Gestor da sessão atual; null sem sessão ou se o e-mail não tiver acesso ao painel. */
+    current(): Promise<Manager | null>;
+    /** Entra com e-mail e senha; null se o e-mail não tiver acesso ao painel. */
+    signIn(email: string, password: string): Promise<Manager | null>;
+    signOut(): Promise<void>;
+}
+
+export interface SettingsRepository {
+    load(): Promise<AppSettings>;
+    save(changes: Partial<AppSettings>): Promise<void>;
+}
+
+/** Perfis de remuneração; perfis já atribuídos só mudam por nova versão (saveProfileVersion). */
+export interface PayRulesRepository {
+    load(): Promise<PayRules>;
+    saveProfile(profile: PayProfileValues & { id?: number }): Promise<void>;
+    saveProfileVersion(profileId: number, profile: PayProfileValues, effectiveFrom: string): Promise<void>;
+    removeProfile(profileId: number): Promise<void>;
+    addAssignment(assignment: Omit<PayProfileAssignment, 'id'>): Promise<void>;
+    removeAssignment(assignmentId: number): Promise<void>;
+}
+
+/** Feriados cadastrados pelo gestor (os nacionais são gerados em lib/holidays.ts). */
+export interface HolidayRepository {
+    list(): Promise<Holiday[]>;
+    add(holiday: Omit<Holiday, 'id'>): Promise<void>;
+    remove(holidayId: number): Promise<void>;
+}
+
+// Datas viram texto no JSON do backup
+type Serialized<T> = { [K in keyof T]: T[K] extends Date | null | undefined ? string | Exclude<T[K], Date> : T[K] };
+
+/** Arquivo de backup gerado pelo painel (App.handleDownloadBackup). */
+export interface BackupData {
+    employees: Employee[]; // Backups antigos trazem também o PIN em texto
+    events: Serialized<StoredClockEvent>[];
+}
+
+export interface DataRepositories {
+    backend: DataBackend;
+    /** Funções do Supabase além dos repositórios abaixo: dispositivos, fila offline, fotos, fechamento
+     *  automático de turno, área do funcionário, escalas, afastamentos, banco de horas, solicitações de
+     *  ajuste, alertas, AFD/AEJ, histórico de auditoria, locais, cadastro de gestores, limpeza e validação
+     *  de batidas. */
+    supportsServerFeatures: boolean;
+    employees: EmployeeRepository;
+    events: EventRepository;
+    managers: ManagerRepository;
+    settings: SettingsRepository;
+    payRules: PayRulesRepository;
+    holidays: HolidayRepository;
+    /** Grava os funcionários e as batidas de um arquivo de backup por cima dos atuais. */
+    restoreBackup(backup: BackupData): Promise<void>;
+    /** Avisa quando os dados mudam fora deste aparelho; retorna a função que cancela a inscrição. */
+    subscribe(onChange: (table: 'employees' | 'events') => void): () => void;
+}
+
+export const getDataBackend = (): DataBackend => {
+    const backend = import.meta.env.VITE_DATA_BACKEND || 'supabase';
+    if (backend !== 'supabase' && backend !== 'postgres' && backend !== 'memory') {
+        throw new Error(`VITE_DATA_BACKEND inválido: "${backend}". Use supabase, postgres ou memory.`);
+    }
+    return backend;
+};
+
+export const createRepositories = (backend: DataBackend): DataRepositories => {
+    if (backend === 'memory') return createMemoryRepositories();
+    if (backend === 'postgres') return createRestRepositories(import.meta.env.VITE_API_BASE_URL || '');
+    return createSupabaseRepositories();
+};
+
+export const repositories = createRepositories(getDataBackend());
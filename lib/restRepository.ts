@@ -0,0 +1,244 @@
+import type { Employee, StoredClockEvent } from '../types';
+import { mapHoliday } from './holidays';
+import { payRulesFromRows, toAssignmentRow, toProfileRow } from './payProfiles';
+import { settingsFromRows, settingsToRows } from './settings';
+import type {
+    DataRepositories, EmployeeRepository, EventRepository, HolidayRepository, ManagerRepository, PayRulesRepository,
+    SettingsRepository,
+} from './repository';
+
+// Backend das rotas REST de api/ (Vercel Postgres, schema.sql). As regras ficam nas rotas: a batida do
+// quiosque leva o horário do servidor e vale pela sessão aberta pelo PIN, que o banco guarda só como hash;
+// inclusões, ajustes e exclusões do gestor exigem justificativa, vão para event_audit e a exclusão é lógica.
+// O gestor é o único acesso definido nas variáveis do servidor; o token do login fica na aba do navegador.
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const MANAGER_TOKEN_KEY = 'pontoManagerToken';
+
+// Erros das rotas ({ error, code }) viram exceções com o mesmo code, como os do Supabase (PD001 etc.)
+const request = async <T>(baseUrl: string, path: string, init?: RequestInit): Promise<T> => {
+    const managerToken = sessionStorage.getItem(MANAGER_TOKEN_KEY);
+    const response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(managerToken ? { Authorization: `Bearer ${managerToken}` } : {}),
+            ...init?.headers,
+        },
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw Object.assign(new Error(body?.error || `Erro ${response.status} em ${path}`), { code: body?.code });
+    }
+    return body as T;
+};
+
+const mapEmployee = (row: any): Employee => ({
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    cpf: row.cpf ?? undefined,
+    funcao: row.funcao ?? undefined,
+    pix: row.pix ?? undefined,
+    restWeekday: row.restWeekday ?? undefined,
+});
+
+const mapEvent = (row: any): StoredClockEvent => ({
+    id: row.id,
+    employeeId: row.employeeId,
+    employeeName: row.employeeName,
+    type: row.type,
+    timestamp: new Date(row.timestamp),
+    source: row.source ?? undefined,
+    clientTimestamp: row.clientTimestamp ? new Date(row.clientTimestamp) : null,
+    editedAt: row.editedAt ? new Date(row.editedAt) : null,
+    originalTimestamp: row.originalTimestamp ? new Date(row.originalTimestamp) : null,
+    timeZone: row.timeZone ?? undefined,
+});
+
+const json = (method: string, body: unknown): RequestInit => ({ method, body: JSON.stringify(body) });
+
+export const createRestRepositories = (baseUrl: string): DataRepositories => {
+    const call = <T>(path: string, init?: RequestInit) => request<T>(baseUrl, path, init);
+
+    const toEmployeeBody = ({ pin, birthDate, ...employee }: Omit<Employee, 'id'> & { id?: number }) => employee;
+
+    const employees: EmployeeRepository = {
+        async list() {
+            return (await call<any[]>('/api/employees')).map(mapEmployee);
+        },
+
+        async getForSession(sessionToken) {
+            return mapEmployee(await call(`/api/employees?session=${encodeURIComponent(sessionToken)}`));
+        },
+
+        async create(employee) {
+            const { employee: row } = await call<{ employee: any }>('/api/employees', json('POST', toEmployeeBody(employee)));
+            return mapEmployee(row);
+        },
+
+        async update(employee) {
+            await call('/api/employees', json('PUT', toEmployeeBody(employee)));
+        },
+
+        // A rota recusa a exclusão de funcionários com batidas
+        async remove(employeeId) {
+            await call(`/api/employees?id=${employeeId}`, { method: 'DELETE' });
+        },
+
+        async setPin(employeeId, pin) {
+            await call('/api/pin', json('PUT', { employeeId, pin }));
+        },
+
+        // A data de nascimento só dá acesso à área do funcionário, que este backend não tem
+        async setBirthDate() {},
+
+        async verifyPin(pin) {
+            return call('/api/pin', json('POST', { pin }));
+        },
+    };
+
+    const events: EventRepository = {
+        async list() {
+            return (await call<any[]>('/api/events')).map(mapEvent);
+        },
+
+        async listForSession(sessionToken) {
+            return (await call<any[]>(`/api/events?session=${encodeURIComponent(sessionToken)}`)).map(mapEvent);
+        },
+
+        // O funcionário vem da sessão e o horário oficial é o do servidor; o do aparelho vai como referência
+        async registerPunch({ type, clientTimestamp, idempotencyKey, sessionToken }) {
+            if (!sessionToken) throw new Error('Sessão do funcionário expirada. Digite o PIN novamente.');
+            const { event } = await call<{ event: any }>('/api/events', json('POST', {
+                kind: 'punch',
+                sessionToken,
+                type,
+                clientTimestamp: clientTimestamp.toISOString(),
+                idempotencyKey,
+            }));
+            return { event: mapEvent(event), nsr: null, receiptHash: null };
+        },
+
+        async insertManual(employeeId, type, timestamp, reason) {
+            await call('/api/events', json('POST', { kind: 'manual', employeeId, type, timestamp: timestamp.toISOString(), reason }));
+        },
+
+        async insertManualBreak(employeeId, start, end, reason) {
+            await call('/api/events', json('POST', {
+                kind: 'break',
+                employeeId,
+                start: start.toISOString(),
+                end: end.toISOString(),
+                reason,
+            }));
+        },
+
+        async update(eventId, changes, reason) {
+            await call('/api/events', json('PUT', { id: eventId, type: changes.type, timestamp: changes.timestamp.toISOString(), reason }));
+        },
+
+        async remove(eventId, reason) {
+            await call('/api/events', json('DELETE', { id: eventId, reason }));
+        },
+    };
+
+    const managers: ManagerRepository = {
+        async current() {
+            if (!sessionStorage.getItem(MANAGER_TOKEN_KEY)) return null;
+            const { manager } = await call<{ manager: any }>('/api/session');
+            if (!manager) sessionStorage.removeItem(MANAGER_TOKEN_KEY);
+            return manager;
+        },
+
+        async signIn(email, password) {
+            const { token, manager } = await call<{ token: string; manager: any }>('/api/session', json('POST', { email, password }));
+            sessionStorage.setItem(MANAGER_TOKEN_KEY, token);
+            return manager;
+        },
+
+        async signOut() {
+            sessionStorage.removeItem(MANAGER_TOKEN_KEY);
+        },
+    };
+
+    const settings: SettingsRepository = {
+        async load() {
+            return settingsFromRows(await call('/api/settings'));
+        },
+
+        async save(changes) {
+            const rows = settingsToRows(changes);
+            if (rows.length === 0) return;
+            await call('/api/settings', json('PUT', { rows }));
+        },
+    };
+
+    const payRules: PayRulesRepository = {
+        async load() {
+            const { profiles, assignments } = await call<{ profiles: any[]; assignments: any[] }>('/api/pay-rules');
+            return payRulesFromRows(profiles, assignments);
+        },
+
+        async saveProfile(profile) {
+            await call('/api/pay-rules', profile.id
+                ? json('PUT', { id: profile.id, profile: toProfileRow(profile) })
+                : json('POST', { kind: 'profile', profile: toProfileRow(profile) }));
+        },
+
+        async saveProfileVersion(profileId, profile, effectiveFrom) {
+            await call('/api/pay-rules', json('POST', { kind: 'version', profileId, profile: toProfileRow(profile), effectiveFrom }));
+        },
+
+        async removeProfile(profileId) {
+            await call(`/api/pay-rules?profileId=${profileId}`, { method: 'DELETE' });
+        },
+
+        async addAssignment(assignment) {
+            await call('/api/pay-rules', json('POST', { kind: 'assignment', assignment: toAssignmentRow(assignment) }));
+        },
+
+        async removeAssignment(assignmentId) {
+            await call(`/api/pay-rules?assignmentId=${assignmentId}`, { method: 'DELETE' });
+        },
+    };
+
+    const holidays: HolidayRepository = {
+        async list() {
+            return (await call<any[]>('/api/holidays')).map(mapHoliday);
+        },
+
+        async add(holiday) {
+            await call('/api/holidays', json('POST', holiday));
+        },
+
+        async remove(holidayId) {
+            await call(`/api/holidays?id=${holidayId}`, { method: 'DELETE' });
+        },
+    };
+
+    return {
+        backend: 'postgres',
+        supportsServerFeatures: false,
+        employees,
+        events,
+        managers,
+        settings,
+        payRules,
+        holidays,
+
+        // A rota grava pelo id, sem apagar nada, e ignora PINs em texto de backups antigos
+        async restoreBackup(backup) {
+            await call('/api/restore-backup', json('POST', backup));
+        },
+
+        // As rotas não avisam alterações: recarrega periodicamente
+        subscribe(onChange) {
+            const intervalId = setInterval(() => {
+                onChange('employees');
+                onChange('events');
+            }, POLL_INTERVAL_MS);
+            return () => clearInterval(intervalId);
+        },
+    };
+};
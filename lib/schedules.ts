@@ -0,0 +1,327 @@
+import { supabase } from './supabase';
+import { addDaysToKey, daysBetweenKeys, eventDateKey, eventTimeZone, getTimeZone, toDateKey, todayKey, toTimeKey, weekdayOfKey, zonedTimeToInstant } from './dateTime';
+import { classifyDay, findHoliday } from './holidays';
+import { groupEventsByShifts } from './workCalculation';
+import type { Employee, Holiday, Leave, ScheduleAssignment, ScheduleDay, ScheduleRules, StoredClockEvent, WorkSchedule } from '../types';
+import { ClockType } from '../types';
+
+// Escalas de trabalho e comparação do que foi batido com o que era esperado.
+// Tolerância da CLT (art. 58, § 1º): variações de até 5 minutos por marcação, limitadas a 10 minutos
+// no dia, não são descontadas nem computadas. Passando do limite, conta-se a variação inteira.
+
+export const PUNCH_TOLERANCE_MINUTES = 5;
+export const DAILY_TOLERANCE_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+export const EMPTY_SCHEDULE_RULES: ScheduleRules = { schedules: [], assignments: [] };
+
+const workDay = (start: string, end: string, breakMinutes = 60): ScheduleDay => ({ start, end, breakMinutes });
+
+/** Modelos usados para preencher o cadastro de uma nova escala. */
+export const SCHEDULE_TEMPLATES: { label: string; schedule: Omit<WorkSchedule, 'id'> }[] = [
+    {
+        label: '5x2 (segunda a sexta, 8h)',
+        schedule: { name: '5x2', kind: 'weekly', days: [null, ...Array.from({ length: 5 }, () => workDay('08:00', '17:00')), null] },
+    },
+    {
+        label: '6x1 (segunda a sábado, 7h20)',
+        schedule: { name: '6x1', kind: 'weekly', days: [null, ...Array.from({ length: 6 }, () => workDay('08:00', '16:20'))] },
+    },
+    {
+        label: '12x36',
+        schedule: { name: '12x36', kind: 'cycle', days: [workDay('07:00', '19:00'), null] },
+    },
+    {
+        label: 'Revezamento (2 manhãs, 2 noites, 2 folgas)',
+        schedule: {
+            name: 'Revezamento',
+            kind: 'cycle',
+            days: [workDay('06:00', '14:00'), workDay('06:00', '14:00'), workDay('22:00', '06:00'), workDay('22:00', '06:00'), null, null],
+        },
+    },
+];
+
+export type ComplianceIssueKind = 'atraso' | 'saida_antecipada' | 'intervalo_ausente' | 'intervalo_reduzido' | 'falta';
+
+export interface ComplianceIssue {
+    employeeId: number;
+    date: string; // YYYY-MM-DD
+    kind: ComplianceIssueKind;
+    minutes: number;
+    description: string;
+}
+
+export const COMPLIANCE_ISSUE_LABELS: Record<ComplianceIssueKind, string> = {
+    atraso: 'Atraso',
+    saida_antecipada: 'Saída antecipada',
+    intervalo_ausente: 'Sem intervalo',
+    intervalo_reduzido: 'Intervalo reduzido',
+    falta: 'Falta',
+};
+
+/** Atribuição vigente do funcionário na data (a mais recente com início até a data). */
+export const resolveScheduleAssignment = (
+    rules: ScheduleRules,
+    employeeId: number,
+    dateKey: string
+): { schedule: WorkSchedule; assignment: ScheduleAssignment } | null => {
+    const assignment = rules.assignments
+        .filter(a => a.employeeId === employeeId && a.effectiveFrom <= dateKey)
+        .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+    if (!assignment) return null;
+    const schedule = rules.schedules.find(s => s.id === assignment.scheduleId);
+    return schedule ? { schedule, assignment } : null;
+};
+
+/**
+ * Horário esperado do funcionário no dia: ScheduleDay, null para folga,
+ * ou undefined se ele não tiver escala atribuída.
+ */
+export const getExpectedDay = (rules: ScheduleRules, employeeId: number, dateKey: string): ScheduleDay | null | undefined => {
+    const resolved = resolveScheduleAssignment(rules, employeeId, dateKey);
+    if (!resolved || resolved.schedule.days.length === 0) return undefined;
+
+    const { schedule, assignment } = resolved;
+    const index = schedule.kind === 'weekly'
+        ? weekdayOfKey(dateKey)
+        : daysBetweenKeys(assignment.effectiveFrom, dateKey) % schedule.days.length;
+    return schedule.days[index] ?? null;
+};
+
+/** Instantes de entrada e saída esperados, com a saída no dia seguinte quando end <= start. */
+export const getExpectedInterval = (dateKey: string, day: ScheduleDay, timeZone = getTimeZone()): { start: number; end: number } => {
+    const start = zonedTimeToInstant(dateKey, `${day.start}:00`, timeZone).getTime();
+    const endKey = day.end <= day.start ? addDaysToKey(dateKey, 1) : dateKey;
+    return { start, end: zonedTimeToInstant(endKey, `${day.end}:00`, timeZone).getTime() };
+};
+
+/** Fim previsto do intervalo (HH:mm), quando a escala informa o início dele. */
+export const getExpectedBreakEnd = (day: ScheduleDay): string | null => {
+    if (!day.breakStart) return null;
+    const [hours, minutes] = day.breakStart.split(':').map(Number);
+    const total = (hours * 60 + minutes + day.breakMinutes) % (24 * 60);
+    return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/** Saída prevista pela escala para o turno iniciado na Entrada informada, no fuso dela (null sem escala ou em folga). */
+export const getScheduledShiftEnd = (rules: ScheduleRules, employeeId: number, entry: Date, timeZone = getTimeZone()): Date | null => {
+    const dateKey = toDateKey(entry, timeZone);
+    const day = getExpectedDay(rules, employeeId, dateKey);
+    return day ? new Date(getExpectedInterval(dateKey, day, timeZone).end) : null;
+};
+
+/** Minutos esperados de trabalho no dia (descontado o intervalo). */
+export const getExpectedMinutes = (dateKey: string, day: ScheduleDay): number => {
+    const { start, end } = getExpectedInterval(dateKey, day);
+    return Math.round((end - start) / MINUTE_MS) - day.breakMinutes;
+};
+
+/**
+ * Minutos que o funcionário deveria trabalhar no dia: pela escala, se houver,
+ * ou pela jornada do perfil nos dias que não são descanso semanal nem feriado.
+ */
+export const getExpectedWorkMinutes = (
+    employee: Employee,
+    dateKey: string,
+    journeyMinutes: number,
+    rules: ScheduleRules,
+    holidays: Holiday[]
+): number => {
+    if (findHoliday(dateKey, holidays)) return 0;
+    const expected = getExpectedDay(rules, employee.id, dateKey);
+    if (expected === null) return 0;
+    if (expected) return getExpectedMinutes(dateKey, expected);
+    return classifyDay(dateKey, employee.restWeekday, holidays).kind === 'regular' ? journeyMinutes : 0;
+};
+
+const workedMs = (events: StoredClockEvent[]): number => {
+    let total = 0;
+    let workingSince: number | null = null;
+    for (const event of events) {
+        const time = new Date(event.timestamp).getTime();
+        if (event.type === ClockType.Entrada || event.type === ClockType.FimIntervalo) {
+            workingSince = time;
+        } else if (workingSince !== null) {
+            total += time - workingSince;
+            workingSince = null;
+        }
+    }
+    return total;
+};
+
+/**
+ * Compara as batidas de um dia (um ou mais turnos iniciados na data) com o horário esperado.
+ * Todas as marcações previstas entram na tolerância: entrada, saída e, havendo intervalo, a volta
+ * dele (prevista para o início registrado mais a duração) e o início dele quando a escala o fixa.
+ * O intervalo também é medido pelo tempo não trabalhado entre a primeira entrada e a última saída.
+ */
+export const evaluateDay = (
+    employeeId: number,
+    dateKey: string,
+    dayEvents: StoredClockEvent[],
+    expected: ScheduleDay
+): ComplianceIssue[] => {
+    const sorted = [...dayEvents].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const entry = sorted.find(e => e.type === ClockType.Entrada);
+    if (!entry) return [];
+    const exit = [...sorted].reverse().find(e => e.type === ClockType.Saida);
+    const breakStart = sorted.find(e => e.type === ClockType.InicioIntervalo);
+    const breakEnd = breakStart && sorted.slice(sorted.indexOf(breakStart) + 1).find(e => e.type === ClockType.FimIntervalo);
+
+    // Horários previstos no fuso em que a Entrada foi gravada
+    const timeZone = eventTimeZone(entry);
+    const { start, end } = getExpectedInterval(dateKey, expected, timeZone);
+    const minutesBetween = (from: number, to: number) => Math.round((to - from) / MINUTE_MS);
+    const timeOf = (event: StoredClockEvent) => new Date(event.timestamp).getTime();
+
+    // Início do intervalo previsto pela escala; sem ele, a volta é medida a partir do início registrado
+    let expectedBreakStart: number | null = null;
+    if (expected.breakStart) {
+        const breakKey = expected.breakStart < expected.start ? addDaysToKey(dateKey, 1) : dateKey;
+        expectedBreakStart = zonedTimeToInstant(breakKey, `${expected.breakStart}:00`, timeZone).getTime();
+    }
+
+    const entryDelta = minutesBetween(start, timeOf(entry)); // > 0 = atraso
+    const exitDelta = exit ? minutesBetween(timeOf(exit), end) : 0; // > 0 = saída antecipada
+    const breakStartDelta = breakStart && expectedBreakStart !== null
+        ? minutesBetween(timeOf(breakStart), expectedBreakStart) // > 0 = saída antecipada para o intervalo
+        : 0;
+    const breakEndDelta = breakStart && breakEnd && expected.breakMinutes > 0
+        ? minutesBetween((expectedBreakStart ?? timeOf(breakStart)) + expected.breakMinutes * MINUTE_MS, timeOf(breakEnd)) // > 0 = atraso na volta
+        : 0;
+
+    const variations = [entryDelta, breakStartDelta, breakEndDelta, exitDelta].map(Math.abs);
+    const withinTolerance = variations.every(v => v <= PUNCH_TOLERANCE_MINUTES)
+        && variations.reduce((sum, v) => sum + v, 0) <= DAILY_TOLERANCE_MINUTES;
+
+    const issues: ComplianceIssue[] = [];
+    const issue = (kind: ComplianceIssueKind, minutes: number, description: string) =>
+        issues.push({ employeeId, date: dateKey, kind, minutes, description });
+
+    if (!withinTolerance) {
+        if (entryDelta > 0) issue('atraso', entryDelta, `Entrada às ${toTimeKey(entry.timestamp, timeZone).slice(0, 5)}, prevista ${expected.start}`);
+        if (breakStart && breakStartDelta > 0) {
+            issue('saida_antecipada', breakStartDelta, `Início do intervalo às ${toTimeKey(breakStart.timestamp, timeZone).slice(0, 5)}, previsto ${expected.breakStart}`);
+        }
+        if (breakEnd && breakEndDelta > 0) {
+            const expectedReturn = getExpectedBreakEnd(expected) ?? `${expected.breakMinutes} min após o início`;
+            issue('atraso', breakEndDelta, `Volta do intervalo às ${toTimeKey(breakEnd.timestamp, timeZone).slice(0, 5)}, prevista ${expectedReturn}`);
+        }
+        if (exit && exitDelta > 0) issue('saida_antecipada', exitDelta, `Saída às ${toTimeKey(exit.timestamp, timeZone).slice(0, 5)}, prevista ${expected.end}`);
+    }
+
+    if (exit && expected.breakMinutes > 0) {
+        const span = new Date(exit.timestamp).getTime() - new Date(entry.timestamp).getTime();
+        const breakMinutes = Math.round((span - workedMs(sorted)) / MINUTE_MS);
+        if (breakMinutes <= 0) {
+            issue('intervalo_ausente', expected.breakMinutes, `Intervalo de ${expected.breakMinutes} min não registrado`);
+        } else if (expected.breakMinutes - breakMinutes > PUNCH_TOLERANCE_MINUTES) {
+            issue('intervalo_reduzido', expected.breakMinutes - breakMinutes, `Intervalo de ${breakMinutes} min, previsto ${expected.breakMinutes} min`);
+        }
+    }
+
+    return issues;
+};
+
+/**
+ * Ocorrências de escala do funcionário no período (datas YYYY-MM-DD, inclusivas).
+ * Dias sem escala, folgas, feriados e afastamentos sem batida não geram falta; dias cujo
+ * horário previsto ainda não terminou também não.
+ */
+export const checkScheduleCompliance = (
+    employee: Employee,
+    events: StoredClockEvent[],
+    rules: ScheduleRules,
+    holidays: Holiday[],
+    leaves: Leave[],
+    fromKey: string,
+    toKey: string,
+    now: number = Date.now()
+): ComplianceIssue[] => {
+    const eventsByDate: Record<string, StoredClockEvent[]> = {};
+    groupEventsByShifts(events.filter(e => e.employeeId === employee.id)).forEach(shiftEvents => {
+        const dateKey = eventDateKey(shiftEvents[0]);
+        (eventsByDate[dateKey] ||= []).push(...shiftEvents);
+    });
+
+    const issues: ComplianceIssue[] = [];
+    const lastKey = toKey < todayKey() ? toKey : todayKey();
+    for (let dateKey = fromKey; dateKey <= lastKey; dateKey = addDaysToKey(dateKey, 1)) {
+        const expected = getExpectedDay(rules, employee.id, dateKey);
+        if (!expected) continue;
+
+        const dayEvents = eventsByDate[dateKey];
+        if (dayEvents) {
+            issues.push(...evaluateDay(employee.id, dateKey, dayEvents, expected));
+        } else if (
+            !findHoliday(dateKey, holidays)
+            && !leaves.some(l => l.employeeId === employee.id && l.startDate <= dateKey && l.endDate >= dateKey)
+            && getExpectedInterval(dateKey, expected).end < now
+        ) {
+            issues.push({
+                employeeId: employee.id,
+                date: dateKey,
+                kind: 'falta',
+                minutes: getExpectedMinutes(dateKey, expected),
+                description: `Nenhuma batida (previsto ${expected.start}–${expected.end})`,
+            });
+        }
+    }
+    return issues;
+};
+
+const mapSchedule = (row: any): WorkSchedule => ({
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    days: Array.isArray(row.days) ? row.days : [],
+});
+
+const mapScheduleAssignment = (row: any): ScheduleAssignment => ({
+    id: row.id,
+    scheduleId: row.schedule_id,
+    employeeId: row.employee_id,
+    effectiveFrom: row.effective_from,
+});
+
+export const fetchScheduleRules = async (): Promise<ScheduleRules> => {
+    const [schedulesResult, assignmentsResult] = await Promise.all([
+        supabase.from('ponto_schedules').select('*').order('name', { ascending: true }),
+        supabase.from('ponto_schedule_assignments').select('*').order('effective_from', { ascending: true }),
+    ]);
+    if (schedulesResult.error) throw schedulesResult.error;
+    if (assignmentsResult.error) throw assignmentsResult.error;
+
+    return {
+        schedules: (schedulesResult.data || []).map(mapSchedule),
+        assignments: (assignmentsResult.data || []).map(mapScheduleAssignment),
+    };
+};
+
+export const saveSchedule = async (schedule: Omit<WorkSchedule, 'id'> & { id?: number }): Promise<void> => {
+    const row = { name: schedule.name, kind: schedule.kind, days: schedule.days };
+    const { error } = schedule.id
+        ? await supabase.from('ponto_schedules').update(row).eq('id', schedule.id)
+        : await supabase.from('ponto_schedules').insert([row]);
+    if (error) throw error;
+};
+
+export const deleteSchedule = async (scheduleId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_schedules').delete().eq('id', scheduleId);
+    if (error) throw error;
+};
+
+export const addScheduleAssignment = async (assignment: Omit<ScheduleAssignment, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('ponto_schedule_assignments').insert([{
+        schedule_id: assignment.scheduleId,
+        employee_id: assignment.employeeId,
+        effective_from: assignment.effectiveFrom,
+    }]);
+    if (error) throw error;
+};
+
+export const deleteScheduleAssignment = async (assignmentId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_schedule_assignments').delete().eq('id', assignmentId);
+    if (error) throw error;
+};
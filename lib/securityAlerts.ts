@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+import type { SecurityAlert } from '../types';
+
+// Alertas de bloqueio do teclado de PIN, gravados por verify_pin (migrations/pin_lockout.sql).
+
+const mapAlert = (row: any): SecurityAlert => ({
+    id: row.id,
+    kind: row.kind,
+    kioskId: row.kiosk_id,
+    message: row.message,
+    createdAt: new Date(row.created_at),
+});
+
+export const fetchOpenSecurityAlerts = async (): Promise<SecurityAlert[]> => {
+    const { data, error } = await supabase
+        .from('ponto_security_alerts')
+        .select('*')
+        .is('acknowledged_at', null)
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapAlert);
+};
+
+export const acknowledgeSecurityAlert = async (id: number, actor: string): Promise<void> => {
+    const { error } = await supabase
+        .from('ponto_security_alerts')
+        .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: actor })
+        .eq('id', id);
+    if (error) throw error;
+};
+
+// Sem kioskId, libera todos os quiosques (bloqueio da instalação)
+export const unlockPinKeypad = async (kioskId: string | null): Promise<void> => {
+    const { error } = await supabase.rpc('unlock_pin_keypad', { p_kiosk_id: kioskId });
+    if (error) throw error;
+};
@@ -0,0 +1,27 @@
+import { supabase } from './supabase';
+
+/**
+ * Mede a diferença entre o relógio do dispositivo e o do servidor, em ms.
+ * Positivo = dispositivo adiantado. Compensa metade do tempo de ida e volta da requisição.
+ */
+export const measureClockDrift = async (): Promise<number> => {
+    const sentAt = Date.now();
+    const { data, error } = await supabase.rpc('server_now');
+    const receivedAt = Date.now();
+    if (error) throw error;
+
+    const serverTime = new Date(data as string).getTime();
+    const deviceTimeAtServer = sentAt + (receivedAt - sentAt) / 2;
+    return deviceTimeAtServer - serverTime;
+};
+
+/** Descreve a diferença de relógio para o aviso exibido no quiosque. Ex.: "5 min adiantado". */
+export const describeClockDrift = (driftMs: number): string => {
+    const totalSeconds = Math.round(Math.abs(driftMs) / 1000);
+    const direction = driftMs > 0 ? 'adiantado' : 'atrasado';
+    if (totalSeconds < 120) return `${totalSeconds} s ${direction}`;
+
+    const minutes = Math.round(totalSeconds / 60);
+    if (minutes < 120) return `${minutes} min ${direction}`;
+    return `${Math.round(minutes / 60)} h ${direction}`;
+};
@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+import { DEFAULT_TIME_ZONE } from './dateTime';
+import { PIN_LENGTH } from '../constants';
+import type { GeofenceMode } from './sites';
+import { DEFAULT_SHIFT_POLICY } from './shiftPolicy';
+import type { OpenShiftBehavior } from './shiftPolicy';
+
+// Configurações da instalação, guardadas na tabela ponto_settings (chave/valor JSON).
+export interface AppSettings {
+    timeZone: string;
+    clockDriftThresholdSeconds: number;
+    // Identificação do empregador e do REP-P, exigida no AFD/AEJ (Portaria MTP nº 671/2021)
+    employerDocument: string; // CNPJ ou CPF
+    employerCno: string; // CNO ou CAEPF, quando houver
+    employerName: string; // Razão social ou nome
+    repIdentifier: string; // Número de registro do programa no INPI
+    developerDocument: string; // CNPJ ou CPF do desenvolvedor do programa
+    developerName: string; // Razão social ou nome do desenvolvedor
+    responsibleCpf: string; // Responsável pelo cadastro dos funcionários (registros tipo 5)
+    // Teclado de PIN do quiosque; o bloqueio por tentativas é aplicado pelo banco em verify_pin
+    pinLength: number; // 4 a 8 dígitos
+    pinMaxAttempts: number; // Falhas seguidas até bloquear o quiosque
+    pinLockoutMinutes: number; // Duração do primeiro bloqueio (dobra a cada novo bloqueio)
+    punchPhotoEnabled: boolean; // Foto pela câmera do quiosque no momento da batida
+    geofenceMode: GeofenceMode; // Cerca virtual: avaliada pelo banco contra os locais de ponto_sites
+    // Política de turno aberto, aplicada no login, no agrupamento de turnos e nos relatórios
+    maxShiftHours: number;
+    openShiftBehavior: OpenShiftBehavior;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    timeZone: import.meta.env.VITE_TIME_ZONE || DEFAULT_TIME_ZONE,
+    clockDriftThresholdSeconds: 120,
+    employerDocument: '',
+    employerCno: '',
+    employerName: '',
+    repIdentifier: '',
+    developerDocument: '',
+    developerName: '',
+    responsibleCpf: '',
+    pinLength: PIN_LENGTH,
+    pinMaxAttempts: 5,
+    pinLockoutMinutes: 15,
+    punchPhotoEnabled: false,
+    geofenceMode: 'off',
+    maxShiftHours: DEFAULT_SHIFT_POLICY.maxShiftHours,
+    openShiftBehavior: DEFAULT_SHIFT_POLICY.openShiftBehavior,
+};
+
+// Nome de cada configuração na coluna ponto_settings.key
+const SETTING_KEYS: Record<keyof AppSettings, string> = {
+    timeZone: 'time_zone',
+    clockDriftThresholdSeconds: 'clock_drift_threshold_seconds',
+    employerDocument: 'employer_document',
+    employerCno: 'employer_cno',
+    employerName: 'employer_name',
+    repIdentifier: 'rep_identifier',
+    developerDocument: 'rep_developer_document',
+    developerName: 'rep_developer_name',
+    responsibleCpf: 'afd_responsible_cpf',
+    pinLength: 'pin_length',
+    pinMaxAttempts: 'pin_max_attempts',
+    pinLockoutMinutes: 'pin_lockout_minutes',
+    punchPhotoEnabled: 'punch_photo_enabled',
+    geofenceMode: 'geofence_mode',
+    maxShiftHours: 'max_shift_hours',
+    openShiftBehavior: 'open_shift_behavior',
+};
+
+/** Configurações a partir das linhas chave/valor; chaves ausentes ficam com o padrão. */
+export const settingsFromRows = (rows: { key: string; value: unknown }[]): AppSettings => {
+    const settings: AppSettings = { ...DEFAULT_SETTINGS };
+    for (const field of Object.keys(SETTING_KEYS) as (keyof AppSettings)[]) {
+        const row = rows.find(r => r.key === SETTING_KEYS[field]);
+        if (row && row.value !== null && row.value !== undefined) {
+            (settings as any)[field] = row.value;
+        }
+    }
+    return settings;
+};
+
+export const settingsToRows = (changes: Partial<AppSettings>): { key: string; value: unknown }[] =>
+    (Object.keys(changes) as (keyof AppSettings)[]).map(field => ({ key: SETTING_KEYS[field], value: changes[field] }));
+
+export const fetchSettings = async (): Promise<AppSettings> => {
+    const { data, error } = await supabase.from('ponto_settings').select('key, value');
+    if (error) throw error;
+    return settingsFromRows(data || []);
+};
+
+export const saveSettings = async (changes: Partial<AppSettings>): Promise<void> => {
+    const rows = settingsToRows(changes).map(row => ({ ...row, updated_at: new Date().toISOString() }));
+    if (rows.length === 0) return;
+
+    const { error } = await supabase.from('ponto_settings').upsert(rows, { onConflict: 'key' });
+    if (error) throw error;
+};
@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+import { getDeviceToken } from './kiosk';
+import type { StoredClockEvent } from '../types';
+import { ClockType } from '../types';
+
+// Política de turno aberto (migrations/shift_policy.sql): um só limite de duração de turno para o login do
+// quiosque, o agrupamento de turnos e os relatórios, e o que fazer quando o funcionário deixou um turno sem Saída.
+
+export type OpenShiftBehavior = 'block' | 'warn' | 'auto_close' | 'declare';
+
+export interface ShiftPolicy {
+    maxShiftHours: number; // Duração máxima de um turno, contada da Entrada
+    openShiftBehavior: OpenShiftBehavior;
+}
+
+export const DEFAULT_SHIFT_POLICY: ShiftPolicy = {
+    maxShiftHours: 16,
+    openShiftBehavior: 'block',
+};
+
+export const MIN_SHIFT_HOURS = 4;
+export const MAX_SHIFT_HOURS = 48;
+
+export const OPEN_SHIFT_BEHAVIOR_LABELS: Record<OpenShiftBehavior, string> = {
+    block: 'Bloquear o ponto até o setor de pessoal regularizar',
+    warn: 'Avisar o funcionário e permitir o ponto',
+    auto_close: 'Fechar automaticamente no fim da escala',
+    declare: 'Pedir ao funcionário o horário da saída (vai para aprovação)',
+};
+
+let currentPolicy: ShiftPolicy = DEFAULT_SHIFT_POLICY;
+
+export const getShiftPolicy = (): ShiftPolicy => currentPolicy;
+
+/** Chamada pelo App ao carregar as configurações, como o fuso horário. */
+export const setShiftPolicy = (policy: ShiftPolicy) => {
+    const hours = Number(policy.maxShiftHours);
+    currentPolicy = {
+        maxShiftHours: Number.isFinite(hours) ? Math.min(MAX_SHIFT_HOURS, Math.max(MIN_SHIFT_HOURS, hours)) : DEFAULT_SHIFT_POLICY.maxShiftHours,
+        openShiftBehavior: policy.openShiftBehavior in OPEN_SHIFT_BEHAVIOR_LABELS ? policy.openShiftBehavior : DEFAULT_SHIFT_POLICY.openShiftBehavior,
+    };
+};
+
+export const getMaxShiftMs = (): number => currentPolicy.maxShiftHours * 60 * 60 * 1000;
+
+export interface OpenShift {
+    entry: StoredClockEvent; // Entrada do turno
+    lastEvent: StoredClockEvent; // Última batida do turno
+}
+
+/**
+ * Último turno do funcionário, se ele passou da duração máxima sem Saída.
+ * Mesmo critério do agrupamento de turnos: o turno começa na última Entrada.
+ */
+export const findOpenShift = (employeeEvents: StoredClockEvent[], now = Date.now()): OpenShift | null => {
+    const sorted = [...employeeEvents].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const lastEvent = sorted[sorted.length - 1];
+    if (!lastEvent || lastEvent.type === ClockType.Saida) return null;
+
+    const entry = sorted.filter(event => event.type === ClockType.Entrada).pop();
+    if (!entry || now - entry.timestamp.getTime() <= getMaxShiftMs()) return null;
+
+    // Batidas depois do limite não fazem parte do turno (o agrupamento as descarta)
+    const shiftEnd = entry.timestamp.getTime() + getMaxShiftMs();
+    const shiftLast = sorted.filter(event => event.timestamp >= entry.timestamp && event.timestamp.getTime() <= shiftEnd).pop()!;
+    return { entry, lastEvent: shiftLast };
+};
+
+/** Pede ao banco a Saída do turno aberto, que ele grava no fim da escala; retorna o horário gravado. */
+export const closeOpenShift = async (employeeId: number): Promise<Date> => {
+    const { data, error } = await supabase.rpc('close_open_shift', {
+        p_device_token: getDeviceToken(),
+        p_employee_id: employeeId,
+    });
+    if (error) throw error;
+    return new Date(data.timestamp);
+};
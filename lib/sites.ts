@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import type { PunchLocation, Site, StoredClockEvent } from '../types';
+
+// Cerca virtual (migrations/geofence.sql): locais permitidos com raio em metros. O banco avalia cada
+// batida contra os locais ativos e guarda na própria batida o local mais próximo e a distância.
+
+export type GeofenceMode = 'off' | 'flag' | 'reject';
+
+export const GEOFENCE_MODE_LABELS: Record<GeofenceMode, string> = {
+    off: 'Desligada (não coleta localização)',
+    flag: 'Aceitar e marcar batidas fora da área',
+    reject: 'Recusar batidas fora da área',
+};
+
+const mapSite = (row: any): Site => ({
+    id: row.id,
+    name: row.name,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    radiusMeters: row.radius_meters,
+    active: row.active,
+});
+
+export const fetchSites = async (): Promise<Site[]> => {
+    const { data, error } = await supabase.from('ponto_sites').select('*').order('name', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapSite);
+};
+
+export const addSite = async (site: Omit<Site, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('ponto_sites').insert([{
+        name: site.name,
+        latitude: site.latitude,
+        longitude: site.longitude,
+        radius_meters: site.radiusMeters,
+        active: site.active,
+    }]);
+    if (error) throw error;
+};
+
+export const setSiteActive = async (siteId: number, active: boolean): Promise<void> => {
+    const { error } = await supabase.from('ponto_sites').update({ active }).eq('id', siteId);
+    if (error) throw error;
+};
+
+export const deleteSite = async (siteId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_sites').delete().eq('id', siteId);
+    if (error) throw error;
+};
+
+/** Localização atual do aparelho; null se indisponível, negada ou demorar mais que o limite. */
+export const getCurrentLocation = (timeoutMs = 10000): Promise<PunchLocation | null> =>
+    new Promise(resolve => {
+        if (!navigator.geolocation) return resolve(null);
+        navigator.geolocation.getCurrentPosition(
+            position => resolve({
+                latitude: position.coords.latitude,
+                longitude: position.coords.longitude,
+                accuracy: position.coords.accuracy,
+            }),
+            error => {
+                console.warn('Localização indisponível:', error.message);
+                resolve(null);
+            },
+            { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+        );
+    });
+
+/** Resumo textual da localização da batida para o relatório; vazio se a cerca não foi avaliada. */
+export const describePunchLocation = (event: StoredClockEvent): string => {
+    if (event.siteName && event.siteDistanceMeters != null) {
+        const accuracy = event.location ? ` (precisão de ${Math.round(event.location.accuracy)} m)` : '';
+        return `a ${event.siteDistanceMeters} m de ${event.siteName}${accuracy}`;
+    }
+    return event.outsideGeofence ? 'sem localização do aparelho' : '';
+};
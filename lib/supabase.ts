@@ -3,8 +3,12 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseKey) {
+// Com outro backend de dados (lib/repository.ts) o app abre sem o Supabase; os recursos que dependem
+// dele falham só quando usados
+const usesSupabaseData = !import.meta.env.VITE_DATA_BACKEND || import.meta.env.VITE_DATA_BACKEND === 'supabase';
+
+if ((!supabaseUrl || !supabaseKey) && usesSupabaseData) {
   throw new Error("Faltam as credenciais do Supabase no .env");
 }
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+export const supabase = createClient(supabaseUrl || 'http://localhost:54321', supabaseKey || 'sem-credenciais');
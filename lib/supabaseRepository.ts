@@ -0,0 +1,225 @@
+import { supabase } from './supabase';
+import { fetchCurrentManager, signIn, signOut } from './auth';
+import { setEmployeeBirthDate, setEmployeePin, verifyPin } from './credentials';
+import { deleteEvent, insertManualBreak, insertManualEvent, updateEvent } from './eventAudit';
+import { addHoliday, deleteHoliday, fetchHolidays } from './holidays';
+import {
+    addPayAssignment, deletePayAssignment, deletePayProfile, fetchPayRules, savePayProfile, savePayProfileVersion,
+} from './payProfiles';
+import { fetchSettings, saveSettings } from './settings';
+import type { Employee, StoredClockEvent } from '../types';
+import type {
+    BackupData, DataRepositories, EmployeeRepository, EventRepository, HolidayRepository, ManagerRepository,
+    PayRulesRepository, SettingsRepository,
+} from './repository';
+
+// Backend padrão: tabelas ponto_* do Supabase. As batidas do quiosque passam por register_punch e as
+// alterações administrativas pelas funções admin_* (lib/eventAudit.ts), que gravam a auditoria. Gestores,
+// configurações, remuneração e feriados reaproveitam as funções de lib/auth, settings, payProfiles e holidays.
+
+const PAGE_SIZE = 1000;
+
+const mapEmployee = (row: any): Employee => ({
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    cpf: row.cpf,
+    funcao: row.funcao,
+    pix: row.pix,
+    restWeekday: row.rest_weekday ?? undefined,
+});
+
+const toEmployeeRow = (employee: Omit<Employee, 'id'>) => ({
+    name: employee.name,
+    phone: employee.phone,
+    cpf: employee.cpf || null,
+    funcao: employee.funcao || null,
+    pix: employee.pix || null,
+    rest_weekday: employee.restWeekday ?? 0,
+});
+
+// A localização vem de ponto_event_locations (migrations/event_locations.sql), que só gestores com
+// view_reports leem; para os demais a junção volta vazia
+const mapEventRow = ({ event_location: location, ...event }: any): StoredClockEvent => ({
+    id: event.id,
+    employeeId: event.employee_id,
+    employeeName: event.employee_name,
+    type: event.type,
+    timestamp: new Date(event.timestamp),
+    source: event.source,
+    clientTimestamp: event.client_timestamp ? new Date(event.client_timestamp) : null,
+    editedAt: event.edited_at ? new Date(event.edited_at) : null,
+    originalTimestamp: event.original_timestamp ? new Date(event.original_timestamp) : null,
+    photoPath: event.photo_path ?? null,
+    deviceId: event.device_id ?? null,
+    adjustmentRequestId: event.adjustment_request_id ?? null,
+    timeZone: event.time_zone ?? undefined,
+    location: location?.latitude != null && location?.longitude != null
+        ? { latitude: location.latitude, longitude: location.longitude, accuracy: location.location_accuracy }
+        : null,
+    siteName: location?.site_name ?? null,
+    siteDistanceMeters: location?.site_distance_meters ?? null,
+    outsideGeofence: !!location?.outside_geofence,
+});
+
+const supabaseEmployees: EmployeeRepository = {
+    async list() {
+        const { data, error } = await supabase.from('ponto_employees').select('*').order('id', { ascending: true });
+        if (error) throw error;
+        return (data || []).map(mapEmployee);
+    },
+
+    // Quiosque e área do funcionário não leem ponto_employees (migrations/employee_profile.sql)
+    async getForSession(sessionToken) {
+        const { data, error } = await supabase.rpc('employee_session_profile', { p_session_token: sessionToken });
+        if (error) throw error;
+        return mapEmployee(data);
+    },
+
+    // PIN e data de nascimento não ficam no cadastro: vão para ponto_credentials por setPin/setBirthDate
+    async create(employee) {
+        const { data, error } = await supabase.from('ponto_employees').insert([toEmployeeRow(employee)]).select('*').single();
+        if (error) throw error;
+        return mapEmployee(data);
+    },
+
+    async update(employee) {
+        const { error } = await supabase.from('ponto_employees').update(toEmployeeRow(employee)).eq('id', employee.id);
+        if (error) throw error;
+    },
+
+    // Funcionários com batidas não podem ser apagados: o banco recusa a exclusão dos registros de ponto
+    async remove(employeeId) {
+        const { error } = await supabase.from('ponto_employees').delete().eq('id', employeeId);
+        if (error) throw error;
+    },
+
+    setPin: setEmployeePin,
+    setBirthDate: setEmployeeBirthDate,
+    verifyPin,
+};
+
+const supabaseEvents: EventRepository = {
+    // Paginado: o Supabase devolve no máximo 1000 linhas por consulta
+    async list() {
+        const rows: any[] = [];
+        for (let page = 0; ; page++) {
+            const { data, error } = await supabase
+                .from('ponto_events')
+                .select('*, event_location:ponto_event_locations(*)')
+                .is('deleted_at', null)
+                .order('timestamp', { ascending: true })
+                .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+            if (error) throw error;
+            rows.push(...(data || []));
+            if (!data || data.length < PAGE_SIZE) break;
+        }
+        return rows.map(mapEventRow);
+    },
+
+    // Quiosque e área do funcionário não leem ponto_events (migrations/employee_sessions.sql)
+    async listForSession(sessionToken) {
+        const { data, error } = await supabase.rpc('employee_session_events', { p_session_token: sessionToken });
+        if (error) throw error;
+        return (data || []).map(mapEventRow);
+    },
+
+    // O horário oficial é definido pelo servidor; o relógio do dispositivo vai só como referência
+    async registerPunch({ employee, type, clientTimestamp, location, idempotencyKey, deviceToken }) {
+        const { data, error } = await supabase.rpc('register_punch', {
+            p_employee_id: employee.id,
+            p_type: type,
+            p_client_timestamp: clientTimestamp.toISOString(),
+            p_device_token: deviceToken,
+            p_latitude: location?.latitude ?? null,
+            p_longitude: location?.longitude ?? null,
+            p_accuracy: location?.accuracy ?? null,
+            p_idempotency_key: idempotencyKey,
+        });
+        if (error) throw error;
+        return {
+            event: mapEventRow(data),
+            nsr: data.nsr != null ? Number(data.nsr) : null,
+            receiptHash: data.receipt_hash ?? null,
+        };
+    },
+
+    insertManual: insertManualEvent,
+    insertManualBreak,
+    update: updateEvent,
+    remove: deleteEvent,
+};
+
+const supabaseManagers: ManagerRepository = {
+    current: fetchCurrentManager,
+
+    // Login do Supabase Auth sem cadastro em ponto_managers não abre o painel: a sessão é encerrada
+    async signIn(email, password) {
+        await signIn(email, password);
+        const manager = await fetchCurrentManager();
+        if (!manager) await signOut();
+        return manager;
+    },
+
+    signOut,
+};
+
+const supabaseSettings: SettingsRepository = {
+    load: fetchSettings,
+    save: saveSettings,
+};
+
+const supabasePayRules: PayRulesRepository = {
+    load: fetchPayRules,
+    saveProfile: savePayProfile,
+    saveProfileVersion: savePayProfileVersion,
+    removeProfile: deletePayProfile,
+    addAssignment: addPayAssignment,
+    removeAssignment: deletePayAssignment,
+};
+
+const supabaseHolidays: HolidayRepository = {
+    list: fetchHolidays,
+    add: addHoliday,
+    remove: deleteHoliday,
+};
+
+const toEventRow = (event: BackupData['events'][number]) => ({
+    id: event.id,
+    employee_id: event.employeeId,
+    employee_name: event.employeeName,
+    type: event.type,
+    timestamp: event.timestamp,
+    ...(event.source ? { source: event.source } : {}),
+});
+
+export const createSupabaseRepositories = (): DataRepositories => ({
+    backend: 'supabase',
+    supportsServerFeatures: true,
+    employees: supabaseEmployees,
+    events: supabaseEvents,
+    managers: supabaseManagers,
+    settings: supabaseSettings,
+    payRules: supabasePayRules,
+    holidays: supabaseHolidays,
+
+    async restoreBackup({ employees, events }) {
+        // Backups antigos trazem o PIN em texto puro, que não é mais gravado no cadastro
+        const employeesToRestore = employees.map(employee => ({ id: employee.id, ...toEmployeeRow(employee) }));
+        const { error: employeesError } = await supabase.from('ponto_employees').upsert(employeesToRestore);
+        if (employeesError) throw employeesError;
+        const { error: eventsError } = await supabase.from('ponto_events').upsert(events.map(toEventRow));
+        if (eventsError) throw eventsError;
+    },
+
+    // Tempo real no lugar do polling de 5 segundos, que estourava a cota
+    subscribe(onChange) {
+        const channel = supabase.channel('ponto_realtime')
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'ponto_events' }, () => onChange('events'))
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'ponto_employees' }, () => onChange('employees'))
+            .subscribe();
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    },
+});
@@ -0,0 +1,174 @@
+import { supabase } from './supabase';
+import { addMonthsToKey, eventDateKey, formatDateKey, todayKey } from './dateTime';
+import { calculateShiftDetails, formatMilliseconds, groupEventsByShifts } from './workCalculation';
+import { resolvePayProfile } from './payProfiles';
+import type { Employee, Holiday, PayRules, StoredClockEvent, TimeBankEntry, TimeBankEntryKind } from '../types';
+
+// Banco de horas: extrato por funcionário montado a partir dos turnos (saldo contra a jornada
+// do perfil) e dos lançamentos manuais da tabela ponto_time_bank_entries.
+// Créditos vencem na ordem em que foram gerados (o débito consome sempre o crédito mais antigo).
+
+const MINUTE_MS = 60 * 1000;
+
+export type TimeBankMovementKind = 'turno' | TimeBankEntryKind | 'expiracao';
+
+export interface TimeBankMovement {
+    date: string; // YYYY-MM-DD
+    kind: TimeBankMovementKind;
+    amount: number; // ms, positivo = crédito
+    balance: number; // Saldo após o movimento
+    description: string;
+    entryId?: number; // Lançamento manual que originou o movimento
+}
+
+export interface TimeBankLedger {
+    movements: TimeBankMovement[];
+    balance: number;
+    nextExpiry: { date: string; amount: number } | null;
+}
+
+export const TIME_BANK_KIND_LABELS: Record<TimeBankMovementKind, string> = {
+    turno: 'Turno',
+    ajuste: 'Ajuste',
+    compensacao: 'Folga compensada',
+    expiracao: 'Vencimento',
+};
+
+/** Saldo com sinal, ex.: "+02h 30m" ou "-00h 45m". */
+export const formatBalance = (ms: number): string => `${ms < 0 ? '-' : '+'}${formatMilliseconds(Math.abs(ms))}`;
+
+interface CreditLot {
+    date: string;
+    expiresOn: string | null;
+    remaining: number;
+}
+
+/**
+ * Monta o extrato do banco de horas do funcionário até a data informada (inclusive).
+ * Só geram saldo os turnos completos cujo perfil vigente usa banco de horas.
+ * Saldo negativo não vence; é abatido pelos próximos créditos.
+ */
+export const buildTimeBankLedger = (
+    employee: Employee,
+    events: StoredClockEvent[],
+    entries: TimeBankEntry[],
+    payRules: PayRules,
+    holidays: Holiday[],
+    untilKey: string = todayKey()
+): TimeBankLedger => {
+    const items: Omit<TimeBankMovement, 'balance'>[] = [];
+
+    groupEventsByShifts(events.filter(e => e.employeeId === employee.id)).forEach(shiftEvents => {
+        const details = calculateShiftDetails(shiftEvents, employee, payRules, holidays);
+        const date = eventDateKey(shiftEvents[0]);
+        if (details.status !== 'complete' || details.timeBank === 0 || date > untilKey) return;
+        items.push({ date, kind: 'turno', amount: details.timeBank, description: details.timeBank > 0 ? 'Horas excedentes' : 'Horas a menos que a jornada' });
+    });
+
+    entries
+        .filter(entry => entry.employeeId === employee.id && entry.date <= untilKey)
+        .forEach(entry => items.push({
+            date: entry.date,
+            kind: entry.kind,
+            amount: entry.minutes * MINUTE_MS,
+            description: entry.note || TIME_BANK_KIND_LABELS[entry.kind],
+            entryId: entry.id,
+        }));
+
+    items.sort((a, b) => a.date.localeCompare(b.date));
+
+    const movements: TimeBankMovement[] = [];
+    let lots: CreditLot[] = [];
+    let debt = 0;
+    let balance = 0;
+
+    const expireUntil = (dateKey: string) => {
+        for (const lot of lots) {
+            if (lot.expiresOn && lot.expiresOn <= dateKey && lot.remaining > 0) {
+                balance -= lot.remaining;
+                movements.push({
+                    date: lot.expiresOn,
+                    kind: 'expiracao',
+                    amount: -lot.remaining,
+                    balance,
+                    description: `Crédito de ${formatDateKey(lot.date)} vencido`,
+                });
+                lot.remaining = 0;
+            }
+        }
+        lots = lots.filter(lot => lot.remaining > 0);
+    };
+
+    for (const item of items) {
+        expireUntil(item.date);
+
+        if (item.amount > 0) {
+            const paidDebt = Math.min(debt, item.amount);
+            debt -= paidDebt;
+            if (item.amount > paidDebt) {
+                const months = resolvePayProfile(payRules, employee.id, employee.funcao, item.date).timeBankExpiryMonths;
+                lots.push({
+                    date: item.date,
+                    expiresOn: months > 0 ? addMonthsToKey(item.date, months) : null,
+                    remaining: item.amount - paidDebt,
+                });
+            }
+        } else {
+            let owed = -item.amount;
+            for (const lot of lots) {
+                const used = Math.min(lot.remaining, owed);
+                lot.remaining -= used;
+                owed -= used;
+                if (owed === 0) break;
+            }
+            lots = lots.filter(lot => lot.remaining > 0);
+            debt += owed;
+        }
+
+        balance += item.amount;
+        movements.push({ ...item, balance });
+    }
+
+    expireUntil(untilKey);
+
+    const upcoming = lots
+        .filter(lot => lot.expiresOn)
+        .sort((a, b) => a.expiresOn!.localeCompare(b.expiresOn!))[0];
+
+    return {
+        movements,
+        balance,
+        nextExpiry: upcoming ? { date: upcoming.expiresOn!, amount: upcoming.remaining } : null,
+    };
+};
+
+const mapEntry = (row: any): TimeBankEntry => ({
+    id: row.id,
+    employeeId: row.employee_id,
+    date: row.date,
+    minutes: row.minutes,
+    kind: row.kind,
+    note: row.note || '',
+});
+
+export const fetchTimeBankEntries = async (): Promise<TimeBankEntry[]> => {
+    const { data, error } = await supabase.from('ponto_time_bank_entries').select('*').order('date', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapEntry);
+};
+
+export const addTimeBankEntry = async (entry: Omit<TimeBankEntry, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('ponto_time_bank_entries').insert([{
+        employee_id: entry.employeeId,
+        date: entry.date,
+        minutes: entry.minutes,
+        kind: entry.kind,
+        note: entry.note,
+    }]);
+    if (error) throw error;
+};
+
+export const deleteTimeBankEntry = async (entryId: number): Promise<void> => {
+    const { error } = await supabase.from('ponto_time_bank_entries').delete().eq('id', entryId);
+    if (error) throw error;
+};
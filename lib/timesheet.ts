@@ -0,0 +1,266 @@
+import { addDaysToKey, eventDateKey, eventTimeZone, formatDateKey, formatTime } from './dateTime';
+import { calculateShiftDetails, formatCurrency, formatMilliseconds, groupEventsByShifts } from './workCalculation';
+import { classifyDay, describeDayClassification } from './holidays';
+import { buildTimeBankLedger, formatBalance } from './timeBank';
+import { COMPLIANCE_ISSUE_LABELS } from './schedules';
+import type { ComplianceIssue } from './schedules';
+import { findLeave, LEAVE_KINDS } from './leaves';
+import type { LeaveDay } from './leaves';
+import type { Employee, Holiday, Leave, PayRules, StoredClockEvent, TimeBankEntry } from '../types';
+import { ClockType } from '../types';
+
+// Espelho de ponto: horas de cada dia do período (batidas, afastamentos e ocorrências de escala) e o
+// documento impresso para assinatura. O painel do gestor e a área do funcionário usam este mesmo cálculo.
+
+export interface TimesheetTotals {
+    normalMs: number;
+    extraMs: number;
+    nightMs: number; // Hora noturna reduzida, já incluída em normais/extras
+    nightPremium: number;
+    holidayMs: number;
+    payment: number;
+}
+
+export interface TimesheetDay extends TimesheetTotals {
+    dateKey: string;
+    label: string; // Afastamento, feriado ou descanso
+    issues: string; // Ocorrências de escala do dia
+    hasShifts: boolean;
+    times: Partial<Record<ClockType, string>>; // Horário com (M) manual ou (A) alterada
+}
+
+export interface Timesheet {
+    employee?: Employee;
+    employeeName: string;
+    startDate: string;
+    endDate: string;
+    days: TimesheetDay[];
+    totals: TimesheetTotals;
+    timeBankBalance: number | null; // Só quando há movimento no banco de horas
+}
+
+export interface TimesheetInput {
+    employee?: Employee;
+    employeeName: string;
+    events: StoredClockEvent[]; // Batidas do funcionário no período
+    allEvents: StoredClockEvent[]; // Histórico completo, para o banco de horas
+    leaves: Leave[];
+    leaveDays: LeaveDay[];
+    complianceIssues: ComplianceIssue[];
+    payRules: PayRules;
+    holidays: Holiday[];
+    timeBankEntries: TimeBankEntry[];
+    startDate: string;
+    endDate: string;
+}
+
+const emptyTotals = (): TimesheetTotals => ({ normalMs: 0, extraMs: 0, nightMs: 0, nightPremium: 0, holidayMs: 0, payment: 0 });
+
+export const buildTimesheet = (input: TimesheetInput): Timesheet => {
+    const { employee, startDate, endDate } = input;
+
+    // Turnos anexados ao dia da primeira batida (Entrada)
+    const shiftsByDate: Record<string, StoredClockEvent[][]> = {};
+    groupEventsByShifts(input.events).forEach(shiftEvents => {
+        if (shiftEvents.length === 0) return;
+        const dateKey = eventDateKey(shiftEvents[0]);
+        if (!shiftsByDate[dateKey]) shiftsByDate[dateKey] = [];
+        shiftsByDate[dateKey].push(shiftEvents);
+    });
+
+    const employeeLeaveDays = input.leaveDays.filter(leaveDay => leaveDay.employeeId === employee?.id);
+    const totals = emptyTotals();
+    const days: TimesheetDay[] = [];
+
+    // O espelho lista todos os dias do período, mesmo sem batida
+    for (let dateKey = startDate; dateKey <= endDate; dateKey = addDaysToKey(dateKey, 1)) {
+        const dayShifts = shiftsByDate[dateKey] || [];
+        const leaveDay = employeeLeaveDays.find(day => day.date === dateKey);
+        const day: TimesheetDay = { ...emptyTotals(), dateKey, label: '', issues: '', hasShifts: dayShifts.length > 0, times: {} };
+
+        dayShifts.forEach(shiftEvents => {
+            shiftEvents.forEach(event => {
+                // (M) lançada manualmente, (A) alterada pelo administrador
+                const mark = event.source === 'manual' ? ' (M)' : event.editedAt ? ' (A)' : '';
+                day.times[event.type] = formatTime(event.timestamp, eventTimeZone(event)) + mark;
+            });
+
+            const details = calculateShiftDetails(shiftEvents, employee, input.payRules, input.holidays);
+            if (details.status === 'complete') {
+                day.normalMs += details.normal;
+                day.extraMs += details.extra;
+                day.nightMs += details.nightReduced;
+                day.nightPremium += details.payment.nightPremium;
+                day.holidayMs += details.holiday;
+                day.payment += details.payment.total;
+            }
+        });
+
+        if (leaveDay) {
+            day.normalMs += leaveDay.abonado;
+            day.payment += leaveDay.payment;
+        }
+
+        const leave = employee ? findLeave(input.leaves, employee.id, dateKey) : undefined;
+        day.label = leave
+            ? LEAVE_KINDS[leave.kind].label
+            : describeDayClassification(classifyDay(dateKey, employee?.restWeekday, input.holidays));
+        day.issues = input.complianceIssues
+            .filter(issue => issue.employeeId === employee?.id && issue.date === dateKey)
+            .map(issue => `${COMPLIANCE_ISSUE_LABELS[issue.kind]} (${issue.minutes} min)`)
+            .join(', ');
+
+        totals.normalMs += day.normalMs;
+        totals.extraMs += day.extraMs;
+        totals.nightMs += day.nightMs;
+        totals.nightPremium += day.nightPremium;
+        totals.holidayMs += day.holidayMs;
+        totals.payment += day.payment;
+        days.push(day);
+    }
+
+    const timeBank = employee
+        ? buildTimeBankLedger(employee, input.allEvents, input.timeBankEntries, input.payRules, input.holidays, endDate)
+        : null;
+
+    return {
+        employee,
+        employeeName: input.employeeName,
+        startDate,
+        endDate,
+        days,
+        totals,
+        timeBankBalance: timeBank && timeBank.movements.length > 0 ? timeBank.balance : null,
+    };
+};
+
+// Nomes de feriados e dados do cadastro vêm do painel e vão para o HTML do espelho
+const escapeHtml = (value: string) => value.replace(/[&<>"]/g, char => `&#${char.charCodeAt(0)};`);
+
+const renderTimesheetPage = (timesheet: Timesheet): string => {
+    const { employee, totals, startDate, endDate } = timesheet;
+
+    const tableRows = timesheet.days.map(day => `
+                            <tr>
+                                <td>${formatDateKey(day.dateKey)}${day.label ? `<br/><small><strong>${escapeHtml(day.label)}</strong></small>` : ''}${day.issues ? `<br/><small>${escapeHtml(day.issues)}</small>` : ''}</td>
+                                ${day.hasShifts ? `
+                                <td>${day.times[ClockType.Entrada] || ''}</td>
+                                <td>${day.times[ClockType.InicioIntervalo] || ''}</td>
+                                <td>${day.times[ClockType.FimIntervalo] || ''}</td>
+                                <td>${day.times[ClockType.Saida] || ''}</td>` : `
+                                <td colspan="4"><strong>${escapeHtml((day.label || (day.issues ? 'Falta' : '')).toUpperCase())}</strong></td>`}
+                                <td>${formatMilliseconds(day.normalMs)}</td>
+                                <td>${formatMilliseconds(day.extraMs)}</td>
+                                <td>${formatMilliseconds(day.holidayMs)}</td>
+                                <td>${formatMilliseconds(day.normalMs + day.extraMs + day.holidayMs)}</td>
+                                <td>${formatMilliseconds(day.nightMs)}</td>
+                                <td>${formatCurrency(day.nightPremium)}</td>
+                                <td>${formatCurrency(day.payment)}</td>
+                            </tr>
+                        `).join('');
+
+    return `
+                        <div class="page">
+                            <div class="header">
+                                <h2>ESPELHO DE PONTO ELETRÔNICO</h2>
+                                <p>Período: ${formatDateKey(startDate)} a ${formatDateKey(endDate)}</p>
+                            </div>
+
+                            <div class="employee-info">
+                                <p><strong>Funcionário:</strong> ${escapeHtml(timesheet.employeeName)}</p>
+                                <p><strong>CPF:</strong> ${escapeHtml(employee?.cpf || '---')} | <strong>Função:</strong> ${escapeHtml(employee?.funcao || '')}</p>
+                            </div>
+
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>Data</th>
+                                        <th>Entrada</th>
+                                        <th>Início Intervalo</th>
+                                        <th>Fim Intervalo</th>
+                                        <th>Saída</th>
+                                        <th>H. Normais</th>
+                                        <th>H. Extras</th>
+                                        <th>H. 100%</th>
+                                        <th>Total Horas</th>
+                                        <th>H. Noturnas</th>
+                                        <th>Adic. Noturno</th>
+                                        <th>Valor Dia</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    ${tableRows}
+                                    <tr class="subtotal-row">
+                                        <td colspan="5">SUBTOTAL</td>
+                                        <td>${formatMilliseconds(totals.normalMs)}</td>
+                                        <td>${formatMilliseconds(totals.extraMs)}</td>
+                                        <td>${formatMilliseconds(totals.holidayMs)}</td>
+                                        <td>${formatMilliseconds(totals.normalMs + totals.extraMs + totals.holidayMs)}</td>
+                                        <td>${formatMilliseconds(totals.nightMs)}</td>
+                                        <td>${formatCurrency(totals.nightPremium)}</td>
+                                        <td>${formatCurrency(totals.payment)}</td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                            <p style="font-size: 11px;">H. Noturnas: trabalho entre 22h e 5h computado pela hora noturna reduzida (52m30s), já incluído nas horas normais/extras. H. 100%: horas em feriados e no descanso semanal. Férias, atestados e faltas justificadas têm as horas previstas abonadas em H. Normais. (M) marcação incluída manualmente e (A) marcação alterada pelo empregador, com justificativa registrada.</p>
+                            ${timesheet.timeBankBalance !== null ? `<p style="font-size: 12px;"><strong>Saldo do banco de horas em ${formatDateKey(endDate)}:</strong> ${formatBalance(timesheet.timeBankBalance)} (horas excedentes compensadas, não pagas como extra)</p>` : ''}
+
+                            <div class="legal-declaration">
+                                <p><strong>DECLARAÇÃO:</strong> Declaro para os devidos fins que os registros de horários acima discriminados correspondem à fiel realidade da jornada de trabalho desempenhada no período acima citado, nada tendo a reivindicar ou invalidar.</p>
+
+                                <div class="signature-block">
+                                    <div class="signature-line">
+                                        Assinatura do Funcionário
+                                    </div>
+                                    <div class="signature-line" style="width: 200px;">
+                                        Data: ____/____/________
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                        <div class="page-break"></div>
+                    `;
+};
+
+/** Abre os espelhos (um por página) numa nova janela, prontos para imprimir ou salvar em PDF. */
+export const printTimesheets = (timesheets: Timesheet[], startDate: string, endDate: string) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    const htmlContent = `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <title>Espelho de Ponto - ${formatDateKey(startDate)} a ${formatDateKey(endDate)}</title>
+                <style>
+                    body { font-family: sans-serif; padding: 20px; color: #333; }
+                    .page-break { page-break-after: always; }
+                    .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #333; padding-bottom: 10px; }
+                    .employee-info { margin-bottom: 20px; }
+                    table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+                    th, td { border: 1px solid #ccc; padding: 8px; text-align: center; font-size: 12px; }
+                    th { background-color: #f2f2f2; }
+                    .subtotal-row { font-weight: bold; background-color: #f9f9f9; }
+                    .legal-declaration { margin-top: 40px; border-top: 1px solid #333; padding-top: 20px; }
+                    .signature-block { margin-top: 50px; display: flex; justify-content: space-between; }
+                    .signature-line { border-top: 1px solid #333; width: 300px; text-align: center; padding-top: 5px; }
+                    @media print {
+                        .no-print { display: none; }
+                        body { padding: 0; }
+                    }
+                </style>
+            </head>
+            <body>
+                <div class="no-print" style="background: #fdf6e3; padding: 10px; margin-bottom: 20px; text-align: center; border: 1px solid #eee;">
+                    <button onclick="window.print()" style="padding: 10px 20px; background: #22c55e; color: white; border: none; borderRadius: 5px; cursor: pointer; fontWeight: bold;">IMPRIMIR RELATÓRIO</button>
+                    <p style="font-size: 12px; margin-top: 5px;">Dica: Selecione "Salvar como PDF" no destino da impressão.</p>
+                </div>
+
+                ${timesheets.map(renderTimesheetPage).join('')}
+            </body>
+            </html>
+        `;
+
+    printWindow.document.write(htmlContent);
+    printWindow.document.close();
+};
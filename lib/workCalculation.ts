@@ -0,0 +1,226 @@
+import type { DayClassification, Employee, Holiday, PayProfile, PayRules, StoredClockEvent } from '../types';
+import { ClockType } from '../types';
+import { DEFAULT_PAY_PROFILE, getHourlyRate, resolveShiftPayProfile } from './payProfiles';
+import { classifyDay } from './holidays';
+import { addDaysToKey, eventDateKey, eventTimeZone, getTimeZone, toDateKey, zonedTimeToInstant } from './dateTime';
+import { getMaxShiftMs } from './shiftPolicy';
+
+// Cálculo de horas trabalhadas e valores, compartilhado pelo painel, relatórios e exportações.
+
+// Período noturno urbano (CLT art. 73): 22h às 5h, com hora noturna reduzida de 52m30s
+const NIGHT_START = '22:00:00';
+const NIGHT_END = '05:00:00';
+const REDUCED_NIGHT_HOUR_MS = 52.5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface WorkDetails {
+    total: number; // Horas computadas (noturnas já convertidas pela hora reduzida)
+    normal: number;
+    extra: number;
+    night: number; // Tempo de relógio trabalhado entre 22h e 5h
+    nightReduced: number; // O mesmo período em horas noturnas reduzidas
+    holiday: number; // Horas computadas em feriado ou descanso semanal (pagas com o adicional do perfil)
+    timeBank: number; // Saldo do turno para o banco de horas (positivo ou negativo), se o perfil usar banco
+    day: DayClassification;
+    payment: {
+        normal: number;
+        extra: number;
+        nightPremium: number;
+        holiday: number;
+        total: number;
+    };
+    status: 'complete' | 'incomplete' | 'error' | 'no_entry';
+}
+
+/**
+ * Agrupa eventos por turnos de trabalho.
+ * Um turno começa com uma Entrada e termina com uma Saída.
+ * Pode conter múltiplos intervalos e atravessar a meia-noite.
+ * A duração máxima do turno vem da política de turno aberto (lib/shiftPolicy).
+ */
+export const groupEventsByShifts = (events: StoredClockEvent[]): StoredClockEvent[][] => {
+    // Ordenar eventos por timestamp
+    const sorted = [...events].sort((a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    const maxShiftMs = getMaxShiftMs();
+    const shifts: StoredClockEvent[][] = [];
+    let currentShift: StoredClockEvent[] = [];
+    let shiftStarted = false;
+
+    for (const event of sorted) {
+        if (event.type === ClockType.Entrada) {
+            // Se já tínhamos um turno aberto, fechamos ele como incompleto
+            if (shiftStarted && currentShift.length > 0) {
+                shifts.push(currentShift);
+            }
+            // Início de um novo turno
+            currentShift = [event];
+            shiftStarted = true;
+        } else if (shiftStarted) {
+            // Verifica se o evento não está muito distante da Entrada (além da duração máxima do turno)
+            const entradaTime = new Date(currentShift[0].timestamp).getTime();
+            const eventTime = new Date(event.timestamp).getTime();
+
+            if (eventTime - entradaTime > maxShiftMs) {
+                // Muito distante. Fecha o turno atual incompleto e ignora este evento órfão.
+                shifts.push(currentShift);
+                currentShift = [];
+                shiftStarted = false;
+            } else {
+                // Adicionar evento ao turno atual
+                currentShift.push(event);
+
+                if (event.type === ClockType.Saida) {
+                    // Fim do turno
+                    shifts.push(currentShift);
+                    currentShift = [];
+                    shiftStarted = false;
+                }
+            }
+        }
+    }
+
+    // Se houver um turno incompleto (sem saída), adicionar também
+    if (currentShift.length > 0) {
+        shifts.push(currentShift);
+    }
+
+    return shifts;
+};
+
+export const formatMilliseconds = (totalMillis: number): string => {
+    if (totalMillis < 0) return "Erro";
+    const hours = Math.floor(totalMillis / (1000 * 60 * 60));
+    const minutes = Math.floor((totalMillis % (1000 * 60 * 60)) / (1000 * 60));
+    const pad = (num: number) => num.toString().padStart(2, '0');
+    return `${pad(hours)}h ${pad(minutes)}m`;
+};
+
+export const formatCurrency = (value: number): string => {
+    return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+};
+
+/**
+ * Quanto do intervalo [start, end] cai no período noturno, no fuso informado (o da Entrada do turno).
+ * Considera a janela que começa na véspera, para turnos iniciados antes das 5h.
+ */
+export const nightOverlapMs = (start: number, end: number, timeZone = getTimeZone()): number => {
+    if (end <= start) return 0;
+
+    let overlap = 0;
+    const lastKey = toDateKey(new Date(end), timeZone);
+    for (let dateKey = addDaysToKey(toDateKey(new Date(start), timeZone), -1); dateKey <= lastKey; dateKey = addDaysToKey(dateKey, 1)) {
+        const windowStart = zonedTimeToInstant(dateKey, NIGHT_START, timeZone).getTime();
+        const windowEnd = zonedTimeToInstant(addDaysToKey(dateKey, 1), NIGHT_END, timeZone).getTime();
+        overlap += Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+    }
+    return overlap;
+};
+
+/**
+ * Calcula horas normais/extras e valores de um turno conforme o perfil de remuneração vigente.
+ * O tempo noturno é convertido pela hora reduzida antes da divisão normal/extra e ainda
+ * recebe o adicional noturno do perfil.
+ * Em feriados e no descanso semanal todas as horas vão para a coluna de 100% (holiday).
+ * Mensalistas já recebem as horas normais no salário, então só as extras entram no valor do dia.
+ * Com banco de horas, a diferença para a jornada vira saldo (timeBank) e as extras não são pagas.
+ */
+export const calculateWorkDetails = (
+    dailyEvents: StoredClockEvent[],
+    profile: PayProfile = DEFAULT_PAY_PROFILE,
+    day: DayClassification = { kind: 'regular' }
+): WorkDetails => {
+    const defaultPayment = { night: 0, nightReduced: 0, holiday: 0, timeBank: 0, day, payment: { normal: 0, extra: 0, nightPremium: 0, holiday: 0, total: 0 } };
+    const sortedEvents = [...dailyEvents].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const timeZone = sortedEvents.length > 0 ? eventTimeZone(sortedEvents[0]) : getTimeZone();
+
+    let totalMillis = 0;
+    let nightMillis = 0;
+    let lastTime: number | null = null;
+    let isWorking = false;
+
+    for (const event of sortedEvents) {
+        const currentTime = new Date(event.timestamp).getTime();
+        if (isWorking && lastTime) {
+            totalMillis += currentTime - lastTime;
+            nightMillis += nightOverlapMs(lastTime, currentTime, timeZone);
+        }
+        switch (event.type) {
+            case ClockType.Entrada:
+            case ClockType.FimIntervalo:
+                isWorking = true;
+                break;
+            case ClockType.Saida:
+            case ClockType.InicioIntervalo:
+                isWorking = false;
+                break;
+        }
+        lastTime = currentTime;
+    }
+
+    const hasEntry = sortedEvents.some(e => e.type === ClockType.Entrada);
+    if (!hasEntry) return { total: 0, normal: 0, extra: 0, status: 'no_entry', ...defaultPayment };
+
+    const hasExit = sortedEvents.some(e => e.type === ClockType.Saida);
+    if (isWorking || !hasExit) {
+        return { total: 0, normal: 0, extra: 0, status: 'incomplete', ...defaultPayment };
+    }
+
+    if (totalMillis < 0) return { total: 0, normal: 0, extra: 0, status: 'error', ...defaultPayment };
+
+    // Cada 52m30s de relógio no período noturno vale uma hora
+    const nightReduced = nightMillis * (HOUR_MS / REDUCED_NIGHT_HOUR_MS);
+    const countedMillis = totalMillis - nightMillis + nightReduced;
+
+    const isPremiumDay = day.kind !== 'regular';
+    const journeyMillis = profile.dailyJourneyMinutes * 60 * 1000;
+    const holiday = isPremiumDay ? countedMillis : 0;
+    const normal = isPremiumDay ? 0 : Math.min(countedMillis, journeyMillis);
+    const extra = isPremiumDay ? 0 : Math.max(0, countedMillis - journeyMillis);
+    const timeBank = profile.timeBankEnabled && !isPremiumDay ? countedMillis - journeyMillis : 0;
+
+    const normalHours = normal / HOUR_MS;
+    const extraHours = extra / HOUR_MS;
+
+    const hourlyRate = getHourlyRate(profile);
+    const normalPayment = profile.payType === 'monthly' ? 0 : normalHours * hourlyRate;
+    const extraPayment = profile.timeBankEnabled ? 0 : extraHours * hourlyRate * profile.overtimeMultiplier;
+    const holidayPayment = (holiday / HOUR_MS) * hourlyRate * profile.holidayMultiplier;
+    const nightPremiumPayment = (nightReduced / HOUR_MS) * hourlyRate * (profile.nightPremiumPercent / 100);
+    const totalPayment = normalPayment + extraPayment + holidayPayment + nightPremiumPayment;
+
+    return {
+        total: countedMillis,
+        normal,
+        extra,
+        night: nightMillis,
+        nightReduced,
+        holiday,
+        timeBank,
+        day,
+        payment: {
+            normal: normalPayment,
+            extra: extraPayment,
+            nightPremium: nightPremiumPayment,
+            holiday: holidayPayment,
+            total: totalPayment
+        },
+        status: 'complete'
+    };
+};
+
+/**
+ * Calcula um turno com o perfil de remuneração vigente e a classificação (feriado/descanso)
+ * do dia da Entrada, como fazem o painel, os relatórios e o banco de horas.
+ */
+export const calculateShiftDetails = (
+    shiftEvents: StoredClockEvent[],
+    employee: Employee | undefined,
+    payRules: PayRules,
+    holidays: Holiday[]
+): WorkDetails => {
+    const day = classifyDay(eventDateKey(shiftEvents[0]), employee?.restWeekday, holidays);
+    return calculateWorkDetails(shiftEvents, resolveShiftPayProfile(payRules, employee, shiftEvents), day);
+};
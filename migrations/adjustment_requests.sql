@@ -0,0 +1,212 @@
+-- Solicitações de ajuste de ponto (Supabase)
+-- O funcionário pede, no quiosque ou na área do funcionário, a inclusão de uma batida esquecida ou a
+-- correção do horário de uma batida, com motivo e anexo opcional. Gestores com a permissão
+-- approve_adjustments aprovam ou recusam. A aprovação grava a batida (inclusão manual ou alteração)
+-- com a trilha de auditoria de event_audit.sql, e a batida guarda o número da solicitação de origem.
+-- Execute no SQL Editor do Supabase depois de employee_portal.sql. É seguro executar mais de uma vez.
+
+CREATE TABLE IF NOT EXISTS ponto_adjustment_requests (
+    id SERIAL PRIMARY KEY,
+    employee_id INTEGER NOT NULL REFERENCES ponto_employees(id),
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('missing', 'wrong_time')),
+    event_id INTEGER REFERENCES ponto_events(id), -- Batida a corrigir (wrong_time)
+    type VARCHAR(30) NOT NULL,
+    requested_timestamp TIMESTAMPTZ NOT NULL,
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    attachment_path TEXT,
+    origin VARCHAR(10) NOT NULL CHECK (origin IN ('kiosk', 'portal')),
+    device_id INTEGER REFERENCES ponto_devices(id),
+    status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    decided_at TIMESTAMPTZ,
+    decided_by TEXT,
+    decision_note TEXT,
+    result_event_id INTEGER REFERENCES ponto_events(id),
+    CHECK ((kind = 'wrong_time') = (event_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_adjustment_requests_pending ON ponto_adjustment_requests(created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_adjustment_requests_employee ON ponto_adjustment_requests(employee_id, created_at);
+
+-- O motivo pode trazer dados pessoais (ex.: atestado): leitura só para gestores; escrita só pelas funções abaixo
+ALTER TABLE ponto_adjustment_requests ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON ponto_adjustment_requests FROM anon, authenticated;
+DROP POLICY IF EXISTS ponto_adjustment_requests_read ON ponto_adjustment_requests;
+CREATE POLICY ponto_adjustment_requests_read ON ponto_adjustment_requests FOR SELECT TO authenticated
+    USING (ponto_has_permission('approve_adjustments') OR ponto_has_permission('view_reports'));
+
+ALTER TABLE ponto_events ADD COLUMN IF NOT EXISTS adjustment_request_id INTEGER REFERENCES ponto_adjustment_requests(id);
+
+-- Anexos das solicitações: o quiosque envia, só gestores abrem
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ponto-solicitacoes', 'ponto-solicitacoes', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "ponto_solicitacoes_upload" ON storage.objects;
+CREATE POLICY "ponto_solicitacoes_upload" ON storage.objects FOR INSERT TO anon, authenticated
+    WITH CHECK (bucket_id = 'ponto-solicitacoes');
+DROP POLICY IF EXISTS "ponto_solicitacoes_read" ON storage.objects;
+CREATE POLICY "ponto_solicitacoes_read" ON storage.objects FOR SELECT TO authenticated
+    USING (bucket_id = 'ponto-solicitacoes' AND ponto_has_permission('approve_adjustments'));
+
+-- Enviada pelo quiosque depois do PIN; o dispositivo precisa atender o funcionário
+CREATE OR REPLACE FUNCTION submit_adjustment_request(
+    p_device_token TEXT,
+    p_employee_id INTEGER,
+    p_kind TEXT,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_reason TEXT,
+    p_event_id INTEGER DEFAULT NULL,
+    p_attachment_path TEXT DEFAULT NULL,
+    p_origin TEXT DEFAULT 'kiosk'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_event ponto_events;
+    v_id INTEGER;
+BEGIN
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não atende o funcionário %', p_employee_id;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM ponto_employees WHERE id = p_employee_id) THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+    IF p_type NOT IN ('Entrada', 'Início Intervalo', 'Fim Intervalo', 'Saída') THEN
+        RAISE EXCEPTION 'Tipo de marcação inválido: %', p_type;
+    END IF;
+    IF p_timestamp > now() THEN
+        RAISE EXCEPTION 'O horário solicitado não pode estar no futuro';
+    END IF;
+    IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'Informe o motivo da solicitação';
+    END IF;
+    -- Anexos ficam na pasta do próprio funcionário
+    IF p_attachment_path IS NOT NULL AND p_attachment_path NOT LIKE p_employee_id || '/%' THEN
+        RAISE EXCEPTION 'Anexo inválido';
+    END IF;
+
+    IF p_kind = 'wrong_time' THEN
+        SELECT * INTO v_event FROM ponto_events
+        WHERE id = p_event_id AND employee_id = p_employee_id AND deleted_at IS NULL;
+        IF v_event.id IS NULL THEN
+            RAISE EXCEPTION 'Batida % não encontrada', p_event_id;
+        END IF;
+        IF EXISTS (SELECT 1 FROM ponto_adjustment_requests WHERE event_id = p_event_id AND status = 'pending') THEN
+            RAISE EXCEPTION 'Já existe uma solicitação pendente para esta batida';
+        END IF;
+    ELSIF p_kind <> 'missing' THEN
+        RAISE EXCEPTION 'Tipo de solicitação inválido: %', p_kind;
+    END IF;
+
+    INSERT INTO ponto_adjustment_requests
+        (employee_id, kind, event_id, type, requested_timestamp, reason, attachment_path, origin, device_id)
+    VALUES
+        (p_employee_id, p_kind, CASE WHEN p_kind = 'wrong_time' THEN p_event_id END, p_type, p_timestamp,
+         trim(p_reason), p_attachment_path, CASE WHEN p_origin = 'portal' THEN 'portal' ELSE 'kiosk' END, v_device.id)
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_adjustment_request(TEXT, INTEGER, TEXT, TEXT, TIMESTAMPTZ, TEXT, INTEGER, TEXT, TEXT) TO anon, authenticated;
+
+-- Solicitações do próprio funcionário, para a área do funcionário (sem os dados de quem decidiu)
+CREATE OR REPLACE FUNCTION employee_adjustment_requests(p_device_token TEXT, p_employee_id INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+BEGIN
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não atende o funcionário %', p_employee_id;
+    END IF;
+    RETURN coalesce((
+        SELECT jsonb_agg(jsonb_build_object(
+            'id', id, 'kind', kind, 'event_id', event_id, 'type', type,
+            'requested_timestamp', requested_timestamp, 'reason', reason, 'origin', origin, 'status', status,
+            'created_at', created_at, 'decided_at', decided_at, 'decision_note', decision_note
+        ) ORDER BY created_at DESC)
+        FROM (
+            SELECT * FROM ponto_adjustment_requests
+            WHERE employee_id = p_employee_id
+            ORDER BY created_at DESC
+            LIMIT 50
+        ) recent
+    ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION employee_adjustment_requests(TEXT, INTEGER) TO anon, authenticated;
+
+-- A aprovação exige approve_adjustments (e não edit_events): grava o contexto de auditoria diretamente
+CREATE OR REPLACE FUNCTION approve_adjustment_request(p_request_id INTEGER, p_actor TEXT, p_note TEXT DEFAULT NULL)
+RETURNS ponto_events AS $$
+DECLARE
+    v_request ponto_adjustment_requests;
+    v_event ponto_events;
+BEGIN
+    IF NOT ponto_has_permission('approve_adjustments') THEN
+        RAISE EXCEPTION 'Sem permissão para aprovar solicitações de ajuste';
+    END IF;
+
+    SELECT * INTO v_request FROM ponto_adjustment_requests WHERE id = p_request_id FOR UPDATE;
+    IF v_request.id IS NULL THEN
+        RAISE EXCEPTION 'Solicitação % não encontrada', p_request_id;
+    END IF;
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'A solicitação % já foi decidida', p_request_id;
+    END IF;
+
+    PERFORM set_config('ponto.audit_actor', coalesce(p_actor, ''), true);
+    PERFORM set_config('ponto.audit_reason', format('Solicitação de ajuste nº %s aprovada: %s%s',
+        v_request.id, v_request.reason, CASE WHEN nullif(trim(p_note), '') IS NOT NULL THEN ' (' || trim(p_note) || ')' ELSE '' END), true);
+
+    IF v_request.kind = 'missing' THEN
+        INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source, adjustment_request_id)
+        SELECT v_request.employee_id, name, v_request.type, v_request.requested_timestamp, 'manual', v_request.id
+        FROM ponto_employees WHERE id = v_request.employee_id
+        RETURNING * INTO v_event;
+    ELSE
+        UPDATE ponto_events
+        SET type = v_request.type, "timestamp" = v_request.requested_timestamp, adjustment_request_id = v_request.id
+        WHERE id = v_request.event_id AND deleted_at IS NULL
+        RETURNING * INTO v_event;
+        IF v_event.id IS NULL THEN
+            RAISE EXCEPTION 'A batida da solicitação % foi excluída; recuse a solicitação', p_request_id;
+        END IF;
+    END IF;
+
+    UPDATE ponto_adjustment_requests
+    SET status = 'approved', decided_at = now(), decided_by = p_actor,
+        decision_note = nullif(trim(p_note), ''), result_event_id = v_event.id
+    WHERE id = p_request_id;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reject_adjustment_request(p_request_id INTEGER, p_actor TEXT, p_note TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT ponto_has_permission('approve_adjustments') THEN
+        RAISE EXCEPTION 'Sem permissão para recusar solicitações de ajuste';
+    END IF;
+    IF p_note IS NULL OR length(trim(p_note)) = 0 THEN
+        RAISE EXCEPTION 'Informe o motivo da recusa';
+    END IF;
+
+    UPDATE ponto_adjustment_requests
+    SET status = 'rejected', decided_at = now(), decided_by = p_actor, decision_note = trim(p_note)
+    WHERE id = p_request_id AND status = 'pending';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitação % não encontrada ou já decidida', p_request_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION approve_adjustment_request(INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reject_adjustment_request(INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION approve_adjustment_request(INTEGER, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_adjustment_request(INTEGER, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,134 @@
+-- Arquivo Fonte de Dados - AFD (Supabase)
+-- Portaria MTP nº 671/2021: cada marcação do quiosque e cada inclusão/alteração/exclusão de empregado
+-- recebe um Número Sequencial de Registro (NSR) único e permanente, compartilhado entre os registros.
+-- A marcação original também é preservada (original_timestamp), pois o AFD não reflete ajustes administrativos.
+-- Execute no SQL Editor do Supabase depois de event_audit.sql. É seguro executar mais de uma vez.
+
+CREATE SEQUENCE IF NOT EXISTS ponto_nsr_seq;
+
+ALTER TABLE ponto_events
+    ADD COLUMN IF NOT EXISTS nsr BIGINT UNIQUE,
+    ADD COLUMN IF NOT EXISTS original_timestamp TIMESTAMPTZ;
+
+-- Registros de empregado do AFD (tipo 5). Sem chave estrangeira: a exclusão do funcionário também é registrada.
+CREATE TABLE IF NOT EXISTS ponto_employee_records (
+    nsr BIGINT PRIMARY KEY DEFAULT nextval('ponto_nsr_seq'),
+    employee_id INTEGER NOT NULL,
+    operation CHAR(1) NOT NULL CHECK (operation IN ('I', 'A', 'E')),
+    cpf VARCHAR(11) NOT NULL DEFAULT '',
+    name VARCHAR(52) NOT NULL,
+    responsible_cpf VARCHAR(11) NOT NULL DEFAULT '',
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_records_recorded ON ponto_employee_records(recorded_at);
+CREATE INDEX IF NOT EXISTS idx_events_original_timestamp ON ponto_events(original_timestamp) WHERE nsr IS NOT NULL;
+
+-- Histórico existente: inclusão de todos os funcionários e, em seguida, as batidas de quiosque em ordem cronológica.
+-- A marcação original de batidas já ajustadas vem do primeiro registro de alteração da auditoria.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_events WHERE nsr IS NOT NULL) OR EXISTS (SELECT 1 FROM ponto_employee_records) THEN
+        RAISE NOTICE 'NSR já atribuído, nada a fazer.';
+        RETURN;
+    END IF;
+
+    INSERT INTO ponto_employee_records (employee_id, operation, cpf, name, recorded_at)
+    SELECT emp.id, 'I', left(regexp_replace(coalesce(emp.cpf, ''), '\D', '', 'g'), 11), left(emp.name, 52),
+           coalesce((SELECT min(e."timestamp") FROM ponto_events e WHERE e.employee_id = emp.id), now())
+    FROM ponto_employees emp
+    ORDER BY emp.id;
+
+    UPDATE ponto_events e
+    SET original_timestamp = coalesce((
+        SELECT (a.old_value ->> 'timestamp')::timestamptz
+        FROM ponto_event_audit a
+        WHERE a.event_id = e.id AND a.action = 'update'
+        ORDER BY a.created_at
+        LIMIT 1
+    ), e."timestamp");
+
+    UPDATE ponto_events e
+    SET nsr = numbered.nsr
+    FROM (
+        SELECT id, nextval('ponto_nsr_seq') AS nsr
+        FROM (SELECT id FROM ponto_events WHERE source = 'kiosk' ORDER BY original_timestamp, id) ordered
+    ) numbered
+    WHERE e.id = numbered.id;
+END $$;
+
+-- Batidas de quiosque recebem o horário do servidor, o NSR e a marcação original no momento da gravação.
+CREATE OR REPLACE FUNCTION ponto_events_server_time()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.source = 'kiosk' THEN
+        NEW."timestamp" := now();
+        NEW.nsr := nextval('ponto_nsr_seq');
+    ELSE
+        NEW.nsr := NULL;
+    END IF;
+    NEW.original_timestamp := NEW."timestamp";
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- NSR e marcação original são permanentes
+CREATE OR REPLACE FUNCTION ponto_events_keep_nsr()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.nsr IS NOT NULL THEN
+        NEW.nsr := OLD.nsr;
+    END IF;
+    IF OLD.original_timestamp IS NOT NULL THEN
+        NEW.original_timestamp := OLD.original_timestamp;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_events_keep_nsr ON ponto_events;
+CREATE TRIGGER trg_ponto_events_keep_nsr
+    BEFORE UPDATE ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_keep_nsr();
+
+-- Inclusão, alteração de nome/CPF e exclusão de funcionários geram registros tipo 5.
+-- O CPF do responsável vem da configuração afd_responsible_cpf.
+CREATE OR REPLACE FUNCTION ponto_employees_afd_record()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_responsible TEXT := coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'afd_responsible_cpf'), '');
+    v_row ponto_employees := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.name IS NOT DISTINCT FROM OLD.name AND NEW.cpf IS NOT DISTINCT FROM OLD.cpf THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO ponto_employee_records (employee_id, operation, cpf, name, responsible_cpf)
+    VALUES (
+        v_row.id,
+        CASE TG_OP WHEN 'INSERT' THEN 'I' WHEN 'UPDATE' THEN 'A' ELSE 'E' END,
+        left(regexp_replace(coalesce(v_row.cpf, ''), '\D', '', 'g'), 11),
+        left(v_row.name, 52),
+        left(regexp_replace(v_responsible, '\D', '', 'g'), 11)
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_employees_afd_record ON ponto_employees;
+CREATE TRIGGER trg_ponto_employees_afd_record
+    AFTER INSERT OR UPDATE OR DELETE ON ponto_employees
+    FOR EACH ROW EXECUTE FUNCTION ponto_employees_afd_record();
+
+-- Os registros do AFD não podem ser alterados nem apagados
+CREATE OR REPLACE FUNCTION ponto_employee_records_immutable()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Registros do AFD não podem ser alterados nem excluídos';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_employee_records_immutable ON ponto_employee_records;
+CREATE TRIGGER trg_ponto_employee_records_immutable
+    BEFORE UPDATE OR DELETE ON ponto_employee_records
+    FOR EACH ROW EXECUTE FUNCTION ponto_employee_records_immutable();
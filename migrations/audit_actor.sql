@@ -0,0 +1,239 @@
+-- Autor das alterações definido pelo banco (Supabase)
+-- O autor gravado na auditoria vinha do app (p_actor) e podia ser qualquer texto: um gestor conseguia
+-- atribuir as próprias alterações a outra pessoa. Agora o banco usa o gestor autenticado
+-- (current_manager(), pelo auth.uid() da sessão) e as funções deixam de receber p_actor.
+-- Execute no SQL Editor do Supabase depois de event_locations.sql. É seguro executar mais de uma vez.
+
+-- "Nome <e-mail>" do gestor autenticado; NULL fora de uma sessão de gestor
+CREATE OR REPLACE FUNCTION ponto_current_actor()
+RETURNS TEXT AS $$
+    SELECT m.name || ' <' || m.email || '>' FROM current_manager() m WHERE m.id IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION ponto_current_actor() FROM PUBLIC;
+
+DROP FUNCTION IF EXISTS admin_insert_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT, TEXT);
+DROP FUNCTION IF EXISTS admin_update_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT, TEXT);
+DROP FUNCTION IF EXISTS admin_delete_event(INTEGER, TEXT, TEXT);
+DROP FUNCTION IF EXISTS admin_insert_break(INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT);
+DROP FUNCTION IF EXISTS merge_duplicate_punches(INTEGER[], TEXT);
+DROP FUNCTION IF EXISTS approve_adjustment_request(INTEGER, TEXT, TEXT);
+DROP FUNCTION IF EXISTS reject_adjustment_request(INTEGER, TEXT, TEXT);
+DROP FUNCTION IF EXISTS ponto_set_audit_context(TEXT, TEXT);
+
+-- Alterações de batidas exigem a permissão edit_events (todas as funções admin_* passam por aqui)
+CREATE OR REPLACE FUNCTION ponto_set_audit_context(p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT ponto_has_permission('edit_events') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar registros de ponto';
+    END IF;
+    IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'Justificativa obrigatória para alterar registros de ponto';
+    END IF;
+    PERFORM set_config('ponto.audit_actor', ponto_current_actor(), true);
+    PERFORM set_config('ponto.audit_reason', p_reason, true);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_insert_event(
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_reason TEXT
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_name TEXT;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    PERFORM ponto_set_audit_context(p_reason);
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, 'manual')
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_update_event(
+    p_event_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_reason TEXT
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_event ponto_events;
+BEGIN
+    PERFORM ponto_set_audit_context(p_reason);
+    UPDATE ponto_events SET type = p_type, "timestamp" = p_timestamp
+    WHERE id = p_event_id AND deleted_at IS NULL
+    RETURNING * INTO v_event;
+
+    IF v_event.id IS NULL THEN
+        RAISE EXCEPTION 'Registro % não encontrado', p_event_id;
+    END IF;
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_delete_event(
+    p_event_id INTEGER,
+    p_reason TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM ponto_set_audit_context(p_reason);
+    UPDATE ponto_events SET deleted_at = now()
+    WHERE id = p_event_id AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Registro % não encontrado', p_event_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Intervalo lançado pelo gestor: início e fim na mesma transação (um sozinho quebraria a sequência)
+CREATE OR REPLACE FUNCTION admin_insert_break(
+    p_employee_id INTEGER,
+    p_start TIMESTAMPTZ,
+    p_end TIMESTAMPTZ,
+    p_reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_name TEXT;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+    IF p_end <= p_start THEN
+        RAISE EXCEPTION 'O fim do intervalo deve ser depois do início';
+    END IF;
+
+    PERFORM ponto_set_audit_context(p_reason);
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source)
+    VALUES (p_employee_id, v_name, 'Início Intervalo', p_start, 'manual'),
+           (p_employee_id, v_name, 'Fim Intervalo', p_end, 'manual');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mescla as duplicadas escolhidas na prévia. A batida mantida é conferida de novo aqui, da pior para a
+-- melhor, para uma cadeia de repetidas terminar numa só batida. Retorna quantas foram mescladas.
+CREATE OR REPLACE FUNCTION merge_duplicate_punches(p_duplicate_ids INTEGER[])
+RETURNS INTEGER AS $$
+DECLARE
+    v_duplicate ponto_events;
+    v_kept ponto_events;
+    v_count INTEGER := 0;
+BEGIN
+    PERFORM ponto_set_audit_context('Batida duplicada');
+
+    FOR v_duplicate IN
+        SELECT * FROM ponto_events
+        WHERE id = ANY(p_duplicate_ids) AND deleted_at IS NULL
+        ORDER BY source = 'manual' DESC, "timestamp" DESC, id DESC
+    LOOP
+        v_kept := ponto_duplicate_keeper(v_duplicate);
+        CONTINUE WHEN v_kept.id IS NULL;
+
+        PERFORM set_config('ponto.audit_reason', format('Batida duplicada da nº %s (mesclada)', v_kept.id), true);
+        IF v_kept.photo_path IS NULL AND v_duplicate.photo_path IS NOT NULL THEN
+            UPDATE ponto_events SET photo_path = v_duplicate.photo_path WHERE id = v_kept.id;
+        END IF;
+        UPDATE ponto_events SET deleted_at = now() WHERE id = v_duplicate.id;
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A aprovação exige approve_adjustments (e não edit_events): grava o contexto de auditoria diretamente
+CREATE OR REPLACE FUNCTION approve_adjustment_request(p_request_id INTEGER, p_note TEXT DEFAULT NULL)
+RETURNS ponto_events AS $$
+DECLARE
+    v_request ponto_adjustment_requests;
+    v_event ponto_events;
+    v_actor TEXT := ponto_current_actor();
+BEGIN
+    IF NOT ponto_has_permission('approve_adjustments') THEN
+        RAISE EXCEPTION 'Sem permissão para aprovar solicitações de ajuste';
+    END IF;
+
+    SELECT * INTO v_request FROM ponto_adjustment_requests WHERE id = p_request_id FOR UPDATE;
+    IF v_request.id IS NULL THEN
+        RAISE EXCEPTION 'Solicitação % não encontrada', p_request_id;
+    END IF;
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'A solicitação % já foi decidida', p_request_id;
+    END IF;
+
+    PERFORM set_config('ponto.audit_actor', v_actor, true);
+    PERFORM set_config('ponto.audit_reason', format('Solicitação de ajuste nº %s aprovada: %s%s',
+        v_request.id, v_request.reason, CASE WHEN nullif(trim(p_note), '') IS NOT NULL THEN ' (' || trim(p_note) || ')' ELSE '' END), true);
+
+    IF v_request.kind = 'missing' THEN
+        INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source, adjustment_request_id)
+        SELECT v_request.employee_id, name, v_request.type, v_request.requested_timestamp, 'manual', v_request.id
+        FROM ponto_employees WHERE id = v_request.employee_id
+        RETURNING * INTO v_event;
+    ELSE
+        UPDATE ponto_events
+        SET type = v_request.type, "timestamp" = v_request.requested_timestamp, adjustment_request_id = v_request.id
+        WHERE id = v_request.event_id AND deleted_at IS NULL
+        RETURNING * INTO v_event;
+        IF v_event.id IS NULL THEN
+            RAISE EXCEPTION 'A batida da solicitação % foi excluída; recuse a solicitação', p_request_id;
+        END IF;
+    END IF;
+
+    UPDATE ponto_adjustment_requests
+    SET status = 'approved', decided_at = now(), decided_by = v_actor,
+        decision_note = nullif(trim(p_note), ''), result_event_id = v_event.id
+    WHERE id = p_request_id;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reject_adjustment_request(p_request_id INTEGER, p_note TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT ponto_has_permission('approve_adjustments') THEN
+        RAISE EXCEPTION 'Sem permissão para recusar solicitações de ajuste';
+    END IF;
+    IF p_note IS NULL OR length(trim(p_note)) = 0 THEN
+        RAISE EXCEPTION 'Informe o motivo da recusa';
+    END IF;
+
+    UPDATE ponto_adjustment_requests
+    SET status = 'rejected', decided_at = now(), decided_by = ponto_current_actor(), decision_note = trim(p_note)
+    WHERE id = p_request_id AND status = 'pending';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitação % não encontrada ou já decidida', p_request_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION admin_insert_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_update_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_delete_event(INTEGER, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_insert_break(INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION merge_duplicate_punches(INTEGER[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION approve_adjustment_request(INTEGER, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reject_adjustment_request(INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_insert_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_update_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_delete_event(INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_insert_break(INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_duplicate_punches(INTEGER[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_adjustment_request(INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_adjustment_request(INTEGER, TEXT) TO authenticated;
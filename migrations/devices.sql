@@ -0,0 +1,366 @@
+-- Dispositivos autorizados (Supabase)
+-- Até aqui qualquer navegador com o endereço do app podia chamar register_punch com a chave anon.
+-- Agora o quiosque precisa ser cadastrado: o gestor gera um código de uso único (válido por 15 minutos),
+-- o aparelho troca o código por um token guardado no navegador e toda chamada do quiosque (PIN, batida,
+-- sincronização offline e foto) apresenta esse token. O banco guarda só o hash do token.
+-- Cada batida leva o id do dispositivo. Um dispositivo pode atender só alguns funcionários e usar só
+-- alguns locais da cerca virtual (NULL = todos). Dispositivos não são apagados, apenas revogados.
+-- Execute no SQL Editor do Supabase depois de geofence.sql. É seguro executar mais de uma vez.
+
+CREATE TABLE IF NOT EXISTS ponto_devices (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    kiosk_id VARCHAR(64) NOT NULL, -- identificador do navegador, usado na contagem de tentativas de PIN
+    allowed_employee_ids INTEGER[], -- NULL: todos os funcionários
+    allowed_site_ids INTEGER[], -- NULL: todos os locais ativos
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    created_by TEXT,
+    last_seen_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    revoked_by TEXT
+);
+
+CREATE TABLE IF NOT EXISTS ponto_device_enrollments (
+    id SERIAL PRIMARY KEY,
+    code_hash TEXT NOT NULL UNIQUE,
+    device_name VARCHAR(100) NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    device_id INTEGER REFERENCES ponto_devices(id)
+);
+
+ALTER TABLE ponto_events ADD COLUMN IF NOT EXISTS device_id INTEGER REFERENCES ponto_devices(id);
+
+-- Cadastro e revogação ficam com quem gerencia as configurações; a criação só acontece por enroll_device
+ALTER TABLE ponto_devices ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_devices_read ON ponto_devices;
+CREATE POLICY ponto_devices_read ON ponto_devices FOR SELECT TO authenticated USING (ponto_has_permission('view_reports'));
+DROP POLICY IF EXISTS ponto_devices_write ON ponto_devices;
+CREATE POLICY ponto_devices_write ON ponto_devices FOR UPDATE TO authenticated
+    USING (ponto_has_permission('manage_settings'))
+    WITH CHECK (ponto_has_permission('manage_settings'));
+
+ALTER TABLE ponto_device_enrollments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_device_enrollments_read ON ponto_device_enrollments;
+CREATE POLICY ponto_device_enrollments_read ON ponto_device_enrollments FOR SELECT TO authenticated
+    USING (ponto_has_permission('manage_settings'));
+
+CREATE OR REPLACE FUNCTION ponto_token_hash(p_token TEXT)
+RETURNS TEXT AS $$
+    SELECT encode(extensions.digest(p_token, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Gera o código de cadastro (8 caracteres, sem 0/O e 1/I para facilitar a digitação)
+CREATE OR REPLACE FUNCTION create_device_enrollment(p_device_name TEXT, p_actor TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_alphabet TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    v_bytes BYTEA := extensions.gen_random_bytes(8);
+    v_code TEXT := '';
+BEGIN
+    IF NOT ponto_has_permission('manage_settings') THEN
+        RAISE EXCEPTION 'Sem permissão para cadastrar dispositivos';
+    END IF;
+    IF nullif(trim(p_device_name), '') IS NULL THEN
+        RAISE EXCEPTION 'Informe o nome do dispositivo';
+    END IF;
+
+    FOR i IN 0..7 LOOP
+        v_code := v_code || substr(v_alphabet, get_byte(v_bytes, i) % length(v_alphabet) + 1, 1);
+    END LOOP;
+
+    INSERT INTO ponto_device_enrollments (code_hash, device_name, created_by, expires_at)
+    VALUES (ponto_token_hash(v_code), left(trim(p_device_name), 100), p_actor, now() + INTERVAL '15 minutes');
+    RETURN v_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION create_device_enrollment(TEXT, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION create_device_enrollment(TEXT, TEXT) TO authenticated;
+
+-- Troca o código por um token do dispositivo; o token em texto só é devolvido nesta chamada
+CREATE OR REPLACE FUNCTION enroll_device(p_code TEXT, p_kiosk_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_enrollment ponto_device_enrollments;
+    v_token TEXT := encode(extensions.gen_random_bytes(32), 'hex');
+    v_device_id INTEGER;
+BEGIN
+    SELECT * INTO v_enrollment FROM ponto_device_enrollments
+    WHERE code_hash = ponto_token_hash(upper(replace(trim(p_code), '-', '')))
+      AND used_at IS NULL AND expires_at > now()
+    FOR UPDATE;
+    IF v_enrollment.id IS NULL THEN
+        RAISE EXCEPTION 'Código de cadastro inválido ou expirado';
+    END IF;
+
+    INSERT INTO ponto_devices (name, token_hash, kiosk_id, created_by)
+    VALUES (v_enrollment.device_name, ponto_token_hash(v_token),
+            left(coalesce(nullif(trim(p_kiosk_id), ''), gen_random_uuid()::text), 64), v_enrollment.created_by)
+    RETURNING id INTO v_device_id;
+
+    UPDATE ponto_device_enrollments SET used_at = now(), device_id = v_device_id WHERE id = v_enrollment.id;
+
+    RETURN jsonb_build_object('device_id', v_device_id, 'name', v_enrollment.device_name, 'token', v_token);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION enroll_device(TEXT, TEXT) TO anon, authenticated;
+
+-- Dispositivo dono do token; recusa tokens desconhecidos ou revogados
+CREATE OR REPLACE FUNCTION ponto_authorize_device(p_device_token TEXT)
+RETURNS ponto_devices AS $$
+DECLARE
+    v_device ponto_devices;
+BEGIN
+    UPDATE ponto_devices SET last_seen_at = now()
+    WHERE token_hash = ponto_token_hash(coalesce(p_device_token, '')) AND revoked_at IS NULL
+    RETURNING * INTO v_device;
+    IF v_device.id IS NULL THEN
+        RAISE EXCEPTION 'Dispositivo não autorizado. Cadastre este aparelho com um código gerado no painel.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN v_device;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION ponto_authorize_device(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Permite ao quiosque saber, ao abrir, se continua autorizado
+CREATE OR REPLACE FUNCTION check_device(p_device_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_device ponto_devices;
+BEGIN
+    SELECT * INTO v_device FROM ponto_devices WHERE token_hash = ponto_token_hash(coalesce(p_device_token, ''));
+    IF v_device.id IS NULL OR v_device.revoked_at IS NOT NULL THEN
+        RETURN jsonb_build_object('status', 'revoked');
+    END IF;
+    RETURN jsonb_build_object('status', 'active', 'device_id', v_device.id, 'name', v_device.name);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION check_device(TEXT) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION ponto_device_serves(p_device ponto_devices, p_employee_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT p_device.allowed_employee_ids IS NULL OR p_employee_id = ANY (p_device.allowed_employee_ids);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A cerca considera só os locais do dispositivo, quando restritos
+DROP FUNCTION IF EXISTS ponto_check_geofence(DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION ponto_check_geofence(p_latitude DOUBLE PRECISION, p_longitude DOUBLE PRECISION, p_site_ids INTEGER[] DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_mode TEXT := coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'geofence_mode'), 'off');
+    v_site ponto_sites;
+    v_distance DOUBLE PRECISION;
+BEGIN
+    IF v_mode = 'off' OR NOT EXISTS (SELECT 1 FROM ponto_sites WHERE active AND (p_site_ids IS NULL OR id = ANY (p_site_ids))) THEN
+        RETURN NULL;
+    END IF;
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+        RETURN jsonb_build_object('outside', true, 'reason', 'Localização do aparelho indisponível');
+    END IF;
+
+    SELECT * INTO v_site FROM ponto_sites WHERE active AND (p_site_ids IS NULL OR id = ANY (p_site_ids))
+    ORDER BY ponto_distance_meters(p_latitude, p_longitude, latitude, longitude)
+    LIMIT 1;
+    v_distance := ponto_distance_meters(p_latitude, p_longitude, v_site.latitude, v_site.longitude);
+
+    RETURN jsonb_build_object(
+        'site_name', v_site.name,
+        'distance', round(v_distance),
+        'outside', v_distance > v_site.radius_meters,
+        'reason', CASE WHEN v_distance > v_site.radius_meters THEN
+            format('Fora da área permitida: a %s m de %s (raio de %s m)', round(v_distance), v_site.name, v_site.radius_meters)
+        END
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- PIN: o quiosque passa a ser identificado pelo dispositivo cadastrado. A conferência com contagem de
+-- tentativas por quiosque (verify_pin de pin_lockout.sql) vira uma função interna, chamada com o
+-- identificador do quiosque guardado no cadastro do dispositivo.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'verify_pin' AND proargnames[2] = 'p_kiosk_id') THEN
+        ALTER FUNCTION verify_pin(TEXT, TEXT) RENAME TO ponto_verify_pin_attempt;
+    END IF;
+END $$;
+REVOKE EXECUTE ON FUNCTION ponto_verify_pin_attempt(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Retorna o mesmo que antes, ou {status: 'not_allowed'} se o funcionário não é atendido pelo dispositivo
+CREATE OR REPLACE FUNCTION verify_pin(p_pin TEXT, p_device_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_result JSONB := ponto_verify_pin_attempt(p_pin, v_device.kiosk_id);
+BEGIN
+    IF v_result->>'status' = 'ok' AND NOT ponto_device_serves(v_device, (v_result->>'employee_id')::integer) THEN
+        RETURN jsonb_build_object('status', 'not_allowed');
+    END IF;
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION verify_pin(TEXT, TEXT) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS register_punch(INTEGER, TEXT, TIMESTAMPTZ, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION register_punch(
+    p_device_token TEXT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_client_timestamp TIMESTAMPTZ DEFAULT NULL,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_name TEXT;
+    v_geofence JSONB;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não registra o ponto de %', v_name;
+    END IF;
+
+    v_geofence := ponto_check_geofence(p_latitude, p_longitude, v_device.allowed_site_ids);
+    IF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        RAISE EXCEPTION '%. Ponto não registrado.', v_geofence->>'reason';
+    END IF;
+
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, device_id,
+                              latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence)
+    VALUES (p_employee_id, v_name, p_type, now(), p_client_timestamp, 'kiosk', v_device.kiosk_id, v_device.id,
+            p_latitude, p_longitude, p_accuracy, v_geofence->>'site_name', (v_geofence->>'distance')::integer,
+            coalesce((v_geofence->>'outside')::boolean, false))
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION register_punch(TEXT, INTEGER, TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+
+-- Batidas offline: o token é conferido no envio; um dispositivo revogado não sincroniza mais
+DROP FUNCTION IF EXISTS sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION sync_offline_punch(
+    p_device_token TEXT,
+    p_queue_id UUID,
+    p_sequence BIGINT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_client_timestamp TIMESTAMPTZ,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_name TEXT;
+    v_reason TEXT;
+    v_geofence JSONB := ponto_check_geofence(p_latitude, p_longitude, v_device.allowed_site_ids);
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'already_synced';
+    END IF;
+    IF EXISTS (SELECT 1 FROM ponto_offline_conflicts WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'conflict';
+    END IF;
+
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+
+    IF v_name IS NULL THEN
+        v_reason := 'Funcionário não encontrado';
+    ELSIF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        v_reason := format('Dispositivo %s não registra o ponto deste funcionário', v_device.name);
+    ELSIF p_timestamp > now() + INTERVAL '5 minutes' THEN
+        v_reason := 'Horário da batida está no futuro';
+    ELSIF p_timestamp < now() - INTERVAL '30 days' THEN
+        v_reason := 'Batida offline com mais de 30 dias';
+    ELSIF EXISTS (
+        -- O contador cresce a cada batida: um horário menor que o de uma batida anterior da mesma
+        -- fila indica que o relógio do dispositivo foi alterado
+        SELECT 1 FROM ponto_events
+        WHERE offline_queue_id = p_queue_id
+          AND ((offline_sequence < p_sequence AND client_timestamp > p_client_timestamp)
+            OR (offline_sequence > p_sequence AND client_timestamp < p_client_timestamp))
+    ) THEN
+        v_reason := 'Relógio do quiosque voltou no tempo entre batidas offline';
+    ELSIF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        v_reason := v_geofence->>'reason';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+        INSERT INTO ponto_offline_conflicts
+            (kiosk_id, offline_queue_id, offline_sequence, employee_id, employee_name, type, "timestamp", client_timestamp, reason)
+        VALUES (v_device.kiosk_id, p_queue_id, p_sequence, CASE WHEN v_name IS NULL THEN NULL ELSE p_employee_id END,
+                coalesce(v_name, 'Funcionário ' || p_employee_id), p_type, p_timestamp, p_client_timestamp, v_reason);
+        RETURN 'conflict';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM ponto_events
+        WHERE employee_id = p_employee_id AND type = p_type AND deleted_at IS NULL
+          AND "timestamp" BETWEEN p_timestamp - INTERVAL '60 seconds' AND p_timestamp + INTERVAL '60 seconds'
+    ) THEN
+        RETURN 'duplicate';
+    END IF;
+
+    INSERT INTO ponto_events
+        (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, device_id, offline_queue_id, offline_sequence,
+         latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, p_client_timestamp, 'offline', v_device.kiosk_id, v_device.id, p_queue_id, p_sequence,
+            p_latitude, p_longitude, p_accuracy, v_geofence->>'site_name', (v_geofence->>'distance')::integer,
+            coalesce((v_geofence->>'outside')::boolean, false));
+
+    RETURN 'synced';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+
+-- A foto só pode ser vinculada pelo mesmo dispositivo que registrou a batida
+DROP FUNCTION IF EXISTS attach_punch_photo(TEXT, INTEGER, UUID, BIGINT);
+CREATE OR REPLACE FUNCTION attach_punch_photo(
+    p_device_token TEXT,
+    p_path TEXT,
+    p_event_id INTEGER DEFAULT NULL,
+    p_queue_id UUID DEFAULT NULL,
+    p_sequence BIGINT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_event ponto_events;
+BEGIN
+    IF p_event_id IS NOT NULL THEN
+        SELECT * INTO v_event FROM ponto_events WHERE id = p_event_id;
+    ELSE
+        SELECT * INTO v_event FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence;
+    END IF;
+
+    IF v_event.id IS NULL OR v_event.device_id IS DISTINCT FROM v_device.id THEN
+        RAISE EXCEPTION 'Batida não encontrada';
+    END IF;
+    IF v_event.photo_path IS NOT NULL OR v_event.recorded_at < now() - INTERVAL '5 minutes' THEN
+        RAISE EXCEPTION 'A foto só pode ser vinculada logo após o registro da batida';
+    END IF;
+
+    UPDATE ponto_events SET photo_path = p_path WHERE id = v_event.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION attach_punch_photo(TEXT, TEXT, INTEGER, UUID, BIGINT) TO anon, authenticated;
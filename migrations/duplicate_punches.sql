@@ -0,0 +1,279 @@
+-- Proteção contra batidas duplicadas (Supabase)
+-- * Chave de idempotência: o quiosque gera uma chave por batida pretendida e a reenvia em toques repetidos
+--   ou novas tentativas; register_punch devolve a batida já gravada com a mesma chave em vez de gravar outra.
+--   A batida que caiu na fila offline leva a mesma chave, e a sincronização a descarta se ela já chegou.
+-- * Guarda no banco, para qualquer caminho de gravação (quiosque, offline, manual, edição, restauração de
+--   backup, API): o mesmo funcionário não pode ter duas batidas do mesmo tipo a 60 segundos ou menos uma da
+--   outra (erro PD001), como api/events.js fazia na versão anterior.
+-- * Limpeza das duplicadas já gravadas: find_duplicate_punches mostra o que seria mesclado e
+--   merge_duplicate_punches exclui (exclusão lógica, com auditoria) a cópia, levando a foto para a batida
+--   mantida. Fica a do quiosque (com NSR) antes da manual e, entre iguais, a mais antiga.
+-- Execute no SQL Editor do Supabase depois de punch_sequence.sql. É seguro executar mais de uma vez.
+
+ALTER TABLE ponto_events ADD COLUMN IF NOT EXISTS idempotency_key UUID;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_idempotency_key ON ponto_events(idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION ponto_events_reject_duplicate()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_existing ponto_events;
+BEGIN
+    IF NEW.deleted_at IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+    -- Uma gravação por vez para o funcionário, para duas batidas simultâneas não passarem juntas
+    PERFORM pg_advisory_xact_lock(hashtext('ponto_events_duplicate'), NEW.employee_id);
+
+    SELECT * INTO v_existing FROM ponto_events
+    WHERE employee_id = NEW.employee_id AND type = NEW.type AND deleted_at IS NULL AND id <> NEW.id
+      AND "timestamp" BETWEEN NEW."timestamp" - INTERVAL '60 seconds' AND NEW."timestamp" + INTERVAL '60 seconds'
+    LIMIT 1;
+    IF v_existing.id IS NOT NULL THEN
+        RAISE EXCEPTION USING ERRCODE = 'PD001',
+            MESSAGE = format('%s já registrada há menos de 1 minuto', NEW.type),
+            DETAIL = format('Batida existente nº %s (%s)', v_existing.id, v_existing."timestamp");
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Depois de ponto_events_server_time (ordem alfabética), para valer o horário do servidor nas batidas do quiosque
+DROP TRIGGER IF EXISTS trg_ponto_events_z_reject_duplicate ON ponto_events;
+CREATE TRIGGER trg_ponto_events_z_reject_duplicate
+    BEFORE INSERT ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_reject_duplicate();
+
+-- Em alterações, só quando muda o que identifica a batida (a restauração de backup regrava linhas iguais)
+DROP TRIGGER IF EXISTS trg_ponto_events_z_reject_duplicate_update ON ponto_events;
+CREATE TRIGGER trg_ponto_events_z_reject_duplicate_update
+    BEFORE UPDATE ON ponto_events
+    FOR EACH ROW
+    WHEN (NEW.employee_id IS DISTINCT FROM OLD.employee_id OR NEW.type IS DISTINCT FROM OLD.type
+          OR NEW."timestamp" IS DISTINCT FROM OLD."timestamp" OR (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL))
+    EXECUTE FUNCTION ponto_events_reject_duplicate();
+
+DROP FUNCTION IF EXISTS register_punch(TEXT, INTEGER, TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION register_punch(
+    p_device_token TEXT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_client_timestamp TIMESTAMPTZ DEFAULT NULL,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_name TEXT;
+    v_geofence JSONB;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não registra o ponto de %', v_name;
+    END IF;
+
+    -- Repetição da mesma batida (toque duplo, nova tentativa após falha de rede): devolve a já gravada
+    IF p_idempotency_key IS NOT NULL THEN
+        SELECT * INTO v_event FROM ponto_events WHERE idempotency_key = p_idempotency_key;
+        IF v_event.id IS NOT NULL THEN
+            IF v_event.employee_id <> p_employee_id OR v_event.type <> p_type THEN
+                RAISE EXCEPTION 'Chave de idempotência já usada em outra batida';
+            END IF;
+            RETURN v_event;
+        END IF;
+    END IF;
+
+    v_geofence := ponto_check_geofence(p_latitude, p_longitude, v_device.allowed_site_ids);
+    IF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        RAISE EXCEPTION '%. Ponto não registrado.', v_geofence->>'reason';
+    END IF;
+
+    BEGIN
+        INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, device_id,
+                                  latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence,
+                                  idempotency_key)
+        VALUES (p_employee_id, v_name, p_type, now(), p_client_timestamp, 'kiosk', v_device.kiosk_id, v_device.id,
+                p_latitude, p_longitude, p_accuracy, v_geofence->>'site_name', (v_geofence->>'distance')::integer,
+                coalesce((v_geofence->>'outside')::boolean, false), p_idempotency_key)
+        RETURNING * INTO v_event;
+    EXCEPTION WHEN unique_violation THEN
+        -- A outra tentativa com a mesma chave gravou primeiro
+        SELECT * INTO v_event FROM ponto_events WHERE idempotency_key = p_idempotency_key;
+        IF v_event.id IS NULL THEN
+            RAISE;
+        END IF;
+    END;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION register_punch(TEXT, INTEGER, TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID) TO anon, authenticated;
+
+-- A batida offline leva a chave da tentativa online: se aquela chegou a ser gravada, esta é descartada
+DROP FUNCTION IF EXISTS sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION sync_offline_punch(
+    p_device_token TEXT,
+    p_queue_id UUID,
+    p_sequence BIGINT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_client_timestamp TIMESTAMPTZ,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_name TEXT;
+    v_reason TEXT;
+    v_geofence JSONB := ponto_check_geofence(p_latitude, p_longitude, v_device.allowed_site_ids);
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'already_synced';
+    END IF;
+    IF EXISTS (SELECT 1 FROM ponto_offline_conflicts WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'conflict';
+    END IF;
+    IF p_idempotency_key IS NOT NULL AND EXISTS (SELECT 1 FROM ponto_events WHERE idempotency_key = p_idempotency_key) THEN
+        RETURN 'duplicate';
+    END IF;
+
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+
+    IF v_name IS NULL THEN
+        v_reason := 'Funcionário não encontrado';
+    ELSIF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        v_reason := format('Dispositivo %s não registra o ponto deste funcionário', v_device.name);
+    ELSIF p_timestamp > now() + INTERVAL '5 minutes' THEN
+        v_reason := 'Horário da batida está no futuro';
+    ELSIF p_timestamp < now() - INTERVAL '30 days' THEN
+        v_reason := 'Batida offline com mais de 30 dias';
+    ELSIF EXISTS (
+        -- O contador cresce a cada batida: um horário menor que o de uma batida anterior da mesma
+        -- fila indica que o relógio do dispositivo foi alterado
+        SELECT 1 FROM ponto_events
+        WHERE offline_queue_id = p_queue_id
+          AND ((offline_sequence < p_sequence AND client_timestamp > p_client_timestamp)
+            OR (offline_sequence > p_sequence AND client_timestamp < p_client_timestamp))
+    ) THEN
+        v_reason := 'Relógio do quiosque voltou no tempo entre batidas offline';
+    ELSIF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        v_reason := v_geofence->>'reason';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        -- A repetida é descartada antes da sequência, que a veria como fora de ordem
+        IF EXISTS (
+            SELECT 1 FROM ponto_events
+            WHERE employee_id = p_employee_id AND type = p_type AND deleted_at IS NULL
+              AND "timestamp" BETWEEN p_timestamp - INTERVAL '60 seconds' AND p_timestamp + INTERVAL '60 seconds'
+        ) THEN
+            RETURN 'duplicate';
+        END IF;
+        v_reason := 'Fora de sequência: ' || ponto_punch_sequence_error(p_employee_id, p_type, p_timestamp);
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+        INSERT INTO ponto_offline_conflicts
+            (kiosk_id, offline_queue_id, offline_sequence, employee_id, employee_name, type, "timestamp", client_timestamp, reason)
+        VALUES (v_device.kiosk_id, p_queue_id, p_sequence, CASE WHEN v_name IS NULL THEN NULL ELSE p_employee_id END,
+                coalesce(v_name, 'Funcionário ' || p_employee_id), p_type, p_timestamp, p_client_timestamp, v_reason);
+        RETURN 'conflict';
+    END IF;
+
+    INSERT INTO ponto_events
+        (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, device_id, offline_queue_id, offline_sequence,
+         latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence, idempotency_key)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, p_client_timestamp, 'offline', v_device.kiosk_id, v_device.id, p_queue_id, p_sequence,
+            p_latitude, p_longitude, p_accuracy, v_geofence->>'site_name', (v_geofence->>'distance')::integer,
+            coalesce((v_geofence->>'outside')::boolean, false), p_idempotency_key);
+
+    RETURN 'synced';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID) TO anon, authenticated;
+
+-- Batida que seria mantida no lugar de p_event: a melhor do mesmo funcionário e tipo a até 60 segundos
+CREATE OR REPLACE FUNCTION ponto_duplicate_keeper(p_event ponto_events)
+RETURNS ponto_events AS $$
+    SELECT k.* FROM ponto_events k
+    WHERE k.employee_id = p_event.employee_id AND k.type = p_event.type AND k.deleted_at IS NULL AND k.id <> p_event.id
+      AND k."timestamp" BETWEEN p_event."timestamp" - INTERVAL '60 seconds' AND p_event."timestamp" + INTERVAL '60 seconds'
+      AND (k.source = 'manual', k."timestamp", k.id) < (p_event.source = 'manual', p_event."timestamp", p_event.id)
+    ORDER BY k.source = 'manual', k."timestamp", k.id
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Prévia da limpeza: cada duplicada do período com a batida que ficaria no lugar dela
+CREATE OR REPLACE FUNCTION find_duplicate_punches(p_start TIMESTAMPTZ, p_end TIMESTAMPTZ)
+RETURNS TABLE (
+    duplicate_id INTEGER,
+    kept_id INTEGER,
+    employee_id INTEGER,
+    employee_name TEXT,
+    type TEXT,
+    duplicate_timestamp TIMESTAMPTZ,
+    kept_timestamp TIMESTAMPTZ,
+    duplicate_source TEXT,
+    kept_source TEXT,
+    moves_photo BOOLEAN
+) AS $$
+BEGIN
+    IF NOT ponto_has_permission('edit_events') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar registros de ponto';
+    END IF;
+
+    RETURN QUERY
+    SELECT d.id, k.id, d.employee_id, d.employee_name::TEXT, d.type::TEXT, d."timestamp", k."timestamp",
+           d.source::TEXT, k.source::TEXT, (k.photo_path IS NULL AND d.photo_path IS NOT NULL)
+    FROM ponto_events d
+    CROSS JOIN LATERAL ponto_duplicate_keeper(d) k
+    WHERE d.deleted_at IS NULL AND d."timestamp" BETWEEN p_start AND p_end AND k.id IS NOT NULL
+    ORDER BY d.employee_name, d."timestamp", d.id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Mescla as duplicadas escolhidas na prévia. A batida mantida é conferida de novo aqui, da pior para a
+-- melhor, para uma cadeia de repetidas terminar numa só batida. Retorna quantas foram mescladas.
+CREATE OR REPLACE FUNCTION merge_duplicate_punches(p_duplicate_ids INTEGER[], p_actor TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_duplicate ponto_events;
+    v_kept ponto_events;
+    v_count INTEGER := 0;
+BEGIN
+    PERFORM ponto_set_audit_context(p_actor, 'Batida duplicada');
+
+    FOR v_duplicate IN
+        SELECT * FROM ponto_events
+        WHERE id = ANY(p_duplicate_ids) AND deleted_at IS NULL
+        ORDER BY source = 'manual' DESC, "timestamp" DESC, id DESC
+    LOOP
+        v_kept := ponto_duplicate_keeper(v_duplicate);
+        CONTINUE WHEN v_kept.id IS NULL;
+
+        PERFORM set_config('ponto.audit_reason', format('Batida duplicada da nº %s (mesclada)', v_kept.id), true);
+        IF v_kept.photo_path IS NULL AND v_duplicate.photo_path IS NOT NULL THEN
+            UPDATE ponto_events SET photo_path = v_duplicate.photo_path WHERE id = v_kept.id;
+        END IF;
+        UPDATE ponto_events SET deleted_at = now() WHERE id = v_duplicate.id;
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION find_duplicate_punches(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_duplicate_punches(INTEGER[], TEXT) TO authenticated;
@@ -0,0 +1,79 @@
+-- Área do funcionário (Supabase)
+-- O funcionário consulta as próprias batidas, horas, extras, banco de horas e o espelho do mês no
+-- quiosque. O acesso pede o PIN e a data de nascimento, conferidos juntos por open_employee_portal.
+-- A data de nascimento fica em ponto_credentials, junto com o hash do PIN, e não em ponto_employees
+-- (que é lida pelos quiosques). Uma data errada conta como tentativa de PIN errada no quiosque,
+-- sujeita à mesma espera progressiva e ao mesmo bloqueio de pin_lockout.sql.
+-- Execute no SQL Editor do Supabase depois de receipts.sql. É seguro executar mais de uma vez.
+
+ALTER TABLE ponto_credentials ADD COLUMN IF NOT EXISTS birth_date DATE;
+
+CREATE OR REPLACE FUNCTION set_employee_birth_date(p_employee_id INTEGER, p_birth_date DATE)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT ponto_has_permission('manage_employees') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar dados de acesso';
+    END IF;
+    IF p_birth_date IS NULL OR p_birth_date > current_date OR p_birth_date < DATE '1900-01-01' THEN
+        RAISE EXCEPTION 'Data de nascimento inválida';
+    END IF;
+
+    UPDATE ponto_credentials SET birth_date = p_birth_date, updated_at = now()
+    WHERE role = 'employee' AND employee_id = p_employee_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Defina o PIN do funcionário antes da data de nascimento';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_employee_birth_date(INTEGER, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_employee_birth_date(INTEGER, DATE) TO authenticated;
+
+-- Retorna o mesmo que verify_pin ou, com o PIN certo, {status: 'not_configured'} se o funcionário
+-- ainda não tem data de nascimento cadastrada e {status: 'invalid', remaining} se a data não confere
+CREATE OR REPLACE FUNCTION open_employee_portal(p_pin TEXT, p_birth_date DATE, p_device_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_result JSONB := ponto_verify_pin_attempt(p_pin, v_device.kiosk_id);
+    v_employee_id INTEGER;
+    v_birth_date DATE;
+    v_failures INTEGER;
+BEGIN
+    IF v_result->>'status' <> 'ok' THEN
+        RETURN v_result;
+    END IF;
+
+    v_employee_id := (v_result->>'employee_id')::integer;
+    IF NOT ponto_device_serves(v_device, v_employee_id) THEN
+        RETURN jsonb_build_object('status', 'not_allowed');
+    END IF;
+
+    SELECT birth_date INTO v_birth_date FROM ponto_credentials WHERE employee_id = v_employee_id;
+    IF v_birth_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'not_configured');
+    END IF;
+
+    IF v_birth_date IS DISTINCT FROM p_birth_date THEN
+        -- O acerto do PIN registrado acima passa a contar como falha
+        UPDATE ponto_pin_attempts SET success = false
+        WHERE id = (
+            SELECT max(id) FROM ponto_pin_attempts
+            WHERE kiosk_id = v_device.kiosk_id AND employee_id = v_employee_id AND success
+        );
+
+        SELECT count(*) INTO v_failures
+        FROM ponto_pin_attempts
+        WHERE kiosk_id = v_device.kiosk_id AND NOT success AND NOT cleared
+          AND attempted_at > greatest(now() - INTERVAL '24 hours', coalesce(
+              (SELECT max(attempted_at) FROM ponto_pin_attempts WHERE kiosk_id = v_device.kiosk_id AND success), '-infinity'));
+
+        RETURN coalesce(ponto_pin_block(v_device.kiosk_id), jsonb_build_object(
+            'status', 'invalid', 'remaining', greatest(ponto_int_setting('pin_max_attempts', 5) - v_failures, 0)));
+    END IF;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION open_employee_portal(TEXT, DATE, TEXT) TO anon, authenticated;
@@ -0,0 +1,18 @@
+-- Cadastro dos funcionários fora do alcance do quiosque (Supabase)
+-- ponto_employees era lida sem login (política USING (true) de manager_accounts.sql), com CPF, telefone e
+-- PIX de todos, o que tornava inútil o CPF mascarado de verify_receipt. O quiosque não precisa mais da
+-- lista: o PIN identifica o funcionário no banco e a sessão aberta por ele (employee_sessions.sql) dá
+-- acesso só ao próprio cadastro, por employee_session_profile, para o comprovante, o banco de horas e o
+-- espelho. A leitura direta da tabela fica para os gestores.
+-- Execute no SQL Editor do Supabase depois de employee_sessions.sql. É seguro executar mais de uma vez.
+
+CREATE OR REPLACE FUNCTION employee_session_profile(p_session_token TEXT)
+RETURNS ponto_employees AS $$
+    SELECT * FROM ponto_employees WHERE id = ponto_session_employee(p_session_token);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION employee_session_profile(TEXT) TO anon, authenticated;
+
+DROP POLICY IF EXISTS ponto_employees_read ON ponto_employees;
+CREATE POLICY ponto_employees_read ON ponto_employees FOR SELECT TO authenticated USING (ponto_current_role() IS NOT NULL);
+REVOKE SELECT ON ponto_employees FROM anon;
@@ -0,0 +1,147 @@
+-- Batidas do funcionário só para o próprio funcionário (Supabase)
+-- open_employee_portal conferia o PIN e a data de nascimento, mas a área do funcionário filtrava batidas
+-- que o quiosque já tinha lido de ponto_events, aberta a qualquer um com a chave anon. Agora:
+-- * verify_pin e open_employee_portal, com o acesso certo, abrem uma sessão curta do funcionário naquele
+--   dispositivo e devolvem o token dela (session_token); o banco guarda só o hash;
+-- * employee_session_events devolve as batidas do funcionário da sessão (sem a localização), que o
+--   quiosque usa para a sequência e o turno aberto e a área do funcionário para as horas e o espelho;
+-- * ponto_events passa a ser lida só por gestores.
+-- Execute no SQL Editor do Supabase depois de server_shift_close.sql. É seguro executar mais de uma vez.
+
+CREATE TABLE IF NOT EXISTS ponto_employee_sessions (
+    token_hash TEXT PRIMARY KEY,
+    employee_id INTEGER NOT NULL REFERENCES ponto_employees(id) ON DELETE CASCADE,
+    device_id INTEGER NOT NULL REFERENCES ponto_devices(id),
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('kiosk', 'portal')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Sem políticas: as sessões só são lidas e gravadas pelas funções abaixo
+ALTER TABLE ponto_employee_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Quiosque: o tempo de bater o ponto; área do funcionário: o tempo de uma consulta
+CREATE OR REPLACE FUNCTION ponto_open_employee_session(p_employee_id INTEGER, p_device_id INTEGER, p_kind TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_token TEXT := encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+    DELETE FROM ponto_employee_sessions WHERE expires_at < now();
+    INSERT INTO ponto_employee_sessions (token_hash, employee_id, device_id, kind, expires_at)
+    VALUES (ponto_token_hash(v_token), p_employee_id, p_device_id, p_kind,
+            now() + CASE WHEN p_kind = 'portal' THEN INTERVAL '30 minutes' ELSE INTERVAL '10 minutes' END);
+    RETURN v_token;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION ponto_open_employee_session(INTEGER, INTEGER, TEXT) FROM PUBLIC;
+
+-- Funcionário da sessão ainda válida, num dispositivo não revogado; erro caso contrário
+CREATE OR REPLACE FUNCTION ponto_session_employee(p_session_token TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_employee_id INTEGER;
+BEGIN
+    SELECT s.employee_id INTO v_employee_id
+    FROM ponto_employee_sessions s
+    JOIN ponto_devices d ON d.id = s.device_id
+    WHERE s.token_hash = ponto_token_hash(coalesce(p_session_token, ''))
+      AND s.expires_at > now()
+      AND d.revoked_at IS NULL;
+    IF v_employee_id IS NULL THEN
+        RAISE EXCEPTION 'Sessão do funcionário expirada. Digite o PIN novamente.';
+    END IF;
+    RETURN v_employee_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE EXECUTE ON FUNCTION ponto_session_employee(TEXT) FROM PUBLIC;
+
+-- Mesmo retorno de devices.sql, com session_token quando o PIN confere
+CREATE OR REPLACE FUNCTION verify_pin(p_pin TEXT, p_device_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_result JSONB := ponto_verify_pin_attempt(p_pin, v_device.kiosk_id);
+    v_employee_id INTEGER;
+BEGIN
+    IF v_result->>'status' <> 'ok' THEN
+        RETURN v_result;
+    END IF;
+    v_employee_id := (v_result->>'employee_id')::integer;
+    IF NOT ponto_device_serves(v_device, v_employee_id) THEN
+        RETURN jsonb_build_object('status', 'not_allowed');
+    END IF;
+    RETURN v_result || jsonb_build_object('session_token', ponto_open_employee_session(v_employee_id, v_device.id, 'kiosk'));
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION verify_pin(TEXT, TEXT) TO anon, authenticated;
+
+-- Mesmo retorno de employee_portal.sql, com session_token quando o PIN e a data conferem
+CREATE OR REPLACE FUNCTION open_employee_portal(p_pin TEXT, p_birth_date DATE, p_device_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_result JSONB := ponto_verify_pin_attempt(p_pin, v_device.kiosk_id);
+    v_employee_id INTEGER;
+    v_birth_date DATE;
+    v_failures INTEGER;
+BEGIN
+    IF v_result->>'status' <> 'ok' THEN
+        RETURN v_result;
+    END IF;
+
+    v_employee_id := (v_result->>'employee_id')::integer;
+    IF NOT ponto_device_serves(v_device, v_employee_id) THEN
+        RETURN jsonb_build_object('status', 'not_allowed');
+    END IF;
+
+    SELECT birth_date INTO v_birth_date FROM ponto_credentials WHERE employee_id = v_employee_id;
+    IF v_birth_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'not_configured');
+    END IF;
+
+    IF v_birth_date IS DISTINCT FROM p_birth_date THEN
+        -- O acerto do PIN registrado acima passa a contar como falha
+        UPDATE ponto_pin_attempts SET success = false
+        WHERE id = (
+            SELECT max(id) FROM ponto_pin_attempts
+            WHERE kiosk_id = v_device.kiosk_id AND employee_id = v_employee_id AND success
+        );
+
+        SELECT count(*) INTO v_failures
+        FROM ponto_pin_attempts
+        WHERE kiosk_id = v_device.kiosk_id AND NOT success AND NOT cleared
+          AND attempted_at > greatest(now() - INTERVAL '24 hours', coalesce(
+              (SELECT max(attempted_at) FROM ponto_pin_attempts WHERE kiosk_id = v_device.kiosk_id AND success), '-infinity'));
+
+        RETURN coalesce(ponto_pin_block(v_device.kiosk_id), jsonb_build_object(
+            'status', 'invalid', 'remaining', greatest(ponto_int_setting('pin_max_attempts', 5) - v_failures, 0)));
+    END IF;
+
+    RETURN v_result || jsonb_build_object('session_token', ponto_open_employee_session(v_employee_id, v_device.id, 'portal'));
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION open_employee_portal(TEXT, DATE, TEXT) TO anon, authenticated;
+
+-- Batidas ativas do funcionário da sessão, em ordem
+CREATE OR REPLACE FUNCTION employee_session_events(p_session_token TEXT)
+RETURNS SETOF ponto_events AS $$
+DECLARE
+    v_employee_id INTEGER := ponto_session_employee(p_session_token);
+BEGIN
+    RETURN QUERY
+        SELECT * FROM ponto_events
+        WHERE employee_id = v_employee_id AND deleted_at IS NULL
+        ORDER BY "timestamp", id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION employee_session_events(TEXT) TO anon, authenticated;
+
+-- Leitura direta das batidas só para gestores (a política aberta vinha de manager_accounts.sql)
+DROP POLICY IF EXISTS ponto_events_read ON ponto_events;
+CREATE POLICY ponto_events_read ON ponto_events FOR SELECT TO authenticated USING (ponto_current_role() IS NOT NULL);
+REVOKE SELECT ON ponto_events FROM anon;
@@ -0,0 +1,186 @@
+-- Trilha de auditoria das batidas (Supabase)
+-- Toda inclusão manual, alteração e exclusão de ponto_events fica registrada em ponto_event_audit
+-- com autor, justificativa, valor anterior e novo valor. A auditoria não pode ser alterada nem apagada
+-- e as batidas não são mais apagadas: a exclusão apenas marca deleted_at.
+
+ALTER TABLE ponto_events
+    ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS ponto_event_audit (
+    id BIGSERIAL PRIMARY KEY,
+    event_id INTEGER NOT NULL REFERENCES ponto_events(id),
+    action VARCHAR(10) NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    actor VARCHAR(100) NOT NULL,
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    old_value JSONB,
+    new_value JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_audit_event ON ponto_event_audit(event_id, created_at);
+
+-- Registros de auditoria são imutáveis
+CREATE OR REPLACE FUNCTION ponto_event_audit_immutable()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'A trilha de auditoria não pode ser alterada nem excluída';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_event_audit_immutable ON ponto_event_audit;
+CREATE TRIGGER trg_ponto_event_audit_immutable
+    BEFORE UPDATE OR DELETE ON ponto_event_audit
+    FOR EACH ROW EXECUTE FUNCTION ponto_event_audit_immutable();
+
+-- Autor e justificativa chegam pelas funções admin_* via configuração da transação.
+-- Alterações diretas na tabela sem justificativa são recusadas; batidas de quiosque não precisam dela.
+CREATE OR REPLACE FUNCTION ponto_events_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_actor TEXT := nullif(current_setting('ponto.audit_actor', true), '');
+    v_reason TEXT := nullif(trim(coalesce(current_setting('ponto.audit_reason', true), '')), '');
+    v_action TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'Batidas não podem ser apagadas; use admin_delete_event (exclusão lógica)';
+    END IF;
+
+    IF TG_OP = 'INSERT' AND NEW.source = 'kiosk' THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+        v_action := 'delete';
+    ELSIF TG_OP = 'UPDATE' THEN
+        IF NEW.type IS NOT DISTINCT FROM OLD.type AND NEW."timestamp" IS NOT DISTINCT FROM OLD."timestamp" THEN
+            RETURN NULL;
+        END IF;
+        v_action := 'update';
+    ELSE
+        v_action := 'insert';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        RAISE EXCEPTION 'Justificativa obrigatória para alterar registros de ponto';
+    END IF;
+
+    INSERT INTO ponto_event_audit (event_id, action, actor, reason, old_value, new_value)
+    VALUES (
+        NEW.id,
+        v_action,
+        coalesce(v_actor, 'desconhecido'),
+        v_reason,
+        CASE WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('type', OLD.type, 'timestamp', OLD."timestamp") END,
+        CASE WHEN v_action = 'delete' THEN NULL ELSE jsonb_build_object('type', NEW.type, 'timestamp', NEW."timestamp") END
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Marca a batida como alterada antes de gravar (usado no espelho de ponto)
+CREATE OR REPLACE FUNCTION ponto_events_mark_edited()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.type IS DISTINCT FROM OLD.type OR NEW."timestamp" IS DISTINCT FROM OLD."timestamp" THEN
+        NEW.edited_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_events_mark_edited ON ponto_events;
+CREATE TRIGGER trg_ponto_events_mark_edited
+    BEFORE UPDATE ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_mark_edited();
+
+DROP TRIGGER IF EXISTS trg_ponto_events_audit ON ponto_events;
+CREATE TRIGGER trg_ponto_events_audit
+    AFTER INSERT OR UPDATE ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_audit();
+
+DROP TRIGGER IF EXISTS trg_ponto_events_no_delete ON ponto_events;
+CREATE TRIGGER trg_ponto_events_no_delete
+    BEFORE DELETE ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_audit();
+
+CREATE OR REPLACE FUNCTION ponto_set_audit_context(p_actor TEXT, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'Justificativa obrigatória para alterar registros de ponto';
+    END IF;
+    PERFORM set_config('ponto.audit_actor', coalesce(p_actor, ''), true);
+    PERFORM set_config('ponto.audit_reason', p_reason, true);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_insert_event(
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_actor TEXT,
+    p_reason TEXT
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_name TEXT;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    PERFORM ponto_set_audit_context(p_actor, p_reason);
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, 'manual')
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_update_event(
+    p_event_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_actor TEXT,
+    p_reason TEXT
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_event ponto_events;
+BEGIN
+    PERFORM ponto_set_audit_context(p_actor, p_reason);
+    UPDATE ponto_events SET type = p_type, "timestamp" = p_timestamp
+    WHERE id = p_event_id AND deleted_at IS NULL
+    RETURNING * INTO v_event;
+
+    IF v_event.id IS NULL THEN
+        RAISE EXCEPTION 'Registro % não encontrado', p_event_id;
+    END IF;
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_delete_event(
+    p_event_id INTEGER,
+    p_actor TEXT,
+    p_reason TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM ponto_set_audit_context(p_actor, p_reason);
+    UPDATE ponto_events SET deleted_at = now()
+    WHERE id = p_event_id AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Registro % não encontrado', p_event_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION admin_insert_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_update_event(INTEGER, TEXT, TIMESTAMPTZ, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_delete_event(INTEGER, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,213 @@
+-- Localização das batidas fora de ponto_events (Supabase)
+-- ponto_events é lida pelo quiosque sem login (política USING (true) de manager_accounts.sql), e com ela
+-- iam a latitude e a longitude de cada funcionário a cada batida. A localização e o resultado da cerca
+-- virtual passam para ponto_event_locations, que só gestores com view_reports leem; o painel junta as
+-- duas tabelas e o quiosque recebe as batidas sem a localização.
+-- register_punch e sync_offline_punch (duplicate_punches.sql) são redefinidas para gravar nela.
+-- Execute no SQL Editor do Supabase depois de duplicate_punches.sql. É seguro executar mais de uma vez.
+
+CREATE TABLE IF NOT EXISTS ponto_event_locations (
+    event_id INTEGER PRIMARY KEY REFERENCES ponto_events(id) ON DELETE CASCADE,
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    location_accuracy DOUBLE PRECISION, -- metros
+    site_name VARCHAR(100), -- local permitido mais próximo no momento da batida
+    site_distance_meters INTEGER,
+    outside_geofence BOOLEAN NOT NULL DEFAULT false
+);
+
+-- Sem política de escrita: as linhas só entram pelas funções de batida
+ALTER TABLE ponto_event_locations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_event_locations_read ON ponto_event_locations;
+CREATE POLICY ponto_event_locations_read ON ponto_event_locations FOR SELECT TO authenticated
+    USING (ponto_has_permission('view_reports'));
+
+-- Move as localizações já gravadas e apaga as colunas de ponto_events (só na primeira execução)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'ponto_events' AND column_name = 'outside_geofence') THEN
+        INSERT INTO ponto_event_locations (event_id, latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence)
+        SELECT id, latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence
+        FROM ponto_events
+        WHERE latitude IS NOT NULL OR site_name IS NOT NULL OR outside_geofence
+        ON CONFLICT (event_id) DO NOTHING;
+
+        ALTER TABLE ponto_events
+            DROP COLUMN latitude,
+            DROP COLUMN longitude,
+            DROP COLUMN location_accuracy,
+            DROP COLUMN site_name,
+            DROP COLUMN site_distance_meters,
+            DROP COLUMN outside_geofence;
+    END IF;
+END;
+$$;
+
+-- Grava a localização da batida quando há algo a guardar
+CREATE OR REPLACE FUNCTION ponto_record_event_location(
+    p_event_id INTEGER,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_accuracy DOUBLE PRECISION,
+    p_geofence JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+    IF p_latitude IS NULL AND p_geofence IS NULL THEN
+        RETURN;
+    END IF;
+    INSERT INTO ponto_event_locations (event_id, latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence)
+    VALUES (p_event_id, p_latitude, p_longitude, p_accuracy, p_geofence->>'site_name', (p_geofence->>'distance')::integer,
+            coalesce((p_geofence->>'outside')::boolean, false))
+    ON CONFLICT (event_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION ponto_record_event_location(INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, JSONB) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION register_punch(
+    p_device_token TEXT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_client_timestamp TIMESTAMPTZ DEFAULT NULL,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_name TEXT;
+    v_geofence JSONB;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não registra o ponto de %', v_name;
+    END IF;
+
+    -- Repetição da mesma batida (toque duplo, nova tentativa após falha de rede): devolve a já gravada
+    IF p_idempotency_key IS NOT NULL THEN
+        SELECT * INTO v_event FROM ponto_events WHERE idempotency_key = p_idempotency_key;
+        IF v_event.id IS NOT NULL THEN
+            IF v_event.employee_id <> p_employee_id OR v_event.type <> p_type THEN
+                RAISE EXCEPTION 'Chave de idempotência já usada em outra batida';
+            END IF;
+            RETURN v_event;
+        END IF;
+    END IF;
+
+    v_geofence := ponto_check_geofence(p_latitude, p_longitude, v_device.allowed_site_ids);
+    IF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        RAISE EXCEPTION '%. Ponto não registrado.', v_geofence->>'reason';
+    END IF;
+
+    BEGIN
+        INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, device_id, idempotency_key)
+        VALUES (p_employee_id, v_name, p_type, now(), p_client_timestamp, 'kiosk', v_device.kiosk_id, v_device.id, p_idempotency_key)
+        RETURNING * INTO v_event;
+    EXCEPTION WHEN unique_violation THEN
+        -- A outra tentativa com a mesma chave gravou primeiro
+        SELECT * INTO v_event FROM ponto_events WHERE idempotency_key = p_idempotency_key;
+        IF v_event.id IS NULL THEN
+            RAISE;
+        END IF;
+        RETURN v_event;
+    END;
+
+    PERFORM ponto_record_event_location(v_event.id, p_latitude, p_longitude, p_accuracy, v_geofence);
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION register_punch(TEXT, INTEGER, TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sync_offline_punch(
+    p_device_token TEXT,
+    p_queue_id UUID,
+    p_sequence BIGINT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_client_timestamp TIMESTAMPTZ,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_name TEXT;
+    v_reason TEXT;
+    v_geofence JSONB := ponto_check_geofence(p_latitude, p_longitude, v_device.allowed_site_ids);
+    v_event_id INTEGER;
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'already_synced';
+    END IF;
+    IF EXISTS (SELECT 1 FROM ponto_offline_conflicts WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'conflict';
+    END IF;
+    IF p_idempotency_key IS NOT NULL AND EXISTS (SELECT 1 FROM ponto_events WHERE idempotency_key = p_idempotency_key) THEN
+        RETURN 'duplicate';
+    END IF;
+
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+
+    IF v_name IS NULL THEN
+        v_reason := 'Funcionário não encontrado';
+    ELSIF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        v_reason := format('Dispositivo %s não registra o ponto deste funcionário', v_device.name);
+    ELSIF p_timestamp > now() + INTERVAL '5 minutes' THEN
+        v_reason := 'Horário da batida está no futuro';
+    ELSIF p_timestamp < now() - INTERVAL '30 days' THEN
+        v_reason := 'Batida offline com mais de 30 dias';
+    ELSIF EXISTS (
+        -- O contador cresce a cada batida: um horário menor que o de uma batida anterior da mesma
+        -- fila indica que o relógio do dispositivo foi alterado
+        SELECT 1 FROM ponto_events
+        WHERE offline_queue_id = p_queue_id
+          AND ((offline_sequence < p_sequence AND client_timestamp > p_client_timestamp)
+            OR (offline_sequence > p_sequence AND client_timestamp < p_client_timestamp))
+    ) THEN
+        v_reason := 'Relógio do quiosque voltou no tempo entre batidas offline';
+    ELSIF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        v_reason := v_geofence->>'reason';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        -- A repetida é descartada antes da sequência, que a veria como fora de ordem
+        IF EXISTS (
+            SELECT 1 FROM ponto_events
+            WHERE employee_id = p_employee_id AND type = p_type AND deleted_at IS NULL
+              AND "timestamp" BETWEEN p_timestamp - INTERVAL '60 seconds' AND p_timestamp + INTERVAL '60 seconds'
+        ) THEN
+            RETURN 'duplicate';
+        END IF;
+        v_reason := 'Fora de sequência: ' || ponto_punch_sequence_error(p_employee_id, p_type, p_timestamp);
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+        INSERT INTO ponto_offline_conflicts
+            (kiosk_id, offline_queue_id, offline_sequence, employee_id, employee_name, type, "timestamp", client_timestamp, reason)
+        VALUES (v_device.kiosk_id, p_queue_id, p_sequence, CASE WHEN v_name IS NULL THEN NULL ELSE p_employee_id END,
+                coalesce(v_name, 'Funcionário ' || p_employee_id), p_type, p_timestamp, p_client_timestamp, v_reason);
+        RETURN 'conflict';
+    END IF;
+
+    INSERT INTO ponto_events
+        (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, device_id, offline_queue_id, offline_sequence, idempotency_key)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, p_client_timestamp, 'offline', v_device.kiosk_id, v_device.id, p_queue_id, p_sequence, p_idempotency_key)
+    RETURNING id INTO v_event_id;
+    PERFORM ponto_record_event_location(v_event_id, p_latitude, p_longitude, p_accuracy, v_geofence);
+
+    RETURN 'synced';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID) TO anon, authenticated;
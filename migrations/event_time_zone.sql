@@ -0,0 +1,159 @@
+-- Fuso de cada batida (Supabase)
+-- O dia de cada batida, as horas noturnas, os feriados, o AFD/AEJ, os comprovantes e os espelhos usavam
+-- o fuso configurado hoje (ponto_settings.time_zone): trocar a configuração mudava o dia e o horário de
+-- todo o histórico. Cada batida passa a guardar o fuso em vigor quando foi gravada (time_zone), que não
+-- muda depois, e o app agrupa e exibe cada batida no fuso dela. As já gravadas recebem o fuso atual.
+-- ponto_scheduled_shift_end e close_open_shift (server_shift_close.sql) passam a usar o fuso da Entrada.
+-- Execute no SQL Editor do Supabase depois de employee_profile.sql. É seguro executar mais de uma vez.
+
+CREATE OR REPLACE FUNCTION ponto_company_time_zone()
+RETURNS TEXT AS $$
+    SELECT coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'time_zone'), 'America/Sao_Paulo');
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE ponto_events ADD COLUMN IF NOT EXISTS time_zone TEXT;
+UPDATE ponto_events SET time_zone = ponto_company_time_zone() WHERE time_zone IS NULL;
+ALTER TABLE ponto_events ALTER COLUMN time_zone SET NOT NULL;
+
+-- Na gravação vale o fuso da empresa naquele momento; ajustes e restaurações mantêm o original
+CREATE OR REPLACE FUNCTION ponto_events_set_time_zone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        NEW.time_zone := OLD.time_zone;
+    ELSE
+        NEW.time_zone := coalesce(NEW.time_zone, ponto_company_time_zone());
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_events_set_time_zone ON ponto_events;
+CREATE TRIGGER trg_ponto_events_set_time_zone
+    BEFORE INSERT OR UPDATE ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_set_time_zone();
+
+-- Saída prevista pela escala para o turno iniciado em p_entry, no fuso da Entrada
+DROP FUNCTION IF EXISTS ponto_scheduled_shift_end(INTEGER, TIMESTAMPTZ);
+CREATE OR REPLACE FUNCTION ponto_scheduled_shift_end(p_employee_id INTEGER, p_entry TIMESTAMPTZ, p_time_zone TEXT)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_date DATE := (p_entry AT TIME ZONE p_time_zone)::date;
+    v_schedule_id INTEGER;
+    v_effective_from DATE;
+    v_schedule ponto_schedules;
+    v_day JSONB;
+    v_start TIME;
+    v_end TIME;
+BEGIN
+    SELECT schedule_id, effective_from INTO v_schedule_id, v_effective_from
+    FROM ponto_schedule_assignments
+    WHERE employee_id = p_employee_id AND effective_from <= v_date
+    ORDER BY effective_from DESC, id DESC
+    LIMIT 1;
+    SELECT * INTO v_schedule FROM ponto_schedules WHERE id = v_schedule_id;
+    IF v_schedule.id IS NULL OR jsonb_array_length(v_schedule.days) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    -- Semanal: posição pelo dia da semana; ciclo: dias desde o início da atribuição
+    v_day := v_schedule.days -> CASE WHEN v_schedule.kind = 'weekly' THEN extract(dow FROM v_date)::INTEGER
+                                     ELSE (v_date - v_effective_from) % jsonb_array_length(v_schedule.days) END;
+    IF v_day IS NULL OR jsonb_typeof(v_day) <> 'object' THEN
+        RETURN NULL;
+    END IF;
+
+    v_start := (v_day->>'start')::TIME;
+    v_end := (v_day->>'end')::TIME;
+    -- Saída no dia seguinte quando o fim não passa do início (turno noturno)
+    RETURN ((v_date + CASE WHEN v_end <= v_start THEN 1 ELSE 0 END) + v_end) AT TIME ZONE p_time_zone;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION close_open_shift(p_device_token TEXT, p_employee_id INTEGER)
+RETURNS ponto_events AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_max_hours INTEGER := ponto_int_setting('max_shift_hours', 16);
+    v_entry ponto_events;
+    v_last ponto_events;
+    v_end TIMESTAMPTZ;
+    v_event ponto_events;
+BEGIN
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não atende o funcionário %', p_employee_id;
+    END IF;
+    IF coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'open_shift_behavior'), 'block') <> 'auto_close' THEN
+        RAISE EXCEPTION 'O fechamento automático de turnos não está ativado';
+    END IF;
+
+    SELECT * INTO v_last FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL
+    ORDER BY "timestamp" DESC, id DESC LIMIT 1;
+    SELECT * INTO v_entry FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL AND type = 'Entrada'
+    ORDER BY "timestamp" DESC, id DESC LIMIT 1;
+
+    IF v_entry.id IS NULL OR v_last.type = 'Saída' OR now() - v_entry."timestamp" <= make_interval(hours => v_max_hours) THEN
+        RAISE EXCEPTION 'Não há turno aberto para o funcionário %', p_employee_id;
+    END IF;
+
+    v_end := ponto_scheduled_shift_end(p_employee_id, v_entry."timestamp", v_entry.time_zone);
+    IF v_end IS NULL THEN
+        RAISE EXCEPTION 'O funcionário % não tem escala no dia da Entrada', p_employee_id;
+    END IF;
+    IF v_end <= v_last."timestamp" OR v_end > now() OR v_end > v_entry."timestamp" + make_interval(hours => v_max_hours) THEN
+        RAISE EXCEPTION 'O fim da escala fica fora do turno aberto';
+    END IF;
+
+    PERFORM set_config('ponto.audit_actor', 'Fechamento automático', true);
+    PERFORM set_config('ponto.audit_reason',
+        format('Turno aberto desde %s fechado no fim da escala (política de turno aberto)',
+            to_char(v_entry."timestamp" AT TIME ZONE v_entry.time_zone, 'DD/MM/YYYY HH24:MI')), true);
+
+    -- A Saída fica no mesmo fuso da Entrada do turno
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source, time_zone)
+    SELECT p_employee_id, name, 'Saída', v_end, 'manual', v_entry.time_zone
+    FROM ponto_employees WHERE id = p_employee_id
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION close_open_shift(TEXT, INTEGER) TO anon, authenticated;
+
+-- A verificação pública mostra o horário no fuso do comprovante
+CREATE OR REPLACE FUNCTION verify_receipt(p_hash TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_event ponto_events;
+    v_cpf TEXT;
+BEGIN
+    SELECT * INTO v_event FROM ponto_events WHERE receipt_hash = lower(trim(p_hash));
+    IF v_event.id IS NULL THEN
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT regexp_replace(coalesce(cpf, ''), '\D', '', 'g') INTO v_cpf FROM ponto_employees WHERE id = v_event.employee_id;
+
+    RETURN jsonb_build_object(
+        'status', CASE
+            WHEN v_event.deleted_at IS NOT NULL THEN 'deleted'
+            WHEN v_event.edited_at IS NOT NULL THEN 'adjusted'
+            ELSE 'valid'
+        END,
+        'nsr', v_event.nsr,
+        'employee_name', v_event.employee_name,
+        -- Só os dígitos do meio, como em comprovantes impressos: ***.456.789-**
+        'cpf_masked', CASE WHEN length(v_cpf) = 11 THEN '***.' || substr(v_cpf, 4, 3) || '.' || substr(v_cpf, 7, 3) || '-**' END,
+        'type', v_event.type,
+        'timestamp', v_event.original_timestamp,
+        'current_timestamp', CASE WHEN v_event.deleted_at IS NULL THEN v_event."timestamp" END,
+        'recorded_at', v_event.recorded_at,
+        'time_zone', v_event.time_zone
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION verify_receipt(TEXT) TO anon, authenticated;
@@ -0,0 +1,201 @@
+-- Localização das batidas e cerca virtual (Supabase)
+-- Com geofence_mode diferente de 'off', o app pede a localização do aparelho a cada batida e a envia
+-- com latitude, longitude e precisão. O banco calcula o local permitido mais próximo (ponto_sites) e a
+-- distância até ele, guardando ambos na batida. Fora do raio de todos os locais ativos (ou sem
+-- localização), a batida é:
+--   'flag'   — aceita e marcada como fora da área (outside_geofence) para conferência no painel;
+--   'reject' — recusada; a batida offline vai para ponto_offline_conflicts.
+-- Sem nenhum local ativo cadastrado a cerca não é aplicada. Lançamentos manuais não passam pela cerca.
+-- Execute no SQL Editor do Supabase depois de punch_photos.sql. É seguro executar mais de uma vez.
+
+CREATE TABLE IF NOT EXISTS ponto_sites (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+    radius_meters INTEGER NOT NULL CHECK (radius_meters > 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE ponto_sites ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_sites_read ON ponto_sites;
+CREATE POLICY ponto_sites_read ON ponto_sites FOR SELECT TO authenticated USING (ponto_has_permission('view_reports'));
+DROP POLICY IF EXISTS ponto_sites_write ON ponto_sites;
+CREATE POLICY ponto_sites_write ON ponto_sites FOR ALL TO authenticated
+    USING (ponto_has_permission('manage_settings'))
+    WITH CHECK (ponto_has_permission('manage_settings'));
+
+ALTER TABLE ponto_events
+    ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS location_accuracy DOUBLE PRECISION, -- metros
+    ADD COLUMN IF NOT EXISTS site_name VARCHAR(100), -- local permitido mais próximo no momento da batida
+    ADD COLUMN IF NOT EXISTS site_distance_meters INTEGER,
+    ADD COLUMN IF NOT EXISTS outside_geofence BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO ponto_settings (key, value)
+VALUES ('geofence_mode', '"off"')
+ON CONFLICT (key) DO NOTHING;
+
+-- Distância em metros entre dois pontos (fórmula de haversine)
+CREATE OR REPLACE FUNCTION ponto_distance_meters(p_lat1 DOUBLE PRECISION, p_lng1 DOUBLE PRECISION, p_lat2 DOUBLE PRECISION, p_lng2 DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT 2 * 6371000 * asin(sqrt(
+        power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+        + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+    ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Avalia a localização da batida. Retorna NULL quando a cerca não se aplica; senão
+-- {site_name, distance, outside, reason}, com reason preenchido quando a batida está fora da área.
+CREATE OR REPLACE FUNCTION ponto_check_geofence(p_latitude DOUBLE PRECISION, p_longitude DOUBLE PRECISION)
+RETURNS JSONB AS $$
+DECLARE
+    v_mode TEXT := coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'geofence_mode'), 'off');
+    v_site ponto_sites;
+    v_distance DOUBLE PRECISION;
+BEGIN
+    IF v_mode = 'off' OR NOT EXISTS (SELECT 1 FROM ponto_sites WHERE active) THEN
+        RETURN NULL;
+    END IF;
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+        RETURN jsonb_build_object('outside', true, 'reason', 'Localização do aparelho indisponível');
+    END IF;
+
+    SELECT * INTO v_site FROM ponto_sites WHERE active
+    ORDER BY ponto_distance_meters(p_latitude, p_longitude, latitude, longitude)
+    LIMIT 1;
+    v_distance := ponto_distance_meters(p_latitude, p_longitude, v_site.latitude, v_site.longitude);
+
+    RETURN jsonb_build_object(
+        'site_name', v_site.name,
+        'distance', round(v_distance),
+        'outside', v_distance > v_site.radius_meters,
+        'reason', CASE WHEN v_distance > v_site.radius_meters THEN
+            format('Fora da área permitida: a %s m de %s (raio de %s m)', round(v_distance), v_site.name, v_site.radius_meters)
+        END
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION ponto_geofence_rejects()
+RETURNS BOOLEAN AS $$
+    SELECT coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'geofence_mode'), 'off') = 'reject';
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS register_punch(INTEGER, TEXT, TIMESTAMPTZ, TEXT);
+CREATE OR REPLACE FUNCTION register_punch(
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_client_timestamp TIMESTAMPTZ DEFAULT NULL,
+    p_kiosk_id TEXT DEFAULT NULL,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_name TEXT;
+    v_geofence JSONB;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    v_geofence := ponto_check_geofence(p_latitude, p_longitude);
+    IF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        RAISE EXCEPTION '%. Ponto não registrado.', v_geofence->>'reason';
+    END IF;
+
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id,
+                              latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence)
+    VALUES (p_employee_id, v_name, p_type, now(), p_client_timestamp, 'kiosk', left(p_kiosk_id, 64),
+            p_latitude, p_longitude, p_accuracy, v_geofence->>'site_name', (v_geofence->>'distance')::integer,
+            coalesce((v_geofence->>'outside')::boolean, false))
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION register_punch(INTEGER, TEXT, TIMESTAMPTZ, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+
+-- Batidas offline: mesma avaliação da cerca, feita na sincronização com a localização guardada na fila
+DROP FUNCTION IF EXISTS sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ);
+CREATE OR REPLACE FUNCTION sync_offline_punch(
+    p_kiosk_id TEXT,
+    p_queue_id UUID,
+    p_sequence BIGINT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_client_timestamp TIMESTAMPTZ,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_name TEXT;
+    v_reason TEXT;
+    v_geofence JSONB := ponto_check_geofence(p_latitude, p_longitude);
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'already_synced';
+    END IF;
+    IF EXISTS (SELECT 1 FROM ponto_offline_conflicts WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'conflict';
+    END IF;
+
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+
+    IF v_name IS NULL THEN
+        v_reason := 'Funcionário não encontrado';
+    ELSIF p_timestamp > now() + INTERVAL '5 minutes' THEN
+        v_reason := 'Horário da batida está no futuro';
+    ELSIF p_timestamp < now() - INTERVAL '30 days' THEN
+        v_reason := 'Batida offline com mais de 30 dias';
+    ELSIF EXISTS (
+        -- O contador cresce a cada batida: um horário menor que o de uma batida anterior da mesma
+        -- fila indica que o relógio do dispositivo foi alterado
+        SELECT 1 FROM ponto_events
+        WHERE offline_queue_id = p_queue_id
+          AND ((offline_sequence < p_sequence AND client_timestamp > p_client_timestamp)
+            OR (offline_sequence > p_sequence AND client_timestamp < p_client_timestamp))
+    ) THEN
+        v_reason := 'Relógio do quiosque voltou no tempo entre batidas offline';
+    ELSIF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        v_reason := v_geofence->>'reason';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+        INSERT INTO ponto_offline_conflicts
+            (kiosk_id, offline_queue_id, offline_sequence, employee_id, employee_name, type, "timestamp", client_timestamp, reason)
+        VALUES (left(p_kiosk_id, 64), p_queue_id, p_sequence, CASE WHEN v_name IS NULL THEN NULL ELSE p_employee_id END,
+                coalesce(v_name, 'Funcionário ' || p_employee_id), p_type, p_timestamp, p_client_timestamp, v_reason);
+        RETURN 'conflict';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM ponto_events
+        WHERE employee_id = p_employee_id AND type = p_type AND deleted_at IS NULL
+          AND "timestamp" BETWEEN p_timestamp - INTERVAL '60 seconds' AND p_timestamp + INTERVAL '60 seconds'
+    ) THEN
+        RETURN 'duplicate';
+    END IF;
+
+    INSERT INTO ponto_events
+        (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, offline_queue_id, offline_sequence,
+         latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, p_client_timestamp, 'offline', left(p_kiosk_id, 64), p_queue_id, p_sequence,
+            p_latitude, p_longitude, p_accuracy, v_geofence->>'site_name', (v_geofence->>'distance')::integer,
+            coalesce((v_geofence->>'outside')::boolean, false));
+
+    RETURN 'synced';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
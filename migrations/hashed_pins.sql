@@ -0,0 +1,128 @@
+-- PINs com hash (Supabase)
+-- Os PINs saem de ponto_employees (que é lida pelos quiosques) e passam a ser guardados apenas como
+-- hash bcrypt com sal em ponto_credentials, tabela sem acesso direto pelo app. A conferência do PIN é
+-- feita no banco por verify_pin. O PIN do administrador também fica aqui, em vez de no código do app.
+-- Execute no SQL Editor do Supabase. É seguro executar mais de uma vez.
+-- IMPORTANTE: o administrador recebe o PIN antigo (7531); altere-o pelo painel logo após executar.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS ponto_credentials (
+    id SERIAL PRIMARY KEY,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'employee')),
+    employee_id INTEGER UNIQUE REFERENCES ponto_employees(id) ON DELETE CASCADE,
+    pin_hash TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK ((role = 'admin') = (employee_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credentials_single_admin ON ponto_credentials(role) WHERE role = 'admin';
+
+ALTER TABLE ponto_credentials ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON ponto_credentials FROM anon, authenticated;
+
+-- Migra os PINs em texto puro e remove a coluna
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'ponto_employees' AND column_name = 'pin'
+    ) THEN
+        RAISE NOTICE 'PINs já migrados, nada a fazer.';
+        RETURN;
+    END IF;
+
+    INSERT INTO ponto_credentials (role, employee_id, pin_hash)
+    SELECT 'employee', id, extensions.crypt(pin, extensions.gen_salt('bf', 8))
+    FROM ponto_employees
+    WHERE coalesce(pin, '') <> ''
+    ON CONFLICT (employee_id) DO NOTHING;
+
+    ALTER TABLE ponto_employees DROP COLUMN pin;
+END $$;
+
+INSERT INTO ponto_credentials (role, employee_id, pin_hash)
+SELECT 'admin', NULL, extensions.crypt('7531', extensions.gen_salt('bf', 8))
+WHERE NOT EXISTS (SELECT 1 FROM ponto_credentials WHERE role = 'admin');
+
+-- PIN já usado por outra credencial (os PINs identificam o usuário, então precisam ser únicos)
+CREATE OR REPLACE FUNCTION ponto_pin_in_use(p_pin TEXT, p_except_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM ponto_credentials
+        WHERE pin_hash = extensions.crypt(p_pin, pin_hash)
+          AND id IS DISTINCT FROM p_except_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION ponto_check_pin_format(p_pin TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF p_pin IS NULL OR p_pin !~ '^\d{4}$' THEN
+        RAISE EXCEPTION 'O PIN deve ter 4 dígitos';
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Retorna {"role": "admin"} ou {"role": "employee", "employee_id": N}; NULL se o PIN não confere
+CREATE OR REPLACE FUNCTION verify_pin(p_pin TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_credential ponto_credentials;
+BEGIN
+    SELECT * INTO v_credential FROM ponto_credentials
+    WHERE pin_hash = extensions.crypt(p_pin, pin_hash)
+    LIMIT 1;
+
+    IF v_credential.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+    RETURN jsonb_build_object('role', v_credential.role, 'employee_id', v_credential.employee_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION set_employee_pin(p_employee_id INTEGER, p_pin TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_credential_id INTEGER;
+BEGIN
+    PERFORM ponto_check_pin_format(p_pin);
+    IF NOT EXISTS (SELECT 1 FROM ponto_employees WHERE id = p_employee_id) THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    SELECT id INTO v_credential_id FROM ponto_credentials WHERE employee_id = p_employee_id;
+    IF ponto_pin_in_use(p_pin, v_credential_id) THEN
+        RAISE EXCEPTION 'Este PIN já está em uso';
+    END IF;
+
+    INSERT INTO ponto_credentials (role, employee_id, pin_hash)
+    VALUES ('employee', p_employee_id, crypt(p_pin, gen_salt('bf', 8)))
+    ON CONFLICT (employee_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION change_admin_pin(p_current_pin TEXT, p_new_pin TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_admin ponto_credentials;
+BEGIN
+    SELECT * INTO v_admin FROM ponto_credentials WHERE role = 'admin';
+    IF v_admin.id IS NULL OR v_admin.pin_hash <> crypt(p_current_pin, v_admin.pin_hash) THEN
+        RAISE EXCEPTION 'PIN atual incorreto';
+    END IF;
+
+    PERFORM ponto_check_pin_format(p_new_pin);
+    IF ponto_pin_in_use(p_new_pin, v_admin.id) THEN
+        RAISE EXCEPTION 'Este PIN já está em uso';
+    END IF;
+
+    UPDATE ponto_credentials SET pin_hash = crypt(p_new_pin, gen_salt('bf', 8)), updated_at = now()
+    WHERE id = v_admin.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION ponto_pin_in_use(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION verify_pin(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_employee_pin(INTEGER, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION change_admin_pin(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,19 @@
+-- Feriados e descanso semanal (Supabase)
+-- Feriados nacionais são calculados pelo app; aqui ficam apenas os estaduais, municipais e da empresa.
+
+CREATE TABLE IF NOT EXISTS ponto_holidays (
+    id SERIAL PRIMARY KEY,
+    date DATE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    scope VARCHAR(20) NOT NULL DEFAULT 'empresa' CHECK (scope IN ('estadual', 'municipal', 'empresa')),
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (date, name)
+);
+
+-- Dia do descanso semanal remunerado de cada funcionário (0 = domingo ... 6 = sábado)
+ALTER TABLE ponto_employees
+    ADD COLUMN IF NOT EXISTS rest_weekday SMALLINT NOT NULL DEFAULT 0 CHECK (rest_weekday BETWEEN 0 AND 6);
+
+-- Horas trabalhadas em feriados e no descanso semanal (2 = 100%)
+ALTER TABLE ponto_pay_profiles
+    ADD COLUMN IF NOT EXISTS holiday_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 2;
@@ -0,0 +1,28 @@
+-- Afastamentos e ausências (Supabase)
+-- Férias, atestados, faltas justificadas/injustificadas e folgas por funcionário e período.
+-- Os anexos (atestados) ficam no bucket privado ponto-anexos; a tabela guarda só o caminho.
+
+CREATE TABLE IF NOT EXISTS ponto_leaves (
+    id SERIAL PRIMARY KEY,
+    employee_id INTEGER NOT NULL REFERENCES ponto_employees(id) ON DELETE CASCADE,
+    kind VARCHAR(30) NOT NULL CHECK (kind IN ('ferias', 'atestado', 'falta_justificada', 'falta_injustificada', 'folga')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    note TEXT NOT NULL DEFAULT '',
+    attachment_path TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaves_employee ON ponto_leaves(employee_id, start_date);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ponto-anexos', 'ponto-anexos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- O painel usa a chave anon, como nas demais tabelas do ponto
+DROP POLICY IF EXISTS "ponto_anexos_anon" ON storage.objects;
+CREATE POLICY "ponto_anexos_anon" ON storage.objects
+    FOR ALL TO anon
+    USING (bucket_id = 'ponto-anexos')
+    WITH CHECK (bucket_id = 'ponto-anexos');
@@ -0,0 +1,190 @@
+-- Contas de gestores com papéis e permissões (Supabase)
+-- O painel administrativo deixa de ser aberto por PIN: cada gestor entra com e-mail e senha
+-- (Supabase Auth) e recebe um papel em ponto_managers. As permissões de cada papel são conferidas
+-- pelas políticas de RLS e pelas funções do banco; o quiosque (chave anon) continua lendo os dados
+-- de que precisa, mas só grava batidas por register_punch.
+-- Execute no SQL Editor do Supabase depois de hashed_pins.sql. É seguro executar mais de uma vez.
+--
+-- Primeiro proprietário: cadastre o e-mail abaixo, execute e faça o "Primeiro acesso" na tela de login.
+--   INSERT INTO ponto_managers (email, name, role) VALUES ('dono@empresa.com.br', 'Proprietário', 'owner');
+
+CREATE TABLE IF NOT EXISTS ponto_managers (
+    id SERIAL PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'hr', 'supervisor')),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_managers_email ON ponto_managers(lower(email));
+
+-- Papel do usuário autenticado (somente e-mails confirmados de gestores ativos)
+CREATE OR REPLACE FUNCTION ponto_current_role()
+RETURNS TEXT AS $$
+    SELECT m.role
+    FROM ponto_managers m
+    JOIN auth.users u ON lower(u.email) = lower(m.email)
+    WHERE u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL AND m.active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Mesma tabela de permissões de lib/auth.ts (ROLE_PERMISSIONS)
+CREATE OR REPLACE FUNCTION ponto_has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(p_permission = ANY (CASE ponto_current_role()
+        WHEN 'owner' THEN ARRAY['view_reports', 'export_files', 'manage_employees', 'edit_events',
+                                'manage_leaves', 'manage_settings', 'approve_adjustments', 'manage_managers']
+        WHEN 'hr' THEN ARRAY['view_reports', 'export_files', 'manage_employees', 'edit_events',
+                             'manage_leaves', 'manage_settings', 'approve_adjustments']
+        WHEN 'supervisor' THEN ARRAY['view_reports', 'approve_adjustments']
+    END), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_manager()
+RETURNS ponto_managers AS $$
+    SELECT m.*
+    FROM ponto_managers m
+    JOIN auth.users u ON lower(u.email) = lower(m.email)
+    WHERE u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL AND m.active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION ponto_has_permission(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION current_manager() TO authenticated;
+
+-- Sempre deve restar ao menos um proprietário ativo
+CREATE OR REPLACE FUNCTION ponto_managers_keep_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM ponto_managers WHERE role = 'owner' AND active) THEN
+        RAISE EXCEPTION 'É necessário manter ao menos um proprietário ativo';
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_managers_keep_owner ON ponto_managers;
+CREATE TRIGGER trg_ponto_managers_keep_owner
+    AFTER UPDATE OR DELETE ON ponto_managers
+    FOR EACH ROW EXECUTE FUNCTION ponto_managers_keep_owner();
+
+-- Políticas: leitura aberta onde o quiosque precisa, escrita conforme a permissão do gestor
+DO $$
+DECLARE
+    v_table TEXT;
+    v_permission TEXT;
+BEGIN
+    FOR v_table, v_permission IN VALUES
+        ('ponto_employees', 'manage_employees'),
+        ('ponto_settings', 'manage_settings'),
+        ('ponto_pay_profiles', 'manage_settings'),
+        ('ponto_pay_assignments', 'manage_settings'),
+        ('ponto_holidays', 'manage_settings'),
+        ('ponto_schedules', 'manage_settings'),
+        ('ponto_schedule_assignments', 'manage_settings'),
+        ('ponto_leaves', 'manage_leaves'),
+        ('ponto_time_bank_entries', 'manage_leaves'),
+        ('ponto_events', NULL)
+    LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', v_table);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_read', v_table);
+        EXECUTE format('CREATE POLICY %I ON %I FOR SELECT USING (true)', v_table || '_read', v_table);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_write', v_table);
+        -- ponto_events não tem política de escrita: batidas só entram por register_punch e admin_*
+        IF v_permission IS NOT NULL THEN
+            EXECUTE format(
+                'CREATE POLICY %I ON %I FOR ALL TO authenticated USING (ponto_has_permission(%L)) WITH CHECK (ponto_has_permission(%L))',
+                v_table || '_write', v_table, v_permission, v_permission
+            );
+        END IF;
+    END LOOP;
+END $$;
+
+ALTER TABLE ponto_managers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_managers_read ON ponto_managers;
+CREATE POLICY ponto_managers_read ON ponto_managers FOR SELECT TO authenticated USING (ponto_current_role() IS NOT NULL);
+DROP POLICY IF EXISTS ponto_managers_write ON ponto_managers;
+CREATE POLICY ponto_managers_write ON ponto_managers FOR ALL TO authenticated
+    USING (ponto_has_permission('manage_managers'))
+    WITH CHECK (ponto_has_permission('manage_managers'));
+
+ALTER TABLE ponto_event_audit ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_event_audit_read ON ponto_event_audit;
+CREATE POLICY ponto_event_audit_read ON ponto_event_audit FOR SELECT TO authenticated USING (ponto_has_permission('view_reports'));
+
+ALTER TABLE ponto_employee_records ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_employee_records_read ON ponto_employee_records;
+CREATE POLICY ponto_employee_records_read ON ponto_employee_records FOR SELECT TO authenticated USING (ponto_has_permission('export_files'));
+
+-- Os registros tipo 5 do AFD são gravados pelo próprio banco, mesmo sem permissão de escrita na tabela
+ALTER FUNCTION ponto_employees_afd_record() SECURITY DEFINER SET search_path = public;
+
+-- Anexos de afastamentos: somente gestores
+DROP POLICY IF EXISTS "ponto_anexos_anon" ON storage.objects;
+DROP POLICY IF EXISTS "ponto_anexos_read" ON storage.objects;
+CREATE POLICY "ponto_anexos_read" ON storage.objects FOR SELECT TO authenticated
+    USING (bucket_id = 'ponto-anexos' AND ponto_has_permission('view_reports'));
+DROP POLICY IF EXISTS "ponto_anexos_write" ON storage.objects;
+CREATE POLICY "ponto_anexos_write" ON storage.objects FOR ALL TO authenticated
+    USING (bucket_id = 'ponto-anexos' AND ponto_has_permission('manage_leaves'))
+    WITH CHECK (bucket_id = 'ponto-anexos' AND ponto_has_permission('manage_leaves'));
+
+-- Alterações de batidas exigem a permissão edit_events (todas as funções admin_* passam por aqui)
+CREATE OR REPLACE FUNCTION ponto_set_audit_context(p_actor TEXT, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT ponto_has_permission('edit_events') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar registros de ponto';
+    END IF;
+    IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'Justificativa obrigatória para alterar registros de ponto';
+    END IF;
+    PERFORM set_config('ponto.audit_actor', coalesce(p_actor, ''), true);
+    PERFORM set_config('ponto.audit_reason', p_reason, true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- O PIN passa a ser exclusivo dos funcionários no quiosque
+DELETE FROM ponto_credentials WHERE role = 'admin';
+DROP FUNCTION IF EXISTS change_admin_pin(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION verify_pin(p_pin TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_credential ponto_credentials;
+BEGIN
+    SELECT * INTO v_credential FROM ponto_credentials
+    WHERE role = 'employee' AND pin_hash = extensions.crypt(p_pin, pin_hash)
+    LIMIT 1;
+
+    IF v_credential.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+    RETURN jsonb_build_object('role', v_credential.role, 'employee_id', v_credential.employee_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION set_employee_pin(p_employee_id INTEGER, p_pin TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_credential_id INTEGER;
+BEGIN
+    IF NOT ponto_has_permission('manage_employees') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar PINs';
+    END IF;
+    PERFORM ponto_check_pin_format(p_pin);
+    IF NOT EXISTS (SELECT 1 FROM ponto_employees WHERE id = p_employee_id) THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    SELECT id INTO v_credential_id FROM ponto_credentials WHERE employee_id = p_employee_id;
+    IF ponto_pin_in_use(p_pin, v_credential_id) THEN
+        RAISE EXCEPTION 'Este PIN já está em uso';
+    END IF;
+
+    INSERT INTO ponto_credentials (role, employee_id, pin_hash)
+    VALUES ('employee', p_employee_id, crypt(p_pin, gen_salt('bf', 8)))
+    ON CONFLICT (employee_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION set_employee_pin(INTEGER, TEXT) FROM anon;
@@ -0,0 +1,5 @@
+-- Adicional noturno (Supabase)
+-- Percentual aplicado sobre as horas trabalhadas entre 22h e 5h, já convertidas pela hora noturna reduzida.
+
+ALTER TABLE ponto_pay_profiles
+    ADD COLUMN IF NOT EXISTS night_premium_percent NUMERIC(5, 2) NOT NULL DEFAULT 20;
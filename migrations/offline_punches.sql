@@ -0,0 +1,224 @@
+-- Batidas offline do quiosque (Supabase)
+-- Sem conexão, o quiosque guarda a batida no IndexedDB com o horário do dispositivo (corrigido pela
+-- última diferença medida em relação ao servidor) e um contador crescente da fila local (identificada
+-- por um id aleatório). Quando a conexão volta, cada batida é enviada por sync_offline_punch, que:
+--   * ignora reenvios (mesma fila e contador);
+--   * descarta batidas repetidas (mesmo funcionário e tipo a menos de 60 segundos de outra);
+--   * guarda em ponto_offline_conflicts, para análise do gestor, as que não podem ser aceitas
+--     automaticamente (horário no futuro, muito antigo ou relógio do quiosque voltando no tempo).
+-- No AFD a batida offline leva o horário da marcação e o horário de gravação no servidor, com o
+-- indicador de marcação offline.
+-- Execute no SQL Editor do Supabase depois de pin_lockout.sql. É seguro executar mais de uma vez.
+
+ALTER TABLE ponto_events
+    ADD COLUMN IF NOT EXISTS recorded_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS kiosk_id VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS offline_queue_id UUID,
+    ADD COLUMN IF NOT EXISTS offline_sequence BIGINT;
+
+UPDATE ponto_events SET recorded_at = coalesce(original_timestamp, "timestamp") WHERE recorded_at IS NULL;
+ALTER TABLE ponto_events ALTER COLUMN recorded_at SET DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_offline_sequence
+    ON ponto_events(offline_queue_id, offline_sequence) WHERE offline_sequence IS NOT NULL;
+
+-- Batidas de quiosque (online ou offline) recebem NSR e horário de gravação; só as online usam o
+-- horário do servidor como marcação
+CREATE OR REPLACE FUNCTION ponto_events_server_time()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.source = 'kiosk' THEN
+        NEW."timestamp" := now();
+    END IF;
+    IF NEW.source IN ('kiosk', 'offline') THEN
+        NEW.nsr := nextval('ponto_nsr_seq');
+    ELSE
+        NEW.nsr := NULL;
+    END IF;
+    NEW.recorded_at := now();
+    NEW.original_timestamp := NEW."timestamp";
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- NSR, marcação original e horário de gravação são permanentes
+CREATE OR REPLACE FUNCTION ponto_events_keep_nsr()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.nsr IS NOT NULL THEN
+        NEW.nsr := OLD.nsr;
+    END IF;
+    IF OLD.original_timestamp IS NOT NULL THEN
+        NEW.original_timestamp := OLD.original_timestamp;
+    END IF;
+    IF OLD.recorded_at IS NOT NULL THEN
+        NEW.recorded_at := OLD.recorded_at;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Batidas offline, como as do quiosque, não exigem justificativa na auditoria
+CREATE OR REPLACE FUNCTION ponto_events_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_actor TEXT := nullif(current_setting('ponto.audit_actor', true), '');
+    v_reason TEXT := nullif(trim(coalesce(current_setting('ponto.audit_reason', true), '')), '');
+    v_action TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'Batidas não podem ser apagadas; use admin_delete_event (exclusão lógica)';
+    END IF;
+
+    IF TG_OP = 'INSERT' AND NEW.source IN ('kiosk', 'offline') THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+        v_action := 'delete';
+    ELSIF TG_OP = 'UPDATE' THEN
+        IF NEW.type IS NOT DISTINCT FROM OLD.type AND NEW."timestamp" IS NOT DISTINCT FROM OLD."timestamp" THEN
+            RETURN NULL;
+        END IF;
+        v_action := 'update';
+    ELSE
+        v_action := 'insert';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        RAISE EXCEPTION 'Justificativa obrigatória para alterar registros de ponto';
+    END IF;
+
+    INSERT INTO ponto_event_audit (event_id, action, actor, reason, old_value, new_value)
+    VALUES (
+        NEW.id,
+        v_action,
+        coalesce(v_actor, 'desconhecido'),
+        v_reason,
+        CASE WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('type', OLD.type, 'timestamp', OLD."timestamp") END,
+        CASE WHEN v_action = 'delete' THEN NULL ELSE jsonb_build_object('type', NEW.type, 'timestamp', NEW."timestamp") END
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE IF NOT EXISTS ponto_offline_conflicts (
+    id SERIAL PRIMARY KEY,
+    kiosk_id VARCHAR(64) NOT NULL,
+    offline_queue_id UUID NOT NULL,
+    offline_sequence BIGINT NOT NULL,
+    employee_id INTEGER REFERENCES ponto_employees(id) ON DELETE SET NULL,
+    employee_name VARCHAR(100) NOT NULL,
+    type VARCHAR(50) NOT NULL,
+    "timestamp" TIMESTAMPTZ NOT NULL, -- horário do dispositivo já corrigido
+    client_timestamp TIMESTAMPTZ NOT NULL, -- horário bruto do dispositivo
+    reason TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    resolved_at TIMESTAMPTZ,
+    resolved_by TEXT,
+    UNIQUE (offline_queue_id, offline_sequence)
+);
+
+ALTER TABLE ponto_offline_conflicts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_offline_conflicts_read ON ponto_offline_conflicts;
+CREATE POLICY ponto_offline_conflicts_read ON ponto_offline_conflicts FOR SELECT TO authenticated
+    USING (ponto_has_permission('view_reports'));
+DROP POLICY IF EXISTS ponto_offline_conflicts_resolve ON ponto_offline_conflicts;
+CREATE POLICY ponto_offline_conflicts_resolve ON ponto_offline_conflicts FOR UPDATE TO authenticated
+    USING (ponto_has_permission('edit_events'))
+    WITH CHECK (ponto_has_permission('edit_events'));
+
+-- Retorna 'synced', 'already_synced', 'duplicate' ou 'conflict'
+CREATE OR REPLACE FUNCTION sync_offline_punch(
+    p_kiosk_id TEXT,
+    p_queue_id UUID,
+    p_sequence BIGINT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_client_timestamp TIMESTAMPTZ
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_name TEXT;
+    v_reason TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'already_synced';
+    END IF;
+    IF EXISTS (SELECT 1 FROM ponto_offline_conflicts WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'conflict';
+    END IF;
+
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+
+    IF v_name IS NULL THEN
+        v_reason := 'Funcionário não encontrado';
+    ELSIF p_timestamp > now() + INTERVAL '5 minutes' THEN
+        v_reason := 'Horário da batida está no futuro';
+    ELSIF p_timestamp < now() - INTERVAL '30 days' THEN
+        v_reason := 'Batida offline com mais de 30 dias';
+    ELSIF EXISTS (
+        -- O contador cresce a cada batida: um horário menor que o de uma batida anterior da mesma
+        -- fila indica que o relógio do dispositivo foi alterado
+        SELECT 1 FROM ponto_events
+        WHERE offline_queue_id = p_queue_id
+          AND ((offline_sequence < p_sequence AND client_timestamp > p_client_timestamp)
+            OR (offline_sequence > p_sequence AND client_timestamp < p_client_timestamp))
+    ) THEN
+        v_reason := 'Relógio do quiosque voltou no tempo entre batidas offline';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+        INSERT INTO ponto_offline_conflicts
+            (kiosk_id, offline_queue_id, offline_sequence, employee_id, employee_name, type, "timestamp", client_timestamp, reason)
+        VALUES (left(p_kiosk_id, 64), p_queue_id, p_sequence, CASE WHEN v_name IS NULL THEN NULL ELSE p_employee_id END,
+                coalesce(v_name, 'Funcionário ' || p_employee_id), p_type, p_timestamp, p_client_timestamp, v_reason);
+        RETURN 'conflict';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM ponto_events
+        WHERE employee_id = p_employee_id AND type = p_type AND deleted_at IS NULL
+          AND "timestamp" BETWEEN p_timestamp - INTERVAL '60 seconds' AND p_timestamp + INTERVAL '60 seconds'
+    ) THEN
+        RETURN 'duplicate';
+    END IF;
+
+    INSERT INTO ponto_events
+        (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, offline_queue_id, offline_sequence)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, p_client_timestamp, 'offline', left(p_kiosk_id, 64), p_queue_id, p_sequence);
+
+    RETURN 'synced';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION sync_offline_punch(TEXT, UUID, BIGINT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) TO anon, authenticated;
+
+-- As batidas online também guardam o quiosque de origem
+DROP FUNCTION IF EXISTS register_punch(INTEGER, TEXT, TIMESTAMPTZ);
+CREATE OR REPLACE FUNCTION register_punch(
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_client_timestamp TIMESTAMPTZ DEFAULT NULL,
+    p_kiosk_id TEXT DEFAULT NULL
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_name TEXT;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id)
+    VALUES (p_employee_id, v_name, p_type, now(), p_client_timestamp, 'kiosk', left(p_kiosk_id, 64))
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION register_punch(INTEGER, TEXT, TIMESTAMPTZ, TEXT) TO anon, authenticated;
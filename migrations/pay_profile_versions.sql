@@ -0,0 +1,97 @@
+-- Versões dos perfis de remuneração (Supabase)
+-- Editar um perfil mudava os valores no lugar e recalculava também os períodos já fechados. Um perfil
+-- com atribuições passa a ser imutável: a edição grava uma nova versão (save_pay_profile_version), que
+-- substitui a anterior a partir da data informada para todos que a usavam nessa data. A versão antiga
+-- fica com replaced_by preenchido e continua valendo para os períodos anteriores.
+-- Perfis com atribuições também não podem mais ser excluídos (a exclusão levava as atribuições junto).
+-- Execute no SQL Editor do Supabase depois de photo_uploads.sql. É seguro executar mais de uma vez.
+
+ALTER TABLE ponto_pay_profiles ADD COLUMN IF NOT EXISTS replaced_by INTEGER REFERENCES ponto_pay_profiles(id);
+
+CREATE OR REPLACE FUNCTION ponto_pay_profiles_protect_assigned()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM ponto_pay_assignments WHERE profile_id = OLD.id) THEN
+        RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'O perfil "%" tem atribuições e não pode ser excluído', OLD.name;
+    END IF;
+    IF (NEW.pay_type, NEW.hourly_rate, NEW.monthly_salary, NEW.monthly_hours, NEW.daily_journey_minutes,
+        NEW.overtime_multiplier, NEW.night_premium_percent, NEW.holiday_multiplier, NEW.time_bank_enabled,
+        NEW.time_bank_expiry_months)
+       IS DISTINCT FROM
+       (OLD.pay_type, OLD.hourly_rate, OLD.monthly_salary, OLD.monthly_hours, OLD.daily_journey_minutes,
+        OLD.overtime_multiplier, OLD.night_premium_percent, OLD.holiday_multiplier, OLD.time_bank_enabled,
+        OLD.time_bank_expiry_months) THEN
+        RAISE EXCEPTION 'O perfil "%" já está atribuído; salve os novos valores como uma nova versão', OLD.name;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_pay_profiles_protect_assigned ON ponto_pay_profiles;
+CREATE TRIGGER trg_ponto_pay_profiles_protect_assigned
+    BEFORE UPDATE OR DELETE ON ponto_pay_profiles
+    FOR EACH ROW EXECUTE FUNCTION ponto_pay_profiles_protect_assigned();
+
+-- Grava os novos valores como versão do perfil p_profile_id, vigente a partir de p_effective_from:
+-- atribuições da versão anterior a partir dessa data passam para a nova, e quem a usava na data
+-- recebe uma atribuição nova. Retorna o id da nova versão.
+CREATE OR REPLACE FUNCTION save_pay_profile_version(p_profile_id INTEGER, p_profile JSONB, p_effective_from DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    v_old ponto_pay_profiles;
+    v_new_id INTEGER;
+BEGIN
+    IF NOT ponto_has_permission('manage_settings') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar perfis de remuneração';
+    END IF;
+    SELECT * INTO v_old FROM ponto_pay_profiles WHERE id = p_profile_id FOR UPDATE;
+    IF v_old.id IS NULL THEN
+        RAISE EXCEPTION 'Perfil % não encontrado', p_profile_id;
+    END IF;
+    IF v_old.replaced_by IS NOT NULL THEN
+        RAISE EXCEPTION 'O perfil "%" já foi substituído por uma versão mais nova', v_old.name;
+    END IF;
+    IF p_effective_from IS NULL THEN
+        RAISE EXCEPTION 'Informe a partir de quando valem os novos valores';
+    END IF;
+
+    INSERT INTO ponto_pay_profiles (name, pay_type, hourly_rate, monthly_salary, monthly_hours, daily_journey_minutes,
+                                    overtime_multiplier, night_premium_percent, holiday_multiplier, time_bank_enabled,
+                                    time_bank_expiry_months)
+    VALUES (p_profile->>'name', p_profile->>'pay_type', (p_profile->>'hourly_rate')::numeric,
+            (p_profile->>'monthly_salary')::numeric, (p_profile->>'monthly_hours')::integer,
+            (p_profile->>'daily_journey_minutes')::integer, (p_profile->>'overtime_multiplier')::numeric,
+            (p_profile->>'night_premium_percent')::numeric, (p_profile->>'holiday_multiplier')::numeric,
+            (p_profile->>'time_bank_enabled')::boolean, (p_profile->>'time_bank_expiry_months')::integer)
+    RETURNING id INTO v_new_id;
+
+    -- Quem usava a versão anterior na data passa para a nova
+    INSERT INTO ponto_pay_assignments (profile_id, employee_id, funcao, effective_from)
+    SELECT v_new_id, latest.employee_id, latest.funcao, p_effective_from
+    FROM (
+        SELECT DISTINCT ON (employee_id, funcao) profile_id, employee_id, funcao
+        FROM ponto_pay_assignments
+        WHERE effective_from < p_effective_from
+        ORDER BY employee_id, funcao, effective_from DESC, id DESC
+    ) latest
+    WHERE latest.profile_id = p_profile_id
+      AND NOT EXISTS (
+          SELECT 1 FROM ponto_pay_assignments a
+          WHERE a.employee_id IS NOT DISTINCT FROM latest.employee_id AND a.funcao IS NOT DISTINCT FROM latest.funcao
+            AND a.effective_from = p_effective_from
+      );
+
+    -- As que começam na data ou depois dela já são da nova versão
+    UPDATE ponto_pay_assignments SET profile_id = v_new_id
+    WHERE profile_id = p_profile_id AND effective_from >= p_effective_from;
+
+    UPDATE ponto_pay_profiles SET replaced_by = v_new_id WHERE id = p_profile_id;
+    RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION save_pay_profile_version(INTEGER, JSONB, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_pay_profile_version(INTEGER, JSONB, DATE) TO authenticated;
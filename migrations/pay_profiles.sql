@@ -0,0 +1,36 @@
+-- Perfis de remuneração (Supabase)
+-- Substituem as constantes NORMAL_HOUR_RATE / EXTRA_HOUR_RATE / jornada de 8h do AdminDashboard.
+-- Cada atribuição vale a partir de effective_from, então reajustes não mudam períodos passados.
+
+CREATE TABLE IF NOT EXISTS ponto_pay_profiles (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    pay_type VARCHAR(10) NOT NULL DEFAULT 'hourly' CHECK (pay_type IN ('hourly', 'monthly')),
+    hourly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    monthly_salary NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    monthly_hours INTEGER NOT NULL DEFAULT 220,
+    daily_journey_minutes INTEGER NOT NULL DEFAULT 480,
+    overtime_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 1.5,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- employee_id preenchido = individual; funcao preenchida = todos daquela função; ambos nulos = geral
+CREATE TABLE IF NOT EXISTS ponto_pay_assignments (
+    id SERIAL PRIMARY KEY,
+    profile_id INTEGER NOT NULL REFERENCES ponto_pay_profiles(id) ON DELETE CASCADE,
+    employee_id INTEGER REFERENCES ponto_employees(id) ON DELETE CASCADE,
+    funcao VARCHAR(100),
+    effective_from DATE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pay_assignments_employee ON ponto_pay_assignments(employee_id);
+
+-- Perfil geral com os valores que estavam fixos no código, valendo para todo o histórico
+INSERT INTO ponto_pay_profiles (name, pay_type, hourly_rate, daily_journey_minutes, overtime_multiplier)
+SELECT 'Padrão', 'hourly', 8.15, 480, 2
+WHERE NOT EXISTS (SELECT 1 FROM ponto_pay_profiles);
+
+INSERT INTO ponto_pay_assignments (profile_id, effective_from)
+SELECT id, DATE '2000-01-01' FROM ponto_pay_profiles
+WHERE name = 'Padrão' AND NOT EXISTS (SELECT 1 FROM ponto_pay_assignments);
@@ -0,0 +1,70 @@
+-- Envio das fotos das batidas só pelo dispositivo da batida (Supabase)
+-- Antes o caminho da foto era previsível (<funcionário>/<id da batida>.jpg) e qualquer um podia enviar
+-- arquivos ao bucket ou ao servidor de fotos: bastava criar o próximo caminho antes do quiosque para a
+-- batida ficar sem foto, ou encher o disco. Agora:
+-- * o quiosque sorteia o nome (<funcionário>/<uuid>.jpg) e primeiro o vincula à batida por
+--   attach_punch_photo, que confere o formato e devolve o caminho aceito;
+-- * o envio do arquivo só é aceito para o caminho vinculado, nos minutos seguintes, e com o token do
+--   dispositivo que registrou a batida (cabeçalho x-device-token), tanto no bucket quanto em photo-server.js.
+-- Execute no SQL Editor do Supabase depois de audit_actor.sql. É seguro executar mais de uma vez.
+
+CREATE INDEX IF NOT EXISTS idx_events_photo_path ON ponto_events(photo_path) WHERE photo_path IS NOT NULL;
+
+DROP FUNCTION IF EXISTS attach_punch_photo(TEXT, TEXT, INTEGER, UUID, BIGINT);
+CREATE OR REPLACE FUNCTION attach_punch_photo(
+    p_device_token TEXT,
+    p_path TEXT,
+    p_event_id INTEGER DEFAULT NULL,
+    p_queue_id UUID DEFAULT NULL,
+    p_sequence BIGINT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_event ponto_events;
+BEGIN
+    IF p_event_id IS NOT NULL THEN
+        SELECT * INTO v_event FROM ponto_events WHERE id = p_event_id;
+    ELSE
+        SELECT * INTO v_event FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence;
+    END IF;
+
+    IF v_event.id IS NULL OR v_event.device_id IS DISTINCT FROM v_device.id THEN
+        RAISE EXCEPTION 'Batida não encontrada';
+    END IF;
+    IF v_event.photo_path IS NOT NULL OR v_event.recorded_at < now() - INTERVAL '5 minutes' THEN
+        RAISE EXCEPTION 'A foto só pode ser vinculada logo após o registro da batida';
+    END IF;
+    IF p_path !~ ('^' || v_event.employee_id || '/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.jpg$') THEN
+        RAISE EXCEPTION 'Caminho de foto inválido';
+    END IF;
+
+    UPDATE ponto_events SET photo_path = p_path WHERE id = v_event.id;
+    RETURN p_path;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION attach_punch_photo(TEXT, TEXT, INTEGER, UUID, BIGINT) TO anon, authenticated;
+
+-- O arquivo pode ser enviado? Só para o caminho já vinculado, pelo dispositivo da batida e até 10 minutos
+-- depois da gravação. Usada pela política do bucket e por photo-server.js.
+CREATE OR REPLACE FUNCTION ponto_photo_upload_allowed(p_device_token TEXT, p_path TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM ponto_events e
+        JOIN ponto_devices d ON d.id = e.device_id
+        WHERE e.photo_path = p_path
+          AND e.recorded_at >= now() - INTERVAL '10 minutes'
+          AND d.token_hash = ponto_token_hash(coalesce(p_device_token, ''))
+          AND d.revoked_at IS NULL
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION ponto_photo_upload_allowed(TEXT, TEXT) TO anon, authenticated;
+
+-- O Storage repassa os cabeçalhos da requisição em request.headers
+DROP POLICY IF EXISTS "ponto_fotos_upload" ON storage.objects;
+CREATE POLICY "ponto_fotos_upload" ON storage.objects FOR INSERT TO anon, authenticated
+    WITH CHECK (bucket_id = 'ponto-fotos'
+        AND ponto_photo_upload_allowed(current_setting('request.headers', true)::json->>'x-device-token', name));
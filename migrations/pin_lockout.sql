@@ -0,0 +1,214 @@
+-- Proteção contra força bruta no teclado de PIN (Supabase)
+-- Cada tentativa é registrada no banco por verify_pin, com o identificador do quiosque. Depois de
+-- algumas falhas o quiosque precisa esperar um tempo crescente entre tentativas e, ao atingir o
+-- limite, fica bloqueado por um período que dobra a cada novo bloqueio. Como o PIN identifica o
+-- funcionário, uma tentativa errada não aponta um alvo individual: o alvo é o conjunto de PINs da
+-- instalação, e as falhas somadas de todos os quiosques também levam ao bloqueio (isso impede que
+-- alguém contorne o limite trocando o identificador do quiosque). Todo bloqueio gera um alerta para
+-- os gestores. O tamanho do PIN passa a ser configurável (pin_length, de 4 a 8 dígitos).
+-- Execute no SQL Editor do Supabase depois de manager_accounts.sql. É seguro executar mais de uma vez.
+
+INSERT INTO ponto_settings (key, value) VALUES
+    ('pin_length', '4'),
+    ('pin_max_attempts', '5'),
+    ('pin_lockout_minutes', '15')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS ponto_pin_attempts (
+    id BIGSERIAL PRIMARY KEY,
+    kiosk_id VARCHAR(64) NOT NULL,
+    employee_id INTEGER REFERENCES ponto_employees(id) ON DELETE SET NULL,
+    success BOOLEAN NOT NULL,
+    cleared BOOLEAN NOT NULL DEFAULT false, -- falha desconsiderada após liberação pelo gestor
+    attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pin_attempts_kiosk ON ponto_pin_attempts(kiosk_id, attempted_at);
+CREATE INDEX IF NOT EXISTS idx_pin_attempts_time ON ponto_pin_attempts(attempted_at);
+
+ALTER TABLE ponto_pin_attempts ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON ponto_pin_attempts FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS ponto_security_alerts (
+    id SERIAL PRIMARY KEY,
+    kind VARCHAR(30) NOT NULL CHECK (kind IN ('kiosk_lockout', 'installation_lockout')),
+    kiosk_id VARCHAR(64),
+    message TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    acknowledged_at TIMESTAMPTZ,
+    acknowledged_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_alerts_open ON ponto_security_alerts(created_at) WHERE acknowledged_at IS NULL;
+
+ALTER TABLE ponto_security_alerts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ponto_security_alerts_read ON ponto_security_alerts;
+CREATE POLICY ponto_security_alerts_read ON ponto_security_alerts FOR SELECT TO authenticated
+    USING (ponto_has_permission('view_reports'));
+DROP POLICY IF EXISTS ponto_security_alerts_ack ON ponto_security_alerts;
+CREATE POLICY ponto_security_alerts_ack ON ponto_security_alerts FOR UPDATE TO authenticated
+    USING (ponto_has_permission('manage_employees'))
+    WITH CHECK (ponto_has_permission('manage_employees'));
+
+CREATE OR REPLACE FUNCTION ponto_int_setting(p_key TEXT, p_default INTEGER)
+RETURNS INTEGER AS $$
+    SELECT coalesce((SELECT (value #>> '{}')::INTEGER FROM ponto_settings WHERE key = p_key), p_default);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION ponto_check_pin_format(p_pin TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_length INTEGER := ponto_int_setting('pin_length', 4);
+BEGIN
+    IF p_pin IS NULL OR p_pin !~ ('^\d{' || v_length || '}$') THEN
+        RAISE EXCEPTION 'O PIN deve ter % dígitos', v_length;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tamanho do PIN limitado a 4–8 dígitos (a conferência acima usa o valor salvo)
+CREATE OR REPLACE FUNCTION ponto_settings_check_pin()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.key = 'pin_length' AND NOT ((NEW.value #>> '{}') ~ '^[4-8]$') THEN
+        RAISE EXCEPTION 'O PIN deve ter de 4 a 8 dígitos';
+    END IF;
+    IF NEW.key IN ('pin_max_attempts', 'pin_lockout_minutes') AND NOT ((NEW.value #>> '{}') ~ '^[1-9]\d*$') THEN
+        RAISE EXCEPTION 'Valor inválido para %', NEW.key;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_settings_check_pin ON ponto_settings;
+CREATE TRIGGER trg_ponto_settings_check_pin
+    BEFORE INSERT OR UPDATE ON ponto_settings
+    FOR EACH ROW EXECUTE FUNCTION ponto_settings_check_pin();
+
+-- Situação do teclado para um quiosque: NULL se pode tentar, ou {"status": "wait"|"locked", "seconds": N}
+-- (segundos até liberar, para não depender do relógio do quiosque).
+-- Falhas contam a partir do último acerto no mesmo quiosque, dentro das últimas 24 horas.
+CREATE OR REPLACE FUNCTION ponto_pin_block(p_kiosk_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_max INTEGER := ponto_int_setting('pin_max_attempts', 5);
+    v_lockout INTERVAL := make_interval(mins => ponto_int_setting('pin_lockout_minutes', 15));
+    v_since TIMESTAMPTZ;
+    v_failures INTEGER;
+    v_last_failure TIMESTAMPTZ;
+    v_until TIMESTAMPTZ;
+    v_global_failures INTEGER;
+    v_global_last TIMESTAMPTZ;
+BEGIN
+    SELECT greatest(now() - INTERVAL '24 hours', coalesce(max(attempted_at), '-infinity'))
+    INTO v_since
+    FROM ponto_pin_attempts WHERE kiosk_id = p_kiosk_id AND success;
+
+    SELECT count(*), max(attempted_at) INTO v_failures, v_last_failure
+    FROM ponto_pin_attempts
+    WHERE kiosk_id = p_kiosk_id AND NOT success AND NOT cleared AND attempted_at > v_since;
+
+    IF v_failures >= v_max THEN
+        -- 1º bloqueio: pin_lockout_minutes; cada falha seguinte dobra o tempo (até 24 horas)
+        v_until := v_last_failure + least(v_lockout * power(2, v_failures - v_max), INTERVAL '24 hours');
+        IF v_until > now() THEN
+            RETURN jsonb_build_object('status', 'locked', 'seconds', ceil(extract(epoch FROM v_until - now())));
+        END IF;
+    ELSIF v_failures >= 2 THEN
+        -- Espera progressiva antes do bloqueio: 2, 4, 8... segundos
+        v_until := v_last_failure + make_interval(secs => power(2, v_failures - 1));
+        IF v_until > now() THEN
+            RETURN jsonb_build_object('status', 'wait', 'seconds', ceil(extract(epoch FROM v_until - now())));
+        END IF;
+    END IF;
+
+    -- Alvo: falhas de todos os quiosques na última hora
+    SELECT count(*), max(attempted_at) INTO v_global_failures, v_global_last
+    FROM ponto_pin_attempts
+    WHERE NOT success AND NOT cleared AND attempted_at > now() - INTERVAL '1 hour';
+
+    IF v_global_failures >= v_max * 4 AND v_global_last + v_lockout > now() THEN
+        RETURN jsonb_build_object('status', 'locked', 'seconds', ceil(extract(epoch FROM v_global_last + v_lockout - now())));
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Retorna {"status": "ok", "employee_id": N}, {"status": "invalid", "remaining": N} ou o bloqueio em vigor
+DROP FUNCTION IF EXISTS verify_pin(TEXT);
+CREATE OR REPLACE FUNCTION verify_pin(p_pin TEXT, p_kiosk_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_kiosk TEXT := left(coalesce(nullif(trim(p_kiosk_id), ''), 'desconhecido'), 64);
+    v_max INTEGER := ponto_int_setting('pin_max_attempts', 5);
+    v_block JSONB;
+    v_credential ponto_credentials;
+    v_failures INTEGER;
+    v_global_failures INTEGER;
+BEGIN
+    -- Durante o bloqueio o PIN nem é conferido, para não revelar se estaria certo
+    v_block := ponto_pin_block(v_kiosk);
+    IF v_block IS NOT NULL THEN
+        RETURN v_block;
+    END IF;
+
+    SELECT * INTO v_credential FROM ponto_credentials
+    WHERE role = 'employee' AND pin_hash = extensions.crypt(p_pin, pin_hash)
+    LIMIT 1;
+
+    INSERT INTO ponto_pin_attempts (kiosk_id, employee_id, success)
+    VALUES (v_kiosk, v_credential.employee_id, v_credential.id IS NOT NULL);
+
+    IF v_credential.id IS NOT NULL THEN
+        RETURN jsonb_build_object('status', 'ok', 'employee_id', v_credential.employee_id);
+    END IF;
+
+    SELECT count(*) INTO v_failures
+    FROM ponto_pin_attempts
+    WHERE kiosk_id = v_kiosk AND NOT success AND NOT cleared
+      AND attempted_at > greatest(now() - INTERVAL '24 hours', coalesce(
+          (SELECT max(attempted_at) FROM ponto_pin_attempts WHERE kiosk_id = v_kiosk AND success), '-infinity'));
+
+    SELECT count(*) INTO v_global_failures
+    FROM ponto_pin_attempts
+    WHERE NOT success AND NOT cleared AND attempted_at > now() - INTERVAL '1 hour';
+
+    IF v_failures >= v_max THEN
+        INSERT INTO ponto_security_alerts (kind, kiosk_id, message)
+        VALUES ('kiosk_lockout', v_kiosk,
+                format('Teclado bloqueado após %s tentativas de PIN inválidas no quiosque %s', v_failures, v_kiosk));
+    END IF;
+    IF v_global_failures >= v_max * 4 AND NOT EXISTS (
+        SELECT 1 FROM ponto_security_alerts
+        WHERE kind = 'installation_lockout'
+          AND created_at > now() - make_interval(mins => ponto_int_setting('pin_lockout_minutes', 15))
+    ) THEN
+        INSERT INTO ponto_security_alerts (kind, kiosk_id, message)
+        VALUES ('installation_lockout', v_kiosk,
+                format('Todos os quiosques bloqueados: %s tentativas de PIN inválidas na última hora', v_global_failures));
+    END IF;
+
+    RETURN coalesce(ponto_pin_block(v_kiosk),
+                    jsonb_build_object('status', 'invalid', 'remaining', v_max - v_failures));
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION ponto_pin_block(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION verify_pin(TEXT, TEXT) TO anon, authenticated;
+
+-- Gestor com permissão de funcionários pode liberar o teclado antes do fim do bloqueio.
+-- Com p_kiosk_id NULL libera todos os quiosques (bloqueio da instalação).
+CREATE OR REPLACE FUNCTION unlock_pin_keypad(p_kiosk_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT ponto_has_permission('manage_employees') THEN
+        RAISE EXCEPTION 'Sem permissão para liberar o teclado';
+    END IF;
+    -- As falhas continuam no histórico, só deixam de contar para o bloqueio
+    UPDATE ponto_pin_attempts SET cleared = true
+    WHERE NOT success AND NOT cleared AND (p_kiosk_id IS NULL OR kiosk_id = p_kiosk_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION unlock_pin_keypad(TEXT) FROM anon;
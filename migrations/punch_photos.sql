@@ -0,0 +1,54 @@
+-- Foto da batida (Supabase)
+-- Com a opção punch_photo_enabled ligada, o quiosque tira uma foto pela câmera no momento da batida.
+-- A imagem vai para o bucket privado ponto-fotos (ou para o servidor de fotos local, em instalações
+-- próprias) e a batida guarda só o caminho em photo_path. O quiosque não altera ponto_events
+-- diretamente: o caminho é gravado por attach_punch_photo, aceito apenas logo após a gravação da batida.
+-- Execute no SQL Editor do Supabase depois de offline_punches.sql. É seguro executar mais de uma vez.
+
+ALTER TABLE ponto_events ADD COLUMN IF NOT EXISTS photo_path TEXT;
+
+INSERT INTO ponto_settings (key, value)
+VALUES ('punch_photo_enabled', 'false')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ponto-fotos', 'ponto-fotos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Quiosque só envia fotos novas; somente gestores com acesso aos relatórios podem vê-las
+DROP POLICY IF EXISTS "ponto_fotos_upload" ON storage.objects;
+CREATE POLICY "ponto_fotos_upload" ON storage.objects FOR INSERT TO anon, authenticated
+    WITH CHECK (bucket_id = 'ponto-fotos');
+DROP POLICY IF EXISTS "ponto_fotos_read" ON storage.objects;
+CREATE POLICY "ponto_fotos_read" ON storage.objects FOR SELECT TO authenticated
+    USING (bucket_id = 'ponto-fotos' AND ponto_has_permission('view_reports'));
+
+-- Vincula a foto à batida online (p_event_id) ou à batida offline sincronizada (fila e contador)
+CREATE OR REPLACE FUNCTION attach_punch_photo(
+    p_path TEXT,
+    p_event_id INTEGER DEFAULT NULL,
+    p_queue_id UUID DEFAULT NULL,
+    p_sequence BIGINT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_event ponto_events;
+BEGIN
+    IF p_event_id IS NOT NULL THEN
+        SELECT * INTO v_event FROM ponto_events WHERE id = p_event_id;
+    ELSE
+        SELECT * INTO v_event FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence;
+    END IF;
+
+    IF v_event.id IS NULL OR v_event.source NOT IN ('kiosk', 'offline') THEN
+        RAISE EXCEPTION 'Batida não encontrada';
+    END IF;
+    IF v_event.photo_path IS NOT NULL OR v_event.recorded_at < now() - INTERVAL '5 minutes' THEN
+        RAISE EXCEPTION 'A foto só pode ser vinculada logo após o registro da batida';
+    END IF;
+
+    UPDATE ponto_events SET photo_path = p_path WHERE id = v_event.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION attach_punch_photo(TEXT, INTEGER, UUID, BIGINT) TO anon, authenticated;
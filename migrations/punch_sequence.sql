@@ -0,0 +1,273 @@
+-- Sequência das batidas (Supabase)
+-- O banco passa a exigir a ordem Entrada → Início Intervalo ⇄ Fim Intervalo → Saída em toda gravação de
+-- batida: quiosque, sincronização offline, lançamento manual, edição, aprovação de solicitação de ajuste,
+-- restauração de backup ou chamada direta à API. O turno aberto há mais de max_shift_hours (shift_policy.sql)
+-- conta como encerrado, então a próxima batida válida é uma nova Entrada.
+-- Códigos de erro (SQLSTATE), repetidos em lib/punchSequence.ts:
+--   PS001 — batida sem turno aberto (o turno começa pela Entrada);
+--   PS002 — Entrada com turno aberto;
+--   PS003 — Fim Intervalo sem Início Intervalo;
+--   PS004 — Início Intervalo, Saída ou Entrada durante o intervalo.
+-- A conferência é feita no fim da transação, para que inclusões em lote (ex.: início e fim de um intervalo)
+-- sejam avaliadas juntas. Exclusões não são conferidas; validate_punch_sequences lista o que já está gravado
+-- fora de ordem.
+-- Execute no SQL Editor do Supabase depois de shift_policy.sql. É seguro executar mais de uma vez.
+
+-- Tipo da última batida do turno aberto antes de (p_at, p_before_id), ou NULL se não houver turno aberto.
+-- Sem p_before_id, considera todas as batidas até p_at, inclusive.
+CREATE OR REPLACE FUNCTION ponto_punch_state(p_employee_id INTEGER, p_at TIMESTAMPTZ, p_before_id INTEGER DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+    v_last ponto_events;
+    v_entry TIMESTAMPTZ;
+BEGIN
+    SELECT * INTO v_last FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL
+      AND CASE WHEN p_before_id IS NULL THEN "timestamp" <= p_at ELSE ("timestamp", id) < (p_at, p_before_id) END
+    ORDER BY "timestamp" DESC, id DESC LIMIT 1;
+    IF v_last.id IS NULL OR v_last.type = 'Saída' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT max("timestamp") INTO v_entry FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL AND type = 'Entrada'
+      AND ("timestamp", id) <= (v_last."timestamp", v_last.id);
+    IF v_entry IS NULL OR p_at - v_entry > make_interval(hours => ponto_int_setting('max_shift_hours', 16)) THEN
+        RETURN NULL;
+    END IF;
+    RETURN v_last.type;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Código do erro de sequência para p_type depois do estado p_state (NULL = sem turno aberto), ou NULL se válida
+CREATE OR REPLACE FUNCTION ponto_punch_transition_error(p_state TEXT, p_type TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_state = 'Início Intervalo' AND p_type <> 'Fim Intervalo' THEN 'PS004'
+        WHEN p_type = 'Entrada' THEN CASE WHEN p_state IS NULL THEN NULL ELSE 'PS002' END
+        WHEN p_state IS NULL THEN 'PS001'
+        WHEN p_type = 'Fim Intervalo' AND p_state <> 'Início Intervalo' THEN 'PS003'
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION ponto_punch_error_message(p_code TEXT, p_type TEXT, p_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+    SELECT format('%s em %s: %s', p_type, to_char(p_at, 'DD/MM/YYYY HH24:MI'), CASE p_code
+        WHEN 'PS001' THEN 'não há turno aberto; o turno começa pela Entrada'
+        WHEN 'PS002' THEN 'já há um turno aberto, sem Saída'
+        WHEN 'PS003' THEN 'não há intervalo iniciado'
+        WHEN 'PS004' THEN 'o intervalo iniciado ainda não terminou'
+        ELSE 'sequência inválida'
+    END);
+$$ LANGUAGE sql STABLE;
+
+-- Erro de sequência ao gravar p_type em p_at (a batida em si e a seguinte), para conferir antes de inserir
+CREATE OR REPLACE FUNCTION ponto_punch_sequence_error(p_employee_id INTEGER, p_type TEXT, p_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+DECLARE
+    v_code TEXT := ponto_punch_transition_error(ponto_punch_state(p_employee_id, p_at), p_type);
+    v_next ponto_events;
+BEGIN
+    IF v_code IS NOT NULL THEN
+        RETURN ponto_punch_error_message(v_code, p_type, p_at);
+    END IF;
+    SELECT * INTO v_next FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL AND "timestamp" > p_at
+    ORDER BY "timestamp", id LIMIT 1;
+    IF v_next.id IS NOT NULL
+        AND v_next."timestamp" - p_at <= make_interval(hours => ponto_int_setting('max_shift_hours', 16)) THEN
+        v_code := ponto_punch_transition_error(CASE WHEN p_type = 'Saída' THEN NULL ELSE p_type END, v_next.type);
+        IF v_code IS NOT NULL THEN
+            RETURN ponto_punch_error_message(v_code, v_next.type, v_next."timestamp");
+        END IF;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Confere a batida gravada e a seguinte a ela, com o estado final da transação
+CREATE OR REPLACE FUNCTION ponto_events_check_sequence()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_event ponto_events;
+    v_next ponto_events;
+    v_code TEXT;
+BEGIN
+    SELECT * INTO v_event FROM ponto_events WHERE id = NEW.id;
+    IF v_event.id IS NULL OR v_event.deleted_at IS NOT NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_code := ponto_punch_transition_error(ponto_punch_state(v_event.employee_id, v_event."timestamp", v_event.id), v_event.type);
+    IF v_code IS NOT NULL THEN
+        RAISE EXCEPTION USING ERRCODE = v_code,
+            MESSAGE = ponto_punch_error_message(v_code, v_event.type, v_event."timestamp");
+    END IF;
+
+    SELECT * INTO v_next FROM ponto_events
+    WHERE employee_id = v_event.employee_id AND deleted_at IS NULL
+      AND ("timestamp", id) > (v_event."timestamp", v_event.id)
+    ORDER BY "timestamp", id LIMIT 1;
+    IF v_next.id IS NOT NULL THEN
+        v_code := ponto_punch_transition_error(ponto_punch_state(v_next.employee_id, v_next."timestamp", v_next.id), v_next.type);
+        IF v_code IS NOT NULL THEN
+            RAISE EXCEPTION USING ERRCODE = v_code,
+                MESSAGE = ponto_punch_error_message(v_code, v_next.type, v_next."timestamp"),
+                DETAIL = format('Conflito com a batida seguinte (nº %s) ao gravar %s', v_next.id, v_event.type);
+        END IF;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_events_check_sequence ON ponto_events;
+CREATE CONSTRAINT TRIGGER trg_ponto_events_check_sequence
+    AFTER INSERT OR UPDATE OF type, "timestamp", employee_id, deleted_at ON ponto_events
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_check_sequence();
+
+-- Intervalo lançado pelo gestor: início e fim na mesma transação (um sozinho quebraria a sequência)
+CREATE OR REPLACE FUNCTION admin_insert_break(
+    p_employee_id INTEGER,
+    p_start TIMESTAMPTZ,
+    p_end TIMESTAMPTZ,
+    p_actor TEXT,
+    p_reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_name TEXT;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+    IF p_end <= p_start THEN
+        RAISE EXCEPTION 'O fim do intervalo deve ser depois do início';
+    END IF;
+
+    PERFORM ponto_set_audit_context(p_actor, p_reason);
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source)
+    VALUES (p_employee_id, v_name, 'Início Intervalo', p_start, 'manual'),
+           (p_employee_id, v_name, 'Fim Intervalo', p_end, 'manual');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION admin_insert_break(INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT) TO anon, authenticated;
+
+-- Batidas offline fora de sequência vão para os conflitos em vez de travar a fila do quiosque
+CREATE OR REPLACE FUNCTION sync_offline_punch(
+    p_device_token TEXT,
+    p_queue_id UUID,
+    p_sequence BIGINT,
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_timestamp TIMESTAMPTZ,
+    p_client_timestamp TIMESTAMPTZ,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_name TEXT;
+    v_reason TEXT;
+    v_geofence JSONB := ponto_check_geofence(p_latitude, p_longitude, v_device.allowed_site_ids);
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_events WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'already_synced';
+    END IF;
+    IF EXISTS (SELECT 1 FROM ponto_offline_conflicts WHERE offline_queue_id = p_queue_id AND offline_sequence = p_sequence) THEN
+        RETURN 'conflict';
+    END IF;
+
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+
+    IF v_name IS NULL THEN
+        v_reason := 'Funcionário não encontrado';
+    ELSIF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        v_reason := format('Dispositivo %s não registra o ponto deste funcionário', v_device.name);
+    ELSIF p_timestamp > now() + INTERVAL '5 minutes' THEN
+        v_reason := 'Horário da batida está no futuro';
+    ELSIF p_timestamp < now() - INTERVAL '30 days' THEN
+        v_reason := 'Batida offline com mais de 30 dias';
+    ELSIF EXISTS (
+        -- O contador cresce a cada batida: um horário menor que o de uma batida anterior da mesma
+        -- fila indica que o relógio do dispositivo foi alterado
+        SELECT 1 FROM ponto_events
+        WHERE offline_queue_id = p_queue_id
+          AND ((offline_sequence < p_sequence AND client_timestamp > p_client_timestamp)
+            OR (offline_sequence > p_sequence AND client_timestamp < p_client_timestamp))
+    ) THEN
+        v_reason := 'Relógio do quiosque voltou no tempo entre batidas offline';
+    ELSIF (v_geofence->>'outside')::boolean AND ponto_geofence_rejects() THEN
+        v_reason := v_geofence->>'reason';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        -- A repetida é descartada antes da sequência, que a veria como fora de ordem
+        IF EXISTS (
+            SELECT 1 FROM ponto_events
+            WHERE employee_id = p_employee_id AND type = p_type AND deleted_at IS NULL
+              AND "timestamp" BETWEEN p_timestamp - INTERVAL '60 seconds' AND p_timestamp + INTERVAL '60 seconds'
+        ) THEN
+            RETURN 'duplicate';
+        END IF;
+        v_reason := 'Fora de sequência: ' || ponto_punch_sequence_error(p_employee_id, p_type, p_timestamp);
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+        INSERT INTO ponto_offline_conflicts
+            (kiosk_id, offline_queue_id, offline_sequence, employee_id, employee_name, type, "timestamp", client_timestamp, reason)
+        VALUES (v_device.kiosk_id, p_queue_id, p_sequence, CASE WHEN v_name IS NULL THEN NULL ELSE p_employee_id END,
+                coalesce(v_name, 'Funcionário ' || p_employee_id), p_type, p_timestamp, p_client_timestamp, v_reason);
+        RETURN 'conflict';
+    END IF;
+
+    INSERT INTO ponto_events
+        (employee_id, employee_name, type, "timestamp", client_timestamp, source, kiosk_id, device_id, offline_queue_id, offline_sequence,
+         latitude, longitude, location_accuracy, site_name, site_distance_meters, outside_geofence)
+    VALUES (p_employee_id, v_name, p_type, p_timestamp, p_client_timestamp, 'offline', v_device.kiosk_id, v_device.id, p_queue_id, p_sequence,
+            p_latitude, p_longitude, p_accuracy, v_geofence->>'site_name', (v_geofence->>'distance')::integer,
+            coalesce((v_geofence->>'outside')::boolean, false));
+
+    RETURN 'synced';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Ferramenta "Validar período": todas as batidas gravadas fora de sequência no período
+CREATE OR REPLACE FUNCTION validate_punch_sequences(p_start TIMESTAMPTZ, p_end TIMESTAMPTZ, p_employee_id INTEGER DEFAULT NULL)
+RETURNS TABLE (
+    event_id INTEGER,
+    employee_id INTEGER,
+    employee_name TEXT,
+    type TEXT,
+    "timestamp" TIMESTAMPTZ,
+    previous_state TEXT,
+    code TEXT,
+    message TEXT
+) AS $$
+BEGIN
+    IF NOT ponto_has_permission('view_reports') THEN
+        RAISE EXCEPTION 'Sem permissão para consultar relatórios';
+    END IF;
+
+    RETURN QUERY
+    SELECT checked.id, checked.employee_id, checked.employee_name::TEXT, checked.type::TEXT, checked."timestamp",
+           checked.state, checked.code, ponto_punch_error_message(checked.code, checked.type, checked."timestamp")
+    FROM (
+        SELECT e.*, s.state, ponto_punch_transition_error(s.state, e.type) AS code
+        FROM ponto_events e
+        CROSS JOIN LATERAL (SELECT ponto_punch_state(e.employee_id, e."timestamp", e.id) AS state) s
+        WHERE e.deleted_at IS NULL
+          AND e."timestamp" BETWEEN p_start AND p_end
+          AND (p_employee_id IS NULL OR e.employee_id = p_employee_id)
+    ) checked
+    WHERE checked.code IS NOT NULL
+    ORDER BY checked.employee_name, checked."timestamp", checked.id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION validate_punch_sequences(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO authenticated;
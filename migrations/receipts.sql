@@ -0,0 +1,96 @@
+-- Comprovante de registro de ponto (Supabase)
+-- A Portaria MTP nº 671/2021 garante ao trabalhador um comprovante de cada marcação. Cada batida com
+-- NSR recebe, na gravação, um código de verificação SHA-256 (receipt_hash) calculado sobre NSR, CPF,
+-- horário e um valor aleatório, para que não possa ser deduzido a partir dos dados do comprovante.
+-- O código é permanente, como o NSR. A página pública de verificação consulta verify_receipt, que só
+-- devolve os dados da própria marcação (com CPF mascarado) e se ela foi ajustada ou excluída depois.
+-- Execute no SQL Editor do Supabase depois de devices.sql. É seguro executar mais de uma vez.
+
+ALTER TABLE ponto_events ADD COLUMN IF NOT EXISTS receipt_hash CHAR(64);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_receipt_hash ON ponto_events(receipt_hash) WHERE receipt_hash IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION ponto_receipt_hash(p_nsr BIGINT, p_employee_id INTEGER, p_timestamp TIMESTAMPTZ)
+RETURNS CHAR(64) AS $$
+    SELECT encode(extensions.digest(concat_ws('|',
+        p_nsr,
+        (SELECT regexp_replace(coalesce(cpf, ''), '\D', '', 'g') FROM ponto_employees WHERE id = p_employee_id),
+        to_char(p_timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+        gen_random_uuid()
+    ), 'sha256'), 'hex');
+$$ LANGUAGE sql VOLATILE;
+
+-- Dispara depois de trg_ponto_events_server_time (ordem alfabética), quando o NSR já foi atribuído
+CREATE OR REPLACE FUNCTION ponto_events_set_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.nsr IS NOT NULL THEN
+        NEW.receipt_hash := ponto_receipt_hash(NEW.nsr, NEW.employee_id, NEW."timestamp");
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_events_set_receipt ON ponto_events;
+CREATE TRIGGER trg_ponto_events_set_receipt
+    BEFORE INSERT ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_set_receipt();
+
+-- NSR, marcação original, horário de gravação e código do comprovante são permanentes
+CREATE OR REPLACE FUNCTION ponto_events_keep_nsr()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.nsr IS NOT NULL THEN
+        NEW.nsr := OLD.nsr;
+    END IF;
+    IF OLD.original_timestamp IS NOT NULL THEN
+        NEW.original_timestamp := OLD.original_timestamp;
+    END IF;
+    IF OLD.recorded_at IS NOT NULL THEN
+        NEW.recorded_at := OLD.recorded_at;
+    END IF;
+    IF OLD.receipt_hash IS NOT NULL THEN
+        NEW.receipt_hash := OLD.receipt_hash;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Batidas gravadas antes deste script também ganham código (a alteração não mexe em tipo ou horário,
+-- então não passa pela auditoria)
+UPDATE ponto_events
+SET receipt_hash = ponto_receipt_hash(nsr, employee_id, coalesce(original_timestamp, "timestamp"))
+WHERE nsr IS NOT NULL AND receipt_hash IS NULL;
+
+-- Retorna {status: 'valid' | 'adjusted' | 'deleted' | 'not_found', ...dados da marcação}
+CREATE OR REPLACE FUNCTION verify_receipt(p_hash TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_event ponto_events;
+    v_cpf TEXT;
+BEGIN
+    SELECT * INTO v_event FROM ponto_events WHERE receipt_hash = lower(trim(p_hash));
+    IF v_event.id IS NULL THEN
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT regexp_replace(coalesce(cpf, ''), '\D', '', 'g') INTO v_cpf FROM ponto_employees WHERE id = v_event.employee_id;
+
+    RETURN jsonb_build_object(
+        'status', CASE
+            WHEN v_event.deleted_at IS NOT NULL THEN 'deleted'
+            WHEN v_event.edited_at IS NOT NULL THEN 'adjusted'
+            ELSE 'valid'
+        END,
+        'nsr', v_event.nsr,
+        'employee_name', v_event.employee_name,
+        -- Só os dígitos do meio, como em comprovantes impressos: ***.456.789-**
+        'cpf_masked', CASE WHEN length(v_cpf) = 11 THEN '***.' || substr(v_cpf, 4, 3) || '.' || substr(v_cpf, 7, 3) || '-**' END,
+        'type', v_event.type,
+        'timestamp', v_event.original_timestamp,
+        'current_timestamp', CASE WHEN v_event.deleted_at IS NULL THEN v_event."timestamp" END,
+        'recorded_at', v_event.recorded_at
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION verify_receipt(TEXT) TO anon, authenticated;
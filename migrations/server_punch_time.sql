@@ -0,0 +1,61 @@
+-- Horário da batida definido pelo servidor (Supabase)
+-- O quiosque não informa mais o horário oficial: register_punch grava now() do Postgres e guarda o
+-- relógio do dispositivo apenas como informação secundária (client_timestamp).
+
+ALTER TABLE ponto_events
+    ADD COLUMN IF NOT EXISTS client_timestamp TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'kiosk';
+
+ALTER TABLE ponto_events ALTER COLUMN "timestamp" SET DEFAULT now();
+
+-- Batidas de quiosque sempre recebem o horário do servidor, mesmo em inserts diretos na tabela.
+-- Lançamentos administrativos (source = 'manual') mantêm o horário informado.
+CREATE OR REPLACE FUNCTION ponto_events_server_time()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.source = 'kiosk' THEN
+        NEW."timestamp" := now();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_events_server_time ON ponto_events;
+CREATE TRIGGER trg_ponto_events_server_time
+    BEFORE INSERT ON ponto_events
+    FOR EACH ROW EXECUTE FUNCTION ponto_events_server_time();
+
+CREATE OR REPLACE FUNCTION server_now()
+RETURNS TIMESTAMPTZ AS $$
+    SELECT now();
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION register_punch(
+    p_employee_id INTEGER,
+    p_type TEXT,
+    p_client_timestamp TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS ponto_events AS $$
+DECLARE
+    v_name TEXT;
+    v_event ponto_events;
+BEGIN
+    SELECT name INTO v_name FROM ponto_employees WHERE id = p_employee_id;
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", client_timestamp, source)
+    VALUES (p_employee_id, v_name, p_type, now(), p_client_timestamp, 'kiosk')
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION server_now() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION register_punch(INTEGER, TEXT, TIMESTAMPTZ) TO anon, authenticated;
+
+INSERT INTO ponto_settings (key, value)
+VALUES ('clock_drift_threshold_seconds', '120')
+ON CONFLICT (key) DO NOTHING;
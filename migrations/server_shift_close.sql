@@ -0,0 +1,99 @@
+-- Horário do fechamento automático de turno calculado pelo banco (Supabase)
+-- close_open_shift recebia do quiosque o horário da Saída (p_timestamp) e só conferia se ele ficava dentro
+-- do turno: um quiosque alterado podia escolher qualquer horário até max_shift_hours. Agora o banco calcula
+-- a Saída pelo fim da escala do dia da Entrada (a mesma regra de getScheduledShiftEnd em lib/schedules.ts)
+-- e o quiosque só pede o fechamento.
+-- Execute no SQL Editor do Supabase depois de pay_profile_versions.sql. É seguro executar mais de uma vez.
+
+-- Saída prevista pela escala para o turno iniciado em p_entry; NULL sem escala ou em dia de folga
+CREATE OR REPLACE FUNCTION ponto_scheduled_shift_end(p_employee_id INTEGER, p_entry TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_time_zone TEXT := coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'time_zone'), 'America/Sao_Paulo');
+    v_date DATE := (p_entry AT TIME ZONE v_time_zone)::date;
+    v_schedule_id INTEGER;
+    v_effective_from DATE;
+    v_schedule ponto_schedules;
+    v_day JSONB;
+    v_start TIME;
+    v_end TIME;
+BEGIN
+    SELECT schedule_id, effective_from INTO v_schedule_id, v_effective_from
+    FROM ponto_schedule_assignments
+    WHERE employee_id = p_employee_id AND effective_from <= v_date
+    ORDER BY effective_from DESC, id DESC
+    LIMIT 1;
+    SELECT * INTO v_schedule FROM ponto_schedules WHERE id = v_schedule_id;
+    IF v_schedule.id IS NULL OR jsonb_array_length(v_schedule.days) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    -- Semanal: posição pelo dia da semana; ciclo: dias desde o início da atribuição
+    v_day := v_schedule.days -> CASE WHEN v_schedule.kind = 'weekly' THEN extract(dow FROM v_date)::INTEGER
+                                     ELSE (v_date - v_effective_from) % jsonb_array_length(v_schedule.days) END;
+    IF v_day IS NULL OR jsonb_typeof(v_day) <> 'object' THEN
+        RETURN NULL;
+    END IF;
+
+    v_start := (v_day->>'start')::TIME;
+    v_end := (v_day->>'end')::TIME;
+    -- Saída no dia seguinte quando o fim não passa do início (turno noturno)
+    RETURN ((v_date + CASE WHEN v_end <= v_start THEN 1 ELSE 0 END) + v_end) AT TIME ZONE v_time_zone;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Fechamento automático pedido pelo quiosque no login. O banco só fecha se a política for auto_close e o
+-- último turno estiver de fato aberto há mais de max_shift_hours, e grava a Saída no fim da escala desde
+-- que ele fique entre a última batida do turno e agora.
+DROP FUNCTION IF EXISTS close_open_shift(TEXT, INTEGER, TIMESTAMPTZ);
+CREATE OR REPLACE FUNCTION close_open_shift(p_device_token TEXT, p_employee_id INTEGER)
+RETURNS ponto_events AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_max_hours INTEGER := ponto_int_setting('max_shift_hours', 16);
+    v_entry ponto_events;
+    v_last ponto_events;
+    v_end TIMESTAMPTZ;
+    v_event ponto_events;
+BEGIN
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não atende o funcionário %', p_employee_id;
+    END IF;
+    IF coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'open_shift_behavior'), 'block') <> 'auto_close' THEN
+        RAISE EXCEPTION 'O fechamento automático de turnos não está ativado';
+    END IF;
+
+    SELECT * INTO v_last FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL
+    ORDER BY "timestamp" DESC, id DESC LIMIT 1;
+    SELECT * INTO v_entry FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL AND type = 'Entrada'
+    ORDER BY "timestamp" DESC, id DESC LIMIT 1;
+
+    IF v_entry.id IS NULL OR v_last.type = 'Saída' OR now() - v_entry."timestamp" <= make_interval(hours => v_max_hours) THEN
+        RAISE EXCEPTION 'Não há turno aberto para o funcionário %', p_employee_id;
+    END IF;
+
+    v_end := ponto_scheduled_shift_end(p_employee_id, v_entry."timestamp");
+    IF v_end IS NULL THEN
+        RAISE EXCEPTION 'O funcionário % não tem escala no dia da Entrada', p_employee_id;
+    END IF;
+    IF v_end <= v_last."timestamp" OR v_end > now() OR v_end > v_entry."timestamp" + make_interval(hours => v_max_hours) THEN
+        RAISE EXCEPTION 'O fim da escala fica fora do turno aberto';
+    END IF;
+
+    PERFORM set_config('ponto.audit_actor', 'Fechamento automático', true);
+    PERFORM set_config('ponto.audit_reason',
+        format('Turno aberto desde %s fechado no fim da escala (política de turno aberto)',
+            to_char(v_entry."timestamp", 'DD/MM/YYYY HH24:MI')), true);
+
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source)
+    SELECT p_employee_id, name, 'Saída', v_end, 'manual'
+    FROM ponto_employees WHERE id = p_employee_id
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION close_open_shift(TEXT, INTEGER) TO anon, authenticated;
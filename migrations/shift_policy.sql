@@ -0,0 +1,81 @@
+-- Política de turno aberto (Supabase)
+-- max_shift_hours é a duração máxima de um turno, contada da Entrada. Passado esse tempo sem Saída, o
+-- turno está aberto e o app (login do quiosque, agrupamento de turnos e relatórios) aplica open_shift_behavior:
+--   'block'      — impede o login até o setor de pessoal regularizar (ou aprovar uma solicitação de ajuste);
+--   'warn'       — avisa o funcionário e deixa registrar o ponto;
+--   'auto_close' — grava a Saída no fim da escala do dia da Entrada (close_open_shift) e segue para o ponto;
+--   'declare'    — o funcionário informa o horário da saída esquecida, que vira uma solicitação de ajuste.
+-- Execute no SQL Editor do Supabase depois de adjustment_requests.sql. É seguro executar mais de uma vez.
+
+INSERT INTO ponto_settings (key, value) VALUES
+    ('max_shift_hours', '16'),
+    ('open_shift_behavior', '"block"')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION ponto_settings_check_shift_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.key = 'max_shift_hours' AND NOT ((NEW.value #>> '{}') ~ '^\d+$' AND (NEW.value #>> '{}')::INTEGER BETWEEN 4 AND 48) THEN
+        RAISE EXCEPTION 'A duração máxima do turno deve ser de 4 a 48 horas';
+    END IF;
+    IF NEW.key = 'open_shift_behavior' AND (NEW.value #>> '{}') NOT IN ('block', 'warn', 'auto_close', 'declare') THEN
+        RAISE EXCEPTION 'Comportamento inválido para turno aberto: %', NEW.value #>> '{}';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ponto_settings_check_shift_policy ON ponto_settings;
+CREATE TRIGGER trg_ponto_settings_check_shift_policy
+    BEFORE INSERT OR UPDATE ON ponto_settings
+    FOR EACH ROW EXECUTE FUNCTION ponto_settings_check_shift_policy();
+
+-- Fechamento automático pedido pelo quiosque no login. O horário (fim da escala) é calculado pelo app;
+-- o banco só aceita se a política for auto_close, o último turno estiver de fato aberto há mais de
+-- max_shift_hours e o horário ficar entre a última batida do turno e agora.
+CREATE OR REPLACE FUNCTION close_open_shift(p_device_token TEXT, p_employee_id INTEGER, p_timestamp TIMESTAMPTZ)
+RETURNS ponto_events AS $$
+DECLARE
+    v_device ponto_devices := ponto_authorize_device(p_device_token);
+    v_max_hours INTEGER := ponto_int_setting('max_shift_hours', 16);
+    v_entry ponto_events;
+    v_last ponto_events;
+    v_event ponto_events;
+BEGIN
+    IF NOT ponto_device_serves(v_device, p_employee_id) THEN
+        RAISE EXCEPTION 'Este dispositivo não atende o funcionário %', p_employee_id;
+    END IF;
+    IF coalesce((SELECT value #>> '{}' FROM ponto_settings WHERE key = 'open_shift_behavior'), 'block') <> 'auto_close' THEN
+        RAISE EXCEPTION 'O fechamento automático de turnos não está ativado';
+    END IF;
+
+    SELECT * INTO v_last FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL
+    ORDER BY "timestamp" DESC, id DESC LIMIT 1;
+    SELECT * INTO v_entry FROM ponto_events
+    WHERE employee_id = p_employee_id AND deleted_at IS NULL AND type = 'Entrada'
+    ORDER BY "timestamp" DESC, id DESC LIMIT 1;
+
+    IF v_entry.id IS NULL OR v_last.type = 'Saída' OR now() - v_entry."timestamp" <= make_interval(hours => v_max_hours) THEN
+        RAISE EXCEPTION 'Não há turno aberto para o funcionário %', p_employee_id;
+    END IF;
+    IF p_timestamp <= v_last."timestamp" OR p_timestamp > now()
+        OR p_timestamp > v_entry."timestamp" + make_interval(hours => v_max_hours) THEN
+        RAISE EXCEPTION 'Horário de fechamento fora do turno';
+    END IF;
+
+    PERFORM set_config('ponto.audit_actor', 'Fechamento automático', true);
+    PERFORM set_config('ponto.audit_reason',
+        format('Turno aberto desde %s fechado no fim da escala (política de turno aberto)',
+            to_char(v_entry."timestamp", 'DD/MM/YYYY HH24:MI')), true);
+
+    INSERT INTO ponto_events (employee_id, employee_name, type, "timestamp", source)
+    SELECT p_employee_id, name, 'Saída', p_timestamp, 'manual'
+    FROM ponto_employees WHERE id = p_employee_id
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION close_open_shift(TEXT, INTEGER, TIMESTAMPTZ) TO anon, authenticated;
@@ -0,0 +1,19 @@
+-- Banco de horas (Supabase)
+-- O saldo dos turnos é calculado pelo app a partir das batidas; aqui ficam o modo do perfil
+-- e os lançamentos manuais (ajustes e folgas compensadas).
+
+ALTER TABLE ponto_pay_profiles
+    ADD COLUMN IF NOT EXISTS time_bank_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS time_bank_expiry_months INTEGER NOT NULL DEFAULT 6 CHECK (time_bank_expiry_months >= 0);
+
+CREATE TABLE IF NOT EXISTS ponto_time_bank_entries (
+    id SERIAL PRIMARY KEY,
+    employee_id INTEGER NOT NULL REFERENCES ponto_employees(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    minutes INTEGER NOT NULL CHECK (minutes <> 0), -- positivo = crédito, negativo = débito
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('ajuste', 'compensacao')),
+    note TEXT NOT NULL DEFAULT '',
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_bank_entries_employee ON ponto_time_bank_entries(employee_id, date);
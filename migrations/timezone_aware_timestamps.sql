@@ -0,0 +1,45 @@
+-- Fuso horário real para as batidas (Supabase)
+-- Até aqui o app gravava o horário local do dispositivo com sufixo "Z" ("horário local vestido de UTC").
+-- Este script converte o histórico de ponto_events para instantes reais, interpretando os valores
+-- antigos no fuso configurado (padrão America/Sao_Paulo). Execute no SQL Editor do Supabase.
+-- É seguro executar mais de uma vez: a conversão só roda se ainda não tiver sido registrada.
+
+CREATE TABLE IF NOT EXISTS ponto_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+INSERT INTO ponto_settings (key, value)
+VALUES ('time_zone', '"America/Sao_Paulo"')
+ON CONFLICT (key) DO NOTHING;
+
+DO $$
+DECLARE
+    tz TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM ponto_settings WHERE key = 'timestamps_migrated') THEN
+        RAISE NOTICE 'ponto_events já convertido, nada a fazer.';
+        RETURN;
+    END IF;
+
+    SELECT value #>> '{}' INTO tz FROM ponto_settings WHERE key = 'time_zone';
+
+    -- Garantir que a coluna guarda instantes (timestamptz). Valores sem fuso são lidos como UTC,
+    -- que é exatamente como o app os interpretava.
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'ponto_events' AND column_name = 'timestamp'
+          AND data_type = 'timestamp without time zone'
+    ) THEN
+        ALTER TABLE ponto_events
+            ALTER COLUMN "timestamp" TYPE TIMESTAMPTZ USING "timestamp" AT TIME ZONE 'UTC';
+    END IF;
+
+    -- "08:00Z" gravado por um quiosque em Brasília passa a ser 08:00 em America/Sao_Paulo (11:00Z)
+    UPDATE ponto_events
+    SET "timestamp" = ("timestamp" AT TIME ZONE 'UTC') AT TIME ZONE tz;
+
+    INSERT INTO ponto_settings (key, value)
+    VALUES ('timestamps_migrated', to_jsonb(now()));
+END $$;
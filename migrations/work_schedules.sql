@@ -0,0 +1,22 @@
+-- Escalas de trabalho (Supabase)
+-- days guarda um array JSON com o horário esperado de cada posição (null = folga):
+-- 7 posições indexadas pelo dia da semana (kind = 'weekly') ou um ciclo de N dias (kind = 'cycle').
+
+CREATE TABLE IF NOT EXISTS ponto_schedules (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    kind VARCHAR(10) NOT NULL DEFAULT 'weekly' CHECK (kind IN ('weekly', 'cycle')),
+    days JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Em escalas de ciclo, effective_from é o primeiro dia do ciclo para aquele funcionário
+CREATE TABLE IF NOT EXISTS ponto_schedule_assignments (
+    id SERIAL PRIMARY KEY,
+    schedule_id INTEGER NOT NULL REFERENCES ponto_schedules(id) ON DELETE CASCADE,
+    employee_id INTEGER NOT NULL REFERENCES ponto_employees(id) ON DELETE CASCADE,
+    effective_from DATE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_assignments_employee ON ponto_schedule_assignments(employee_id);
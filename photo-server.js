@@ -0,0 +1,96 @@
+// Servidor de fotos das batidas para instalações que guardam as imagens no disco local em vez do
+// Supabase Storage. O app usa este servidor quando VITE_PHOTO_STORAGE_URL aponta para ele.
+//   PUT /<funcionário>/<uuid>.jpg — envio pelo quiosque; exige o token do dispositivo da batida no
+//     cabeçalho X-Device-Token e o caminho já vinculado por attach_punch_photo. Nunca substitui arquivos.
+//   GET /<funcionário>/<arquivo>.jpg — leitura pelo painel; exige o token de um gestor com view_reports.
+// Uso: node photo-server.js (PHOTO_STORAGE_DIR e PHOTO_SERVER_PORT opcionais no .env)
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const storageDir = path.resolve(process.env.PHOTO_STORAGE_DIR || 'fotos');
+const port = Number(process.env.PHOTO_SERVER_PORT || 8787);
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.VITE_SUPABASE_ANON_KEY;
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+const PHOTO_PATH = /^\/(\d+)\/([\w-]+\.jpg)$/;
+
+if (!supabaseUrl || !supabaseKey) {
+  throw new Error("Faltam as credenciais do Supabase no .env");
+}
+
+// Confere no banco se o caminho foi vinculado a uma batida recente deste dispositivo
+async function canUploadPhoto(deviceToken, photoPath) {
+  if (!deviceToken) return false;
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/ponto_photo_upload_allowed`, {
+    method: 'POST',
+    headers: { apikey: supabaseKey, Authorization: `Bearer ${supabaseKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ p_device_token: deviceToken, p_path: photoPath }),
+  });
+  return response.ok && (await response.json()) === true;
+}
+
+// Confere no banco, com o token do próprio gestor, se ele pode ver os relatórios
+async function canViewPhotos(authorization) {
+  if (!authorization?.startsWith('Bearer ')) return false;
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/ponto_has_permission`, {
+    method: 'POST',
+    headers: { apikey: supabaseKey, Authorization: authorization, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ p_permission: 'view_reports' }),
+  });
+  return response.ok && (await response.json()) === true;
+}
+
+async function readBody(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_PHOTO_BYTES) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Device-Token');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const match = PHOTO_PATH.exec(new URL(req.url, 'http://localhost').pathname);
+  if (!match) return res.writeHead(404).end();
+  const file = path.join(storageDir, match[1], match[2]);
+
+  try {
+    if (req.method === 'PUT') {
+      if (!(await canUploadPhoto(req.headers['x-device-token'], `${match[1]}/${match[2]}`))) return res.writeHead(403).end();
+      const body = await readBody(req);
+      if (!body) return res.writeHead(413).end();
+      // Todo JPEG começa com FF D8 FF
+      if (body.length < 3 || body[0] !== 0xff || body[1] !== 0xd8 || body[2] !== 0xff) return res.writeHead(415).end();
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body, { flag: 'wx' });
+      return res.writeHead(201).end();
+    }
+
+    if (req.method === 'GET') {
+      if (!(await canViewPhotos(req.headers.authorization))) return res.writeHead(403).end();
+      const photo = await fs.readFile(file);
+      return res.writeHead(200, { 'Content-Type': 'image/jpeg', 'Cache-Control': 'private, max-age=300' }).end(photo);
+    }
+
+    res.writeHead(405).end();
+  } catch (error) {
+    if (error.code === 'EEXIST') return res.writeHead(409).end();
+    if (error.code === 'ENOENT') return res.writeHead(404).end();
+    console.error('Erro no servidor de fotos:', error);
+    res.writeHead(500).end();
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Servidor de fotos em http://localhost:${port} (arquivos em ${storageDir})`);
+});
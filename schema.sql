@@ -1,39 +1,231 @@
 -- Schema para o sistema de ponto eletrônico
--- Vercel Postgres
+-- Vercel Postgres: backend das rotas de api/ (VITE_DATA_BACKEND=postgres). Cria as tabelas e atualiza as
+-- de instalações antigas (employees/events com PIN em texto e horários sem fuso). É executado por
+-- POST /api/init-db, que depois troca os PINs em texto pelo hash; é seguro executar mais de uma vez.
 
--- Tabela de funcionários
+CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO settings (key, value)
+VALUES ('time_zone', '"America/Sao_Paulo"')
+ON CONFLICT (key) DO NOTHING;
+
+-- Tabela de funcionários. O PIN fica só como hash (api/_shared.js), nunca em texto.
 CREATE TABLE IF NOT EXISTS employees (
     id SERIAL PRIMARY KEY,
     name VARCHAR(255) NOT NULL,
-    pin VARCHAR(4) NOT NULL UNIQUE,
-    phone VARCHAR(20) NOT NULL,
+    phone VARCHAR(20) NOT NULL DEFAULT '',
     cpf VARCHAR(14),
     funcao VARCHAR(100),
     pix VARCHAR(255),
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    rest_weekday SMALLINT NOT NULL DEFAULT 0,
+    pin_hash TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
 );
 
--- Tabela de eventos de ponto
+ALTER TABLE employees
+    ADD COLUMN IF NOT EXISTS cpf VARCHAR(14),
+    ADD COLUMN IF NOT EXISTS funcao VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS pix VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS rest_weekday SMALLINT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS pin_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_employees_pin_hash ON employees(pin_hash);
+
+-- Tabela de eventos de ponto. Batidas não são apagadas: a exclusão preenche deleted_at.
 CREATE TABLE IF NOT EXISTS events (
     id SERIAL PRIMARY KEY,
     employee_id INTEGER NOT NULL,
     employee_name VARCHAR(255) NOT NULL,
     type VARCHAR(50) NOT NULL,
-    timestamp TIMESTAMP NOT NULL,
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (employee_id) REFERENCES employees(id) ON DELETE CASCADE
+    timestamp TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (employee_id) REFERENCES employees(id)
 );
 
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS source VARCHAR(10),
+    ADD COLUMN IF NOT EXISTS client_timestamp TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+    ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS original_timestamp TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS time_zone TEXT;
+
+-- Instalações antigas gravavam o horário UTC enviado pelo app em colunas sem fuso
+DO $$
+BEGIN
+    IF (SELECT data_type FROM information_schema.columns WHERE table_name = 'events' AND column_name = 'timestamp')
+       = 'timestamp without time zone' THEN
+        ALTER TABLE events ALTER COLUMN timestamp TYPE TIMESTAMPTZ USING timestamp AT TIME ZONE 'UTC';
+        ALTER TABLE events ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at AT TIME ZONE 'UTC';
+        ALTER TABLE employees ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at AT TIME ZONE 'UTC';
+    END IF;
+END $$;
+
+-- A exclusão do funcionário não leva mais as batidas junto (api/employees.js recusa a exclusão)
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_employee_id_fkey;
+ALTER TABLE events ADD CONSTRAINT events_employee_id_fkey FOREIGN KEY (employee_id) REFERENCES employees(id);
+
+-- Cada batida guarda o fuso em vigor quando foi gravada; as antigas recebem o fuso atual
+UPDATE events SET time_zone = COALESCE((SELECT value #>> '{}' FROM settings WHERE key = 'time_zone'), 'America/Sao_Paulo')
+WHERE time_zone IS NULL;
+ALTER TABLE events ALTER COLUMN time_zone SET NOT NULL;
+
 -- Índices para melhorar performance
 CREATE INDEX IF NOT EXISTS idx_events_employee_id ON events(employee_id);
 CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp);
 CREATE INDEX IF NOT EXISTS idx_events_type ON events(type);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_idempotency_key ON events(idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- Trilha de auditoria das alterações do gestor (inclusão manual, ajuste e exclusão)
+CREATE TABLE IF NOT EXISTS event_audit (
+    id SERIAL PRIMARY KEY,
+    event_id INTEGER NOT NULL REFERENCES events(id),
+    action VARCHAR(10) NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    actor TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    old_value JSONB,
+    new_value JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_audit_event_id ON event_audit(event_id);
+
+-- Sessões curtas abertas pelo PIN certo; o banco guarda só o hash do token
+CREATE TABLE IF NOT EXISTS employee_sessions (
+    token_hash TEXT PRIMARY KEY,
+    employee_id INTEGER NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Tentativas de PIN do quiosque, para o bloqueio do teclado
+CREATE TABLE IF NOT EXISTS pin_attempts (
+    id SERIAL PRIMARY KEY,
+    employee_id INTEGER REFERENCES employees(id) ON DELETE SET NULL,
+    success BOOLEAN NOT NULL,
+    attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS holidays (
+    id SERIAL PRIMARY KEY,
+    date DATE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    scope VARCHAR(20) NOT NULL DEFAULT 'empresa' CHECK (scope IN ('estadual', 'municipal', 'empresa')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (date, name)
+);
+
+-- Perfis de remuneração, com as mesmas regras de versão de migrations/pay_profile_versions.sql
+CREATE TABLE IF NOT EXISTS pay_profiles (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    pay_type VARCHAR(10) NOT NULL DEFAULT 'hourly' CHECK (pay_type IN ('hourly', 'monthly')),
+    hourly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    monthly_salary NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    monthly_hours INTEGER NOT NULL DEFAULT 220,
+    daily_journey_minutes INTEGER NOT NULL DEFAULT 480,
+    overtime_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 1.5,
+    night_premium_percent NUMERIC(5, 2) NOT NULL DEFAULT 20,
+    holiday_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 2,
+    time_bank_enabled BOOLEAN NOT NULL DEFAULT false,
+    time_bank_expiry_months INTEGER NOT NULL DEFAULT 6,
+    replaced_by INTEGER REFERENCES pay_profiles(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- employee_id preenchido = individual; funcao preenchida = todos daquela função; ambos nulos = geral
+CREATE TABLE IF NOT EXISTS pay_assignments (
+    id SERIAL PRIMARY KEY,
+    profile_id INTEGER NOT NULL REFERENCES pay_profiles(id),
+    employee_id INTEGER REFERENCES employees(id) ON DELETE CASCADE,
+    funcao VARCHAR(100),
+    effective_from DATE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Perfil com atribuições não muda de valores nem é excluído: a edição vira uma nova versão
+CREATE OR REPLACE FUNCTION pay_profiles_protect_assigned()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pay_assignments WHERE profile_id = OLD.id) THEN
+        RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'O perfil "%" tem atribuições e não pode ser excluído', OLD.name;
+    END IF;
+    IF (NEW.pay_type, NEW.hourly_rate, NEW.monthly_salary, NEW.monthly_hours, NEW.daily_journey_minutes,
+        NEW.overtime_multiplier, NEW.night_premium_percent, NEW.holiday_multiplier, NEW.time_bank_enabled,
+        NEW.time_bank_expiry_months)
+       IS DISTINCT FROM
+       (OLD.pay_type, OLD.hourly_rate, OLD.monthly_salary, OLD.monthly_hours, OLD.daily_journey_minutes,
+        OLD.overtime_multiplier, OLD.night_premium_percent, OLD.holiday_multiplier, OLD.time_bank_enabled,
+        OLD.time_bank_expiry_months) THEN
+        RAISE EXCEPTION 'O perfil "%" já está atribuído; salve os novos valores como uma nova versão', OLD.name;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_pay_profiles_protect_assigned ON pay_profiles;
+CREATE TRIGGER trg_pay_profiles_protect_assigned
+    BEFORE UPDATE OR DELETE ON pay_profiles
+    FOR EACH ROW EXECUTE FUNCTION pay_profiles_protect_assigned();
+
+-- Grava os novos valores como versão do perfil p_profile_id, vigente a partir de p_effective_from
+-- (a permissão do gestor é conferida por api/pay-rules.js)
+CREATE OR REPLACE FUNCTION save_pay_profile_version(p_profile_id INTEGER, p_profile JSONB, p_effective_from DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    v_old pay_profiles;
+    v_new_id INTEGER;
+BEGIN
+    SELECT * INTO v_old FROM pay_profiles WHERE id = p_profile_id FOR UPDATE;
+    IF v_old.id IS NULL THEN
+        RAISE EXCEPTION 'Perfil % não encontrado', p_profile_id;
+    END IF;
+    IF v_old.replaced_by IS NOT NULL THEN
+        RAISE EXCEPTION 'O perfil "%" já foi substituído por uma versão mais nova', v_old.name;
+    END IF;
+    IF p_effective_from IS NULL THEN
+        RAISE EXCEPTION 'Informe a partir de quando valem os novos valores';
+    END IF;
+
+    INSERT INTO pay_profiles (name, pay_type, hourly_rate, monthly_salary, monthly_hours, daily_journey_minutes,
+                              overtime_multiplier, night_premium_percent, holiday_multiplier, time_bank_enabled,
+                              time_bank_expiry_months)
+    VALUES (p_profile->>'name', p_profile->>'pay_type', (p_profile->>'hourly_rate')::numeric,
+            (p_profile->>'monthly_salary')::numeric, (p_profile->>'monthly_hours')::integer,
+            (p_profile->>'daily_journey_minutes')::integer, (p_profile->>'overtime_multiplier')::numeric,
+            (p_profile->>'night_premium_percent')::numeric, (p_profile->>'holiday_multiplier')::numeric,
+            (p_profile->>'time_bank_enabled')::boolean, (p_profile->>'time_bank_expiry_months')::integer)
+    RETURNING id INTO v_new_id;
+
+    -- Quem usava a versão anterior na data passa para a nova
+    INSERT INTO pay_assignments (profile_id, employee_id, funcao, effective_from)
+    SELECT v_new_id, latest.employee_id, latest.funcao, p_effective_from
+    FROM (
+        SELECT DISTINCT ON (employee_id, funcao) profile_id, employee_id, funcao
+        FROM pay_assignments
+        WHERE effective_from < p_effective_from
+        ORDER BY employee_id, funcao, effective_from DESC, id DESC
+    ) latest
+    WHERE latest.profile_id = p_profile_id
+      AND NOT EXISTS (
+          SELECT 1 FROM pay_assignments a
+          WHERE a.employee_id IS NOT DISTINCT FROM latest.employee_id AND a.funcao IS NOT DISTINCT FROM latest.funcao
+            AND a.effective_from = p_effective_from
+      );
+
+    -- As que começam na data ou depois dela já são da nova versão
+    UPDATE pay_assignments SET profile_id = v_new_id
+    WHERE profile_id = p_profile_id AND effective_from >= p_effective_from;
 
--- Inserir funcionários padrão (se não existirem)
-INSERT INTO employees (name, pin, phone) 
-VALUES 
-    ('Ana Silva', '1234', '11987654321'),
-    ('Bruno Costa', '5678', '21987654321'),
-    ('Carla Dias', '4321', '31987654321'),
-    ('Daniel Alves', '8765', '41987654321')
-ON CONFLICT (pin) DO NOTHING;
+    UPDATE pay_profiles SET replaced_by = v_new_id WHERE id = p_profile_id;
+    RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql;
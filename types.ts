@@ -1,11 +1,13 @@
 export interface Employee {
   id: number;
   name: string;
-  pin: string;
+  pin?: string; // Só usado para definir um novo PIN; o banco guarda apenas o hash
+  birthDate?: string; // YYYY-MM-DD; só usado para definir o acesso à área do funcionário (fica em ponto_credentials)
   phone: string;
   cpf?: string;
   funcao?: string;
   pix?: string;
+  restWeekday?: number; // Dia do descanso semanal remunerado (0 = domingo)
 }
 
 export enum ClockType {
@@ -15,6 +17,10 @@ export enum ClockType {
   Saida = "Saída",
 }
 
+// Origem do registro: batida no quiosque (horário do servidor), batida feita sem conexão e
+// sincronizada depois (horário do dispositivo) ou lançamento administrativo
+export type ClockEventSource = 'kiosk' | 'offline' | 'manual';
+
 export interface ClockEvent {
   type: ClockType;
   timestamp: Date;
@@ -24,9 +30,275 @@ export interface StoredClockEvent extends ClockEvent {
   id: number;
   employeeId: number;
   employeeName: string;
+  source?: ClockEventSource;
+  clientTimestamp?: Date | null;
+  editedAt?: Date | null; // Última alteração administrativa de tipo/horário
+  originalTimestamp?: Date | null; // Marcação original, preservada mesmo após ajustes
+  pendingSync?: boolean; // Batida offline ainda na fila do quiosque (não existe no banco)
+  photoPath?: string | null; // Foto tirada no momento da batida (ver lib/photoStorage.ts)
+  location?: PunchLocation | null; // Localização do aparelho, quando a cerca virtual está ativa
+  siteName?: string | null; // Local permitido mais próximo no momento da batida
+  siteDistanceMeters?: number | null;
+  outsideGeofence?: boolean;
+  deviceId?: number | null; // Dispositivo cadastrado que registrou a batida
+  adjustmentRequestId?: number | null; // Solicitação de ajuste aprovada que gravou ou corrigiu a batida
+  timeZone?: string; // Fuso em vigor quando a batida foi gravada (ver eventTimeZone em lib/dateTime.ts)
 }
 
 export interface AppState {
   employees: Employee[];
   events: StoredClockEvent[];
 }
+
+// Perfil de remuneração: valor da hora, adicional de horas extras e jornada diária contratada
+export type PayType = 'hourly' | 'monthly';
+
+export interface PayProfile {
+  id: number;
+  name: string;
+  payType: PayType;
+  hourlyRate: number;
+  monthlySalary: number;
+  monthlyHours: number; // Divisor para obter o valor da hora do mensalista (ex: 220)
+  dailyJourneyMinutes: number;
+  overtimeMultiplier: number; // 1.5 = hora extra a 50%, 2 = 100%
+  nightPremiumPercent: number; // Adicional noturno sobre a hora das 22h às 5h (CLT: mínimo 20%)
+  holidayMultiplier: number; // Horas em feriados e no descanso semanal (2 = 100%)
+  timeBankEnabled: boolean; // Saldo do dia vai para o banco de horas em vez de ser pago como extra
+  timeBankExpiryMonths: number; // Validade dos créditos do banco (0 = não vencem)
+  replacedBy: number | null; // Versão mais nova do perfil; esta continua valendo nas atribuições anteriores
+}
+
+// Vínculo de um perfil a um funcionário, a uma função ou a todos (ambos nulos), a partir de uma data
+export interface PayProfileAssignment {
+  id: number;
+  profileId: number;
+  employeeId: number | null;
+  funcao: string | null;
+  effectiveFrom: string; // YYYY-MM-DD
+}
+
+export interface PayRules {
+  profiles: PayProfile[];
+  assignments: PayProfileAssignment[];
+}
+
+export type HolidayScope = 'nacional' | 'estadual' | 'municipal' | 'empresa';
+
+export interface Holiday {
+  id: number; // 0 para feriados nacionais gerados automaticamente
+  date: string; // YYYY-MM-DD
+  name: string;
+  scope: HolidayScope;
+}
+
+// Classificação do dia de um turno para fins de pagamento
+export interface DayClassification {
+  kind: 'regular' | 'rest_day' | 'holiday';
+  holidayName?: string;
+}
+
+// Lançamento manual no banco de horas: ajuste (crédito/débito) ou dia de folga compensada
+export type TimeBankEntryKind = 'ajuste' | 'compensacao';
+
+export interface TimeBankEntry {
+  id: number;
+  employeeId: number;
+  date: string; // YYYY-MM-DD
+  minutes: number; // Positivo = crédito, negativo = débito
+  kind: TimeBankEntryKind;
+  note: string;
+}
+
+// Horário esperado de um dia da escala. Se end <= start, a saída é no dia seguinte.
+export interface ScheduleDay {
+  start: string; // HH:mm
+  end: string; // HH:mm
+  breakMinutes: number;
+  breakStart?: string; // HH:mm; sem ele, só a duração do intervalo é conferida
+}
+
+// weekly: days tem 7 posições (0 = domingo). cycle: days se repete a partir do início da atribuição (12x36, revezamento).
+// Posição null = folga.
+export type ScheduleKind = 'weekly' | 'cycle';
+
+export interface WorkSchedule {
+  id: number;
+  name: string;
+  kind: ScheduleKind;
+  days: (ScheduleDay | null)[];
+}
+
+export interface ScheduleAssignment {
+  id: number;
+  scheduleId: number;
+  employeeId: number;
+  effectiveFrom: string; // YYYY-MM-DD, também é o dia 1 do ciclo
+}
+
+export interface ScheduleRules {
+  schedules: WorkSchedule[];
+  assignments: ScheduleAssignment[];
+}
+
+// Afastamentos e ausências registrados pelo administrador (período inclusivo)
+export type LeaveKind = 'ferias' | 'atestado' | 'falta_justificada' | 'falta_injustificada' | 'folga';
+
+export interface Leave {
+  id: number;
+  employeeId: number;
+  kind: LeaveKind;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  note: string;
+  attachmentPath: string | null; // Caminho no bucket de anexos (ex: foto do atestado)
+}
+
+// Registro imutável da trilha de auditoria de uma batida (tabela ponto_event_audit)
+export type EventAuditAction = 'insert' | 'update' | 'delete';
+
+export interface EventAuditEntry {
+  id: number;
+  eventId: number;
+  action: EventAuditAction;
+  actor: string;
+  reason: string;
+  oldValue: ClockEvent | null;
+  newValue: ClockEvent | null;
+  createdAt: Date;
+}
+
+// Contas de gestores (Supabase Auth + ponto_managers). O papel define as permissões no painel e no banco.
+export type ManagerRole = 'owner' | 'hr' | 'supervisor';
+
+export type Permission =
+  | 'view_reports'
+  | 'export_files'
+  | 'manage_employees'
+  | 'edit_events'
+  | 'manage_leaves'
+  | 'manage_settings'
+  | 'approve_adjustments'
+  | 'manage_managers';
+
+export interface Manager {
+  id: number;
+  email: string;
+  name: string;
+  role: ManagerRole;
+  active: boolean;
+}
+
+// Alertas gerados pelo banco quando o teclado de PIN é bloqueado por excesso de tentativas
+export type SecurityAlertKind = 'kiosk_lockout' | 'installation_lockout';
+
+export interface SecurityAlert {
+  id: number;
+  kind: SecurityAlertKind;
+  kioskId: string | null;
+  message: string;
+  createdAt: Date;
+}
+
+// Solicitação de ajuste feita pelo funcionário (ponto_adjustment_requests):
+// 'missing' = batida esquecida, 'wrong_time' = corrigir o horário de uma batida existente
+export type AdjustmentRequestKind = 'missing' | 'wrong_time';
+export type AdjustmentRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AdjustmentRequest {
+  id: number;
+  employeeId: number;
+  kind: AdjustmentRequestKind;
+  eventId: number | null;
+  type: ClockType;
+  requestedTimestamp: Date;
+  reason: string;
+  attachmentPath: string | null;
+  origin: 'kiosk' | 'portal';
+  status: AdjustmentRequestStatus;
+  createdAt: Date;
+  decidedAt: Date | null;
+  decidedBy: string | null;
+  decisionNote: string | null;
+}
+
+// Batida offline que o banco não aceitou automaticamente ao sincronizar (ponto_offline_conflicts)
+export interface OfflineConflict {
+  id: number;
+  kioskId: string;
+  employeeId: number | null;
+  employeeName: string;
+  type: ClockType;
+  timestamp: Date; // Horário do dispositivo já corrigido
+  clientTimestamp: Date;
+  reason: string;
+  createdAt: Date;
+}
+
+// Localização informada pelo aparelho no momento da batida
+export interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // Raio de incerteza, em metros
+}
+
+// Local onde as batidas são permitidas (cerca virtual)
+export interface Site {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  active: boolean;
+}
+
+// Quiosque autorizado a registrar batidas (cadastrado com código de uso único)
+export interface Device {
+  id: number;
+  name: string;
+  kioskId: string;
+  allowedEmployeeIds: number[] | null; // null: todos os funcionários
+  allowedSiteIds: number[] | null; // null: todos os locais ativos
+  createdAt: Date;
+  createdBy: string | null;
+  lastSeenAt: Date | null;
+  revokedAt: Date | null;
+  revokedBy: string | null;
+}
+
+// Comprovante de registro de ponto entregue ao trabalhador (Portaria MTP nº 671/2021)
+export interface PunchReceipt {
+  nsr: number;
+  employeeName: string;
+  employeeCpf: string;
+  employerName: string;
+  employerDocument: string;
+  type: ClockType;
+  timestamp: Date;
+  timeZone: string; // Fuso em que a batida foi gravada
+  hash: string; // Código de verificação SHA-256 gravado com a batida
+}
+
+// Resultado de uma batida no quiosque; 'queued' = sem conexão, guardada na fila offline (sem comprovante até sincronizar)
+export type PunchResult = { status: 'registered'; receipt: PunchReceipt | null } | { status: 'queued' };
+
+// Funcionário identificado pelo PIN no quiosque ou na área do funcionário, com o próprio cadastro e as próprias batidas
+export interface EmployeeSession {
+  employee: Employee;
+  events: StoredClockEvent[];
+}
+
+export type ReceiptStatus = 'valid' | 'adjusted' | 'deleted' | 'not_found';
+
+// Resultado da página pública de verificação de comprovante
+export interface ReceiptVerification {
+  status: ReceiptStatus;
+  nsr?: number;
+  employeeName?: string;
+  maskedCpf?: string | null;
+  type?: ClockType;
+  timestamp?: Date; // Marcação original
+  currentTimestamp?: Date | null; // Horário atual, se ajustado depois
+  recordedAt?: Date | null;
+  timeZone?: string; // Fuso em que a batida foi gravada
+}